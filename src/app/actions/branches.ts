@@ -0,0 +1,66 @@
+"use server"
+
+/**
+ * Branches - Server actions for the organization's branches
+ */
+
+import { revalidatePath } from "next/cache"
+import dbConnect from "@/lib/db"
+import { branchSchema, type BranchInput } from "@/lib/validations"
+import { requireTenant } from "@/lib/tenant"
+import { PERMISSIONS } from "@/lib/permissions"
+import { REVALIDATE_PATHS, ERROR_MESSAGES } from "@/lib/constants"
+
+/**
+ * Adds a branch. The organization's first branch takes over every record from before it had
+ * branches, so per-branch reports add up to the consolidated view.
+ */
+export async function createBranch(data: BranchInput) {
+  const { user, db } = await requireTenant(PERMISSIONS.SETTINGS_MANAGE)
+
+  const validatedData = branchSchema.parse(data)
+  await dbConnect()
+
+  const existingBranch = await db.Branch.findOne({ name: validatedData.name })
+  if (existingBranch) {
+    throw new Error("Branch with this name already exists")
+  }
+
+  const isFirst = !(await db.Branch.exists({}))
+  const [branch] = await db.Branch.create([{ ...validatedData, createdBy: user.id }])
+
+  if (isFirst) {
+    await db.IncomeRecord.updateMany({ branch: { $exists: false } }, { branch: branch._id })
+    await db.ExpenseRecord.updateMany({ branch: { $exists: false } }, { branch: branch._id })
+  }
+
+  REVALIDATE_PATHS.BRANCHES.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(branch)) }
+}
+
+/** Renames a branch or changes its details; deactivating hides it from the switcher and new records */
+export async function updateBranch(id: string, data: BranchInput) {
+  const { db } = await requireTenant(PERMISSIONS.SETTINGS_MANAGE)
+
+  const validatedData = branchSchema.parse(data)
+  await dbConnect()
+
+  const existingBranch = await db.Branch.findOne({
+    name: validatedData.name,
+    _id: { $ne: id },
+  })
+  if (existingBranch) {
+    throw new Error("Branch with this name already exists")
+  }
+
+  const branch = await db.Branch.findOneAndUpdate({ _id: id }, validatedData, { new: true })
+
+  if (!branch) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  REVALIDATE_PATHS.BRANCHES.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(branch)) }
+}
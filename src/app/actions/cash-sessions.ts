@@ -0,0 +1,107 @@
+"use server"
+
+/**
+ * Cash Sessions - Server actions for opening, topping up and closing the cash drawer
+ */
+
+import { revalidatePath } from "next/cache"
+import dbConnect from "@/lib/db"
+import {
+  openCashSessionSchema,
+  cashMovementSchema,
+  closeCashSessionSchema,
+  type OpenCashSessionInput,
+  type CashMovementInput,
+  type CloseCashSessionInput,
+} from "@/lib/validations"
+import { requireTenant } from "@/lib/tenant"
+import { PERMISSIONS } from "@/lib/permissions"
+import { recordBranch } from "@/lib/branches"
+import { openSessionFilter, summarizeCashSession } from "@/lib/cash-drawer"
+import { REVALIDATE_PATHS, CASH_SESSION_STATUS } from "@/lib/constants"
+
+const NO_OPEN_SESSION = "No cash session is open"
+
+export async function openCashSession(data: OpenCashSessionInput) {
+  const { user, db } = await requireTenant(PERMISSIONS.CASH_DRAWER_USE)
+
+  const validatedData = openCashSessionSchema.parse(data)
+  await dbConnect()
+
+  // Each branch has its own till
+  const branch = await recordBranch(db, user)
+  const openSession = await db.CashSession.exists({ status: CASH_SESSION_STATUS.OPEN, branch: branch ?? null })
+  if (openSession) {
+    throw new Error("A cash session is already open. Close it before opening a new one.")
+  }
+
+  const [session] = await db.CashSession.create([
+    { openingFloat: validatedData.openingFloat, openedBy: user.id, openedAt: new Date(), branch },
+  ])
+
+  REVALIDATE_PATHS.CASH_DRAWER.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(session)) }
+}
+
+/** Records cash put into or taken out of the drawer outside of sales and expenses */
+export async function addCashMovement(data: CashMovementInput) {
+  const { user, db } = await requireTenant(PERMISSIONS.CASH_DRAWER_USE)
+
+  const validatedData = cashMovementSchema.parse(data)
+  await dbConnect()
+
+  const session = await db.CashSession.findOneAndUpdate(
+    await openSessionFilter(db, user),
+    { $push: { movements: { ...validatedData, createdBy: user.id, createdAt: new Date() } } },
+    { new: true },
+  )
+
+  if (!session) {
+    throw new Error(NO_OPEN_SESSION)
+  }
+
+  REVALIDATE_PATHS.CASH_DRAWER.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(session)) }
+}
+
+/** Closes the open session with the counted cash, storing the takings and the over/short variance */
+export async function closeCashSession(data: CloseCashSessionInput) {
+  const { user, db } = await requireTenant(PERMISSIONS.CASH_DRAWER_USE)
+
+  const validatedData = closeCashSessionSchema.parse(data)
+  await dbConnect()
+
+  const openSession = await db.CashSession.findOne(await openSessionFilter(db, user))
+  if (!openSession) {
+    throw new Error(NO_OPEN_SESSION)
+  }
+
+  const closedAt = new Date()
+  const summary = await summarizeCashSession(user.organization, openSession, closedAt)
+  const variance = Math.round((validatedData.countedCash - summary.expectedCash) * 100) / 100
+
+  // Matching on the status keeps a second close from overwriting the first
+  const session = await db.CashSession.findOneAndUpdate(
+    { _id: openSession._id, status: CASH_SESSION_STATUS.OPEN },
+    {
+      status: CASH_SESSION_STATUS.CLOSED,
+      closedBy: user.id,
+      closedAt,
+      countedCash: validatedData.countedCash,
+      variance,
+      summary,
+      notes: validatedData.notes || undefined,
+    },
+    { new: true },
+  )
+
+  if (!session) {
+    throw new Error("This cash session has already been closed")
+  }
+
+  REVALIDATE_PATHS.CASH_DRAWER.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(session)) }
+}
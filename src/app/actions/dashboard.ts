@@ -4,28 +4,28 @@
  * Dashboard - Server actions for fetching dashboard statistics and chart data
  */
 
-import { getServerSession } from "next-auth"
 import dbConnect from "@/lib/db"
-import IncomeRecord from "@/models/IncomeRecord"
-import ExpenseRecord from "@/models/ExpenseRecord"
-import { authOptions } from "@/lib/auth"
+import { requireTenant } from "@/lib/tenant"
+import { branchFilter } from "@/lib/branches"
+import { PERMISSIONS } from "@/lib/permissions"
 import { getDateRange } from "@/lib/utils"
-import type { DashboardStats, ChartData } from "@/types"
+import { NOT_VOIDED } from "@/lib/voids"
+import type { DashboardStats, ChartData, BranchSummary } from "@/types"
 
 /**
  * Dashboard data aggregation
  */
 
 export async function getDashboardStats(dateFilter = "month"): Promise<DashboardStats> {
-  const session = await getServerSession(authOptions)
-  if (!session?.user?.id) throw new Error("Unauthorized")
+  const { user, db } = await requireTenant(PERMISSIONS.DASHBOARD_VIEW)
 
   await dbConnect()
   const { start, end } = getDateRange(dateFilter)
+  const branch = branchFilter(user)
 
   const [incomeRecords, expenseRecords] = await Promise.all([
-    IncomeRecord.find({ date: { $gte: start, $lte: end }, organization: session.user.organization }),
-    ExpenseRecord.find({ date: { $gte: start, $lte: end }, organization: session.user.organization }),
+    db.IncomeRecord.find({ date: { $gte: start, $lte: end }, ...NOT_VOIDED, ...branch }),
+    db.ExpenseRecord.find({ date: { $gte: start, $lte: end }, ...NOT_VOIDED, ...branch }),
   ])
 
   const totalIncome = incomeRecords.reduce((sum, r) => sum + r.totalAmount, 0)
@@ -45,15 +45,15 @@ export async function getDashboardStats(dateFilter = "month"): Promise<Dashboard
 }
 
 export async function getChartData(dateFilter = "month"): Promise<ChartData[]> {
-  const session = await getServerSession(authOptions)
-  if (!session?.user?.id) throw new Error("Unauthorized")
+  const { user, db } = await requireTenant(PERMISSIONS.DASHBOARD_VIEW)
 
   await dbConnect()
   const { start, end } = getDateRange(dateFilter)
+  const branch = branchFilter(user)
 
   const [incomeRecords, expenseRecords] = await Promise.all([
-    IncomeRecord.find({ date: { $gte: start, $lte: end }, organization: session.user.organization }).sort({ date: 1 }),
-    ExpenseRecord.find({ date: { $gte: start, $lte: end }, organization: session.user.organization }).sort({ date: 1 }),
+    db.IncomeRecord.find({ date: { $gte: start, $lte: end }, ...NOT_VOIDED, ...branch }).sort({ date: 1 }),
+    db.ExpenseRecord.find({ date: { $gte: start, $lte: end }, ...NOT_VOIDED, ...branch }).sort({ date: 1 }),
   ])
 
   // Group by date
@@ -82,3 +82,50 @@ export async function getChartData(dateFilter = "month"): Promise<ChartData[]> {
 
   return Object.values(groupedData)
 }
+
+/** Income, expenses and profit per branch the user works at, for the consolidated view */
+export async function getBranchComparison(dateFilter = "month"): Promise<BranchSummary[]> {
+  const { user, db } = await requireTenant(PERMISSIONS.DASHBOARD_VIEW)
+
+  await dbConnect()
+  const { start, end } = getDateRange(dateFilter)
+  const match = { date: { $gte: start, $lte: end }, ...NOT_VOIDED, ...branchFilter({ branches: user.branches }) }
+
+  const [branches, income, expenses] = await Promise.all([
+    db.Branch.find().sort({ createdAt: 1 }).select("name isActive").lean<{ _id: unknown; name: string; isActive: boolean }[]>(),
+    db.IncomeRecord.aggregate<{ _id: unknown; total: number; orders: number }>([
+      { $match: match },
+      { $group: { _id: "$branch", total: { $sum: "$totalAmount" }, orders: { $sum: 1 } } },
+    ]),
+    db.ExpenseRecord.aggregate<{ _id: unknown; total: number }>([
+      { $match: match },
+      { $group: { _id: "$branch", total: { $sum: "$amount" } } },
+    ]),
+  ])
+
+  const summaries = new Map<string, BranchSummary>()
+  const summaryFor = (id: unknown) => {
+    const key = id ? String(id) : ""
+    if (!summaries.has(key)) {
+      const name = branches.find((branch) => String(branch._id) === key)?.name
+      summaries.set(key, { branchId: key || null, name: name || "Unassigned", income: 0, expenses: 0, profit: 0, orders: 0 })
+    }
+    return summaries.get(key)!
+  }
+
+  // Open branches without records in the period are listed too, so they can be compared at zero
+  branches
+    .filter((branch) => branch.isActive && (user.branches.length === 0 || user.branches.includes(String(branch._id))))
+    .forEach((branch) => summaryFor(branch._id))
+
+  income.forEach((row) => {
+    const summary = summaryFor(row._id)
+    summary.income += row.total
+    summary.orders += row.orders
+  })
+  expenses.forEach((row) => {
+    summaryFor(row._id).expenses += row.total
+  })
+
+  return Array.from(summaries.values()).map((summary) => ({ ...summary, profit: summary.income - summary.expenses }))
+}
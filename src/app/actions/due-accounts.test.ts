@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { deleteDueAccount, getDueAccount, updateDueAccount } from "@/app/actions/due-accounts"
+import { signInAs } from "@/test/auth"
+import { seedOrganizations, type Tenant } from "@/test/fixtures"
+import { ERROR_MESSAGES } from "@/lib/constants"
+import DueAccount from "@/models/DueAccount"
+
+vi.mock("@/lib/auth", () => import("@/test/auth"))
+
+describe("due account actions", () => {
+  let orgA: Tenant
+  let orgB: Tenant
+
+  beforeEach(async () => {
+    ;({ orgA, orgB } = await seedOrganizations())
+    signInAs(orgA.user)
+  })
+
+  const expectOrgBUnchanged = async () => {
+    const account = await DueAccount.findById(orgB.dueAccount._id).lean<{ customerName: string; isActive: boolean }>()
+    expect(account).toMatchObject({ customerName: orgB.dueAccount.customerName, isActive: true })
+  }
+
+  it("reads and updates the organization's own accounts", async () => {
+    const id = String(orgA.dueAccount._id)
+    await expect(getDueAccount(id)).resolves.toMatchObject({ _id: id, totalDueAmount: 0 })
+    await expect(updateDueAccount(id, { customerName: "Sita" })).resolves.toMatchObject({
+      success: true,
+      record: { customerName: "Sita" },
+    })
+  })
+
+  it("can't read another organization's account", async () => {
+    await expect(getDueAccount(String(orgB.dueAccount._id))).rejects.toThrow(ERROR_MESSAGES.NOT_FOUND)
+  })
+
+  it("can't update another organization's account", async () => {
+    await expect(updateDueAccount(String(orgB.dueAccount._id), { customerName: "Sita" })).rejects.toThrow(
+      ERROR_MESSAGES.NOT_FOUND,
+    )
+    await expectOrgBUnchanged()
+  })
+
+  it("can't delete another organization's account", async () => {
+    await expect(deleteDueAccount(String(orgB.dueAccount._id))).rejects.toThrow(ERROR_MESSAGES.NOT_FOUND)
+    await expectOrgBUnchanged()
+  })
+})
@@ -5,22 +5,41 @@
  */
 
 import { revalidatePath } from "next/cache"
+import mongoose from "mongoose"
 import dbConnect from "@/lib/db"
-import DueAccount from "@/models/DueAccount"
-import IncomeRecord from "@/models/IncomeRecord"
+import type { IDueAccount } from "@/models/DueAccount"
+import type { IOrderItem } from "@/models/IncomeRecord"
+import type { IDuePayment } from "@/models/DuePayment"
 import { dueAccountSchema, type DueAccountInput } from "@/lib/validations"
-import { requireAuth } from "@/lib/auth"
-import { REVALIDATE_PATHS, ERROR_MESSAGES, PAYMENT_METHOD, PAYMENT_STATUS } from "@/lib/constants"
-
-export async function createDueAccount(data: DueAccountInput) {
-  const { user } = await requireAuth()
+import { requireTenant, type TenantData } from "@/lib/tenant"
+import { PERMISSIONS } from "@/lib/permissions"
+import { nextInvoiceNumber } from "@/lib/invoice-counter"
+import { releaseTables } from "@/lib/tables"
+import { recordBranch } from "@/lib/branches"
+import { recordAuditEvent, toSnapshot } from "@/lib/audit"
+import { NOT_VOIDED } from "@/lib/voids"
+import { isStaleWrite, staleWrite } from "@/lib/conflicts"
+import { escapeRegex } from "@/lib/utils"
+import {
+  REVALIDATE_PATHS,
+  ERROR_MESSAGES,
+  PAYMENT_METHOD,
+  PAYMENT_STATUS,
+  AUDIT_ACTION,
+  AUDIT_ENTITY,
+  AUDIT_SOURCE,
+  type AuditSource,
+} from "@/lib/constants"
+
+export async function createDueAccount(data: DueAccountInput, source: AuditSource = AUDIT_SOURCE.WEB) {
+  const { user, db } = await requireTenant(PERMISSIONS.DUE_ACCOUNTS_USE)
 
   const validatedData = dueAccountSchema.parse(data)
   await dbConnect()
 
   // Check if customer already exists
-  const existingAccount = await DueAccount.findOne({
-    customerName: { $regex: new RegExp(`^${validatedData.customerName}$`, "i") },
+  const existingAccount = await db.DueAccount.findOne({
+    customerName: { $regex: new RegExp(`^${escapeRegex(validatedData.customerName)}$`, "i") },
     isActive: true,
   })
 
@@ -28,29 +47,106 @@ export async function createDueAccount(data: DueAccountInput) {
     throw new Error("Customer account already exists")
   }
 
-  const account = await DueAccount.create({
-    ...validatedData,
-    totalDueAmount: 0,
-    totalOrders: 0,
-    pendingOrders: 0,
-    lastOrderDate: new Date(),
-    createdBy: user.id,
-    isActive: true,
-    organization: user.organization,
-  })
+  const session = await mongoose.startSession()
+  let account: IDueAccount | undefined
+
+  try {
+    await session.withTransaction(async () => {
+      const [createdAccount] = await db.DueAccount.create(
+        [
+          {
+            ...validatedData,
+            totalDueAmount: 0,
+            totalOrders: 0,
+            pendingOrders: 0,
+            lastOrderDate: new Date(),
+            createdBy: user.id,
+            isActive: true,
+          },
+        ],
+        { session },
+      )
+      account = createdAccount
+
+      await recordAuditEvent(
+        {
+          user,
+          action: AUDIT_ACTION.CREATE,
+          entityType: AUDIT_ENTITY.DUE_ACCOUNT,
+          entityId: createdAccount._id,
+          after: createdAccount,
+          source,
+        },
+        session,
+      )
+    })
+  } finally {
+    await session.endSession()
+  }
+
+  if (!account) throw new Error("Customer account could not be saved")
 
   REVALIDATE_PATHS.DUE_ACCOUNTS.forEach(path => revalidatePath(path))
 
   return { success: true, record: JSON.parse(JSON.stringify(account)) }
 }
 
-export async function updateDueAccount(id: string, data: DueAccountInput) {
-  await requireAuth()
+/** Updates a customer account; offline edits made on an outdated copy come back as a conflict */
+export async function updateDueAccount(
+  id: string,
+  data: DueAccountInput,
+  source: AuditSource = AUDIT_SOURCE.WEB,
+  expectedUpdatedAt?: string,
+) {
+  const { user, db } = await requireTenant(PERMISSIONS.DUE_ACCOUNTS_USE)
 
   const validatedData = dueAccountSchema.parse(data)
   await dbConnect()
 
-  const account = await DueAccount.findByIdAndUpdate(id, validatedData, { new: true })
+  const session = await mongoose.startSession()
+  let account = null as IDueAccount | null
+  let staleAccount = null as IDueAccount | null
+
+  try {
+    await session.withTransaction(async () => {
+      const previousAccount = await db.DueAccount.findById(id).session(session)
+      if (!previousAccount) return
+      if (isStaleWrite(previousAccount, expectedUpdatedAt)) {
+        staleAccount = previousAccount
+        return
+      }
+
+      // Conditional on the version checked, so a concurrent transaction that also passed the check misses
+      account = await db.DueAccount.findOneAndUpdate(
+        { _id: id, updatedAt: expectedUpdatedAt || previousAccount.updatedAt },
+        validatedData,
+        { new: true, session },
+      )
+      if (!account) {
+        staleAccount = await db.DueAccount.findById(id).session(session)
+        return
+      }
+
+      await recordAuditEvent(
+        {
+          user,
+          action: AUDIT_ACTION.UPDATE,
+          entityType: AUDIT_ENTITY.DUE_ACCOUNT,
+          entityId: id,
+          before: previousAccount,
+          after: account,
+          source,
+        },
+        session,
+      )
+    })
+  } finally {
+    await session.endSession()
+  }
+
+  if (staleAccount) {
+    return staleWrite(staleAccount)
+  }
 
   if (!account) {
     throw new Error(ERROR_MESSAGES.NOT_FOUND)
@@ -61,22 +157,49 @@ export async function updateDueAccount(id: string, data: DueAccountInput) {
   return { success: true, record: JSON.parse(JSON.stringify(account)) }
 }
 
-export async function deleteDueAccount(id: string) {
-  await requireAuth()
+export async function deleteDueAccount(id: string, source: AuditSource = AUDIT_SOURCE.WEB) {
+  const { user, db } = await requireTenant(PERMISSIONS.DUE_ACCOUNTS_USE)
 
   await dbConnect()
 
   // Check if there are pending orders
-  const pendingOrders = await IncomeRecord.countDocuments({
+  const pendingOrders = await db.IncomeRecord.countDocuments({
     dueAccountId: id,
     paymentStatus: PAYMENT_STATUS.PENDING,
+    ...NOT_VOIDED,
   })
 
   if (pendingOrders > 0) {
     throw new Error("Cannot delete account with pending orders. Please settle all dues first.")
   }
 
-  const account = await DueAccount.findByIdAndUpdate(id, { isActive: false }, { new: true })
+  const session = await mongoose.startSession()
+  let account = null as IDueAccount | null
+
+  try {
+    await session.withTransaction(async () => {
+      const previousAccount = await db.DueAccount.findById(id).session(session)
+      if (!previousAccount) return
+
+      // Accounts are deactivated rather than removed, but the history records it as a deletion
+      account = await db.DueAccount.findByIdAndUpdate(id, { isActive: false }, { new: true, session })
+
+      await recordAuditEvent(
+        {
+          user,
+          action: AUDIT_ACTION.DELETE,
+          entityType: AUDIT_ENTITY.DUE_ACCOUNT,
+          entityId: id,
+          before: previousAccount,
+          after: account,
+          source,
+        },
+        session,
+      )
+    })
+  } finally {
+    await session.endSession()
+  }
 
   if (!account) {
     throw new Error(ERROR_MESSAGES.NOT_FOUND)
@@ -88,17 +211,18 @@ export async function deleteDueAccount(id: string) {
 }
 
 export async function getDueAccount(id: string) {
-  await requireAuth()
+  const { db } = await requireTenant(PERMISSIONS.DUE_ACCOUNTS_USE)
 
   await dbConnect()
 
-  const account = await DueAccount.findById(id)
+  const account = await db.DueAccount.findById(id)
   if (!account) {
     throw new Error(ERROR_MESSAGES.NOT_FOUND)
   }
 
-  const orders = await IncomeRecord.find({
+  const orders = await db.IncomeRecord.find({
     dueAccountId: id,
+    ...NOT_VOIDED,
   })
     .sort({ date: -1 })
 
@@ -117,63 +241,183 @@ export async function getDueAccount(id: string) {
   }
 }
 
-export async function duePaymentTransaction(id: string, paymentAmount: number, paymentMethod: "cash" | "digital") {
-  await requireAuth()
-
-  if (paymentAmount <= 0) throw new Error("Payment amount must be greater than 0")
-
-  await dbConnect()
+/**
+ * Builds the payment result returned to the client from a ledger entry.
+ * Includes the ledger entry and the orders it paid as they are now, so offline caches can be reconciled.
+ */
+async function toPaymentResult(db: TenantData, payment: IDuePayment) {
+  const orders = await db.IncomeRecord.find({ _id: { $in: payment.allocations.map((allocation) => allocation.order) } })
 
-  const pendingOrdersDocs = await IncomeRecord.find({
-    dueAccountId: id,
-    paymentStatus: PAYMENT_STATUS.PENDING,
-  }).sort({ date: 1 })
+  return {
+    success: true,
+    paymentId: String(payment._id),
+    paidAmount: payment.amount - payment.unallocatedAmount,
+    remainingPayment: payment.unallocatedAmount,
+    record: JSON.parse(JSON.stringify(payment)),
+    orders: JSON.parse(JSON.stringify(orders)),
+  }
+}
 
-  let remainingPayment = paymentAmount
+/**
+ * Allocates a payment across pending orders (oldest first) inside a single transaction.
+ * The idempotency key makes repeated submissions of the same payment return the original result.
+ */
+export async function duePaymentTransaction(
+  id: string,
+  paymentAmount: number,
+  paymentMethod: "cash" | "digital",
+  idempotencyKey?: string,
+  source: AuditSource = AUDIT_SOURCE.WEB,
+) {
+  const { user, db } = await requireTenant(PERMISSIONS.DUE_ACCOUNTS_USE)
 
-  for (const order of pendingOrdersDocs) {
-    if (remainingPayment <= 0) break
+  if (paymentAmount <= 0) throw new Error("Payment amount must be greater than 0")
 
-    const paidAmount = (order.cashAmount || 0) + (order.digitalAmount || 0)
-    const unpaidAmount = order.totalAmount - paidAmount
-    if (unpaidAmount <= 0) continue
+  await dbConnect()
 
-    const paymentForThisOrder = Math.min(unpaidAmount, remainingPayment)
+  if (idempotencyKey) {
+    const existingPayment = await db.DuePayment.findOne({ idempotencyKey })
+    if (existingPayment) return toPaymentResult(db, existingPayment)
+  }
 
-    if (paymentForThisOrder < unpaidAmount || ((order.cashAmount || 0) > 0 || (order.digitalAmount || 0) > 0)) {
-      order.paymentMethod = PAYMENT_METHOD.SPLIT
-    } else if ((order.cashAmount || 0) === 0 && (order.digitalAmount || 0) === 0) {
-      order.paymentMethod = paymentMethod
-    } else {
-      order.paymentMethod = paymentMethod
-    }
+  if (!(await db.DueAccount.exists({ _id: id }))) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
 
-    if (paymentMethod === PAYMENT_METHOD.CASH) {
-      order.cashAmount = (order.cashAmount || 0) + paymentForThisOrder
-    } else {
-      order.digitalAmount = (order.digitalAmount || 0) + paymentForThisOrder
+  // The payment goes into the till of the branch taking it
+  const branch = await recordBranch(db, user)
+
+  const session = await mongoose.startSession()
+  let payment: IDuePayment | undefined
+
+  try {
+    // withTransaction retries the callback on transient write conflicts, so all state lives inside it
+    await session.withTransaction(async () => {
+      const pendingOrdersDocs = await db.IncomeRecord.find({
+        dueAccountId: id,
+        paymentStatus: PAYMENT_STATUS.PENDING,
+        ...NOT_VOIDED,
+      })
+        .sort({ date: 1 })
+        .session(session)
+
+      let remainingPayment = paymentAmount
+      const allocations: { order: string; amount: number; invoiceNumber?: string }[] = []
+
+      for (const order of pendingOrdersDocs) {
+        if (remainingPayment <= 0) break
+
+        const paidAmount = (order.cashAmount || 0) + (order.digitalAmount || 0)
+        const unpaidAmount = order.totalAmount - paidAmount
+        if (unpaidAmount <= 0) continue
+
+        const paymentForThisOrder = Math.min(unpaidAmount, remainingPayment)
+        const previousOrder = toSnapshot(order)
+
+        if (paymentForThisOrder < unpaidAmount || ((order.cashAmount || 0) > 0 || (order.digitalAmount || 0) > 0)) {
+          order.paymentMethod = PAYMENT_METHOD.SPLIT
+        } else {
+          order.paymentMethod = paymentMethod
+        }
+
+        if (paymentMethod === PAYMENT_METHOD.CASH) {
+          order.cashAmount = (order.cashAmount || 0) + paymentForThisOrder
+        } else {
+          order.digitalAmount = (order.digitalAmount || 0) + paymentForThisOrder
+        }
+
+        if (((order.cashAmount || 0) + (order.digitalAmount || 0)) >= order.totalAmount) {
+          order.paymentStatus = PAYMENT_STATUS.COMPLETED
+          if (!order.invoiceNumber) {
+            order.invoiceNumber = await nextInvoiceNumber(user.organization, session)
+          }
+        }
+
+        // Clean up items with empty names before saving to prevent validation errors
+        if (order.items && Array.isArray(order.items)) {
+          order.items = order.items.filter((item: IOrderItem) => item.name && item.name.trim() !== "")
+        }
+
+        // Some legacy orders can contain invalid nested item data.
+        // We only update payment fields here, so skip full document validation.
+        // The order was read in this transaction, so a change made to it since fails the save with a
+        // write conflict and withTransaction runs the allocation again on fresh orders.
+        await order.save({ session, validateBeforeSave: false })
+        await recordAuditEvent(
+          {
+            user,
+            action: AUDIT_ACTION.UPDATE,
+            entityType: AUDIT_ENTITY.INCOME_RECORD,
+            entityId: order._id,
+            before: previousOrder,
+            after: order,
+            source,
+          },
+          session,
+        )
+        allocations.push({
+          order: order._id.toString(),
+          amount: paymentForThisOrder,
+          invoiceNumber: order.paymentStatus === PAYMENT_STATUS.COMPLETED ? order.invoiceNumber : undefined,
+        })
+        remainingPayment -= paymentForThisOrder
+      }
+
+      // Record the payment in the ledger so the account statement shows when and how it was paid
+      const [createdPayment] = await db.DuePayment.create(
+        [
+          {
+            dueAccount: id,
+            amount: paymentAmount,
+            paymentMethod,
+            allocations,
+            unallocatedAmount: remainingPayment,
+            date: new Date(),
+            receivedBy: user.id,
+            branch,
+            idempotencyKey,
+          },
+        ],
+        { session },
+      )
+      payment = createdPayment
+
+      await recordAuditEvent(
+        {
+          user,
+          action: AUDIT_ACTION.PAYMENT,
+          entityType: AUDIT_ENTITY.DUE_PAYMENT,
+          entityId: createdPayment._id,
+          after: createdPayment,
+          source,
+        },
+        session,
+      )
+    })
+  } catch (error) {
+    // A concurrent submission with the same key committed first
+    if (idempotencyKey && (error as { code?: number })?.code === 11000) {
+      const existingPayment = await db.DuePayment.findOne({ idempotencyKey })
+      if (existingPayment) return toPaymentResult(db, existingPayment)
     }
-
-    if (((order.cashAmount || 0) + (order.digitalAmount || 0)) >= order.totalAmount) {
-      order.paymentStatus = PAYMENT_STATUS.COMPLETED
+    // A write conflict outlasted withTransaction's retries, as other payments kept changing the orders
+    if ((error as { code?: number })?.code === 112) {
+      throw new Error("These orders were updated by another payment. Please refresh and try again.")
     }
+    throw error
+  } finally {
+    await session.endSession()
+  }
 
-    // Clean up items with empty names before saving to prevent validation errors
-    if (order.items && Array.isArray(order.items)) {
-      order.items = order.items.filter(item => item.name && item.name.trim() !== "")
-    }
+  if (!payment) throw new Error("Payment could not be recorded")
 
-    // Some legacy orders can contain invalid nested item data.
-    // We only update payment fields here, so skip full document validation.
-    await order.save({ validateBeforeSave: false })
-    remainingPayment -= paymentForThisOrder
-  }
+  // Orders this payment completed carry an invoice number
+  await releaseTables(
+    user.organization,
+    payment.allocations.filter((allocation) => allocation.invoiceNumber).map((allocation) => allocation.order.toString()),
+  )
 
   REVALIDATE_PATHS.DUE_ACCOUNTS.forEach(path => revalidatePath(path))
 
-  return {
-    success: true,
-    paidAmount: paymentAmount - remainingPayment,
-    remainingPayment
-  }
+  return toPaymentResult(db, payment)
 }
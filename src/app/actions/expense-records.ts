@@ -5,57 +5,314 @@
  */
 
 import { revalidatePath } from "next/cache"
+import mongoose from "mongoose"
 import dbConnect from "@/lib/db"
-import ExpenseRecord from "@/models/ExpenseRecord"
-import { expenseRecordSchema, type ExpenseRecordInput } from "@/lib/validations"
-import { requireAuth } from "@/lib/auth"
-import { REVALIDATE_PATHS, ERROR_MESSAGES } from "@/lib/constants"
+import type { IExpenseRecord } from "@/models/ExpenseRecord"
+import { expenseRecordSchema, voidReasonSchema, type ExpenseRecordInput } from "@/lib/validations"
+import { PERMISSIONS, hasPermission } from "@/lib/permissions"
+import { requireTenant } from "@/lib/tenant"
+import { recordBranch } from "@/lib/branches"
+import { adjustIngredientStock } from "@/lib/inventory"
+import { recordAuditEvent } from "@/lib/audit"
+import { CLEAR_VOID, voidRequestUpdate, voidUpdate } from "@/lib/voids"
+import { isStaleWrite, staleWrite } from "@/lib/conflicts"
+import {
+  REVALIDATE_PATHS,
+  ERROR_MESSAGES,
+  RESTOCK_EXPENSE_CATEGORY,
+  VOID_STATUS,
+  AUDIT_ACTION,
+  AUDIT_ENTITY,
+  AUDIT_SOURCE,
+  type AuditSource,
+} from "@/lib/constants"
 
-export async function createExpenseRecord(data: ExpenseRecordInput) {
-  const { user } = await requireAuth()
+interface RestockLine {
+  ingredient: { toString(): string } | string
+  quantity: number
+}
+
+/** Restock lines only count for the food & ingredients category */
+function toStockLines(category: string, restockItems: RestockLine[] | undefined, direction: 1 | -1) {
+  if (category !== RESTOCK_EXPENSE_CATEGORY || !restockItems) return []
+  return restockItems.map((item) => ({ ingredient: item.ingredient.toString(), quantity: direction * item.quantity }))
+}
+
+export async function createExpenseRecord(data: ExpenseRecordInput, source: AuditSource = AUDIT_SOURCE.WEB) {
+  const { user, db } = await requireTenant(PERMISSIONS.EXPENSES_CREATE)
 
   const validatedData = expenseRecordSchema.parse(data)
   await dbConnect()
 
-  const record = await ExpenseRecord.create({
-    ...validatedData,
-    createdBy: user.id,
-    organization: user.organization,
-  })
+  const branch = await recordBranch(db, user)
+  const session = await mongoose.startSession()
+  let record: IExpenseRecord | undefined
+
+  try {
+    await session.withTransaction(async () => {
+      const [createdRecord] = await db.ExpenseRecord.create(
+        [
+          {
+            ...validatedData,
+            restockItems: validatedData.category === RESTOCK_EXPENSE_CATEGORY ? validatedData.restockItems : [],
+            branch,
+            createdBy: user.id,
+          },
+        ],
+        { session },
+      )
+      record = createdRecord
+
+      await recordAuditEvent(
+        {
+          user,
+          action: AUDIT_ACTION.CREATE,
+          entityType: AUDIT_ENTITY.EXPENSE_RECORD,
+          entityId: createdRecord._id,
+          after: createdRecord,
+          source,
+        },
+        session,
+      )
+    })
+  } finally {
+    await session.endSession()
+  }
+
+  if (!record) throw new Error("Expense could not be saved")
+
+  await adjustIngredientStock(user.organization, toStockLines(record.category, record.restockItems, 1))
 
   REVALIDATE_PATHS.DASHBOARD.forEach(path => revalidatePath(path))
 
   return { success: true, record: JSON.parse(JSON.stringify(record)) }
 }
 
-export async function updateExpenseRecord(id: string, data: ExpenseRecordInput) {
-  await requireAuth()
+/** Updates an expense; like orders, offline edits made on an outdated copy come back as a conflict */
+export async function updateExpenseRecord(
+  id: string,
+  data: ExpenseRecordInput,
+  source: AuditSource = AUDIT_SOURCE.WEB,
+  expectedUpdatedAt?: string,
+) {
+  const { user, db } = await requireTenant(PERMISSIONS.EXPENSES_CREATE)
 
   const validatedData = expenseRecordSchema.parse(data)
   await dbConnect()
 
-  const record = await ExpenseRecord.findByIdAndUpdate(id, validatedData, { new: true })
+  const previousRecord = await db.ExpenseRecord.findById(id)
 
-  if (!record) {
+  if (!previousRecord) {
     throw new Error(ERROR_MESSAGES.NOT_FOUND)
   }
 
+  if (previousRecord.voidStatus === VOID_STATUS.VOIDED) {
+    throw new Error("Voided expenses can't be edited. Restore the expense first.")
+  }
+
+  if (isStaleWrite(previousRecord, expectedUpdatedAt)) {
+    return staleWrite(previousRecord)
+  }
+
+  const session = await mongoose.startSession()
+  let record = null as IExpenseRecord | null
+
+  try {
+    await session.withTransaction(async () => {
+      // The restock is undone from the expense as read, so it must still be that version
+      record = await db.ExpenseRecord.findOneAndUpdate(
+        { _id: id, updatedAt: expectedUpdatedAt || previousRecord.updatedAt },
+        {
+          ...validatedData,
+          restockItems: validatedData.category === RESTOCK_EXPENSE_CATEGORY ? validatedData.restockItems || [] : [],
+        },
+        { new: true, session },
+      )
+      if (!record) return
+
+      await recordAuditEvent(
+        {
+          user,
+          action: AUDIT_ACTION.UPDATE,
+          entityType: AUDIT_ENTITY.EXPENSE_RECORD,
+          entityId: id,
+          before: previousRecord,
+          after: record,
+          source,
+        },
+        session,
+      )
+    })
+  } finally {
+    await session.endSession()
+  }
+
+  if (!record) {
+    const currentRecord = await db.ExpenseRecord.findById(id)
+    if (!currentRecord) throw new Error(ERROR_MESSAGES.NOT_FOUND)
+    return staleWrite(currentRecord)
+  }
+
+  // Undo the previous restock before applying the updated one
+  await adjustIngredientStock(record.organization.toString(), [
+    ...toStockLines(previousRecord.category, previousRecord.restockItems, -1),
+    ...toStockLines(record.category, record.restockItems, 1),
+  ])
+
   REVALIDATE_PATHS.DASHBOARD.forEach(path => revalidatePath(path))
 
   return { success: true, record: JSON.parse(JSON.stringify(record)) }
 }
 
-export async function deleteExpenseRecord(id: string) {
-  await requireAuth()
+/**
+ * Voids an expense with a reason. Users allowed to void do it straight away; others file a request for one of them to approve.
+ * Voided expenses are kept but excluded from totals, and can be restored by users allowed to restore records.
+ */
+export async function voidExpenseRecord(id: string, reason: string, source: AuditSource = AUDIT_SOURCE.WEB) {
+  const { user, db } = await requireTenant(PERMISSIONS.RECORDS_VIEW)
 
+  const voidReason = voidReasonSchema.parse(reason)
+  const canVoid = hasPermission(user.permissions, PERMISSIONS.RECORDS_VOID)
   await dbConnect()
-  const record = await ExpenseRecord.findByIdAndDelete(id)
+
+  const session = await mongoose.startSession()
+  let record = null as IExpenseRecord | null
+
+  try {
+    await session.withTransaction(async () => {
+      const previousRecord = await db.ExpenseRecord.findById(id).session(session)
+      if (!previousRecord) return
+
+      if (previousRecord.voidStatus === VOID_STATUS.VOIDED) {
+        throw new Error("This expense is already voided")
+      }
+      if (!canVoid && previousRecord.voidStatus === VOID_STATUS.REQUESTED) {
+        throw new Error("A void has already been requested for this expense")
+      }
+
+      record = await db.ExpenseRecord.findByIdAndUpdate(
+        id,
+        canVoid ? voidUpdate(user.id, voidReason) : voidRequestUpdate(user.id, voidReason),
+        { new: true, session },
+      )
+
+      await recordAuditEvent(
+        {
+          user,
+          action: canVoid ? AUDIT_ACTION.VOID : AUDIT_ACTION.UPDATE,
+          entityType: AUDIT_ENTITY.EXPENSE_RECORD,
+          entityId: id,
+          before: previousRecord,
+          after: record,
+          source,
+        },
+        session,
+      )
+    })
+  } finally {
+    await session.endSession()
+  }
 
   if (!record) {
     throw new Error(ERROR_MESSAGES.NOT_FOUND)
   }
 
+  if (canVoid) {
+    await adjustIngredientStock(record.organization.toString(), toStockLines(record.category, record.restockItems, -1))
+  }
+
   REVALIDATE_PATHS.DASHBOARD.forEach(path => revalidatePath(path))
 
-  return { success: true }
+  return { success: true, voided: canVoid, record: JSON.parse(JSON.stringify(record)) }
+}
+
+/** Approves or rejects a request to void an expense */
+export async function reviewExpenseVoid(id: string, approve: boolean) {
+  const { user, db } = await requireTenant(PERMISSIONS.RECORDS_VOID)
+
+  await dbConnect()
+
+  const session = await mongoose.startSession()
+  let record = null as IExpenseRecord | null
+
+  try {
+    await session.withTransaction(async () => {
+      const previousRecord = await db.ExpenseRecord.findOne({ _id: id, voidStatus: VOID_STATUS.REQUESTED }).session(session)
+      if (!previousRecord) return
+
+      record = await db.ExpenseRecord.findByIdAndUpdate(id, approve ? voidUpdate(user.id) : CLEAR_VOID, {
+        new: true,
+        session,
+      })
+
+      await recordAuditEvent(
+        {
+          user,
+          action: approve ? AUDIT_ACTION.VOID : AUDIT_ACTION.UPDATE,
+          entityType: AUDIT_ENTITY.EXPENSE_RECORD,
+          entityId: id,
+          before: previousRecord,
+          after: record,
+        },
+        session,
+      )
+    })
+  } finally {
+    await session.endSession()
+  }
+
+  if (!record) {
+    throw new Error("This expense has no pending void request")
+  }
+
+  if (approve) {
+    await adjustIngredientStock(record.organization.toString(), toStockLines(record.category, record.restockItems, -1))
+  }
+
+  REVALIDATE_PATHS.DASHBOARD.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(record)) }
+}
+
+/** Brings a voided expense back into the books, receiving its restock again */
+export async function restoreExpenseRecord(id: string) {
+  const { user, db } = await requireTenant(PERMISSIONS.RECORDS_RESTORE)
+
+  await dbConnect()
+
+  const session = await mongoose.startSession()
+  let record = null as IExpenseRecord | null
+
+  try {
+    await session.withTransaction(async () => {
+      const previousRecord = await db.ExpenseRecord.findOne({ _id: id, voidStatus: VOID_STATUS.VOIDED }).session(session)
+      if (!previousRecord) return
+
+      record = await db.ExpenseRecord.findByIdAndUpdate(id, CLEAR_VOID, { new: true, session })
+
+      await recordAuditEvent(
+        {
+          user,
+          action: AUDIT_ACTION.RESTORE,
+          entityType: AUDIT_ENTITY.EXPENSE_RECORD,
+          entityId: id,
+          before: previousRecord,
+          after: record,
+        },
+        session,
+      )
+    })
+  } finally {
+    await session.endSession()
+  }
+
+  if (!record) {
+    throw new Error("Only voided expenses can be restored")
+  }
+
+  await adjustIngredientStock(record.organization.toString(), toStockLines(record.category, record.restockItems, 1))
+
+  REVALIDATE_PATHS.DASHBOARD.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(record)) }
 }
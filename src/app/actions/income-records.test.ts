@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { restoreIncomeRecord, updateIncomeRecord, voidIncomeRecord } from "@/app/actions/income-records"
+import { signInAs } from "@/test/auth"
+import { seedOrganizations, type Tenant } from "@/test/fixtures"
+import { ERROR_MESSAGES, VOID_STATUS } from "@/lib/constants"
+import IncomeRecord from "@/models/IncomeRecord"
+import type { IncomeRecordInput } from "@/lib/validations"
+
+vi.mock("@/lib/auth", () => import("@/test/auth"))
+
+describe("income record actions", () => {
+  let orgA: Tenant
+  let orgB: Tenant
+
+  beforeEach(async () => {
+    ;({ orgA, orgB } = await seedOrganizations())
+    signInAs(orgA.user)
+  })
+
+  const order: IncomeRecordInput = {
+    items: [{ name: "Tea", quantity: 2, price: 50 }],
+    subtotal: 100,
+    discount: 0,
+    tip: 0,
+    totalAmount: 100,
+    paymentMethod: "cash",
+    paymentStatus: "completed",
+    date: new Date(),
+  }
+
+  const expectOrgBUnchanged = async () => {
+    const record = await IncomeRecord.findById(orgB.incomeRecord._id).lean<{ totalAmount: number; voidStatus?: string }>()
+    expect(record?.totalAmount).toBe(200)
+    expect(record?.voidStatus).toBeUndefined()
+  }
+
+  it("updates the organization's own orders", async () => {
+    const result = await updateIncomeRecord(String(orgA.incomeRecord._id), order)
+    expect(result).toMatchObject({ success: true, record: { totalAmount: 100 } })
+  })
+
+  it("can't update another organization's order", async () => {
+    await expect(updateIncomeRecord(String(orgB.incomeRecord._id), order)).rejects.toThrow(ERROR_MESSAGES.NOT_FOUND)
+    await expectOrgBUnchanged()
+  })
+
+  it("can't void another organization's order", async () => {
+    await expect(voidIncomeRecord(String(orgB.incomeRecord._id), "Wrong table")).rejects.toThrow(ERROR_MESSAGES.NOT_FOUND)
+    await expectOrgBUnchanged()
+  })
+
+  it("can't restore another organization's voided order", async () => {
+    await IncomeRecord.updateOne({ _id: orgB.incomeRecord._id }, { voidStatus: VOID_STATUS.VOIDED })
+
+    await expect(restoreIncomeRecord(String(orgB.incomeRecord._id))).rejects.toThrow("Only voided orders can be restored")
+    const record = await IncomeRecord.findById(orgB.incomeRecord._id).lean<{ voidStatus?: string }>()
+    expect(record?.voidStatus).toBe(VOID_STATUS.VOIDED)
+  })
+})
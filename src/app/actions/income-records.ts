@@ -5,14 +5,37 @@
  */
 
 import { revalidatePath } from "next/cache"
+import mongoose from "mongoose"
 import dbConnect from "@/lib/db"
-import IncomeRecord from "@/models/IncomeRecord"
-import { incomeRecordSchema, type IncomeRecordInput } from "@/lib/validations"
-import { requireAuth } from "@/lib/auth"
-import { REVALIDATE_PATHS, ERROR_MESSAGES } from "@/lib/constants"
+import type { IIncomeRecord } from "@/models/IncomeRecord"
+import { incomeRecordSchema, voidReasonSchema, type IncomeRecordInput } from "@/lib/validations"
+import { PERMISSIONS, hasPermission } from "@/lib/permissions"
+import { requireTenant } from "@/lib/tenant"
+import { recordBranch } from "@/lib/branches"
+import { applyOrderStock } from "@/lib/inventory"
+import { releaseTables } from "@/lib/tables"
+import { carryOverPrepStatus } from "@/lib/kitchen"
+import { linkOrderItems } from "@/lib/menu-links"
+import { applyDuePriceChanges, checkRulePrices } from "@/lib/menu-prices"
+import { calculateOrderTax, orderTaxSettings } from "@/lib/tax"
+import { getTaxSettings } from "@/lib/tax-settings"
+import { nextInvoiceNumber } from "@/lib/invoice-counter"
+import { recordAuditEvent } from "@/lib/audit"
+import { CLEAR_VOID, voidRequestUpdate, voidUpdate } from "@/lib/voids"
+import { isStaleWrite, staleWrite } from "@/lib/conflicts"
+import {
+  REVALIDATE_PATHS,
+  ERROR_MESSAGES,
+  PAYMENT_STATUS,
+  VOID_STATUS,
+  AUDIT_ACTION,
+  AUDIT_ENTITY,
+  AUDIT_SOURCE,
+  type AuditSource,
+} from "@/lib/constants"
 
-export async function createIncomeRecord(data: IncomeRecordInput) {
-  const { user } = await requireAuth()
+export async function createIncomeRecord(data: IncomeRecordInput, source: AuditSource = AUDIT_SOURCE.WEB) {
+  const { user, db } = await requireTenant(PERMISSIONS.ORDERS_CREATE)
 
   // Filter out items with empty names
   const validItems = data.items.filter(item => item.name && item.name.trim() !== "")
@@ -31,19 +54,79 @@ export async function createIncomeRecord(data: IncomeRecordInput) {
   const validatedData = incomeRecordSchema.parse(cleanedData)
   await dbConnect()
 
-  const record = await IncomeRecord.create({
-    ...validatedData,
-    createdBy: user.id,
-    organization: user.organization,
-  })
+  // Scheduled price changes that have come due take effect before the sale is priced against the menu
+  await applyDuePriceChanges(db)
+
+  // Taxes are always recalculated from the organization's rules rather than trusted from the client
+  const tax = calculateOrderTax(validatedData.items, validatedData.discount, validatedData.tip, await getTaxSettings(user.organization))
+  const branch = await recordBranch(db, user)
+  const items = await linkOrderItems(db, validatedData.items)
+  await checkRulePrices(db, user.organization, items, validatedData.date)
+
+  // Completed orders take their invoice number in the same transaction that saves them
+  const session = await mongoose.startSession()
+  let record: IIncomeRecord | undefined
+
+  try {
+    await session.withTransaction(async () => {
+      const invoiceNumber =
+        validatedData.paymentStatus === PAYMENT_STATUS.COMPLETED
+          ? await nextInvoiceNumber(user.organization, session)
+          : undefined
+
+      const [createdRecord] = await db.IncomeRecord.create(
+        [
+          {
+            ...validatedData,
+            ...tax,
+            items,
+            invoiceNumber,
+            paidAt: invoiceNumber ? new Date() : undefined,
+            branch,
+            createdBy: user.id,
+          },
+        ],
+        { session },
+      )
+      record = createdRecord
+
+      await recordAuditEvent(
+        {
+          user,
+          action: AUDIT_ACTION.CREATE,
+          entityType: AUDIT_ENTITY.INCOME_RECORD,
+          entityId: createdRecord._id,
+          after: createdRecord,
+          source,
+        },
+        session,
+      )
+    })
+  } finally {
+    await session.endSession()
+  }
+
+  if (!record) throw new Error("Order could not be saved")
+
+  await applyOrderStock(user.organization, record.items, -1)
 
   REVALIDATE_PATHS.DASHBOARD.forEach(path => revalidatePath(path))
 
   return { success: true, record: JSON.parse(JSON.stringify(record)) }
 }
 
-export async function updateIncomeRecord(id: string, data: IncomeRecordInput) {
-  await requireAuth()
+/**
+ * Updates an order. Offline edits pass the updatedAt of the copy they were made on; if the order
+ * has changed on the server since, nothing is written and the current order comes back as a conflict.
+ * The write itself is conditional on that version, so a change landing after the check is caught too.
+ */
+export async function updateIncomeRecord(
+  id: string,
+  data: IncomeRecordInput,
+  source: AuditSource = AUDIT_SOURCE.WEB,
+  expectedUpdatedAt?: string,
+) {
+  const { user, db } = await requireTenant(PERMISSIONS.ORDERS_CREATE)
 
   // Filter out items with empty names
   const validItems = data.items.filter(item => item.name && item.name.trim() !== "")
@@ -62,28 +145,244 @@ export async function updateIncomeRecord(id: string, data: IncomeRecordInput) {
   const validatedData = incomeRecordSchema.parse(cleanedData)
   await dbConnect()
 
-  const record = await IncomeRecord.findByIdAndUpdate(id, validatedData, { new: true })
+  const previousRecord = await db.IncomeRecord.findById(id)
 
-  if (!record) {
+  if (!previousRecord) {
     throw new Error(ERROR_MESSAGES.NOT_FOUND)
   }
 
+  if (previousRecord.voidStatus === VOID_STATUS.VOIDED) {
+    throw new Error("Voided orders can't be edited. Restore the order first.")
+  }
+
+  if (isStaleWrite(previousRecord, expectedUpdatedAt)) {
+    return staleWrite(previousRecord)
+  }
+
+  // Scheduled price changes that have come due take effect before lines added by the edit are priced
+  await applyDuePriceChanges(db)
+
+  const taxSettings = orderTaxSettings(previousRecord, await getTaxSettings(previousRecord.organization.toString()))
+  const tax = calculateOrderTax(validatedData.items, validatedData.discount, validatedData.tip, taxSettings)
+  // The edit replaces the items, so keep what the kitchen has already prepared
+  const items = carryOverPrepStatus(previousRecord.items, await linkOrderItems(db, validatedData.items))
+  await checkRulePrices(db, user.organization, items, validatedData.date, previousRecord.items)
+
+  // Orders completed by this edit take the next invoice number; numbers are never reassigned
+  const session = await mongoose.startSession()
+  let record = null as IIncomeRecord | null
+
+  try {
+    await session.withTransaction(async () => {
+      const invoiceNumber =
+        !previousRecord.invoiceNumber && validatedData.paymentStatus === PAYMENT_STATUS.COMPLETED
+          ? await nextInvoiceNumber(previousRecord.organization.toString(), session)
+          : previousRecord.invoiceNumber
+
+      const paidAt =
+        validatedData.paymentStatus === PAYMENT_STATUS.COMPLETED ? previousRecord.paidAt || new Date() : undefined
+
+      // Items, taxes and stock are worked out from the order as read, so it must still be that version
+      record = await db.IncomeRecord.findOneAndUpdate(
+        { _id: id, updatedAt: expectedUpdatedAt || previousRecord.updatedAt },
+        { ...validatedData, ...tax, items, invoiceNumber, paidAt },
+        { new: true, session },
+      )
+      if (!record) return
+
+      await recordAuditEvent(
+        {
+          user,
+          action: AUDIT_ACTION.UPDATE,
+          entityType: AUDIT_ENTITY.INCOME_RECORD,
+          entityId: id,
+          before: previousRecord,
+          after: record,
+          source,
+        },
+        session,
+      )
+    })
+  } finally {
+    await session.endSession()
+  }
+
+  if (!record) {
+    const currentRecord = await db.IncomeRecord.findById(id)
+    if (!currentRecord) throw new Error(ERROR_MESSAGES.NOT_FOUND)
+    return staleWrite(currentRecord)
+  }
+
+  // Return the stock used by the previous items, then consume it for the updated ones
+  const organization = record.organization.toString()
+  await applyOrderStock(organization, previousRecord.items, 1)
+  await applyOrderStock(organization, record.items, -1)
+
+  if (record.paymentStatus === PAYMENT_STATUS.COMPLETED) {
+    await releaseTables(organization, [id])
+  }
+
   REVALIDATE_PATHS.DASHBOARD.forEach(path => revalidatePath(path))
 
   return { success: true, record: JSON.parse(JSON.stringify(record)) }
 }
 
-export async function deleteIncomeRecord(id: string) {
-  await requireAuth()
+/**
+ * Voids an order with a reason. Users allowed to void do it straight away; others file a request for one of them to approve.
+ * Voided orders are kept but excluded from totals, and can be restored by users allowed to restore records.
+ */
+export async function voidIncomeRecord(id: string, reason: string, source: AuditSource = AUDIT_SOURCE.WEB) {
+  const { user, db } = await requireTenant(PERMISSIONS.RECORDS_VIEW)
 
+  const voidReason = voidReasonSchema.parse(reason)
+  const canVoid = hasPermission(user.permissions, PERMISSIONS.RECORDS_VOID)
   await dbConnect()
-  const record = await IncomeRecord.findByIdAndDelete(id)
+
+  const session = await mongoose.startSession()
+  let record = null as IIncomeRecord | null
+
+  try {
+    await session.withTransaction(async () => {
+      const previousRecord = await db.IncomeRecord.findById(id).session(session)
+      if (!previousRecord) return
+
+      if (previousRecord.voidStatus === VOID_STATUS.VOIDED) {
+        throw new Error("This order is already voided")
+      }
+      if (!canVoid && previousRecord.voidStatus === VOID_STATUS.REQUESTED) {
+        throw new Error("A void has already been requested for this order")
+      }
+
+      record = await db.IncomeRecord.findByIdAndUpdate(
+        id,
+        canVoid ? voidUpdate(user.id, voidReason) : voidRequestUpdate(user.id, voidReason),
+        { new: true, session },
+      )
+
+      await recordAuditEvent(
+        {
+          user,
+          action: canVoid ? AUDIT_ACTION.VOID : AUDIT_ACTION.UPDATE,
+          entityType: AUDIT_ENTITY.INCOME_RECORD,
+          entityId: id,
+          before: previousRecord,
+          after: record,
+          source,
+        },
+        session,
+      )
+    })
+  } finally {
+    await session.endSession()
+  }
 
   if (!record) {
     throw new Error(ERROR_MESSAGES.NOT_FOUND)
   }
 
+  if (canVoid) {
+    await releaseVoidedOrder(record)
+  }
+
+  REVALIDATE_PATHS.DASHBOARD.forEach(path => revalidatePath(path))
+
+  return { success: true, voided: canVoid, record: JSON.parse(JSON.stringify(record)) }
+}
+
+/** Approves or rejects a request to void an order */
+export async function reviewIncomeVoid(id: string, approve: boolean) {
+  const { user, db } = await requireTenant(PERMISSIONS.RECORDS_VOID)
+
+  await dbConnect()
+
+  const session = await mongoose.startSession()
+  let record = null as IIncomeRecord | null
+
+  try {
+    await session.withTransaction(async () => {
+      const previousRecord = await db.IncomeRecord.findOne({ _id: id, voidStatus: VOID_STATUS.REQUESTED }).session(session)
+      if (!previousRecord) return
+
+      record = await db.IncomeRecord.findByIdAndUpdate(id, approve ? voidUpdate(user.id) : CLEAR_VOID, {
+        new: true,
+        session,
+      })
+
+      await recordAuditEvent(
+        {
+          user,
+          action: approve ? AUDIT_ACTION.VOID : AUDIT_ACTION.UPDATE,
+          entityType: AUDIT_ENTITY.INCOME_RECORD,
+          entityId: id,
+          before: previousRecord,
+          after: record,
+        },
+        session,
+      )
+    })
+  } finally {
+    await session.endSession()
+  }
+
+  if (!record) {
+    throw new Error("This order has no pending void request")
+  }
+
+  if (approve) {
+    await releaseVoidedOrder(record)
+  }
+
+  REVALIDATE_PATHS.DASHBOARD.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(record)) }
+}
+
+/** Brings a voided order back into the books, consuming its stock again */
+export async function restoreIncomeRecord(id: string) {
+  const { user, db } = await requireTenant(PERMISSIONS.RECORDS_RESTORE)
+
+  await dbConnect()
+
+  const session = await mongoose.startSession()
+  let record = null as IIncomeRecord | null
+
+  try {
+    await session.withTransaction(async () => {
+      const previousRecord = await db.IncomeRecord.findOne({ _id: id, voidStatus: VOID_STATUS.VOIDED }).session(session)
+      if (!previousRecord) return
+
+      record = await db.IncomeRecord.findByIdAndUpdate(id, CLEAR_VOID, { new: true, session })
+
+      await recordAuditEvent(
+        {
+          user,
+          action: AUDIT_ACTION.RESTORE,
+          entityType: AUDIT_ENTITY.INCOME_RECORD,
+          entityId: id,
+          before: previousRecord,
+          after: record,
+        },
+        session,
+      )
+    })
+  } finally {
+    await session.endSession()
+  }
+
+  if (!record) {
+    throw new Error("Only voided orders can be restored")
+  }
+
+  await applyOrderStock(record.organization.toString(), record.items, -1)
+
   REVALIDATE_PATHS.DASHBOARD.forEach(path => revalidatePath(path))
 
-  return { success: true }
+  return { success: true, record: JSON.parse(JSON.stringify(record)) }
+}
+
+/** Returns a voided order's stock and frees the table it was running on */
+async function releaseVoidedOrder(record: IIncomeRecord) {
+  const organization = record.organization.toString()
+  await applyOrderStock(organization, record.items, 1)
+  await releaseTables(organization, [String(record._id)])
 }
@@ -0,0 +1,123 @@
+"use server"
+
+/**
+ * Inventory - Server actions for ingredients, stock adjustments and menu item recipes
+ */
+
+import { revalidatePath } from "next/cache"
+import dbConnect from "@/lib/db"
+import { ingredientSchema, recipeSchema, type IngredientInput, type RecipeInput } from "@/lib/validations"
+import { PERMISSIONS } from "@/lib/permissions"
+import { requireTenant } from "@/lib/tenant"
+import { adjustIngredientStock, syncMenuAvailability } from "@/lib/inventory"
+import { REVALIDATE_PATHS, ERROR_MESSAGES } from "@/lib/constants"
+
+export async function createIngredient(data: IngredientInput) {
+  const { user, db } = await requireTenant(PERMISSIONS.INVENTORY_MANAGE)
+
+  const validatedData = ingredientSchema.parse(data)
+  await dbConnect()
+
+  const existingIngredient = await db.Ingredient.findOne({ name: validatedData.name })
+  if (existingIngredient) {
+    throw new Error("Ingredient with this name already exists")
+  }
+
+  const [ingredient] = await db.Ingredient.create([{ ...validatedData, createdBy: user.id }])
+
+  REVALIDATE_PATHS.INVENTORY.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(ingredient)) }
+}
+
+export async function updateIngredient(id: string, data: IngredientInput) {
+  const { user, db } = await requireTenant(PERMISSIONS.INVENTORY_MANAGE)
+
+  const validatedData = ingredientSchema.parse(data)
+  await dbConnect()
+
+  const ingredient = await db.Ingredient.findByIdAndUpdate(id, validatedData, { new: true })
+
+  if (!ingredient) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  await syncMenuAvailability(user.organization, [id])
+  REVALIDATE_PATHS.INVENTORY.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(ingredient)) }
+}
+
+export async function deleteIngredient(id: string) {
+  const { db } = await requireTenant(PERMISSIONS.INVENTORY_MANAGE)
+
+  await dbConnect()
+
+  const usedBy = await db.MenuItem.countDocuments({ "recipe.ingredient": id })
+  if (usedBy > 0) {
+    throw new Error("Cannot delete an ingredient used in menu item recipes. Remove it from the recipes first.")
+  }
+
+  const ingredient = await db.Ingredient.findByIdAndDelete(id)
+
+  if (!ingredient) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  REVALIDATE_PATHS.INVENTORY.forEach(path => revalidatePath(path))
+
+  return { success: true }
+}
+
+/** Manual stock correction (stock count, wastage); positive adds stock, negative removes it */
+export async function adjustStock(id: string, quantity: number) {
+  const { user, db } = await requireTenant(PERMISSIONS.INVENTORY_MANAGE)
+
+  if (!Number.isFinite(quantity) || quantity === 0) {
+    throw new Error("Adjustment quantity must be a non-zero number")
+  }
+
+  await dbConnect()
+
+  const ingredient = await db.Ingredient.findById(id)
+  if (!ingredient) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  await adjustIngredientStock(user.organization, [{ ingredient: id, quantity }])
+  REVALIDATE_PATHS.INVENTORY.forEach(path => revalidatePath(path))
+
+  return { success: true }
+}
+
+export async function updateMenuItemRecipe(menuItemId: string, recipe: RecipeInput) {
+  const { user, db } = await requireTenant(PERMISSIONS.INVENTORY_MANAGE)
+
+  const validatedRecipe = recipeSchema.parse(recipe)
+  await dbConnect()
+
+  const ingredientCount = await db.Ingredient.countDocuments({
+    _id: { $in: validatedRecipe.map((line) => line.ingredient) },
+  })
+  if (ingredientCount !== new Set(validatedRecipe.map((line) => line.ingredient)).size) {
+    throw new Error("Recipe contains unknown ingredients")
+  }
+
+  const menuItem = await db.MenuItem.findByIdAndUpdate(menuItemId, { recipe: validatedRecipe }, { new: true })
+
+  if (!menuItem) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  if (validatedRecipe.length > 0) {
+    await syncMenuAvailability(user.organization, validatedRecipe.map((line) => line.ingredient))
+  } else if (menuItem.outOfStock) {
+    // Without a recipe the item no longer depends on stock
+    menuItem.isAvailable = true
+    menuItem.outOfStock = false
+    await menuItem.save()
+  }
+  REVALIDATE_PATHS.MENU.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(menuItem)) }
+}
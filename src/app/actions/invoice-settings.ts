@@ -0,0 +1,35 @@
+"use server"
+
+/**
+ * Invoice Settings - Server actions for the organization's invoice numbering
+ */
+
+import { revalidatePath } from "next/cache"
+import dbConnect from "@/lib/db"
+import Organization from "@/models/Organization"
+import { invoiceSettingsSchema, type InvoiceSettingsInput } from "@/lib/validations"
+import { requireAuth } from "@/lib/auth"
+import { PERMISSIONS } from "@/lib/permissions"
+import { REVALIDATE_PATHS, ERROR_MESSAGES } from "@/lib/constants"
+
+export async function updateInvoiceSettings(data: InvoiceSettingsInput) {
+  const { user } = await requireAuth(PERMISSIONS.SETTINGS_MANAGE)
+
+  const validatedData = invoiceSettingsSchema.parse(data)
+  await dbConnect()
+
+  // Numbers already issued keep their format; the new rules apply from the next completed order
+  const organization = await Organization.findByIdAndUpdate(
+    user.organization,
+    { invoiceSettings: { ...validatedData, prefix: validatedData.prefix.toUpperCase() } },
+    { new: true, runValidators: true },
+  )
+
+  if (!organization) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  REVALIDATE_PATHS.SETTINGS.forEach(path => revalidatePath(path))
+
+  return { success: true, invoiceSettings: JSON.parse(JSON.stringify(organization.invoiceSettings)) }
+}
@@ -0,0 +1,67 @@
+"use server"
+
+/**
+ * Kitchen - Server actions for the preparation status of order items
+ */
+
+import { revalidatePath } from "next/cache"
+import dbConnect from "@/lib/db"
+import { prepStatusSchema } from "@/lib/validations"
+import { requireTenant } from "@/lib/tenant"
+import { PERMISSIONS } from "@/lib/permissions"
+import { REVALIDATE_PATHS, ERROR_MESSAGES, PREP_STATUS_FLOW, type PrepStatus } from "@/lib/constants"
+
+export async function setItemPrepStatus(orderId: string, itemId: string, status: PrepStatus) {
+  const { db } = await requireTenant(PERMISSIONS.KITCHEN_USE)
+
+  const validatedStatus = prepStatusSchema.parse(status)
+  await dbConnect()
+
+  // Positional update so kitchen changes don't overwrite edits made to the rest of the order
+  const result = await db.IncomeRecord.updateOne(
+    { _id: orderId, "items._id": itemId },
+    { $set: { "items.$.prepStatus": validatedStatus, "items.$.prepUpdatedAt": new Date() } },
+  )
+
+  if (result.matchedCount === 0) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  REVALIDATE_PATHS.KITCHEN.forEach(path => revalidatePath(path))
+
+  return { success: true }
+}
+
+/**
+ * Moves every item of an order that is behind `status` up to it, e.g. "all ready"
+ * @param category - Only items of this station/category ("" for items without one)
+ */
+export async function setOrderPrepStatus(orderId: string, status: PrepStatus, category?: string) {
+  const { db } = await requireTenant(PERMISSIONS.KITCHEN_USE)
+
+  const validatedStatus = prepStatusSchema.parse(status)
+  await dbConnect()
+
+  const earlierStatuses = PREP_STATUS_FLOW.slice(0, PREP_STATUS_FLOW.indexOf(validatedStatus))
+  const result = await db.IncomeRecord.updateOne(
+    { _id: orderId },
+    { $set: { "items.$[item].prepStatus": validatedStatus, "items.$[item].prepUpdatedAt": new Date() } },
+    {
+      arrayFilters: [
+        {
+          "item.prepStatus": { $in: earlierStatuses },
+          // Items without a category belong to the catch-all station, passed as ""
+          ...(category !== undefined ? { "item.category": category || { $in: [null, ""] } } : {}),
+        },
+      ],
+    },
+  )
+
+  if (result.matchedCount === 0) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  REVALIDATE_PATHS.KITCHEN.forEach(path => revalidatePath(path))
+
+  return { success: true }
+}
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import {
+  deleteMenuItem,
+  getMenuPriceTimeline,
+  importMenuItems,
+  scheduleMenuPriceChange,
+  toggleMenuItemAvailability,
+  updateMenuItem,
+} from "@/app/actions/menu-items"
+import { signInAs } from "@/test/auth"
+import { seedOrganizations, type Tenant } from "@/test/fixtures"
+import { ERROR_MESSAGES, MENU_IMPORT_ACTION } from "@/lib/constants"
+import MenuItem from "@/models/MenuItem"
+import MenuPriceChange from "@/models/MenuPriceChange"
+
+vi.mock("@/lib/auth", () => import("@/test/auth"))
+
+describe("menu item actions", () => {
+  let orgA: Tenant
+  let orgB: Tenant
+
+  beforeEach(async () => {
+    ;({ orgA, orgB } = await seedOrganizations())
+    signInAs(orgA.user)
+  })
+
+  const expectOrgBUnchanged = async () => {
+    const menuItem = await MenuItem.findById(orgB.menuItem._id).lean<{ name: string; price: number; isAvailable: boolean }>()
+    expect(menuItem).toMatchObject({ name: orgB.menuItem.name, price: 200, isAvailable: true })
+    expect(await MenuPriceChange.countDocuments({ menuItem: orgB.menuItem._id })).toBe(0)
+  }
+
+  it("can't update another organization's item", async () => {
+    const id = String(orgB.menuItem._id)
+
+    await expect(updateMenuItem(id, { name: "Taken", category: "Food", price: 1, isAvailable: true })).rejects.toThrow(
+      ERROR_MESSAGES.NOT_FOUND,
+    )
+    await expect(toggleMenuItemAvailability(id, false)).rejects.toThrow(ERROR_MESSAGES.NOT_FOUND)
+    await expect(
+      scheduleMenuPriceChange(id, { price: 1, effectiveAt: new Date(Date.now() + 86_400_000) }),
+    ).rejects.toThrow(ERROR_MESSAGES.NOT_FOUND)
+    await expectOrgBUnchanged()
+  })
+
+  it("records a price edit with the price it replaced", async () => {
+    const id = String(orgA.menuItem._id)
+
+    const { record } = await updateMenuItem(id, { name: orgA.menuItem.name, category: "Food", price: 240, isAvailable: true })
+
+    expect(record.price).toBe(240)
+    const changes = await MenuPriceChange.find({ menuItem: id }).lean<{ price: number; previousPrice?: number }[]>()
+    expect(changes).toMatchObject([{ price: 240, previousPrice: 200 }])
+    await expectOrgBUnchanged()
+  })
+
+  it("shows nothing of another organization's item", async () => {
+    // The other organization sold the item, so its sales would show up if the timeline weren't scoped
+    const { timeline } = await getMenuPriceTimeline(String(orgB.menuItem._id))
+    expect(timeline).toEqual({ changes: [], dailySales: [] })
+  })
+
+  it("can't delete another organization's item", async () => {
+    await expect(deleteMenuItem(String(orgB.menuItem._id))).rejects.toThrow(ERROR_MESSAGES.NOT_FOUND)
+    await expectOrgBUnchanged()
+  })
+
+  it("imports against the organization's own menu", async () => {
+    // The other organization's item name is new to this menu, so the row creates an item here
+    const result = await importMenuItems([{ name: orgB.menuItem.name, category: "Food", price: 1 }])
+
+    expect(result).toMatchObject({ created: 1, updated: 0 })
+    expect(result.results[0].action).toBe(MENU_IMPORT_ACTION.CREATE)
+    expect(await MenuItem.countDocuments({ name: orgB.menuItem.name, organization: orgA.organization })).toBe(1)
+    await expectOrgBUnchanged()
+  })
+
+  it("imports several new items and price changes together", async () => {
+    await MenuItem.create({ name: "Chowmein", category: "Food", price: 150, organization: orgA.organization, createdBy: orgA.user.id })
+
+    const result = await importMenuItems([
+      { name: orgA.menuItem.name, category: "Food", price: 220 },
+      { name: "Chowmein", category: "Food", price: 160 },
+      { name: "Thukpa", category: "Food", price: 250 },
+      { name: "Sel Roti", category: "Snacks", price: 80 },
+    ])
+
+    expect(result).toMatchObject({ created: 2, updated: 2 })
+    expect(await MenuItem.countDocuments({ organization: orgA.organization })).toBe(4)
+
+    const changes = await MenuPriceChange.find({ organization: orgA.organization })
+      .sort({ price: 1 })
+      .lean<{ price: number; previousPrice?: number }[]>()
+    expect(changes.map(({ price, previousPrice }) => ({ price, previousPrice }))).toEqual([
+      { price: 80, previousPrice: undefined },
+      { price: 160, previousPrice: 150 },
+      { price: 220, previousPrice: 200 },
+      { price: 250, previousPrice: undefined },
+    ])
+  })
+})
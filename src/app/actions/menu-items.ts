@@ -5,11 +5,35 @@
  */
 
 import { revalidatePath } from "next/cache"
+import mongoose from "mongoose"
 import { z } from "zod"
 import dbConnect from "@/lib/db"
-import MenuItem from "@/models/MenuItem"
-import { requireAuth } from "@/lib/auth"
-import { REVALIDATE_PATHS, ERROR_MESSAGES } from "@/lib/constants"
+import { requireTenant } from "@/lib/tenant"
+import { PERMISSIONS } from "@/lib/permissions"
+import { NOT_VOIDED } from "@/lib/voids"
+import { applyDuePriceChanges, recordPriceChange, recordPriceChanges, type PriceChange } from "@/lib/menu-prices"
+import { menuItemIdsByName, normalizeItemName } from "@/lib/menu-links"
+import type { MenuFileRow } from "@/lib/menu-import"
+import type { TenantData } from "@/lib/tenant"
+import {
+  REVALIDATE_PATHS,
+  ERROR_MESSAGES,
+  PAYMENT_STATUS,
+  PRICE_CHANGE_STATUS,
+  PRICE_TIMELINE_DAYS,
+  MENU_IMPORT_ACTION,
+  MENU_IMPORT_MAX_ROWS,
+} from "@/lib/constants"
+import {
+  menuImportRowSchema,
+  menuOptionsSchema,
+  scheduledPriceSchema,
+  type MenuImportRow,
+  type MenuOptionsInput,
+  type ScheduledPriceInput,
+} from "@/lib/validations"
+import type { IMenuItem } from "@/models/MenuItem"
+import type { MenuImportResult, MenuPriceTimeline } from "@/types"
 
 const menuItemSchema = z.object({
   name: z.string().min(1, "Name is required"),
@@ -18,38 +42,73 @@ const menuItemSchema = z.object({
   category: z.string().min(1, "Category is required"),
   isAvailable: z.boolean().default(true),
   image: z.string().optional(),
+  // Left as they are when not sent, so edits from the item form keep the options
+  variants: menuOptionsSchema.shape.variants.optional(),
+  modifierGroups: menuOptionsSchema.shape.modifierGroups.optional(),
 })
 
 type MenuItemInput = z.infer<typeof menuItemSchema>
 
 export async function createMenuItem(data: MenuItemInput) {
-  const { user } = await requireAuth(["admin", "manager"])
+  const { user, db } = await requireTenant(PERMISSIONS.MENU_EDIT)
 
   const validatedData = menuItemSchema.parse(data)
   await dbConnect()
 
-  const menuItem = new MenuItem({
-    ...validatedData,
-    createdBy: user.id,
-    organization: user.organization,
-  })
+  // The item and the first entry of its price history are saved together
+  const session = await mongoose.startSession()
+  let menuItem: IMenuItem | undefined
+
+  try {
+    await session.withTransaction(async () => {
+      const [created] = await db.MenuItem.create([{ ...validatedData, createdBy: user.id }], { session })
+      await recordPriceChange(db, { menuItem: created._id, price: created.price, createdBy: user.id }, session)
+      menuItem = created
+    })
+  } finally {
+    await session.endSession()
+  }
 
-  await menuItem.save()
   REVALIDATE_PATHS.MENU.forEach(path => revalidatePath(path))
 
   return { success: true, record: JSON.parse(JSON.stringify(menuItem)) }
 }
 
 export async function updateMenuItem(id: string, data: MenuItemInput) {
-  await requireAuth(["admin", "manager"])
+  const { user, db } = await requireTenant(PERMISSIONS.MENU_EDIT)
 
   const validatedData = menuItemSchema.parse(data)
   await dbConnect()
 
-  const menuItem = await MenuItem.findByIdAndUpdate(id, validatedData, { new: true })
+  // Making the item available by hand overrides the automatic out-of-stock state
+  const update = validatedData.isAvailable ? { ...validatedData, outOfStock: false } : validatedData
 
-  if (!menuItem) {
-    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  // The new price and its entry in the price history are saved together
+  const session = await mongoose.startSession()
+  let menuItem: IMenuItem | null = null
+
+  try {
+    await session.withTransaction(async () => {
+      const previous = await db.MenuItem.findById(id).select("price").session(session).lean<{ price: number }>()
+      if (!previous) {
+        throw new Error(ERROR_MESSAGES.NOT_FOUND)
+      }
+
+      menuItem = await db.MenuItem.findByIdAndUpdate(id, update, { new: true, session })
+      if (!menuItem) {
+        throw new Error(ERROR_MESSAGES.NOT_FOUND)
+      }
+
+      if (menuItem.price !== previous.price) {
+        await recordPriceChange(
+          db,
+          { menuItem: id, price: menuItem.price, previousPrice: previous.price, createdBy: user.id },
+          session,
+        )
+      }
+    })
+  } finally {
+    await session.endSession()
   }
 
   REVALIDATE_PATHS.MENU.forEach(path => revalidatePath(path))
@@ -58,25 +117,50 @@ export async function updateMenuItem(id: string, data: MenuItemInput) {
 }
 
 export async function deleteMenuItem(id: string) {
-  await requireAuth(["admin", "manager"])
+  const { db } = await requireTenant(PERMISSIONS.MENU_EDIT)
 
   await dbConnect()
-  const menuItem = await MenuItem.findByIdAndDelete(id)
+  const menuItem = await db.MenuItem.findByIdAndDelete(id)
 
   if (!menuItem) {
     throw new Error(ERROR_MESSAGES.NOT_FOUND)
   }
 
+  // Applied changes stay as history; scheduled ones have nothing left to apply to
+  await db.MenuPriceChange.updateMany(
+    { menuItem: id, status: PRICE_CHANGE_STATUS.SCHEDULED },
+    { status: PRICE_CHANGE_STATUS.CANCELLED },
+  )
+
   REVALIDATE_PATHS.MENU.forEach(path => revalidatePath(path))
 
   return { success: true }
 }
 
+/** Replaces the variants and modifier groups offered when the item is ordered */
+export async function updateMenuItemOptions(id: string, options: MenuOptionsInput) {
+  const { db } = await requireTenant(PERMISSIONS.MENU_EDIT)
+
+  const validatedOptions = menuOptionsSchema.parse(options)
+  await dbConnect()
+
+  const menuItem = await db.MenuItem.findByIdAndUpdate(id, validatedOptions, { new: true })
+
+  if (!menuItem) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  REVALIDATE_PATHS.MENU.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(menuItem)) }
+}
+
 export async function toggleMenuItemAvailability(id: string, isAvailable: boolean) {
-  await requireAuth(["admin", "manager"])
+  const { db } = await requireTenant(PERMISSIONS.MENU_EDIT)
 
   await dbConnect()
-  const menuItem = await MenuItem.findByIdAndUpdate(id, { isAvailable }, { new: true })
+  // A manual toggle overrides the automatic out-of-stock state
+  const menuItem = await db.MenuItem.findByIdAndUpdate(id, { isAvailable, outOfStock: false }, { new: true })
 
   if (!menuItem) {
     throw new Error(ERROR_MESSAGES.NOT_FOUND)
@@ -86,3 +170,283 @@ export async function toggleMenuItemAvailability(id: string, isAvailable: boolea
 
   return { success: true, record: JSON.parse(JSON.stringify(menuItem)) }
 }
+
+/** Schedules a change to the item's base price; it applies the first time prices are read after the effective date */
+export async function scheduleMenuPriceChange(id: string, data: ScheduledPriceInput) {
+  const { user, db } = await requireTenant(PERMISSIONS.MENU_EDIT)
+
+  const validatedData = scheduledPriceSchema.parse(data)
+  await dbConnect()
+
+  const menuItem = await db.MenuItem.exists({ _id: id })
+  if (!menuItem) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  const [change] = await db.MenuPriceChange.create([
+    { ...validatedData, menuItem: id, status: PRICE_CHANGE_STATUS.SCHEDULED, createdBy: user.id },
+  ])
+
+  REVALIDATE_PATHS.MENU.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(change)) }
+}
+
+export async function cancelMenuPriceChange(changeId: string) {
+  const { db } = await requireTenant(PERMISSIONS.MENU_EDIT)
+
+  await dbConnect()
+  const change = await db.MenuPriceChange.findOneAndUpdate(
+    { _id: changeId, status: PRICE_CHANGE_STATUS.SCHEDULED },
+    { status: PRICE_CHANGE_STATUS.CANCELLED },
+    { new: true },
+  )
+
+  if (!change) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  REVALIDATE_PATHS.MENU.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(change)) }
+}
+
+/** The item's price changes, applied and scheduled, with its daily sales over the same period */
+export async function getMenuPriceTimeline(id: string) {
+  const { db } = await requireTenant(PERMISSIONS.MENU_EDIT)
+
+  await dbConnect()
+  await applyDuePriceChanges(db)
+
+  const changes = await db.MenuPriceChange.find({ menuItem: id, status: { $ne: PRICE_CHANGE_STATUS.CANCELLED } })
+    .populate("createdBy", "name")
+    .sort({ effectiveAt: 1 })
+    .lean()
+
+  const since = new Date()
+  since.setDate(since.getDate() - PRICE_TIMELINE_DAYS)
+  const menuItemId = new mongoose.Types.ObjectId(id)
+  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+
+  const dailySales = await db.IncomeRecord.aggregate<MenuPriceTimeline["dailySales"][number]>([
+    {
+      $match: {
+        date: { $gte: since },
+        paymentStatus: { $in: [PAYMENT_STATUS.COMPLETED, PAYMENT_STATUS.PENDING] },
+        "items.menuItemId": menuItemId,
+        ...NOT_VOIDED,
+      },
+    },
+    { $unwind: "$items" },
+    { $match: { "items.menuItemId": menuItemId } },
+    {
+      $group: {
+        _id: { $dateToString: { format: "%Y-%m-%d", date: "$date", timezone } },
+        quantity: { $sum: { $ifNull: ["$items.quantity", 1] } },
+        revenue: { $sum: { $multiply: [{ $ifNull: ["$items.quantity", 1] }, { $ifNull: ["$items.price", 0] }] } },
+      },
+    },
+    { $project: { _id: 0, date: "$_id", quantity: 1, revenue: 1 } },
+    { $sort: { date: 1 } },
+  ])
+
+  const timeline: MenuPriceTimeline = { changes: JSON.parse(JSON.stringify(changes)), dailySales }
+  return { success: true, timeline }
+}
+
+type ImportedField = keyof Omit<MenuImportRow, "name">
+
+const IMPORTED_FIELDS: ImportedField[] = ["category", "price", "description", "isAvailable", "image"]
+
+interface PlannedImport {
+  result: MenuImportResult
+  data?: MenuImportRow
+  // Version of the item an update was worked out from
+  updatedAt?: Date
+}
+
+/**
+ * Works out what importing each row would do. Rows match existing items by name, compared the way
+ * order lines are linked; a name the file repeats or that several items share is a conflict to fix in
+ * the file, since it can't tell which item the row means.
+ */
+async function planMenuImport(db: TenantData, rows: MenuFileRow[]): Promise<PlannedImport[]> {
+  if (!Array.isArray(rows) || rows.length === 0) {
+    throw new Error("The file has no menu items")
+  }
+  if (rows.length > MENU_IMPORT_MAX_ROWS) {
+    throw new Error(`A file can hold at most ${MENU_IMPORT_MAX_ROWS} menu items`)
+  }
+
+  const menuItems = await db.MenuItem.find()
+    .select("name category price description isAvailable image updatedAt")
+    .lean<({ _id: unknown; name: string; updatedAt: Date } & Partial<MenuImportRow>)[]>()
+  const menuItemsById = new Map(menuItems.map((item) => [String(item._id), item]))
+  const idsByName = menuItemIdsByName(menuItems)
+
+  const parsedRows = rows.map((row) => menuImportRowSchema.safeParse(row))
+  const timesInFile = new Map<string, number>()
+  for (const parsed of parsedRows) {
+    if (!parsed.success) continue
+    const key = normalizeItemName(parsed.data.name)
+    timesInFile.set(key, (timesInFile.get(key) || 0) + 1)
+  }
+
+  return parsedRows.map((parsed, index) => {
+    const row = index + 1
+    if (!parsed.success) {
+      return {
+        result: {
+          row,
+          name: typeof rows[index]?.name === "string" ? String(rows[index].name) : "",
+          action: MENU_IMPORT_ACTION.INVALID,
+          errors: parsed.error.errors.map((issue) => issue.message),
+        },
+      }
+    }
+
+    const data = parsed.data
+    const key = normalizeItemName(data.name)
+    if (!key) {
+      return {
+        result: { row, name: data.name, action: MENU_IMPORT_ACTION.INVALID, errors: ["Name needs letters or numbers"] },
+      }
+    }
+    if ((timesInFile.get(key) || 0) > 1) {
+      return {
+        result: {
+          row,
+          name: data.name,
+          action: MENU_IMPORT_ACTION.CONFLICT,
+          errors: [`"${data.name}" appears ${timesInFile.get(key)} times in the file`],
+        },
+      }
+    }
+
+    const ids = idsByName.get(key) || []
+    if (ids.length > 1) {
+      return {
+        result: {
+          row,
+          name: data.name,
+          action: MENU_IMPORT_ACTION.CONFLICT,
+          errors: [`${ids.length} menu items are named "${data.name}"; rename them so each name is unique`],
+        },
+      }
+    }
+    if (ids.length === 0) {
+      return { result: { row, name: data.name, action: MENU_IMPORT_ACTION.CREATE }, data }
+    }
+
+    const existing = menuItemsById.get(ids[0])!
+    const changes = IMPORTED_FIELDS.filter(
+      (field) => data[field] !== undefined && data[field] !== (existing[field] ?? (field === "isAvailable" ? true : "")),
+    ).map((field) => ({ field, from: existing[field], to: data[field] }))
+
+    return {
+      result: {
+        row,
+        name: data.name,
+        action: changes.length > 0 ? MENU_IMPORT_ACTION.UPDATE : MENU_IMPORT_ACTION.UNCHANGED,
+        menuItemId: ids[0],
+        ...(changes.length > 0 && { changes }),
+      },
+      data,
+      updatedAt: existing.updatedAt,
+    }
+  })
+}
+
+/** What importing the rows would create, update and skip, without changing anything */
+export async function previewMenuImport(rows: MenuFileRow[]) {
+  const { db } = await requireTenant(PERMISSIONS.MENU_EDIT)
+
+  await dbConnect()
+  const plan = await planMenuImport(db, rows)
+
+  return { success: true, results: plan.map(({ result }) => result) }
+}
+
+/**
+ * Creates and updates menu items from an import file. The rows are checked again, as the menu may have
+ * changed since the preview; conflicting and invalid rows are skipped and reported back. The items and
+ * their price history are written in one transaction, so a failed import leaves the menu as it was.
+ * Updates only apply to the version of the item they were worked out from; an item edited meanwhile
+ * is left alone and its row reported as a conflict.
+ */
+export async function importMenuItems(rows: MenuFileRow[]) {
+  const { user, db } = await requireTenant(PERMISSIONS.MENU_EDIT)
+
+  await dbConnect()
+  const plan = await planMenuImport(db, rows)
+
+  const creates = plan.filter(({ result }) => result.action === MENU_IMPORT_ACTION.CREATE)
+  const updates = plan.filter(({ result }) => result.action === MENU_IMPORT_ACTION.UPDATE)
+
+  const session = await mongoose.startSession()
+  let created: IMenuItem[] = []
+  let staleRows = new Set<number>()
+
+  try {
+    await session.withTransaction(async () => {
+      // A retried transaction starts over
+      staleRows = new Set<number>()
+      // Several documents are only created in a session when they're saved in order
+      created = creates.length
+        ? await db.MenuItem.create(
+            creates.map(({ data }) => ({ ...data, createdBy: user.id })),
+            { session, ordered: true },
+          )
+        : []
+
+      const priceChanges: PriceChange[] = created.map((menuItem) => ({
+        menuItem: menuItem._id,
+        price: menuItem.price,
+        createdBy: user.id,
+      }))
+
+      for (const { result, data, updatedAt } of updates) {
+        const fields = Object.fromEntries(result.changes!.map((change) => [change.field, data![change.field as ImportedField]]))
+        // Only the version the row was checked against is updated, and the write hands back the price it replaces.
+        // Making an item available overrides the automatic out-of-stock state, as it does by hand.
+        const previous = await db.MenuItem.findOneAndUpdate(
+          { _id: result.menuItemId, updatedAt },
+          { $set: fields.isAvailable === true ? { ...fields, outOfStock: false } : fields },
+          { session, projection: { price: 1 } },
+        )
+        if (!previous) {
+          staleRows.add(result.row)
+          continue
+        }
+        if (fields.price !== undefined && fields.price !== previous.price) {
+          priceChanges.push({ menuItem: previous._id, price: Number(fields.price), previousPrice: previous.price, createdBy: user.id })
+        }
+      }
+
+      await recordPriceChanges(db, priceChanges, session)
+    })
+  } finally {
+    await session.endSession()
+  }
+
+  const results = plan.map(({ result }): MenuImportResult =>
+    staleRows.has(result.row)
+      ? {
+          row: result.row,
+          name: result.name,
+          action: MENU_IMPORT_ACTION.CONFLICT,
+          menuItemId: result.menuItemId,
+          errors: ["The item was changed while the file was imported; check the preview and import again"],
+        }
+      : result,
+  )
+
+  REVALIDATE_PATHS.MENU.forEach(path => revalidatePath(path))
+
+  return {
+    success: true,
+    created: created.length,
+    updated: updates.length - staleRows.size,
+    results,
+  }
+}
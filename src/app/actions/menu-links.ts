@@ -0,0 +1,143 @@
+"use server"
+
+/**
+ * Menu Links - Server actions for linking past order lines to the menu items they were sold as
+ */
+
+import { revalidatePath } from "next/cache"
+import mongoose from "mongoose"
+import dbConnect from "@/lib/db"
+import { PERMISSIONS } from "@/lib/permissions"
+import { requireTenant, type TenantData } from "@/lib/tenant"
+import { menuItemIdsByName, normalizeItemName, resolveMenuItemId } from "@/lib/menu-links"
+import { REVALIDATE_PATHS, ERROR_MESSAGES } from "@/lib/constants"
+import type { UnlinkedOrderLine } from "@/types"
+
+const UNLINKED_LINE = { $or: [{ menuItemId: { $exists: false } }, { menuItemId: null }] }
+
+interface UnlinkedRecord {
+  _id: mongoose.Types.ObjectId
+  date: Date
+  updatedAt: Date
+  items: { name: string; quantity: number; menuItemId?: unknown }[]
+}
+
+async function findUnlinkedRecords(db: TenantData) {
+  return (await db.IncomeRecord.find({ items: { $elemMatch: UNLINKED_LINE } })
+    .select("items date updatedAt")
+    .lean()) as unknown as UnlinkedRecord[]
+}
+
+/**
+ * Sets the menuItemId of every unlinked line the resolver returns an id for.
+ * Linking isn't an edit, so updatedAt is left alone and offline copies of the orders don't turn stale;
+ * an order edited meanwhile is skipped and left out of the count, and its edit links it anyway.
+ */
+async function linkLines(db: TenantData, resolve: (name: string) => string | undefined) {
+  const records = await findUnlinkedRecords(db)
+  let linked = 0
+  let skipped = 0
+
+  for (const record of records) {
+    const links: Record<string, mongoose.Types.ObjectId> = {}
+    record.items.forEach((item, index) => {
+      const menuItemId = item.menuItemId ? undefined : resolve(String(item.name || ""))
+      if (menuItemId) links[`items.${index}.menuItemId`] = new mongoose.Types.ObjectId(menuItemId)
+    })
+
+    const count = Object.keys(links).length
+    if (count === 0) continue
+
+    // Only the version the lines were read from is linked, as an edit may have moved them
+    const result = await db.IncomeRecord.updateOne(
+      { _id: record._id, updatedAt: record.updatedAt },
+      { $set: links },
+      { timestamps: false },
+    )
+    if (result.matchedCount === 0) {
+      skipped++
+    } else {
+      linked += count
+    }
+  }
+
+  return { linked, skipped }
+}
+
+/** Links past order lines whose name matches exactly one menu item; the rest are left for review */
+export async function backfillMenuItemLinks() {
+  const { db } = await requireTenant(PERMISSIONS.MENU_EDIT)
+  await dbConnect()
+
+  const idsByName = menuItemIdsByName(await db.MenuItem.find().select("name").lean())
+  const { linked, skipped } = await linkLines(db, (name) => resolveMenuItemId(idsByName, name))
+
+  REVALIDATE_PATHS.MENU.forEach(path => revalidatePath(path))
+
+  return { success: true, linked, skipped }
+}
+
+/** Past order lines that still have no menu item, grouped by name, with the menu items they might be */
+export async function getUnlinkedOrderLines() {
+  const { db } = await requireTenant(PERMISSIONS.MENU_EDIT)
+  await dbConnect()
+
+  const menuItems = await db.MenuItem.find().select("name").sort({ name: 1 }).lean()
+  const records = await findUnlinkedRecords(db)
+  const groups = new Map<string, UnlinkedOrderLine>()
+
+  for (const record of records) {
+    for (const item of record.items) {
+      const key = normalizeItemName(String(item.name || ""))
+      if (item.menuItemId || !key) continue
+
+      const group = groups.get(key) || {
+        key,
+        name: String(item.name).trim(),
+        lineCount: 0,
+        quantity: 0,
+        lastSold: record.date,
+        candidates: [],
+      }
+      group.lineCount++
+      group.quantity += Number(item.quantity) || 1
+      if (record.date > new Date(group.lastSold)) group.lastSold = record.date
+      groups.set(key, group)
+    }
+  }
+
+  const lines = Array.from(groups.values()).map((group) => {
+    const words = group.key.split(" ").filter((word) => word.length >= 3)
+    const exact = menuItems.filter((menuItem) => normalizeItemName(menuItem.name) === group.key)
+    // No item has the exact name, so suggest the ones sharing a word with it
+    const similar = exact.length > 0
+      ? exact
+      : menuItems.filter((menuItem) => normalizeItemName(menuItem.name).split(" ").some((word) => words.includes(word)))
+    return {
+      ...group,
+      candidates: similar.map((menuItem) => ({ _id: String(menuItem._id), name: menuItem.name })),
+    }
+  })
+
+  lines.sort((a, b) => b.lineCount - a.lineCount)
+
+  return { success: true, lines: JSON.parse(JSON.stringify(lines)) as UnlinkedOrderLine[] }
+}
+
+/** Links every unlinked past line with this name to the chosen menu item */
+export async function linkOrderLines(name: string, menuItemId: string) {
+  const { db } = await requireTenant(PERMISSIONS.MENU_EDIT)
+  await dbConnect()
+
+  const menuItem = await db.MenuItem.findById(menuItemId).select("_id").lean()
+  if (!menuItem) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  const key = normalizeItemName(name)
+  const { linked, skipped } = await linkLines(db, (lineName) => (normalizeItemName(lineName) === key ? menuItemId : undefined))
+
+  REVALIDATE_PATHS.MENU.forEach(path => revalidatePath(path))
+
+  return { success: true, linked, skipped }
+}
@@ -0,0 +1,67 @@
+"use server"
+
+/**
+ * Menu Rules - Server actions for menu availability schedules and happy-hour price rules
+ */
+
+import { revalidatePath } from "next/cache"
+import dbConnect from "@/lib/db"
+import { menuRuleSchema, type MenuRuleInput } from "@/lib/validations"
+import { PERMISSIONS } from "@/lib/permissions"
+import { requireTenant } from "@/lib/tenant"
+import { REVALIDATE_PATHS, ERROR_MESSAGES, MENU_RULE_TYPE } from "@/lib/constants"
+
+// Availability rules don't discount, so a stray discount from the form isn't kept
+const ruleFields = (data: MenuRuleInput) => {
+  const rule = menuRuleSchema.parse(data)
+  return {
+    ...rule,
+    days: Array.from(new Set(rule.days)).sort((a, b) => a - b),
+    discountPercent: rule.type === MENU_RULE_TYPE.PRICE ? rule.discountPercent : undefined,
+  }
+}
+
+export async function createMenuRule(data: MenuRuleInput) {
+  const { user, db } = await requireTenant(PERMISSIONS.MENU_EDIT)
+
+  const validatedData = ruleFields(data)
+  await dbConnect()
+
+  const [rule] = await db.MenuRule.create([{ ...validatedData, createdBy: user.id }])
+
+  REVALIDATE_PATHS.MENU.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(rule)) }
+}
+
+export async function updateMenuRule(id: string, data: MenuRuleInput) {
+  const { db } = await requireTenant(PERMISSIONS.MENU_EDIT)
+
+  const validatedData = ruleFields(data)
+  await dbConnect()
+
+  const rule = await db.MenuRule.findByIdAndUpdate(id, validatedData, { new: true })
+
+  if (!rule) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  REVALIDATE_PATHS.MENU.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(rule)) }
+}
+
+export async function deleteMenuRule(id: string) {
+  const { db } = await requireTenant(PERMISSIONS.MENU_EDIT)
+
+  await dbConnect()
+  const rule = await db.MenuRule.findByIdAndDelete(id)
+
+  if (!rule) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  REVALIDATE_PATHS.MENU.forEach(path => revalidatePath(path))
+
+  return { success: true }
+}
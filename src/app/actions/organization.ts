@@ -20,7 +20,7 @@ export async function createOrganization(data: {
   taxId?: string
 }) {
   const session = await getServerSession(authOptions)
-  if (!session?.user?.id && !session?.user?.superAdmin) {
+  if (!session?.user?.superAdmin) {
     throw new Error("Unauthorized")
   }
 
@@ -46,7 +46,7 @@ export async function updateOrganization(id: string, data: {
   isActive?: boolean
 }) {
   const session = await getServerSession(authOptions)
-  if (!session?.user?.id && !session?.user?.superAdmin) {
+  if (!session?.user?.superAdmin) {
     throw new Error("Unauthorized")
   }
 
@@ -0,0 +1,90 @@
+"use server"
+
+/**
+ * Roles - Server actions for the organization's roles and the permissions they grant
+ */
+
+import { revalidatePath } from "next/cache"
+import dbConnect from "@/lib/db"
+import Organization from "@/models/Organization"
+import { roleSchema, type RoleInput } from "@/lib/validations"
+import { requireAuth } from "@/lib/auth"
+import { requireTenant } from "@/lib/tenant"
+import { ADMIN_ROLE, PERMISSIONS, isBuiltInRole, resolveRoles, type RoleDefinition } from "@/lib/permissions"
+import { REVALIDATE_PATHS, ERROR_MESSAGES } from "@/lib/constants"
+
+const roleKey = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+
+const savedRoles = (roles: RoleDefinition[] = []): RoleDefinition[] =>
+  roles.map(({ key, name, permissions }) => ({ key, name, permissions: [...permissions] }))
+
+/**
+ * Creates a custom role, or renames an existing role and replaces its permissions.
+ * The admin role can't be changed, and nobody can grant a permission they don't hold themselves.
+ */
+export async function saveRole(data: RoleInput) {
+  const { user } = await requireAuth(PERMISSIONS.USERS_MANAGE)
+
+  const validatedData = roleSchema.parse(data)
+  const isNew = !validatedData.key
+  const key = validatedData.key || roleKey(validatedData.name)
+
+  if (!key) throw new Error("Role name must contain letters or numbers")
+  if (key === ADMIN_ROLE) throw new Error("The admin role always has every permission")
+
+  await dbConnect()
+
+  const organization = await Organization.findById(user.organization).select("roles")
+  if (!organization) throw new Error(ERROR_MESSAGES.NOT_FOUND)
+
+  const roles = savedRoles(organization.roles)
+  const current = resolveRoles(roles).find((role) => role.key === key)
+
+  if (isNew && current) throw new Error("A role with this name already exists")
+  if (!isNew && !current) throw new Error(ERROR_MESSAGES.NOT_FOUND)
+
+  const granted = validatedData.permissions.filter((permission) => !current?.permissions.includes(permission))
+  if (granted.some((permission) => !user.permissions.includes(permission))) {
+    throw new Error("You can't grant permissions you don't have")
+  }
+
+  const role = { key, name: validatedData.name, permissions: validatedData.permissions }
+  const index = roles.findIndex((saved) => saved.key === key)
+  if (index === -1) roles.push(role)
+  else roles[index] = role
+
+  organization.roles = roles
+  await organization.save()
+
+  REVALIDATE_PATHS.USERS.forEach(path => revalidatePath(path))
+
+  return { success: true, roles: resolveRoles(roles) }
+}
+
+/** Deletes a custom role that no user holds; built-in roles can only be edited */
+export async function deleteRole(key: string) {
+  const { user, db } = await requireTenant(PERMISSIONS.USERS_MANAGE)
+
+  if (isBuiltInRole(key)) throw new Error("Built-in roles can't be deleted")
+
+  await dbConnect()
+
+  if (await db.User.exists({ role: key })) {
+    throw new Error("Move the users with this role to another role first")
+  }
+
+  const organization = await Organization.findById(user.organization).select("roles")
+  if (!organization) throw new Error(ERROR_MESSAGES.NOT_FOUND)
+
+  const roles = savedRoles(organization.roles).filter((role) => role.key !== key)
+  organization.roles = roles
+  await organization.save()
+
+  REVALIDATE_PATHS.USERS.forEach(path => revalidatePath(path))
+
+  return { success: true, roles: resolveRoles(roles) }
+}
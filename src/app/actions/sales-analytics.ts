@@ -1,309 +1,239 @@
 "use server"
 
-import { authOptions } from "@/lib/auth"
+import mongoose from "mongoose"
 import dbConnect from "@/lib/db"
-import IncomeRecord from "@/models/IncomeRecord"
-import { getServerSession } from "next-auth"
+import { requireTenant } from "@/lib/tenant"
+import { branchFilter } from "@/lib/branches"
+import { PERMISSIONS } from "@/lib/permissions"
+import { NOT_VOIDED } from "@/lib/voids"
 import { getDateRange } from "@/lib/utils"
+import { PAYMENT_STATUS } from "@/lib/constants"
 
 /**
  * Sales Analytics - Server actions for aggregating sales data
  * Provides best-selling items, category sales, daily trends, and item history
  */
 
+// Order items as the pipelines read them; unnamed lines are left out, as the order forms drop them
+const NAMED_ITEMS = [{ $unwind: "$items" }, { $match: { "items.name": { $nin: [null, ""] } } }]
+const ITEM_QUANTITY = { $ifNull: ["$items.quantity", 1] }
+const ITEM_REVENUE = { $multiply: [ITEM_QUANTITY, { $ifNull: ["$items.price", 0] }] }
+const ITEM_CATEGORY = { $cond: [{ $in: ["$items.category", [null, ""]] }, "Food", "$items.category"] }
+// Linked lines count toward their menu item whatever name they were sold under; unlinked ones go by name
+const ITEM_KEY = { $ifNull: ["$items.menuItemId", "$items.name"] }
+
+/** Identifies an item in the history lookups: its menu item when its sales are linked, otherwise its name */
+interface ItemKey {
+  menuItemId?: string | null
+  name: string
+}
+
+// Orders the history lookups count
+const SOLD = { paymentStatus: { $in: [PAYMENT_STATUS.COMPLETED, PAYMENT_STATUS.PENDING] }, ...NOT_VOIDED }
+
+// Conditions on an order line for the item it was sold as
+const itemLine = (item: ItemKey): Record<string, unknown> =>
+  item.menuItemId ? { menuItemId: new mongoose.Types.ObjectId(item.menuItemId) } : { name: item.name, menuItemId: null }
+
+// The same conditions once the order's lines are unwound
+const onItems = (line: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(line).map(([field, value]) => [`items.${field}`, value]))
+
+interface SalesAnalyticsFacets {
+  overall: { totalOrders: number; totalRevenue: number }[]
+  itemTotals: { totalItemsSold: number; uniqueItemTypes: number }[]
+  bestSellingItems: {
+    _id: unknown
+    menuItemId: unknown
+    itemName: string
+    category: string
+    totalQuantitySold: number
+    totalRevenue: number
+    orderCount: number
+    lastSold: Date
+    firstSold: Date
+    allPrices: number[]
+  }[]
+  categorySales: { category: string; totalQuantity: number; totalRevenue: number; uniqueItems: number }[]
+  dailyOrders: { _id: string; date: Date; totalOrders: number; totalRevenue: number }[]
+  dailyItems: { _id: string; totalItems: number; uniqueItemTypes: number }[]
+  branchSales: { _id: unknown; totalOrders: number; totalRevenue: number }[]
+  variantSales: { _id: { item: unknown; variant: string }; quantity: number; revenue: number }[]
+  modifierSales: { _id: { group: string; name: string }; quantity: number; revenue: number }[]
+}
+
 export async function getSalesAnalytics(dateFilter = "month") {
   try {
-      const session = await getServerSession(authOptions)
-      if (!session?.user?.id) {
-        throw new Error("Unauthorized")
-      }
+    const { user, db } = await requireTenant(PERMISSIONS.ANALYTICS_VIEW)
     await dbConnect()
 
-    // Step 1: Get ALL income records from database at once
-    const allIncomeRecords = await IncomeRecord.find({ organization: session.user.organization }).lean()
-
-    if (allIncomeRecords.length === 0) {
-      return {
-        success: true,
-        data: {
-          bestSellingItems: [],
-          categorySales: [],
-          dailySales: [],
-          overallStats: {
-            totalOrders: 0,
-            totalRevenue: 0,
-            averageOrderValue: 0,
-            totalItemsSold: 0,
-            uniqueItemTypes: 0,
-          },
-          dateRange: { startDate: new Date(), endDate: new Date(), filter: dateFilter },
-          debug: { totalRecordsInDB: 0, filteredRecords: 0, processedOrders: 0, filteringDetails: {} },
-        },
-      }
-    }
-
-    // Step 2: Use the getDateRange utility for consistent date filtering
     const { start, end } = getDateRange(dateFilter)
 
-    // Step 3: Analyze all records first to understand the data
-    const analysisResults: {
-      totalRecords: number
-      recordsInDateRange: number
-      recordsWithValidPayment: number
-      recordsWithItems: number
-      recordsWithItemsAndNames: number
-      paymentStatusBreakdown: Map<string, number>
-      dateRangeInDB: { oldest: Date | null; newest: Date | null }
-      recordsPassingAllFilters: number
-    } = {
-      totalRecords: allIncomeRecords.length,
-      recordsInDateRange: 0,
-      recordsWithValidPayment: 0,
-      recordsWithItems: 0,
-      recordsWithItemsAndNames: 0,
-      paymentStatusBreakdown: new Map(),
-      dateRangeInDB: { oldest: null, newest: null },
-      recordsPassingAllFilters: 0,
-    }
-
-    // First pass: analyze all records
-    allIncomeRecords.forEach((record) => {
-      // Track payment status
-      const status = record.paymentStatus || "null"
-      analysisResults.paymentStatusBreakdown.set(status, (analysisResults.paymentStatusBreakdown.get(status) || 0) + 1)
-
-      // Track date range in database
-      const recordDate = new Date(record.date)
-      if (!analysisResults.dateRangeInDB.oldest || recordDate < analysisResults.dateRangeInDB.oldest) {
-        analysisResults.dateRangeInDB.oldest = recordDate
-      }
-      if (!analysisResults.dateRangeInDB.newest || recordDate > analysisResults.dateRangeInDB.newest) {
-        analysisResults.dateRangeInDB.newest = recordDate
-      }
-
-      // Check individual filter criteria
-      const isInDateRange = recordDate >= start && recordDate <= end
-      const hasValidPayment = ["completed", "pending"].includes(record.paymentStatus)
-      const hasItems = record.items && Array.isArray(record.items) && record.items.length > 0
-      const hasItemsWithNames = hasItems && record.items.some((item: any) => item.name && String(item.name).trim() !== "")
-
-      if (isInDateRange) analysisResults.recordsInDateRange++
-      if (hasValidPayment) analysisResults.recordsWithValidPayment++
-      if (hasItems) analysisResults.recordsWithItems++
-      if (hasItemsWithNames) analysisResults.recordsWithItemsAndNames++
-      if (isInDateRange && hasValidPayment && hasItemsWithNames) analysisResults.recordsPassingAllFilters++
-    })
-
-    // Step 4: Filter records with more flexible criteria
-    const filteredRecords = allIncomeRecords.filter((record) => {
-      // Check date
-      const recordDate = new Date(record.date)
-      const isInDateRange = recordDate >= start && recordDate <= end
-
-      // Check payment status (be more flexible)
-      const validPaymentStatus = ["paid", "pending", "completed"].includes(record.paymentStatus)
-
-      // Check if record has items with names (more flexible)
-      const hasValidItems =
-        record.items &&
-        Array.isArray(record.items) &&
-        record.items.length > 0 &&
-        record.items.some((item) => item.name && String(item.name).trim() !== "")
-
-      return isInDateRange && validPaymentStatus && hasValidItems
-    })
-
-    // If we still have very few records, let's be even more flexible
-    if (filteredRecords.length < 10) {
-
-      const moreFlexibleRecords = allIncomeRecords.filter((record) => {
-        const recordDate = new Date(record.date)
-        const isInDateRange = recordDate >= start && recordDate <= end
-
-        // Accept any payment status except explicitly rejected ones
-        const validPaymentStatus = !["cancelled", "refunded", "failed"].includes(record.paymentStatus)
-
-        // Accept records with any items, even without names
-        const hasItems = record.items && Array.isArray(record.items) && record.items.length > 0
-
-        return isInDateRange && validPaymentStatus && hasItems
-      })
-
-      if (moreFlexibleRecords.length > filteredRecords.length) {
-        filteredRecords.splice(0, filteredRecords.length, ...moreFlexibleRecords)
-      }
-    }
-
-    // Rest of the processing remains the same...
-    const itemSalesMap = new Map()
-    const categorySalesMap = new Map()
-    const dailySalesMap = new Map()
-
-    let totalOrders = 0
-    let totalRevenue = 0
-    let totalItemsSold = 0
-    const uniqueItemNames = new Set()
-
-    // Process each filtered record
-    filteredRecords.forEach((record, recordIndex) => {
-      try {
-        totalOrders++
-        const orderAmount = Number(record.totalAmount) || 0
-        totalRevenue += orderAmount
-
-        // Process items in this order
-        if (record.items && Array.isArray(record.items)) {
-          record.items.forEach((item, itemIndex) => {
-            try {
-              // Extract item data with defaults - be more flexible with names
-              const itemName = String(item.name || item.itemName || item.title || `Item ${itemIndex + 1}`)
-              const itemCategory = String(item.category || item.type || "Food")
-              const itemQuantity = Number(item.quantity || item.qty || 1)
-              const itemPrice = Number(item.price || item.unitPrice || item.cost || 0)
-              const itemTotal = itemQuantity * itemPrice
-
-              totalItemsSold += itemQuantity
-              uniqueItemNames.add(itemName)
-
-              // Track individual item sales
-              if (!itemSalesMap.has(itemName)) {
-                itemSalesMap.set(itemName, {
-                  _id: itemName,
-                  itemName: itemName,
-                  category: itemCategory,
-                  totalQuantitySold: 0,
-                  totalRevenue: 0,
-                  orderCount: 0,
-                  lastSold: record.date,
-                  firstSold: record.date,
-                  allPrices: new Set(),
-                })
-              }
-
-              const itemData = itemSalesMap.get(itemName)
-              itemData.totalQuantitySold += itemQuantity
-              itemData.totalRevenue += itemTotal
-              itemData.orderCount++
-              itemData.allPrices.add(itemPrice)
-
-              // Update dates
-              const recordDate = new Date(record.date)
-              if (recordDate > new Date(itemData.lastSold)) {
-                itemData.lastSold = record.date
-              }
-              if (recordDate < new Date(itemData.firstSold)) {
-                itemData.firstSold = record.date
-              }
-
-              // Track category sales
-              if (!categorySalesMap.has(itemCategory)) {
-                categorySalesMap.set(itemCategory, {
-                  category: itemCategory,
-                  totalQuantity: 0,
-                  totalRevenue: 0,
-                  uniqueItems: new Set(),
-                })
-              }
-
-              const categoryData = categorySalesMap.get(itemCategory)
-              categoryData.totalQuantity += itemQuantity
-              categoryData.totalRevenue += itemTotal
-              categoryData.uniqueItems.add(itemName)
-            } catch (itemError) {
-              console.error(`Error processing item ${itemIndex} in record ${recordIndex}:`, itemError)
-            }
-          })
-        }
-
-        // Track daily sales
-        const dateKey = new Date(record.date).toDateString()
-        if (!dailySalesMap.has(dateKey)) {
-          dailySalesMap.set(dateKey, {
-            date: record.date,
-            totalOrders: 0,
-            totalRevenue: 0,
-            totalItems: 0,
-            uniqueItemTypes: new Set(),
-          })
-        }
-
-        const dayData = dailySalesMap.get(dateKey)
-        dayData.totalOrders++
-        dayData.totalRevenue += orderAmount
-
-        if (record.items && Array.isArray(record.items)) {
-          record.items.forEach((item) => {
-            const itemQuantity = Number(item.quantity || item.qty || 1)
-            const itemName = String(item.name || item.itemName || item.title || "Unknown Item")
-            dayData.totalItems += itemQuantity
-            dayData.uniqueItemTypes.add(itemName)
-          })
-        }
-      } catch (recordError) {
-        console.error(`Error processing record ${recordIndex}:`, recordError)
-      }
-    })
-
-    // Step 5: Convert Maps to Arrays and calculate final values
-    const bestSellingItems = Array.from(itemSalesMap.values())
-      .map((item) => ({
-        ...item,
-        allPrices: Array.from(item.allPrices),
-        averagePrice: item.totalRevenue > 0 ? item.totalRevenue / item.totalQuantitySold : 0,
-      }))
-      .sort((a, b) => b.totalQuantitySold - a.totalQuantitySold)
-
-    const categorySales = Array.from(categorySalesMap.values())
-      .map((category) => ({
-        ...category,
-        uniqueItems: category.uniqueItems.size,
-      }))
-      .sort((a, b) => b.totalRevenue - a.totalRevenue)
-
-    const dailySales = Array.from(dailySalesMap.values())
-      .map((day) => ({
-        ...day,
-        uniqueItemTypes: day.uniqueItemTypes.size,
-      }))
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-
-    const overallStats = {
-      totalOrders,
-      totalRevenue,
-      averageOrderValue: totalOrders > 0 ? totalRevenue / totalOrders : 0,
-      totalItemsSold,
-      uniqueItemTypes: uniqueItemNames.size,
-    }
+    // Days are bucketed in the server's time zone, the same one getDateRange works in
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+    const day = { $dateToString: { format: "%Y-%m-%d", date: "$date", timezone } }
+
+    const [facets] = await db.IncomeRecord.aggregate<SalesAnalyticsFacets>([
+      {
+        $match: {
+          date: { $gte: start, $lte: end },
+          paymentStatus: { $in: [PAYMENT_STATUS.COMPLETED, PAYMENT_STATUS.PENDING] },
+          "items.0": { $exists: true },
+          ...NOT_VOIDED,
+          ...branchFilter(user),
+        },
+      },
+      {
+        $facet: {
+          overall: [
+            { $group: { _id: null, totalOrders: { $sum: 1 }, totalRevenue: { $sum: { $ifNull: ["$totalAmount", 0] } } } },
+          ],
+          itemTotals: [
+            ...NAMED_ITEMS,
+            { $group: { _id: null, totalItemsSold: { $sum: ITEM_QUANTITY }, names: { $addToSet: ITEM_KEY } } },
+            { $project: { _id: 0, totalItemsSold: 1, uniqueItemTypes: { $size: "$names" } } },
+          ],
+          bestSellingItems: [
+            // Oldest first, so each item's last name is the one it was most recently sold under
+            { $sort: { date: 1 } },
+            ...NAMED_ITEMS,
+            {
+              $group: {
+                _id: ITEM_KEY,
+                menuItemId: { $first: "$items.menuItemId" },
+                itemName: { $last: "$items.name" },
+                category: { $first: ITEM_CATEGORY },
+                totalQuantitySold: { $sum: ITEM_QUANTITY },
+                totalRevenue: { $sum: ITEM_REVENUE },
+                orderCount: { $sum: 1 },
+                lastSold: { $max: "$date" },
+                firstSold: { $min: "$date" },
+                allPrices: { $addToSet: { $ifNull: ["$items.price", 0] } },
+              },
+            },
+            { $sort: { totalQuantitySold: -1, _id: 1 } },
+          ],
+          categorySales: [
+            ...NAMED_ITEMS,
+            {
+              $group: {
+                _id: ITEM_CATEGORY,
+                totalQuantity: { $sum: ITEM_QUANTITY },
+                totalRevenue: { $sum: ITEM_REVENUE },
+                names: { $addToSet: ITEM_KEY },
+              },
+            },
+            { $project: { _id: 0, category: "$_id", totalQuantity: 1, totalRevenue: 1, uniqueItems: { $size: "$names" } } },
+            { $sort: { totalRevenue: -1 } },
+          ],
+          dailyOrders: [
+            {
+              $group: {
+                _id: day,
+                date: { $min: "$date" },
+                totalOrders: { $sum: 1 },
+                totalRevenue: { $sum: { $ifNull: ["$totalAmount", 0] } },
+              },
+            },
+            { $sort: { date: 1 } },
+          ],
+          dailyItems: [
+            ...NAMED_ITEMS,
+            { $group: { _id: day, totalItems: { $sum: ITEM_QUANTITY }, names: { $addToSet: ITEM_KEY } } },
+            { $project: { totalItems: 1, uniqueItemTypes: { $size: "$names" } } },
+          ],
+          branchSales: [
+            { $group: { _id: "$branch", totalOrders: { $sum: 1 }, totalRevenue: { $sum: { $ifNull: ["$totalAmount", 0] } } } },
+            { $sort: { totalRevenue: -1 } },
+          ],
+          // Variants are broken out within each item rather than counted as items of their own
+          variantSales: [
+            ...NAMED_ITEMS,
+            { $match: { "items.variant": { $nin: [null, ""] } } },
+            {
+              $group: {
+                _id: { item: ITEM_KEY, variant: "$items.variant" },
+                quantity: { $sum: ITEM_QUANTITY },
+                revenue: { $sum: ITEM_REVENUE },
+              },
+            },
+            { $sort: { quantity: -1 } },
+          ],
+          // Revenue here is only what the modifiers added on top of the items
+          modifierSales: [
+            ...NAMED_ITEMS,
+            { $unwind: "$items.modifiers" },
+            {
+              $group: {
+                _id: { group: "$items.modifiers.group", name: "$items.modifiers.name" },
+                quantity: { $sum: ITEM_QUANTITY },
+                revenue: { $sum: { $multiply: [ITEM_QUANTITY, { $ifNull: ["$items.modifiers.priceDelta", 0] }] } },
+              },
+            },
+            { $sort: { quantity: -1 } },
+          ],
+        },
+      },
+    ])
+
+    const branches = await db.Branch.find().select("name").lean<{ _id: unknown; name: string }[]>()
+    const branchNames = new Map(branches.map((branch) => [String(branch._id), branch.name]))
+
+    const itemsByDay = new Map(facets.dailyItems.map((dayItems) => [dayItems._id, dayItems]))
+
+    // Linked items show under their current menu name, so a renamed dish keeps one row
+    const menuItems = await db.MenuItem.find().select("name").lean<{ _id: unknown; name: string }[]>()
+    const menuNames = new Map(menuItems.map((menuItem) => [String(menuItem._id), menuItem.name]))
+
+    // Dates go out as ISO strings, as the other analytics fields are plain values
+    const bestSellingItems = facets.bestSellingItems.map((item) => ({
+      ...item,
+      _id: String(item._id),
+      menuItemId: item.menuItemId ? String(item.menuItemId) : null,
+      itemName: (item.menuItemId ? menuNames.get(String(item.menuItemId)) : undefined) || item.itemName,
+      lastSold: item.lastSold.toISOString(),
+      firstSold: item.firstSold.toISOString(),
+      averagePrice: item.totalQuantitySold > 0 ? item.totalRevenue / item.totalQuantitySold : 0,
+      variants: facets.variantSales
+        .filter(({ _id }) => String(_id.item) === String(item._id))
+        .map(({ _id, quantity, revenue }) => ({ name: _id.variant, quantity, revenue })),
+    }))
+
+    const dailySales = facets.dailyOrders.map(({ _id, date, ...dayOrders }) => ({
+      ...dayOrders,
+      date: date.toISOString(),
+      totalItems: itemsByDay.get(_id)?.totalItems || 0,
+      uniqueItemTypes: itemsByDay.get(_id)?.uniqueItemTypes || 0,
+    }))
+
+    const { totalOrders = 0, totalRevenue = 0 } = facets.overall[0] || {}
+    const { totalItemsSold = 0, uniqueItemTypes = 0 } = facets.itemTotals[0] || {}
 
     return {
       success: true,
       data: {
         bestSellingItems,
-        categorySales,
+        categorySales: facets.categorySales,
+        modifierSales: facets.modifierSales.map(({ _id, ...modifierTotals }) => ({ ...modifierTotals, ..._id })),
         dailySales,
-        overallStats,
+        // Per-branch comparison; a single row when one branch is being viewed
+        branchSales: facets.branchSales.map(({ _id, ...branchTotals }) => ({
+          ...branchTotals,
+          branchId: _id ? String(_id) : null,
+          name: (_id ? branchNames.get(String(_id)) : undefined) || "Unassigned",
+        })),
+        overallStats: {
+          totalOrders,
+          totalRevenue,
+          averageOrderValue: totalOrders > 0 ? totalRevenue / totalOrders : 0,
+          totalItemsSold,
+          uniqueItemTypes,
+        },
         dateRange: {
           startDate: start.toISOString(),
           endDate: end.toISOString(),
           filter: dateFilter,
         },
-        debug: {
-          totalRecordsInDB: allIncomeRecords.length,
-          filteredRecords: filteredRecords.length,
-          processedOrders: totalOrders,
-          filteringDetails: {
-            recordsInDateRange: analysisResults.recordsInDateRange,
-            recordsWithValidPayment: analysisResults.recordsWithValidPayment,
-            recordsWithItems: analysisResults.recordsWithItems,
-            recordsWithItemsAndNames: analysisResults.recordsWithItemsAndNames,
-            recordsPassingAllFilters: analysisResults.recordsPassingAllFilters,
-            paymentStatusBreakdown: Object.fromEntries(analysisResults.paymentStatusBreakdown),
-            dateRangeInDB: {
-              oldest: analysisResults.dateRangeInDB.oldest?.toISOString() || null,
-              newest: analysisResults.dateRangeInDB.newest?.toISOString() || null,
-            },
-          },
-        },
       },
     }
   } catch (error) {
@@ -311,59 +241,42 @@ export async function getSalesAnalytics(dateFilter = "month") {
     return {
       success: false,
       error: error instanceof Error ? error.message : "Unknown error",
-      debug: {
-        errorDetails: error instanceof Error ? error.stack : "Unknown error stack",
-      },
     }
   }
 }
 
-export async function getItemSalesHistory(itemName: string, limit = 1000) {
+export async function getItemSalesHistory(itemKey: ItemKey, limit = 1000) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session?.user?.id) {
-      throw new Error("Unauthorized")
-    }
+    const { user, db } = await requireTenant(PERMISSIONS.ANALYTICS_VIEW)
     await dbConnect()
-    // Get ALL income records at once
-    const allRecords = await IncomeRecord.find({ organization: session.user.organization })
-    const salesHistory: any[] = []
-
-    // Process records in JavaScript
-    allRecords.forEach((record) => {
-      // Only include completed/pending orders
-      if (!["completed", "pending"].includes(record.paymentStatus)) {
-        return
-      }
 
-      if (record.items && Array.isArray(record.items)) {
-        record.items.forEach((item: any) => {
-          const currentItemName = String(item.name || "")
-          if (currentItemName === itemName) {
-            salesHistory.push({
-              orderId: record._id.toString(),
-              date: record.date,
-              customerName: record.customerName || "Walk-in Customer",
-              quantity: Number(item.quantity) || 1,
-              price: Number(item.price) || 0,
-              total: (Number(item.quantity) || 1) * (Number(item.price) || 0),
-              paymentStatus: record.paymentStatus,
-              itemName: currentItemName,
-              category: String(item.category || "Food"),
-              orderTotal: Number(record.totalAmount) || 0,
-            })
-          }
-        })
-      }
-    })
-
-    // Sort by date (newest first) and limit
-    salesHistory.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
-    const limitedHistory = salesHistory.slice(0, limit)
+    const line = itemLine(itemKey)
+    const salesHistory = await db.IncomeRecord.aggregate([
+      { $match: { ...SOLD, ...branchFilter(user), items: { $elemMatch: line } } },
+      { $unwind: "$items" },
+      { $match: onItems(line) },
+      { $sort: { date: -1, _id: 1 } },
+      { $limit: limit },
+      {
+        $project: {
+          _id: 0,
+          orderId: { $toString: "$_id" },
+          date: 1,
+          customerName: { $cond: [{ $in: ["$customerName", [null, ""]] }, "Walk-in Customer", "$customerName"] },
+          quantity: ITEM_QUANTITY,
+          price: { $ifNull: ["$items.price", 0] },
+          total: ITEM_REVENUE,
+          paymentStatus: 1,
+          itemName: { $ifNull: ["$items.name", ""] },
+          category: ITEM_CATEGORY,
+          orderTotal: { $ifNull: ["$totalAmount", 0] },
+        },
+      },
+    ])
 
     return {
       success: true,
-      data: limitedHistory,
+      data: salesHistory,
     }
   } catch (error) {
     console.error("Failed to get item sales history:", error)
@@ -374,66 +287,35 @@ export async function getItemSalesHistory(itemName: string, limit = 1000) {
   }
 }
 
-export async function getItemPriceHistory(itemName: string) {
+export async function getItemPriceHistory(itemKey: ItemKey) {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session?.user?.id) {
-      throw new Error("Unauthorized")
-    }
+    const { user, db } = await requireTenant(PERMISSIONS.ANALYTICS_VIEW)
 
     await dbConnect()
 
-    // Get ALL income records at once
-    const allRecords = await IncomeRecord.find({ organization: session.user.organization }).lean()
-
-    const priceHistoryMap = new Map()
-
-    // Process records in JavaScript
-    allRecords.forEach((record) => {
-      // Only include completed/pending orders
-      if (!["completed", "pending"].includes(record.paymentStatus)) {
-        return
-      }
-
-      if (record.items && Array.isArray(record.items)) {
-        record.items.forEach((item) => {
-          const currentItemName = String(item.name || "")
-          if (currentItemName === itemName) {
-            const price = Number(item.price) || 0
-            const quantity = Number(item.quantity) || 1
-            const dateKey = new Date(record.date).toDateString()
-            const mapKey = `${dateKey}-${price}`
-
-            if (!priceHistoryMap.has(mapKey)) {
-              priceHistoryMap.set(mapKey, {
-                price: price,
-                count: 0,
-                totalQuantity: 0,
-                firstSeen: record.date,
-                lastSeen: record.date,
-                date: record.date,
-              })
-            }
-
-            const priceData = priceHistoryMap.get(mapKey)
-            priceData.count++
-            priceData.totalQuantity += quantity
-
-            const recordDate = new Date(record.date)
-            if (recordDate > new Date(priceData.lastSeen)) {
-              priceData.lastSeen = record.date
-            }
-            if (recordDate < new Date(priceData.firstSeen)) {
-              priceData.firstSeen = record.date
-            }
-          }
-        })
-      }
-    })
-
-    const priceHistory = Array.from(priceHistoryMap.values()).sort(
-      (a, b) => new Date(b.firstSeen).getTime() - new Date(a.firstSeen).getTime(),
-    )
+    // Prices are grouped per day in the server's time zone, as the sales analytics are
+    const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+    const line = itemLine(itemKey)
+
+    const priceHistory = await db.IncomeRecord.aggregate([
+      { $match: { ...SOLD, ...branchFilter(user), items: { $elemMatch: line } } },
+      { $unwind: "$items" },
+      { $match: onItems(line) },
+      {
+        $group: {
+          _id: {
+            day: { $dateToString: { format: "%Y-%m-%d", date: "$date", timezone } },
+            price: { $ifNull: ["$items.price", 0] },
+          },
+          count: { $sum: 1 },
+          totalQuantity: { $sum: ITEM_QUANTITY },
+          firstSeen: { $min: "$date" },
+          lastSeen: { $max: "$date" },
+        },
+      },
+      { $project: { _id: 0, price: "$_id.price", count: 1, totalQuantity: 1, firstSeen: 1, lastSeen: 1, date: "$firstSeen" } },
+      { $sort: { firstSeen: -1 } },
+    ])
 
     return {
       success: true,
@@ -451,13 +333,10 @@ export async function getItemPriceHistory(itemName: string) {
 // Simple function to get all income records (for testing)
 export async function getAllIncomeRecords() {
   try {
-    const session = await getServerSession(authOptions)
-    if (!session?.user?.id) {
-      throw new Error("Unauthorized")
-    }
+    const { user, db } = await requireTenant(PERMISSIONS.ANALYTICS_VIEW)
     await dbConnect()
 
-    const allRecords = await IncomeRecord.find({ organization: session.user.organization }).lean()
+    const allRecords = await db.IncomeRecord.find({ ...NOT_VOIDED, ...branchFilter(user) }).lean()
 
     return {
       success: true,
@@ -0,0 +1,313 @@
+"use server"
+
+/**
+ * Tables - Server actions for dining tables and the open tabs running on them
+ */
+
+import { revalidatePath } from "next/cache"
+import dbConnect from "@/lib/db"
+import type { IIncomeRecord } from "@/models/IncomeRecord"
+import { createIncomeRecord, updateIncomeRecord } from "@/app/actions/income-records"
+import {
+  tableSchema,
+  tabItemsSchema,
+  settleTabSchema,
+  type IncomeRecordInput,
+  type TableInput,
+  type TabItemsInput,
+  type SettleTabInput,
+} from "@/lib/validations"
+import { PERMISSIONS } from "@/lib/permissions"
+import { requireTenant, type TenantData } from "@/lib/tenant"
+import { calculateOrderTax, orderTaxSettings } from "@/lib/tax"
+import { getTaxSettings } from "@/lib/tax-settings"
+import { recordBranch } from "@/lib/branches"
+import { REVALIDATE_PATHS, ERROR_MESSAGES, PAYMENT_METHOD, PAYMENT_STATUS, PREP_STATUS, TABLE_STATUS } from "@/lib/constants"
+
+export async function createTable(data: TableInput) {
+  const { user, db } = await requireTenant(PERMISSIONS.TABLES_MANAGE)
+
+  const validatedData = tableSchema.parse(data)
+  await dbConnect()
+
+  // Tables belong to the floor of the branch they're added at, and names only need to be unique there
+  const branch = await recordBranch(db, user)
+  const existingTable = await db.Table.findOne({ name: validatedData.name, branch: branch ?? null })
+  if (existingTable) {
+    throw new Error("Table with this name already exists")
+  }
+
+  const [table] = await db.Table.create([{ ...validatedData, branch, createdBy: user.id }])
+
+  REVALIDATE_PATHS.FLOOR.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(table)) }
+}
+
+export async function updateTable(id: string, data: TableInput) {
+  const { db } = await requireTenant(PERMISSIONS.TABLES_MANAGE)
+
+  const validatedData = tableSchema.parse(data)
+  await dbConnect()
+
+  const currentTable = await db.Table.findById(id).select("branch").lean<{ branch?: unknown }>()
+  if (!currentTable) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  const existingTable = await db.Table.findOne({
+    name: validatedData.name,
+    branch: currentTable.branch ?? null,
+    _id: { $ne: id },
+  })
+  if (existingTable) {
+    throw new Error("Table with this name already exists")
+  }
+
+  const table = await db.Table.findOneAndUpdate({ _id: id }, validatedData, { new: true })
+
+  if (!table) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  REVALIDATE_PATHS.FLOOR.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(table)) }
+}
+
+export async function deleteTable(id: string) {
+  const { db } = await requireTenant(PERMISSIONS.TABLES_MANAGE)
+
+  await dbConnect()
+
+  const table = await db.Table.findOneAndDelete({ _id: id, currentOrder: null })
+
+  if (!table) {
+    const exists = await db.Table.exists({ _id: id })
+    throw new Error(exists ? "Settle the open tab before deleting this table" : ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  REVALIDATE_PATHS.FLOOR.forEach(path => revalidatePath(path))
+
+  return { success: true }
+}
+
+/** Marks a free table as reserved, or clears the reservation */
+export async function setTableReserved(id: string, reserved: boolean) {
+  const { db } = await requireTenant(PERMISSIONS.FLOOR_USE)
+
+  await dbConnect()
+
+  const table = await db.Table.findOneAndUpdate(
+    { _id: id, status: { $ne: TABLE_STATUS.OCCUPIED } },
+    { status: reserved ? TABLE_STATUS.RESERVED : TABLE_STATUS.FREE },
+    { new: true },
+  )
+
+  if (!table) {
+    const exists = await db.Table.exists({ _id: id })
+    throw new Error(exists ? "This table has an open tab" : ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  REVALIDATE_PATHS.FLOOR.forEach(path => revalidatePath(path))
+
+  return { success: true, record: JSON.parse(JSON.stringify(table)) }
+}
+
+/** Loads a table and the pending order running on it */
+async function loadTab(db: TenantData, tableId: string) {
+  const table = await db.Table.findById(tableId)
+  if (!table) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  const order: IIncomeRecord | null = table.currentOrder ? await db.IncomeRecord.findById(table.currentOrder) : null
+  if (!order || order.paymentStatus !== PAYMENT_STATUS.PENDING) {
+    throw new Error("This table has no open tab")
+  }
+
+  return { table, order }
+}
+
+/** Converts a saved order back into the input the income record actions expect */
+function toIncomeRecordInput(order: IIncomeRecord): IncomeRecordInput {
+  return {
+    items: order.items.map((item) => ({
+      name: item.name,
+      quantity: item.quantity,
+      price: item.price,
+      category: item.category,
+      menuItemId: item.menuItemId?.toString(),
+      ...(item.variant && { variant: item.variant }),
+      ...(item.modifiers?.length && {
+        modifiers: item.modifiers.map(({ group, name, priceDelta }) => ({ group, name, priceDelta })),
+      }),
+      ...(item.priceRule && {
+        priceRule: { name: item.priceRule.name, discountPercent: item.priceRule.discountPercent },
+      }),
+    })),
+    subtotal: order.subtotal,
+    discount: order.discount,
+    tip: order.tip,
+    totalAmount: order.totalAmount,
+    paymentMethod: order.paymentMethod,
+    cashAmount: order.cashAmount,
+    digitalAmount: order.digitalAmount,
+    paymentStatus: order.paymentStatus,
+    date: order.date,
+    tableNumber: order.tableNumber,
+    table: order.table?.toString(),
+    customerName: order.customerName,
+    notes: order.notes,
+    isDueAccount: order.isDueAccount,
+    dueAccountId: order.dueAccountId?.toString(),
+  }
+}
+
+const itemsSubtotal = (items: TabItemsInput) => items.reduce((sum, item) => sum + item.quantity * item.price, 0)
+
+/** Starts a pending order on a free or reserved table with the first round of items */
+export async function openTab(tableId: string, items: TabItemsInput, customerName?: string) {
+  const { db } = await requireTenant(PERMISSIONS.FLOOR_USE)
+
+  const validatedItems = tabItemsSchema.parse(items)
+  await dbConnect()
+
+  // Claim the table before creating the order so two devices can't open a tab on it at once
+  const table = await db.Table.findOneAndUpdate(
+    { _id: tableId, status: { $ne: TABLE_STATUS.OCCUPIED } },
+    { status: TABLE_STATUS.OCCUPIED, currentOrder: null },
+    { new: true },
+  )
+
+  if (!table) {
+    const exists = await db.Table.exists({ _id: tableId })
+    throw new Error(exists ? "This table already has an open tab" : ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  try {
+    const subtotal = itemsSubtotal(validatedItems)
+    const result = await createIncomeRecord({
+      items: validatedItems,
+      subtotal,
+      discount: 0,
+      tip: 0,
+      totalAmount: subtotal,
+      paymentMethod: PAYMENT_METHOD.CASH,
+      paymentStatus: PAYMENT_STATUS.PENDING,
+      date: new Date(),
+      tableNumber: table.name,
+      table: tableId,
+      customerName: customerName?.trim() || undefined,
+    })
+
+    await db.Table.updateOne({ _id: tableId }, { currentOrder: result.record._id })
+
+    REVALIDATE_PATHS.FLOOR.forEach(path => revalidatePath(path))
+
+    return result
+  } catch (error) {
+    await db.Table.updateOne({ _id: tableId, currentOrder: null }, { status: TABLE_STATUS.FREE })
+    throw error
+  }
+}
+
+// Times a round is applied to a fresh copy of the tab when another device changed it meanwhile
+const TAB_WRITE_ATTEMPTS = 3
+
+/** Adds a round to the order as read; repeated items increase a line the kitchen hasn't started */
+function withRound(order: IIncomeRecord, round: TabItemsInput): IncomeRecordInput {
+  const orderInput = toIncomeRecordInput(order)
+
+  for (const item of round) {
+    // Lines the kitchen has started stay as they are, so the new round shows up as its own line
+    const existingItem = orderInput.items.find(
+      (line, index) =>
+        (order.items[index]?.prepStatus ?? PREP_STATUS.QUEUED) === PREP_STATUS.QUEUED &&
+        line.price === item.price &&
+        line.priceRule?.name === item.priceRule?.name &&
+        (item.menuItemId ? line.menuItemId === item.menuItemId : line.name.toLowerCase() === item.name.toLowerCase()),
+    )
+    if (existingItem) {
+      existingItem.quantity += item.quantity
+    } else {
+      orderInput.items.push(item)
+    }
+  }
+
+  return { ...orderInput, subtotal: itemsSubtotal(orderInput.items) }
+}
+
+/**
+ * Appends a round of items to a table's open tab. The write is conditional on the tab as read, so when
+ * two devices send rounds at once the later one is applied again to the tab with the earlier round on it.
+ */
+export async function addToTab(tableId: string, items: TabItemsInput) {
+  const { db } = await requireTenant(PERMISSIONS.FLOOR_USE)
+
+  const round = tabItemsSchema.parse(items)
+  await dbConnect()
+
+  for (let attempt = 0; attempt < TAB_WRITE_ATTEMPTS; attempt++) {
+    const { order } = await loadTab(db, tableId)
+    const result = await updateIncomeRecord(
+      String(order._id),
+      withRound(order, round),
+      undefined,
+      order.updatedAt.toISOString(),
+    )
+    if ("conflict" in result) continue
+
+    REVALIDATE_PATHS.FLOOR.forEach(path => revalidatePath(path))
+
+    return result
+  }
+
+  throw new Error("The tab is being changed on another device. Try sending the round again.")
+}
+
+/** Takes payment for a table's open tab, completing the order and freeing the table */
+export async function settleTab(tableId: string, payment: SettleTabInput) {
+  const { user, db } = await requireTenant(PERMISSIONS.FLOOR_USE)
+
+  const validatedPayment = settleTabSchema.parse(payment)
+  await dbConnect()
+
+  const { order } = await loadTab(db, tableId)
+  const isSplit = validatedPayment.paymentMethod === PAYMENT_METHOD.SPLIT
+
+  if (isSplit) {
+    const { totalAmount } = calculateOrderTax(
+      order.items,
+      validatedPayment.discount,
+      validatedPayment.tip,
+      orderTaxSettings(order, await getTaxSettings(user.organization)),
+    )
+    const paidAmount = (validatedPayment.cashAmount || 0) + (validatedPayment.digitalAmount || 0)
+    if (paidAmount < totalAmount) {
+      throw new Error("Cash and digital amounts don't cover the bill")
+    }
+  }
+
+  // Completing the order assigns its invoice number and releases the table.
+  // A round added since the bill was worked out would go unpaid, so the tab must still be as read.
+  const result = await updateIncomeRecord(
+    String(order._id),
+    {
+      ...toIncomeRecordInput(order),
+      ...validatedPayment,
+      cashAmount: isSplit ? validatedPayment.cashAmount : 0,
+      digitalAmount: isSplit ? validatedPayment.digitalAmount : 0,
+      paymentStatus: PAYMENT_STATUS.COMPLETED,
+    },
+    undefined,
+    order.updatedAt.toISOString(),
+  )
+  if ("conflict" in result) {
+    throw new Error("A round was added to this tab meanwhile. Check the bill and settle again.")
+  }
+
+  REVALIDATE_PATHS.FLOOR.forEach(path => revalidatePath(path))
+
+  return result
+}
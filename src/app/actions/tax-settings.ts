@@ -0,0 +1,39 @@
+"use server"
+
+/**
+ * Tax Settings - Server actions for the organization's tax rules
+ */
+
+import { revalidatePath } from "next/cache"
+import dbConnect from "@/lib/db"
+import Organization from "@/models/Organization"
+import { taxSettingsSchema, type TaxSettingsInput } from "@/lib/validations"
+import { requireAuth } from "@/lib/auth"
+import { PERMISSIONS } from "@/lib/permissions"
+import { REVALIDATE_PATHS, ERROR_MESSAGES } from "@/lib/constants"
+
+export async function updateTaxSettings(data: TaxSettingsInput) {
+  const { user } = await requireAuth(PERMISSIONS.SETTINGS_MANAGE)
+
+  const validatedData = taxSettingsSchema.parse(data)
+  await dbConnect()
+
+  const organization = await Organization.findByIdAndUpdate(
+    user.organization,
+    {
+      taxSettings: {
+        ...validatedData,
+        exemptCategories: Array.from(new Set(validatedData.exemptCategories.map((category) => category.trim()))),
+      },
+    },
+    { new: true, runValidators: true },
+  )
+
+  if (!organization) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  REVALIDATE_PATHS.SETTINGS.forEach(path => revalidatePath(path))
+
+  return { success: true, taxSettings: JSON.parse(JSON.stringify(organization.taxSettings)) }
+}
@@ -0,0 +1,35 @@
+"use server"
+
+/**
+ * Time Zone - Server action for the time zone the organization's menu schedules and happy hours run in
+ */
+
+import { revalidatePath } from "next/cache"
+import dbConnect from "@/lib/db"
+import Organization from "@/models/Organization"
+import { timeZoneSchema, type TimeZoneInput } from "@/lib/validations"
+import { requireAuth } from "@/lib/auth"
+import { PERMISSIONS } from "@/lib/permissions"
+import { REVALIDATE_PATHS, ERROR_MESSAGES } from "@/lib/constants"
+
+export async function updateTimeZone(data: TimeZoneInput) {
+  const { user } = await requireAuth(PERMISSIONS.SETTINGS_MANAGE)
+
+  const validatedData = timeZoneSchema.parse(data)
+  await dbConnect()
+
+  const organization = await Organization.findByIdAndUpdate(
+    user.organization,
+    { timeZone: validatedData.timeZone },
+    { new: true, runValidators: true },
+  )
+
+  if (!organization) {
+    throw new Error(ERROR_MESSAGES.NOT_FOUND)
+  }
+
+  REVALIDATE_PATHS.SETTINGS.forEach(path => revalidatePath(path))
+  REVALIDATE_PATHS.MENU.forEach(path => revalidatePath(path))
+
+  return { success: true, timeZone: organization.timeZone as string }
+}
@@ -5,42 +5,60 @@
  */
 
 import { revalidatePath } from "next/cache"
-import { getServerSession } from "next-auth"
 import bcrypt from "bcryptjs"
 import dbConnect from "@/lib/db"
 import User from "@/models/User"
 import { userSchema, type UserInput } from "@/lib/validations"
-import { authOptions } from "@/lib/auth"
+import { requireAuth } from "@/lib/auth"
+import { ADMIN_ROLE, PERMISSIONS, resolveRoles, type RoleDefinition } from "@/lib/permissions"
 import Organization from "@/models/Organization"
+import { tenantData } from "@/lib/tenant"
 
 /**
- * User management actions (Admin only)
+ * User management actions (users.manage permission)
  */
 
-export async function createUser(data: UserInput) {
-  const session = await getServerSession(authOptions)
-  if (!session?.user?.id || session.user.role !== "admin") {
-    throw new Error("Unauthorized - Admin access required")
+/** The role must exist in the organization, and only admins can make someone an admin */
+function assertAssignableRole(role: string, roles: RoleDefinition[] | undefined, actingRole?: string) {
+  if (!resolveRoles(roles).some((candidate) => candidate.key === role)) {
+    throw new Error("Unknown role")
+  }
+  if (role === ADMIN_ROLE && actingRole !== ADMIN_ROLE) {
+    throw new Error("Only admins can assign the admin role")
   }
+}
+
+/** Assigned branches must belong to the user's organization */
+async function assertOrganizationBranches(organizationId: string, branches: string[] = []) {
+  if (branches.length === 0) return
+  const found = await tenantData(organizationId).Branch.countDocuments({ _id: { $in: branches } })
+  if (found !== new Set(branches).size) throw new Error("Unknown branch")
+}
+
+// Users who aren't admins can't change or remove admin accounts
+const editableBy = (actingRole?: string) => (actingRole === ADMIN_ROLE ? {} : { role: { $ne: ADMIN_ROLE } })
+
+export async function createUser(data: UserInput) {
+  const session = await requireAuth(PERMISSIONS.USERS_MANAGE)
 
-  const superAdmin = session.user.superAdmin
   const validatedData = userSchema.parse(data)
+  // Only super admins can add users to another organization
+  const organizationId = session.user.superAdmin && validatedData.organization ? validatedData.organization : session.user.organization
   await dbConnect()
 
-  const organization = await Organization.findById(validatedData.organization)
+  const organization = await Organization.findById(organizationId)
+  if (!organization) throw new Error("Organization not found")
+  assertAssignableRole(validatedData.role, organization.roles, session.user.role)
+  await assertOrganizationBranches(organizationId, validatedData.branches)
 
-  // Check if user exists
+  // Emails identify a login, so they are unique across all organizations
   const existingUser = await User.findOne({ email: validatedData.email })
   if (existingUser) throw new Error("User with this email already exists")
 
   // Hash password
   const hashedPassword = await bcrypt.hash(validatedData.password!, 12)
 
-  const user = await User.create({
-    ...validatedData,
-    password: hashedPassword,
-    organization: superAdmin ? validatedData.organization : session.user.organization,
-  })
+  const [user] = await tenantData(organizationId).User.create([{ ...validatedData, password: hashedPassword }])
 
   organization.users.push(user._id)
   await organization.save()
@@ -51,28 +69,31 @@ export async function createUser(data: UserInput) {
 }
 
 export async function updateUser(id: string, data: UserInput) {
-  const session = await getServerSession(authOptions)
-  if (!session?.user?.id || session.user.role !== "admin") {
-    throw new Error("Unauthorized - Admin access required")
-  }
+  const session = await requireAuth(PERMISSIONS.USERS_MANAGE)
 
   const superAdmin = session.user.superAdmin
   const validatedData = userSchema.parse(data)
+  const organizationId = superAdmin && validatedData.organization ? validatedData.organization : session.user.organization
   await dbConnect()
 
-  const organization = await Organization.findById(validatedData.organization)
+  const organization = await Organization.findById(organizationId).select("roles")
+  if (!organization) throw new Error("Organization not found")
+  assertAssignableRole(validatedData.role, organization.roles, session.user.role)
+  await assertOrganizationBranches(organizationId, validatedData.branches)
 
   const updateData: {
     name: string
     email: string
-    role: "admin" | "manager" | "staff"
+    role: string
+    branches: string[]
     password?: string
-    organization: string | undefined
+    organization: string
   } = {
     name: validatedData.name,
     email: validatedData.email,
     role: validatedData.role,
-    organization: superAdmin ? validatedData.organization : session.user.organization,
+    branches: validatedData.branches || [],
+    organization: organizationId,
   }
 
   // Only update password if provided
@@ -80,29 +101,35 @@ export async function updateUser(id: string, data: UserInput) {
     updateData.password = await bcrypt.hash(validatedData.password, 12)
   }
 
-  const user = await User.findByIdAndUpdate(id, updateData, { new: true })
-  organization.users.push(user?._id)
-  await organization.save()
+  // Super admins can move users between organizations; admins only reach their own organization's users
+  const user = superAdmin
+    ? await User.findByIdAndUpdate(id, updateData, { new: true })
+    : await tenantData(session.user.organization).User.findOneAndUpdate(
+        { _id: id, ...editableBy(session.user.role) },
+        updateData,
+        { new: true },
+      )
 
   if (!user) throw new Error("User not found")
 
+  await Organization.updateOne({ _id: organizationId }, { $addToSet: { users: user._id } })
+
   revalidatePath("/users")
 
   return { success: true, user: JSON.parse(JSON.stringify({ ...user, password: undefined })) }
 }
 
 export async function deleteUser(id: string) {
-  const session = await getServerSession(authOptions)
-  if (!session?.user?.id || session.user.role !== "admin") {
-    throw new Error("Unauthorized - Admin access required")
-  }
+  const session = await requireAuth(PERMISSIONS.USERS_MANAGE)
 
   await dbConnect()
 
   // Prevent deleting yourself
   if (session.user.id === id) throw new Error("Cannot delete your own account")
 
-  const user = await User.findByIdAndDelete(id)
+  const user = session.user.superAdmin
+    ? await User.findByIdAndDelete(id)
+    : await tenantData(session.user.organization).User.findOneAndDelete({ _id: id, ...editableBy(session.user.role) })
   if (!user) throw new Error("User not found")
 
   revalidatePath("/users")
@@ -0,0 +1,70 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import dbConnect from "@/lib/db"
+import { authOptions, getUserPermissions } from "@/lib/auth"
+import { PERMISSIONS, hasPermission } from "@/lib/permissions"
+import { tenantData } from "@/lib/tenant"
+import { ERROR_MESSAGES } from "@/lib/constants"
+
+/**
+ * GET /api/audit-events
+ *
+ * Fetch the organization's audit log, newest first
+ *
+ * Query params: entityType, entityId, action, source, from, to, page, limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (!hasPermission(await getUserPermissions(session.user.id), PERMISSIONS.AUDIT_VIEW)) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 })
+    }
+
+    await dbConnect()
+
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(1, Number.parseInt(searchParams.get("page") || "1") || 1)
+    const limit = Math.min(1000, Math.max(1, Number.parseInt(searchParams.get("limit") || "50") || 50))
+    const skip = (page - 1) * limit
+
+    const query: Record<string, unknown> = {}
+
+    for (const field of ["entityType", "entityId", "action", "source"]) {
+      const value = searchParams.get(field)
+      if (value) query[field] = value
+    }
+
+    const from = searchParams.get("from")
+    const to = searchParams.get("to")
+    if (from || to) {
+      const createdAt: Record<string, Date> = {}
+      if (from) createdAt.$gte = new Date(from)
+      // Dates without a time include the whole "to" day
+      if (to) createdAt.$lt = new Date(new Date(to).getTime() + (to.length <= 10 ? 24 * 60 * 60 * 1000 : 0))
+      query.createdAt = createdAt
+    }
+
+    if (query.entityId && !/^[0-9a-f]{24}$/i.test(String(query.entityId))) {
+      return NextResponse.json({ error: "Invalid record id" }, { status: 400 })
+    }
+
+    const db = tenantData(session.user.organization)
+    const [events, total] = await Promise.all([
+      db.AuditEvent.find(query).sort({ createdAt: -1 }).skip(skip).limit(limit).lean(),
+      db.AuditEvent.countDocuments(query),
+    ])
+
+    return NextResponse.json({
+      events: JSON.parse(JSON.stringify(events)),
+      pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+    })
+  } catch (error) {
+    console.error("Error fetching audit events:", error)
+    return NextResponse.json({ error: ERROR_MESSAGES.INTERNAL_SERVER_ERROR }, { status: 500 })
+  }
+}
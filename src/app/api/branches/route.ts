@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import mongoose from "mongoose"
+import dbConnect from "@/lib/db"
+import { authOptions, getUserPermissions } from "@/lib/auth"
+import { PERMISSIONS, hasPermission } from "@/lib/permissions"
+import { tenantData } from "@/lib/tenant"
+import { ERROR_MESSAGES } from "@/lib/constants"
+
+/**
+ * GET /api/branches
+ *
+ * Fetch the active branches the current user works at, for the branch switcher.
+ * With ?all=true, fetch every branch of the organization including deactivated ones
+ * (for settings and assigning users to branches).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: ERROR_MESSAGES.UNAUTHORIZED }, { status: 401 })
+    }
+
+    const all = request.nextUrl.searchParams.get("all") === "true"
+    if (all) {
+      const permissions = await getUserPermissions(session.user.id)
+      if (!hasPermission(permissions, PERMISSIONS.SETTINGS_MANAGE) && !hasPermission(permissions, PERMISSIONS.USERS_MANAGE)) {
+        return NextResponse.json({ error: ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS }, { status: 403 })
+      }
+    }
+
+    await dbConnect()
+
+    const assigned = session.user.branches || []
+    const filter = all
+      ? {}
+      : {
+          isActive: true,
+          ...(assigned.length > 0 && { _id: { $in: assigned.map((id) => new mongoose.Types.ObjectId(id)) } }),
+        }
+
+    const branches = await tenantData(session.user.organization).Branch.find(filter)
+      .sort({ name: 1 })
+      .collation({ locale: "en", numericOrdering: true })
+      .lean()
+
+    return NextResponse.json({ branches: JSON.parse(JSON.stringify(branches)) })
+  } catch (error) {
+    console.error("Error fetching branches:", error)
+    return NextResponse.json({ error: ERROR_MESSAGES.INTERNAL_SERVER_ERROR }, { status: 500 })
+  }
+}
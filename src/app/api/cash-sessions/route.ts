@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import dbConnect from "@/lib/db"
+import type { ICashSession } from "@/models/CashSession"
+// Import to ensure User schema is registered for populate
+import "@/models/User"
+import { authOptions, getUserPermissions } from "@/lib/auth"
+import { PERMISSIONS, hasPermission } from "@/lib/permissions"
+import { tenantData } from "@/lib/tenant"
+import { branchFilter } from "@/lib/branches"
+import { openSessionFilter, summarizeCashSession } from "@/lib/cash-drawer"
+import { CASH_SESSION_STATUS, ERROR_MESSAGES } from "@/lib/constants"
+
+/**
+ * GET /api/cash-sessions
+ *
+ * Fetch the open cash session of the user's till with its running totals, and the most recently closed
+ * sessions of the branch being viewed
+ *
+ * Query params: limit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: ERROR_MESSAGES.UNAUTHORIZED }, { status: 401 })
+    }
+
+    if (!hasPermission(await getUserPermissions(session.user.id), PERMISSIONS.CASH_DRAWER_USE)) {
+      return NextResponse.json({ error: ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS }, { status: 403 })
+    }
+
+    await dbConnect()
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(100, Math.max(1, Number.parseInt(searchParams.get("limit") || "30") || 30))
+    const db = tenantData(session.user.organization)
+
+    const [current, sessions] = await Promise.all([
+      db.CashSession.findOne(await openSessionFilter(db, session.user))
+        .populate("openedBy", "name")
+        .populate("movements.createdBy", "name")
+        .lean<ICashSession>(),
+      db.CashSession.find({ status: CASH_SESSION_STATUS.CLOSED, ...branchFilter(session.user) })
+        .populate("openedBy", "name")
+        .populate("closedBy", "name")
+        .populate("movements.createdBy", "name")
+        .sort({ openedAt: -1 })
+        .limit(limit)
+        .lean(),
+    ])
+
+    // The open session's totals are worked out live; closed sessions keep the ones stored at close
+    const currentWithSummary = current
+      ? { ...current, summary: await summarizeCashSession(db.organization, current) }
+      : null
+
+    return NextResponse.json({
+      current: JSON.parse(JSON.stringify(currentWithSummary)),
+      sessions: JSON.parse(JSON.stringify(sessions)),
+    })
+  } catch (error) {
+    console.error("Error fetching cash sessions:", error)
+    return NextResponse.json({ error: ERROR_MESSAGES.INTERNAL_SERVER_ERROR }, { status: 500 })
+  }
+}
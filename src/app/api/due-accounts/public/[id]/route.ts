@@ -1,7 +1,9 @@
 import { type NextRequest, NextResponse } from "next/server"
 import dbConnect from "@/lib/db"
 import DueAccount from "@/models/DueAccount"
-import IncomeRecord from "@/models/IncomeRecord"
+import type { IDuePaymentAllocation } from "@/models/DuePayment"
+import { tenantData } from "@/lib/tenant"
+import { NOT_VOIDED } from "@/lib/voids"
 // Import to ensure Organization schema is registered for populate
 import "@/models/Organization"
 
@@ -25,12 +27,20 @@ export async function GET(
       return NextResponse.json({ error: "Account not found" }, { status: 404 })
     }
 
-    const pendingOrders = await IncomeRecord.find({
+    // The link carries no session, so the account's own organization scopes the rest of the statement
+    const db = tenantData(String(account.organization._id))
+
+    const pendingOrders = await db.IncomeRecord.find({
       dueAccountId: id,
       paymentStatus: "pending",
+      ...NOT_VOIDED,
     })
       .sort({ date: -1 })
 
+    const payments = await db.DuePayment.find({ dueAccount: id })
+      .sort({ date: -1 })
+      .lean()
+
     const totalDueAmount = pendingOrders.reduce((sum, order) => {
       if (order.paymentMethod === "split") {
         const cash = order.cashAmount ?? 0;
@@ -51,6 +61,7 @@ export async function GET(
         totalDueAmount,
         pendingOrdersCount: pendingOrders.length,
         lastOrderDate: account.lastOrderDate,
+        lastPaymentDate: payments[0]?.date,
         orders: pendingOrders.map((order) => ({
           _id: order._id.toString(),
           date: order.date,
@@ -59,6 +70,19 @@ export async function GET(
           tableNumber: order.tableNumber,
           notes: order.notes,
         })),
+        // Staff details are omitted from the public statement
+        payments: payments.map((payment) => ({
+          _id: String(payment._id),
+          date: payment.date,
+          amount: payment.amount,
+          paymentMethod: payment.paymentMethod,
+          allocations: payment.allocations.map((allocation: IDuePaymentAllocation) => ({
+            order: allocation.order.toString(),
+            amount: allocation.amount,
+            invoiceNumber: allocation.invoiceNumber,
+          })),
+          unallocatedAmount: payment.unallocatedAmount,
+        })),
       },
     })
   } catch (error) {
@@ -1,14 +1,16 @@
 import { NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import dbConnect from "@/lib/db"
-import DueAccount from "@/models/DueAccount"
-import IncomeRecord from "@/models/IncomeRecord"
+// Import to ensure User schema is registered for populate
+import "@/models/User"
 import { authOptions } from "@/lib/auth"
+import { tenantData } from "@/lib/tenant"
+import { NOT_VOIDED } from "@/lib/voids"
 
 /**
  * GET /api/due-accounts
  *
- * Fetch all active due accounts with their pending orders
+ * Fetch all active due accounts with their pending orders and payment history
  */
 export async function GET() {
   try {
@@ -19,16 +21,17 @@ export async function GET() {
 
     await dbConnect()
 
-    const dueAccounts = await DueAccount.find({ isActive: true, organization: session.user.organization })
+    const db = tenantData(session.user.organization)
+    const dueAccounts = await db.DueAccount.find({ isActive: true })
 
     const accountsWithOrders = await Promise.all(
       dueAccounts.map(async (accountDoc) => {
         const account = accountDoc.toObject()
 
-        const pendingOrdersDocs = await IncomeRecord.find({
+        const pendingOrdersDocs = await db.IncomeRecord.find({
           dueAccountId: account._id,
           paymentStatus: "pending",
-          organization: session.user.organization,
+          ...NOT_VOIDED,
         }).sort({ date: -1 })
 
         const pendingOrders = pendingOrdersDocs.map((orderDoc) => {
@@ -42,12 +45,19 @@ export async function GET() {
 
         const totalDueAmount = pendingOrders.reduce((sum, order) => sum + order.totalAmount, 0)
 
+        const payments = await db.DuePayment.find({ dueAccount: account._id })
+          .populate("receivedBy", "name")
+          .sort({ date: -1 })
+          .lean()
+
         return {
           ...account,
           _id: account._id.toString(),
           totalDueAmount,
           pendingOrdersCount: pendingOrders.length,
           orders: pendingOrders,
+          payments: JSON.parse(JSON.stringify(payments)),
+          lastPaymentDate: payments[0]?.date,
         }
       })
     )
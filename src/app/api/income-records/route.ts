@@ -1,17 +1,32 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import dbConnect from "@/lib/db"
-import IncomeRecord from "@/models/IncomeRecord"
-import { authOptions } from "@/lib/auth"
+import type { IIncomeRecord } from "@/models/IncomeRecord"
+import { authOptions, getUserPermissions } from "@/lib/auth"
+import { canListRecords, seesRecordHistory } from "@/lib/permissions"
+import { tenantData } from "@/lib/tenant"
+import { branchFilter } from "@/lib/branches"
+import { NOT_VOIDED } from "@/lib/voids"
+import {
+  RECORD_SORT,
+  cursorQuery,
+  encodeCursor,
+  incomeFilterQuery,
+  invalidFilter,
+  pageSize,
+  parseIncomeFilters,
+} from "@/lib/record-filters"
+import { VOID_STATUS } from "@/lib/constants"
 
 /**
  * GET /api/income-records
  *
- * Fetch income records with role-based access control:
- * - Admin: All records
- * - Manager/Staff: Today's records + pending older records
+ * Fetch a page of income records, newest first. Without the records.history permission only
+ * today's records and pending older records are listed, unless a report asks for them. Only
+ * the branch the user is viewing is listed, or every branch they work at in the consolidated view.
  *
- * Query params: page, limit, forReport
+ * Query params: cursor, limit, forReport, voided, from, to, paymentStatus, paymentMethod, table,
+ * customer, dueAccount, createdBy, search (item names)
  */
 export async function GET(request: NextRequest) {
   try {
@@ -21,50 +36,67 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
     }
 
-    const userRole = session.user.role
-
-    if (!userRole || !["admin", "manager", "staff"].includes(userRole.toLowerCase())) {
+    const permissions = await getUserPermissions(session.user.id)
+    if (!canListRecords(permissions)) {
       return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 })
     }
 
     await dbConnect()
 
     const { searchParams } = new URL(request.url)
-    const page = Number.parseInt(searchParams.get("page") || "1")
-    const limit = Number.parseInt(searchParams.get("limit") || "500")
+    const limit = pageSize(searchParams)
+    const cursor = searchParams.get("cursor")
     const forReport = searchParams.get("forReport") === "true"
-    const skip = (page - 1) * limit
+    const voided = searchParams.get("voided") === "true"
+    const filters = parseIncomeFilters(searchParams)
+
+    const filterError = invalidFilter(filters)
+    if (filterError) {
+      return NextResponse.json({ error: filterError }, { status: 400 })
+    }
 
-    let query: any = { organization: session.user.organization }
-    let countQuery: any = {}
+    const conditions: Record<string, unknown>[] = [incomeFilterQuery(filters), branchFilter(session.user)]
 
-    // Role-based filtering: managers/staff only see today + pending older records
-    if (forReport !== true && (userRole.toLowerCase() === "manager" || userRole.toLowerCase() === "staff")) {
+    // Without access to history only today's records and pending older records are listed
+    if (!voided && !seesRecordHistory(permissions, forReport)) {
       const today = new Date()
       const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate())
       const endOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1)
 
-      query = {
-        organization: session.user.organization,
+      conditions.push({
         $or: [
           { date: { $gte: startOfToday, $lt: endOfToday } }, // Today's records
           { date: { $lt: startOfToday }, paymentStatus: "pending" }, // Pending older records
         ],
-      }
-      countQuery = query
+      })
+    }
+
+    const db = tenantData(session.user.organization)
+
+    // Voided records are left out of every list and total; ?voided=true lists only them, across all dates
+    const query = {
+      ...(voided ? { voidStatus: VOID_STATUS.VOIDED } : NOT_VOIDED),
+      $and: conditions,
+    }
+
+    const after = cursor ? cursorQuery(cursor) : null
+    if (cursor && !after) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 })
     }
 
-    const records = await IncomeRecord.find(query)
-      .sort({ paymentStatus: -1, date: -1, createdAt: -1 })
-      .skip(skip)
-      .limit(limit)
-      .lean()
+    // One extra record tells whether there is another page
+    const page = await db.IncomeRecord.find(after ? { ...query, $and: [...conditions, after] } : query)
+      .sort(RECORD_SORT)
+      .limit(limit + 1)
+      .lean<IIncomeRecord[]>()
 
-    const total = await IncomeRecord.countDocuments(countQuery)
+    const records = page.slice(0, limit)
+    const nextCursor = page.length > limit ? encodeCursor(records[records.length - 1]) : null
+    const total = cursor ? undefined : await db.IncomeRecord.countDocuments(query)
 
     return NextResponse.json({
       records,
-      pagination: { page, limit, total, pages: Math.ceil(total / limit) },
+      pagination: { limit, total, nextCursor },
     })
   } catch (error) {
     console.error("Error fetching income records:", error)
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import dbConnect from "@/lib/db"
+import { authOptions } from "@/lib/auth"
+import { tenantData } from "@/lib/tenant"
+import { ERROR_MESSAGES } from "@/lib/constants"
+
+/**
+ * GET /api/ingredients
+ *
+ * Fetch the organization's ingredients with current stock levels
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: ERROR_MESSAGES.UNAUTHORIZED }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const ingredients = await tenantData(session.user.organization).Ingredient.find()
+      .sort({ name: 1 })
+      .lean()
+
+    return NextResponse.json({ ingredients: JSON.parse(JSON.stringify(ingredients)) })
+  } catch (error) {
+    console.error("Error fetching ingredients:", error)
+    return NextResponse.json({ error: ERROR_MESSAGES.INTERNAL_SERVER_ERROR }, { status: 500 })
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import dbConnect from "@/lib/db"
+import { authOptions, getUserPermissions } from "@/lib/auth"
+import { PERMISSIONS, hasPermission } from "@/lib/permissions"
+import { tenantData } from "@/lib/tenant"
+import { branchFilter } from "@/lib/branches"
+import { NOT_VOIDED } from "@/lib/voids"
+import { ERROR_MESSAGES, PREP_STATUS } from "@/lib/constants"
+
+// Orders older than this are left off the screen even if nobody marked them served
+const KITCHEN_WINDOW_HOURS = 12
+
+/**
+ * GET /api/kitchen
+ *
+ * Fetch recent orders that still have items to prepare or serve, oldest first, for the branch being viewed
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: ERROR_MESSAGES.UNAUTHORIZED }, { status: 401 })
+    }
+
+    if (!hasPermission(await getUserPermissions(session.user.id), PERMISSIONS.KITCHEN_USE)) {
+      return NextResponse.json({ error: ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS }, { status: 403 })
+    }
+
+    await dbConnect()
+
+    const orders = await tenantData(session.user.organization).IncomeRecord.find({
+      "items.prepStatus": { $in: [PREP_STATUS.QUEUED, PREP_STATUS.PREPARING, PREP_STATUS.READY] },
+      date: { $gte: new Date(Date.now() - KITCHEN_WINDOW_HOURS * 60 * 60 * 1000) },
+      ...NOT_VOIDED,
+      ...branchFilter(session.user),
+    })
+      .select("items date tableNumber customerName notes invoiceNumber paymentStatus")
+      .sort({ date: 1 })
+      .lean()
+
+    return NextResponse.json({ orders: JSON.parse(JSON.stringify(orders)) })
+  } catch (error) {
+    console.error("Error fetching kitchen orders:", error)
+    return NextResponse.json({ error: ERROR_MESSAGES.INTERNAL_SERVER_ERROR }, { status: 500 })
+  }
+}
@@ -1,29 +1,28 @@
 import { type NextRequest, NextResponse } from "next/server"
-import MenuItem from "@/models/MenuItem"
 import dbConnect from "@/lib/db"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
-import IncomeRecord from "@/models/IncomeRecord"
+import { tenantData } from "@/lib/tenant"
+import { NOT_VOIDED } from "@/lib/voids"
+import { menuItemIdsByName, resolveMenuItemId } from "@/lib/menu-links"
+import { applyDuePriceChanges } from "@/lib/menu-prices"
+import { getTimeZone } from "@/lib/time-zone"
+import { activePriceRule, isScheduledAvailable, rulesForItem } from "@/lib/menu-rules"
+import type { IMenuRule } from "@/models/MenuRule"
 import type { MenuItemWithSales } from "@/types"
-import { QUERY_PARAMS, ERROR_MESSAGES } from "@/lib/constants"
+import { QUERY_PARAMS, ERROR_MESSAGES, PRICE_CHANGE_STATUS } from "@/lib/constants"
 
 interface MenuItemQuery {
-  organization: string
   category?: string
   isAvailable?: boolean
 }
 
-interface NormalizedMenuItem {
-  item: any
-  normalized: string
-}
-
 /**
  * GET /api/menu-items
  * Fetches menu items with popularity data based on sales history
  * Query params:
  * - category: Filter by category
- * - available: "true" to show only available items
+ * - available: "true" to show only items on sale right now, switched on and inside their schedules
  */
 export async function GET(request: NextRequest) {
   try {
@@ -38,50 +37,55 @@ export async function GET(request: NextRequest) {
     const category = searchParams.get(QUERY_PARAMS.CATEGORY)
     const available = searchParams.get(QUERY_PARAMS.AVAILABLE_ONLY)
 
-    const query: MenuItemQuery = { organization: session.user.organization }
+    const db = tenantData(session.user.organization)
+    const query: MenuItemQuery = {}
 
     if (category) query.category = category
     if (available === QUERY_PARAMS.AVAILABLE) query.isAvailable = true
 
+    // Scheduled price changes that have come due take effect before prices go out to the till
+    await applyDuePriceChanges(db)
+
+    // Availability schedules and happy hours, applied at the time of the request on the organization's clock
+    const rules = await db.MenuRule.find({ isActive: true }).lean<IMenuRule[]>()
+    const timeZone = await getTimeZone(session.user.organization)
+    const now = new Date()
+
     // Fetch menu items
-    const menuItems = await MenuItem.find(query)
+    const menuItems = await db.MenuItem.find(query)
       .sort({ category: 1, name: 1 })
       .lean()
 
-    // Normalize function for string matching
-    const normalize = (str: string): string =>
-      str
-        .normalize("NFKC")
-        .trim()
-        .toLowerCase()
-        .replace(/\s+/g, " ")
-        .replace(/[^a-z0-9\s]/g, "")
-        .trim()
-
-    // Build normalized menu map with caching (EFFICIENCY FIX)
-    const normalizedMenuMap = new Map<string, NormalizedMenuItem>()
-    menuItems.forEach((item) => {
-      const key = normalize(String(item.name))
-      normalizedMenuMap.set(key, { item, normalized: key })
-    })
+    // The next scheduled change of each item, shown on the menu management cards
+    const scheduledChanges = await db.MenuPriceChange.find({ status: PRICE_CHANGE_STATUS.SCHEDULED })
+      .sort({ effectiveAt: 1 })
+      .lean()
+    const scheduledPrices = new Map<string, { price: number; effectiveAt: Date }>()
+    for (const change of scheduledChanges) {
+      const key = String(change.menuItem)
+      if (!scheduledPrices.has(key)) scheduledPrices.set(key, { price: change.price, effectiveAt: change.effectiveAt })
+    }
+
+    // Lines from before orders were linked are matched by name, when only one item has it
+    const idsByName = menuItemIdsByName(menuItems)
 
     // Fetch IncomeRecords for popularity calculation
-    const allIncomeRecords = await IncomeRecord.find({
-      organization: session.user.organization,
+    const allIncomeRecords = await db.IncomeRecord.find({
       paymentStatus: { $in: ["completed", "paid", "pending"] },
+      ...NOT_VOIDED,
     }).lean()
 
-    // Count total sold quantity per normalized name (single pass)
+    // Count total sold quantity per menu item (single pass), so renamed items keep their count.
+    // Lines of every variant and modifier link to the same item, so they all count toward it.
     const salesMap = new Map<string, number>()
 
     for (const record of allIncomeRecords) {
       if (!record.items || !Array.isArray(record.items)) continue
 
       for (const item of record.items) {
-        const rawName = String(item.name || "").trim()
-        if (!rawName) continue
+        const key = item.menuItemId ? String(item.menuItemId) : resolveMenuItemId(idsByName, String(item.name || ""))
+        if (!key) continue
 
-        const key = normalize(rawName)
         const qty = Number(item.quantity) || 1
         salesMap.set(key, (salesMap.get(key) || 0) + qty)
       }
@@ -89,18 +93,33 @@ export async function GET(request: NextRequest) {
 
     // Attach sales data to menu items with proper typing
     const menuWithSales: MenuItemWithSales[] = menuItems.map((item) => {
-      const normalizedItem = normalizedMenuMap.get(normalize(String(item.name)))
+      const itemRules = rulesForItem(rules, { _id: item._id, category: String(item.category || "") }, timeZone)
+      const priceRule = activePriceRule(itemRules, now)
       return {
         _id: String(item._id),
         name: String(item.name || ""),
         category: String(item.category || ""),
         incomeCategory: String(item.category || ""),
-        totalSold: salesMap.get(normalizedItem?.normalized || "") || 0,
+        totalSold: salesMap.get(String(item._id)) || 0,
         price: Number(item.price) || 0,
         image: String(item.image || ""),
         isAvailable: Boolean(item.isAvailable),
+        outOfStock: Boolean(item.outOfStock),
+        recipe: (item.recipe || []).map((line: { ingredient: unknown; quantity: number }) => ({
+          ingredient: String(line.ingredient),
+          quantity: Number(line.quantity) || 0,
+        })),
+        variants: item.variants || [],
+        modifierGroups: item.modifierGroups || [],
+        scheduledPrice: scheduledPrices.get(String(item._id)),
+        rules: itemRules,
+        availableNow: Boolean(item.isAvailable) && isScheduledAvailable(itemRules, now),
+        ...(priceRule && {
+          activePriceRule: { name: priceRule.name, discountPercent: priceRule.discountPercent || 0 },
+        }),
       }
     })
+      .filter((item) => available !== QUERY_PARAMS.AVAILABLE || item.availableNow)
 
     // Compute top 8 popular items
     const popularItems = menuWithSales
@@ -108,15 +127,11 @@ export async function GET(request: NextRequest) {
       .sort((a, b) => b.totalSold - a.totalSold)
       .slice(0, 8)
 
-    // Create set of popular item names for efficient lookup
-    const popularKeys = new Set(
-      popularItems.map((i) => normalize(i.name))
-    )
+    // Create set of popular item ids for efficient lookup
+    const popularIds = new Set(popularItems.map((i) => i._id))
 
     // Filter out popular items from regular categories
-    const filteredMenuItems = menuWithSales.filter(
-      (item) => !popularKeys.has(normalize(item.name))
-    )
+    const filteredMenuItems = menuWithSales.filter((item) => !popularIds.has(item._id))
 
     // Final result with Popular category
     const finalMenu: MenuItemWithSales[] = [
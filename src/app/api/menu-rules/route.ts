@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import dbConnect from "@/lib/db"
+import { authOptions } from "@/lib/auth"
+import { tenantData } from "@/lib/tenant"
+import { ERROR_MESSAGES } from "@/lib/constants"
+
+/**
+ * GET /api/menu-rules
+ *
+ * Fetch the organization's availability schedules and price rules
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: ERROR_MESSAGES.UNAUTHORIZED }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const rules = await tenantData(session.user.organization).MenuRule.find()
+      .sort({ type: 1, startTime: 1 })
+      .lean()
+
+    return NextResponse.json({ rules: JSON.parse(JSON.stringify(rules)) })
+  } catch (error) {
+    console.error("Error fetching menu rules:", error)
+    return NextResponse.json({ error: ERROR_MESSAGES.INTERNAL_SERVER_ERROR }, { status: 500 })
+  }
+}
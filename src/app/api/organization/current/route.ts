@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import dbConnect from "@/lib/db"
+import Organization from "@/models/Organization"
+import { authOptions } from "@/lib/auth"
+import { DEFAULT_TIME_ZONE, ERROR_MESSAGES } from "@/lib/constants"
+
+/**
+ * GET /api/organization/current
+ *
+ * Fetch the current user's organization details (used for receipt headers and the time zone setting)
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: ERROR_MESSAGES.UNAUTHORIZED }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const organization = await Organization.findById(session.user.organization).select(
+      "name shortName address phone email taxId timeZone",
+    )
+
+    if (!organization) {
+      return NextResponse.json({ error: ERROR_MESSAGES.NOT_FOUND }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      organization: { ...JSON.parse(JSON.stringify(organization)), timeZone: organization.timeZone || DEFAULT_TIME_ZONE },
+    })
+  } catch (error) {
+    console.error("Error fetching organization:", error)
+    return NextResponse.json({ error: ERROR_MESSAGES.INTERNAL_SERVER_ERROR }, { status: 500 })
+  }
+}
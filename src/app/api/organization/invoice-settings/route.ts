@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import dbConnect from "@/lib/db"
+import Organization from "@/models/Organization"
+import { authOptions } from "@/lib/auth"
+import { DEFAULT_INVOICE_SETTINGS } from "@/lib/invoice"
+import { ERROR_MESSAGES } from "@/lib/constants"
+
+/**
+ * GET /api/organization/invoice-settings
+ *
+ * Fetch the invoice numbering rules of the current user's organization
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: ERROR_MESSAGES.UNAUTHORIZED }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const organization = await Organization.findById(session.user.organization).select("invoiceSettings")
+
+    return NextResponse.json({
+      invoiceSettings: { ...DEFAULT_INVOICE_SETTINGS, ...organization?.invoiceSettings?.toObject() },
+    })
+  } catch (error) {
+    console.error("Error fetching invoice settings:", error)
+    return NextResponse.json({ error: ERROR_MESSAGES.INTERNAL_SERVER_ERROR }, { status: 500 })
+  }
+}
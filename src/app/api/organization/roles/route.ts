@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import dbConnect from "@/lib/db"
+import Organization from "@/models/Organization"
+import { authOptions, getUserPermissions } from "@/lib/auth"
+import { PERMISSIONS, hasPermission, resolveRoles, type RoleDefinition } from "@/lib/permissions"
+import { ERROR_MESSAGES } from "@/lib/constants"
+
+/**
+ * GET /api/organization/roles
+ *
+ * Fetch the roles of the current user's organization with their permissions, built-in roles first
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: ERROR_MESSAGES.UNAUTHORIZED }, { status: 401 })
+    }
+
+    if (!hasPermission(await getUserPermissions(session.user.id), PERMISSIONS.USERS_MANAGE)) {
+      return NextResponse.json({ error: ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS }, { status: 403 })
+    }
+
+    await dbConnect()
+
+    const organization = await Organization.findById(session.user.organization).select("roles").lean<{ roles?: RoleDefinition[] }>()
+
+    return NextResponse.json({ roles: resolveRoles(organization?.roles) })
+  } catch (error) {
+    console.error("Error fetching roles:", error)
+    return NextResponse.json({ error: ERROR_MESSAGES.INTERNAL_SERVER_ERROR }, { status: 500 })
+  }
+}
@@ -12,7 +12,7 @@ import { authOptions } from "@/lib/auth"
 export async function GET() {
   try {
     const session = await getServerSession(authOptions)
-    if (!session?.user?.id && !session?.user?.superAdmin) {
+    if (!session?.user?.superAdmin) {
       return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
     }
 
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import dbConnect from "@/lib/db"
+import Organization from "@/models/Organization"
+import { authOptions } from "@/lib/auth"
+import { DEFAULT_TAX_SETTINGS } from "@/lib/tax"
+import { ERROR_MESSAGES } from "@/lib/constants"
+
+/**
+ * GET /api/organization/tax-settings
+ *
+ * Fetch the tax rules of the current user's organization
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: ERROR_MESSAGES.UNAUTHORIZED }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const organization = await Organization.findById(session.user.organization).select("taxId taxSettings")
+
+    return NextResponse.json({
+      taxId: organization?.taxId || "",
+      taxSettings: { ...DEFAULT_TAX_SETTINGS, ...organization?.taxSettings?.toObject() },
+    })
+  } catch (error) {
+    console.error("Error fetching tax settings:", error)
+    return NextResponse.json({ error: ERROR_MESSAGES.INTERNAL_SERVER_ERROR }, { status: 500 })
+  }
+}
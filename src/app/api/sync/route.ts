@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import { z } from "zod"
+import { authOptions } from "@/lib/auth"
+import { ERROR_MESSAGES } from "@/lib/constants"
+import { actionTransports } from "@/lib/offline/action-transports"
+
+const syncRequestSchema = z.object({
+  type: z.enum(["income", "expense", "dueAccount", "duePayment", "menuItem", "user"]),
+  operation: z.enum(["create", "update", "remove"]),
+  id: z.string().optional(),
+  data: z.record(z.any()).default({}),
+  expectedUpdatedAt: z.string().optional(),
+})
+
+const ERROR_STATUS: Record<string, number> = {
+  [ERROR_MESSAGES.UNAUTHORIZED]: 401,
+  [ERROR_MESSAGES.INSUFFICIENT_PERMISSIONS]: 403,
+  [ERROR_MESSAGES.NOT_FOUND]: 404,
+}
+
+/**
+ * POST /api/sync
+ *
+ * Apply one queued offline operation. The service worker's background sync posts here when no
+ * tab is open to sync from; the operation goes through the same server actions the page calls.
+ * Returns the action's result, including conflicts; rejected operations get a 4xx status.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: ERROR_MESSAGES.UNAUTHORIZED }, { status: 401 })
+    }
+
+    const parsed = syncRequestSchema.safeParse(await request.json())
+    if (!parsed.success) {
+      return NextResponse.json({ error: parsed.error.errors[0]?.message }, { status: 400 })
+    }
+
+    const { type, operation, id, data, expectedUpdatedAt } = parsed.data
+    const transport = actionTransports[type]!
+
+    if (operation !== "create" && !id) {
+      return NextResponse.json({ error: "Record id is required" }, { status: 400 })
+    }
+
+    const result =
+      operation === "create"
+        ? await transport.create(data)
+        : operation === "update"
+          ? await transport.update(id!, data, expectedUpdatedAt)
+          : await transport.remove(id!, data)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error("Error applying sync operation:", error)
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: error.errors[0]?.message }, { status: 422 })
+    }
+
+    const message = error instanceof Error ? error.message : ""
+    const status = ERROR_STATUS[message]
+    if (status) {
+      return NextResponse.json({ error: message }, { status })
+    }
+    return NextResponse.json({ error: ERROR_MESSAGES.INTERNAL_SERVER_ERROR }, { status: 500 })
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server"
+import { getServerSession } from "next-auth"
+import dbConnect from "@/lib/db"
+// Import to ensure IncomeRecord schema is registered for populate
+import "@/models/IncomeRecord"
+import { authOptions, getUserPermissions } from "@/lib/auth"
+import { PERMISSIONS, hasPermission } from "@/lib/permissions"
+import { tenantData } from "@/lib/tenant"
+import { branchFilter } from "@/lib/branches"
+import { ERROR_MESSAGES } from "@/lib/constants"
+
+/**
+ * GET /api/tables
+ *
+ * Fetch the dining tables of the branch being viewed with the open tab running on each
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: ERROR_MESSAGES.UNAUTHORIZED }, { status: 401 })
+    }
+
+    await dbConnect()
+
+    const tables = await tenantData(session.user.organization).Table.find(branchFilter(session.user))
+      .populate("currentOrder")
+      .sort({ area: 1, name: 1 })
+      .collation({ locale: "en", numericOrdering: true })
+      .lean()
+
+    return NextResponse.json({
+      tables: JSON.parse(JSON.stringify(tables)),
+      canManage: hasPermission(await getUserPermissions(session.user.id), PERMISSIONS.TABLES_MANAGE),
+    })
+  } catch (error) {
+    console.error("Error fetching tables:", error)
+    return NextResponse.json({ error: ERROR_MESSAGES.INTERNAL_SERVER_ERROR }, { status: 500 })
+  }
+}
@@ -1,13 +1,14 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { getServerSession } from "next-auth"
 import dbConnect from "@/lib/db"
-import User from "@/models/User"
-import { authOptions } from "@/lib/auth"
+import { authOptions, getUserPermissions } from "@/lib/auth"
+import { PERMISSIONS, hasPermission } from "@/lib/permissions"
+import { tenantData } from "@/lib/tenant"
 
 /**
  * GET /api/users
  *
- * Fetch users with pagination (Admin only)
+ * Fetch users with pagination
  *
  * Query params: page, limit
  */
@@ -15,8 +16,12 @@ export async function GET(request: NextRequest) {
   try {
     const session = await getServerSession(authOptions)
 
-    if (!session?.user?.id || session.user.role !== "admin") {
-      return NextResponse.json({ error: "Unauthorized - Admin access required" }, { status: 401 })
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    if (!hasPermission(await getUserPermissions(session.user.id), PERMISSIONS.USERS_MANAGE)) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 })
     }
 
     await dbConnect()
@@ -26,13 +31,14 @@ export async function GET(request: NextRequest) {
     const limit = Number.parseInt(searchParams.get("limit") || "50")
     const skip = (page - 1) * limit
 
-    const users = await User.find({ organization: session.user.organization }, { password: 0 })
+    const db = tenantData(session.user.organization)
+    const users = await db.User.find({}, { password: 0 })
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limit)
       .lean()
 
-    const total = await User.countDocuments()
+    const total = await db.User.countDocuments()
 
     return NextResponse.json({
       users,
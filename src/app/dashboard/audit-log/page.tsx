@@ -0,0 +1,355 @@
+"use client"
+
+/**
+ * Audit Log Page - History of changes to income, expense and due account records
+ */
+
+import { Fragment, useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "sonner"
+import { ChevronDown, ChevronRight, Download, History, RefreshCw } from "lucide-react"
+import { exportToCSV } from "@/lib/utils"
+import { API_PATHS, AUDIT_ACTION, AUDIT_ENTITY, AUDIT_SOURCE } from "@/lib/constants"
+import type { AuditEvent } from "@/types"
+
+const PAGE_SIZE = 50
+const EXPORT_LIMIT = 1000
+const ALL = "all"
+
+const ENTITY_LABELS: Record<AuditEvent["entityType"], string> = {
+  IncomeRecord: "Income",
+  ExpenseRecord: "Expense",
+  DueAccount: "Due Account",
+  DuePayment: "Due Payment",
+}
+
+const ACTION_STYLES: Record<AuditEvent["action"], string> = {
+  create: "text-green-600 border-green-200",
+  update: "text-blue-600 border-blue-200",
+  delete: "text-red-600 border-red-200",
+  payment: "text-purple-600 border-purple-200",
+  void: "text-orange-600 border-orange-200",
+  restore: "text-teal-600 border-teal-200",
+}
+
+const formatValue = (value: unknown) =>
+  value === undefined || value === null ? "—" : typeof value === "object" ? JSON.stringify(value) : String(value)
+
+export default function AuditLogPage() {
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [page, setPage] = useState(1)
+  const [pages, setPages] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [filters, setFilters] = useState({
+    entityType: ALL,
+    action: ALL,
+    source: ALL,
+    entityId: "",
+    from: "",
+    to: "",
+  })
+
+  const buildQuery = useCallback(
+    (pageNumber: number, limit: number) => {
+      const params = new URLSearchParams({ page: String(pageNumber), limit: String(limit) })
+      for (const [key, value] of Object.entries(filters)) {
+        if (value && value !== ALL) params.set(key, value.trim())
+      }
+      return `${API_PATHS.AUDIT_EVENTS}?${params}`
+    },
+    [filters],
+  )
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(buildQuery(page, PAGE_SIZE))
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch audit log")
+      }
+      setEvents(data.events || [])
+      setPages(data.pagination?.pages || 1)
+      setTotal(data.pagination?.total || 0)
+    } catch (error) {
+      console.error("Error fetching audit log:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to fetch audit log")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [buildQuery, page])
+
+  useEffect(() => {
+    fetchEvents()
+  }, [fetchEvents])
+
+  const updateFilter = (key: keyof typeof filters, value: string) => {
+    setFilters({ ...filters, [key]: value })
+    setPage(1)
+  }
+
+  const handleExport = async () => {
+    try {
+      const response = await fetch(buildQuery(1, EXPORT_LIMIT))
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to export audit log")
+      }
+
+      // One row per changed field so the file opens cleanly in a spreadsheet
+      const rows = (data.events as AuditEvent[]).flatMap((event) => {
+        const base = {
+          Date: new Date(event.createdAt).toLocaleString(),
+          User: event.actorName,
+          Action: event.action,
+          Record: ENTITY_LABELS[event.entityType],
+          "Record ID": event.entityId,
+          Source: event.source,
+        }
+        return event.changes.length
+          ? event.changes.map((change) => ({
+              ...base,
+              Field: change.path,
+              Before: formatValue(change.before),
+              After: formatValue(change.after),
+            }))
+          : [{ ...base, Field: "", Before: "", After: "" }]
+      })
+
+      if (rows.length === 0) {
+        toast.error("No events to export")
+        return
+      }
+
+      exportToCSV(rows, `audit-log-${new Date().toISOString().split("T")[0]}.csv`)
+      if (data.pagination?.total > EXPORT_LIMIT) {
+        toast.info(`Exported the latest ${EXPORT_LIMIT} events. Narrow the filters to export older ones.`)
+      }
+    } catch (error) {
+      console.error("Error exporting audit log:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to export audit log")
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <History className="h-8 w-8 text-primary" />
+              <h1 className="text-3xl font-bold">Audit Log</h1>
+            </div>
+            <p className="text-muted-foreground">Every change to income, expense and due account records</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={fetchEvents} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button onClick={handleExport}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+              <div>
+                <Label>Record Type</Label>
+                <Select value={filters.entityType} onValueChange={(value) => updateFilter("entityType", value)}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All records</SelectItem>
+                    {Object.values(AUDIT_ENTITY).map((entity) => (
+                      <SelectItem key={entity} value={entity}>
+                        {ENTITY_LABELS[entity]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Action</Label>
+                <Select value={filters.action} onValueChange={(value) => updateFilter("action", value)}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All actions</SelectItem>
+                    {Object.values(AUDIT_ACTION).map((action) => (
+                      <SelectItem key={action} value={action} className="capitalize">
+                        {action}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Source</Label>
+                <Select value={filters.source} onValueChange={(value) => updateFilter("source", value)}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All sources</SelectItem>
+                    <SelectItem value={AUDIT_SOURCE.WEB}>Online</SelectItem>
+                    <SelectItem value={AUDIT_SOURCE.OFFLINE_SYNC}>Offline sync</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="entityId">Record ID</Label>
+                <Input
+                  id="entityId"
+                  value={filters.entityId}
+                  onChange={(e) => updateFilter("entityId", e.target.value)}
+                  placeholder="Any"
+                  className="mt-2 font-mono"
+                />
+              </div>
+              <div>
+                <Label htmlFor="from">From</Label>
+                <Input
+                  id="from"
+                  type="date"
+                  value={filters.from}
+                  onChange={(e) => updateFilter("from", e.target.value)}
+                  className="mt-2"
+                />
+              </div>
+              <div>
+                <Label htmlFor="to">To</Label>
+                <Input
+                  id="to"
+                  type="date"
+                  value={filters.to}
+                  onChange={(e) => updateFilter("to", e.target.value)}
+                  className="mt-2"
+                />
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{total} events</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center items-center py-12">
+                <RefreshCw className="h-8 w-8 animate-spin mr-3" />
+                <span className="text-lg">Loading...</span>
+              </div>
+            ) : events.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">No events match these filters.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-8" />
+                    <TableHead>Date</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Changes</TableHead>
+                    <TableHead>Source</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {events.map((event) => {
+                    const isExpanded = expandedId === event._id
+                    return (
+                      <Fragment key={event._id}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() => setExpandedId(isExpanded ? null : event._id)}
+                        >
+                          <TableCell>
+                            {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          </TableCell>
+                          <TableCell className="whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</TableCell>
+                          <TableCell>{event.actorName || "—"}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className={`capitalize ${ACTION_STYLES[event.action]}`}>
+                              {event.action}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <div>{ENTITY_LABELS[event.entityType]}</div>
+                            <div className="text-xs text-muted-foreground font-mono">{event.entityId}</div>
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {event.changes.map((change) => change.path).join(", ") || "—"}
+                          </TableCell>
+                          <TableCell>
+                            {event.source === AUDIT_SOURCE.OFFLINE_SYNC ? (
+                              <Badge variant="secondary">Offline sync</Badge>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">Online</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                        {isExpanded && (
+                          <TableRow>
+                            <TableCell />
+                            <TableCell colSpan={6}>
+                              <div className="space-y-2 text-sm">
+                                {event.changes.map((change) => (
+                                  <div key={change.path} className="grid grid-cols-1 md:grid-cols-[10rem_1fr_1fr] gap-2">
+                                    <span className="font-medium">{change.path}</span>
+                                    <code className="rounded bg-red-50 dark:bg-red-950/30 p-1 break-all whitespace-pre-wrap">
+                                      {formatValue(change.before)}
+                                    </code>
+                                    <code className="rounded bg-green-50 dark:bg-green-950/30 p-1 break-all whitespace-pre-wrap">
+                                      {formatValue(change.after)}
+                                    </code>
+                                  </div>
+                                ))}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+
+            {pages > 1 && (
+              <div className="flex justify-between items-center pt-4">
+                <span className="text-sm text-muted-foreground">
+                  Page {page} of {pages}
+                </span>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={page >= pages} onClick={() => setPage(page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  )
+}
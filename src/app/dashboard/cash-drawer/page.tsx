@@ -0,0 +1,398 @@
+"use client"
+
+/**
+ * Cash Drawer Page - Open the till with a float, record pay-ins/pay-outs and close with the counted cash
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "sonner"
+import { Download, FileText, Lock, Plus, RefreshCw, Wallet } from "lucide-react"
+import { ZReportDialog, zReportRow } from "@/components/cash-drawer/z-report-dialog"
+import { openCashSession, addCashMovement, closeCashSession } from "@/app/actions/cash-sessions"
+import { API_PATHS, CASH_MOVEMENT, type CashMovementType } from "@/lib/constants"
+import { exportToCSV, formatCurrency } from "@/lib/utils"
+import type { CashSession } from "@/types"
+
+const varianceClass = (variance: number) =>
+  variance < 0 ? "text-red-600" : variance > 0 ? "text-orange-600" : "text-green-600"
+
+const varianceLabel = (variance: number) =>
+  variance < 0 ? `Short ${formatCurrency(-variance)}` : variance > 0 ? `Over ${formatCurrency(variance)}` : "Balanced"
+
+export default function CashDrawerPage() {
+  const [current, setCurrent] = useState<CashSession | null>(null)
+  const [sessions, setSessions] = useState<CashSession[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [openingFloat, setOpeningFloat] = useState("")
+  const [movement, setMovement] = useState({ type: CASH_MOVEMENT.PAY_IN as CashMovementType, amount: "", reason: "" })
+  const [closing, setClosing] = useState({ countedCash: "", notes: "" })
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(API_PATHS.CASH_SESSIONS)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch cash sessions")
+      }
+      setCurrent(data.current)
+      setSessions(data.sessions || [])
+    } catch (error) {
+      console.error("Error fetching cash sessions:", error)
+      toast.error("Failed to fetch cash sessions")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSessions()
+  }, [fetchSessions])
+
+  const run = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setIsSaving(true)
+      await action()
+      toast.success(successMessage)
+      await fetchSessions()
+      return true
+    } catch (error) {
+      console.error("Error updating cash session:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to update cash session")
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleOpen = async () => {
+    const saved = await run(
+      () => openCashSession({ openingFloat: Number.parseFloat(openingFloat) || 0 }),
+      "Cash drawer opened",
+    )
+    if (saved) setOpeningFloat("")
+  }
+
+  const handleAddMovement = async () => {
+    const saved = await run(
+      () =>
+        addCashMovement({
+          type: movement.type,
+          amount: Number.parseFloat(movement.amount) || 0,
+          reason: movement.reason,
+        }),
+      movement.type === CASH_MOVEMENT.PAY_IN ? "Pay-in recorded" : "Pay-out recorded",
+    )
+    if (saved) setMovement({ ...movement, amount: "", reason: "" })
+  }
+
+  const handleClose = async () => {
+    const saved = await run(
+      () =>
+        closeCashSession({
+          countedCash: Number.parseFloat(closing.countedCash) || 0,
+          notes: closing.notes,
+        }),
+      "Cash drawer closed",
+    )
+    if (saved) setClosing({ countedCash: "", notes: "" })
+  }
+
+  const handleExport = () => {
+    if (sessions.length === 0) {
+      toast.error("No closed sessions to export")
+      return
+    }
+    exportToCSV(sessions.map(zReportRow), `cash-sessions-${new Date().toISOString().split("T")[0]}.csv`)
+  }
+
+  const summary = current?.summary
+  const previewVariance =
+    summary && closing.countedCash !== "" ? (Number.parseFloat(closing.countedCash) || 0) - summary.expectedCash : null
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <Wallet className="h-8 w-8 text-primary" />
+              <h1 className="text-3xl font-bold">Cash Drawer</h1>
+            </div>
+            <p className="text-muted-foreground">Till sessions, pay-ins and pay-outs, and end-of-day Z-reports</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={fetchSessions} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button onClick={handleExport}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+
+        {isLoading && !current && sessions.length === 0 ? (
+          <div className="flex justify-center items-center py-12">
+            <RefreshCw className="h-8 w-8 animate-spin mr-3" />
+            <span className="text-lg">Loading...</span>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {!current ? (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Open the Drawer</CardTitle>
+                  <CardDescription>Count the float in the till to start a session.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex flex-col sm:flex-row gap-4 sm:items-end max-w-md">
+                    <div className="flex-1">
+                      <Label htmlFor="openingFloat">Opening Float</Label>
+                      <Input
+                        id="openingFloat"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={openingFloat}
+                        onChange={(e) => setOpeningFloat(e.target.value)}
+                        placeholder="0.00"
+                        className="mt-2"
+                      />
+                    </div>
+                    <Button onClick={handleOpen} disabled={isSaving}>
+                      {isSaving ? "Opening..." : "Open Session"}
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle>Current Session</CardTitle>
+                        <CardDescription>
+                          Opened {new Date(current.openedAt).toLocaleString()} by {current.openedBy?.name || "—"}
+                        </CardDescription>
+                      </div>
+                      <ZReportDialog
+                        session={current}
+                        trigger={
+                          <Button variant="outline" size="sm">
+                            <FileText className="h-4 w-4 mr-2" />
+                            X-Report
+                          </Button>
+                        }
+                      />
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    {summary && (
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {[
+                          { label: "Opening float", value: current.openingFloat },
+                          { label: "Cash sales", value: summary.cashSales },
+                          { label: "Due collections (cash)", value: summary.dueCashCollections },
+                          { label: "Digital sales", value: summary.digitalSales + summary.dueDigitalCollections },
+                          { label: "Pay-ins", value: summary.payIns },
+                          { label: "Pay-outs", value: -summary.payOuts },
+                          { label: "Cash expenses", value: -summary.cashExpenses },
+                        ].map((stat) => (
+                          <div key={stat.label} className="rounded-lg border p-3">
+                            <p className="text-sm text-muted-foreground">{stat.label}</p>
+                            <p className="text-lg font-semibold">{formatCurrency(stat.value)}</p>
+                          </div>
+                        ))}
+                        <div className="rounded-lg border border-primary p-3">
+                          <p className="text-sm text-muted-foreground">Expected in drawer</p>
+                          <p className="text-lg font-bold">{formatCurrency(summary.expectedCash)}</p>
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Pay-ins &amp; Pay-outs</CardTitle>
+                      <CardDescription>Cash added to or taken from the drawer that isn&apos;t a sale or an expense.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                        <div>
+                          <Label>Type</Label>
+                          <Select
+                            value={movement.type}
+                            onValueChange={(value) => setMovement({ ...movement, type: value as CashMovementType })}
+                          >
+                            <SelectTrigger className="mt-2">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={CASH_MOVEMENT.PAY_IN}>Pay-in</SelectItem>
+                              <SelectItem value={CASH_MOVEMENT.PAY_OUT}>Pay-out</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div>
+                          <Label htmlFor="movementAmount">Amount</Label>
+                          <Input
+                            id="movementAmount"
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            value={movement.amount}
+                            onChange={(e) => setMovement({ ...movement, amount: e.target.value })}
+                            placeholder="0.00"
+                            className="mt-2"
+                          />
+                        </div>
+                        <div>
+                          <Label htmlFor="movementReason">Reason</Label>
+                          <Input
+                            id="movementReason"
+                            value={movement.reason}
+                            onChange={(e) => setMovement({ ...movement, reason: e.target.value })}
+                            placeholder="Change from bank"
+                            className="mt-2"
+                            maxLength={200}
+                          />
+                        </div>
+                      </div>
+                      <Button
+                        className="w-full"
+                        onClick={handleAddMovement}
+                        disabled={isSaving || !movement.amount || !movement.reason.trim()}
+                      >
+                        <Plus className="h-4 w-4 mr-2" />
+                        Record {movement.type === CASH_MOVEMENT.PAY_IN ? "Pay-in" : "Pay-out"}
+                      </Button>
+
+                      {current.movements.length > 0 && (
+                        <div className="rounded-md border divide-y text-sm">
+                          {current.movements.map((item) => (
+                            <div key={item._id} className="flex items-center justify-between gap-2 p-2">
+                              <div>
+                                <p className="font-medium">{item.reason}</p>
+                                <p className="text-xs text-muted-foreground">
+                                  {new Date(item.createdAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })} •{" "}
+                                  {item.createdBy?.name || "—"}
+                                </p>
+                              </div>
+                              <span className={item.type === CASH_MOVEMENT.PAY_IN ? "text-green-600" : "text-red-600"}>
+                                {item.type === CASH_MOVEMENT.PAY_IN ? "+" : "-"}
+                                {formatCurrency(item.amount)}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Close the Drawer</CardTitle>
+                      <CardDescription>Count the cash in the till. The difference from the expected amount is recorded as over or short.</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div>
+                        <Label htmlFor="countedCash">Counted Cash</Label>
+                        <Input
+                          id="countedCash"
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          value={closing.countedCash}
+                          onChange={(e) => setClosing({ ...closing, countedCash: e.target.value })}
+                          placeholder="0.00"
+                          className="mt-2"
+                        />
+                      </div>
+                      <div>
+                        <Label htmlFor="closingNotes">Notes</Label>
+                        <Textarea
+                          id="closingNotes"
+                          value={closing.notes}
+                          onChange={(e) => setClosing({ ...closing, notes: e.target.value })}
+                          placeholder="Explain any difference..."
+                          className="mt-2"
+                          maxLength={500}
+                        />
+                      </div>
+                      {previewVariance !== null && (
+                        <p className={`text-sm font-medium ${varianceClass(previewVariance)}`}>
+                          {varianceLabel(previewVariance)}
+                        </p>
+                      )}
+                      <Button className="w-full" onClick={handleClose} disabled={isSaving || closing.countedCash === ""}>
+                        <Lock className="h-4 w-4 mr-2" />
+                        {isSaving ? "Closing..." : "Close Session"}
+                      </Button>
+                    </CardContent>
+                  </Card>
+                </div>
+              </>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Closed Sessions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {sessions.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">No sessions have been closed yet.</p>
+                ) : (
+                  <div className="rounded-md border overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Opened</TableHead>
+                          <TableHead>Closed</TableHead>
+                          <TableHead>Closed By</TableHead>
+                          <TableHead className="text-right">Expected</TableHead>
+                          <TableHead className="text-right">Counted</TableHead>
+                          <TableHead className="text-right">Variance</TableHead>
+                          <TableHead />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {sessions.map((session) => (
+                          <TableRow key={session._id}>
+                            <TableCell>{new Date(session.openedAt).toLocaleString()}</TableCell>
+                            <TableCell>{session.closedAt ? new Date(session.closedAt).toLocaleString() : "—"}</TableCell>
+                            <TableCell>{session.closedBy?.name || "—"}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(session.summary?.expectedCash || 0)}</TableCell>
+                            <TableCell className="text-right">{formatCurrency(session.countedCash || 0)}</TableCell>
+                            <TableCell className={`text-right font-medium ${varianceClass(session.variance || 0)}`}>
+                              {varianceLabel(session.variance || 0)}
+                            </TableCell>
+                            <TableCell>
+                              <ZReportDialog session={session} />
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
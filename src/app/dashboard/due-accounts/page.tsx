@@ -23,12 +23,17 @@ import {
   WifiOff,
   Edit,
   Trash2,
+  Ban,
 } from "lucide-react"
 import type { DueAccount, DueAccountSummary } from "@/types"
 import { toast } from "sonner"
 import { useOffline } from "@/hooks/use-offline"
 import { DueAccountDialog } from "@/components/due-accounts/due-account-dialog"
 import { IncomeRecordDialog } from "@/components/records/income-record-dialog"
+import { VoidRecordDialog } from "@/components/records/void-record-dialog"
+import { VoidRequestNotice } from "@/components/records/void-request-notice"
+import { reviewIncomeVoid } from "@/app/actions/income-records"
+import { VOID_STATUS } from "@/lib/constants"
 import {
   AlertDialog,
   AlertDialogContent,
@@ -41,6 +46,7 @@ import {
   AlertDialogAction,
 } from "@/components/ui/alert-dialog"
 import { DuePaymentDialog } from "@/components/due-accounts/due-payment-dialog"
+import { DueStatementTimeline } from "@/components/due-accounts/due-statement-timeline"
 
 export default function DueAccountsPage() {
   const [dueAccounts, setDueAccounts] = useState<DueAccount[]>([])
@@ -71,6 +77,7 @@ export default function DueAccountsPage() {
         totalDueAmount: account.totalDueAmount || 0,
         pendingOrdersCount: account.pendingOrdersCount || 0,
         orders: Array.isArray(account.orders) ? account.orders : [],
+        payments: Array.isArray(account.payments) ? account.payments : [],
         lastOrderDate: account.lastOrderDate || new Date().toISOString(),
         isActive: account.isActive !== false,
       }))
@@ -115,11 +122,15 @@ export default function DueAccountsPage() {
     }
   }
 
-  const handleDeleteOrder = async (orderId: string) => {
+  const handleVoidOrder = async (orderId: string, reason: string) => {
     try {
-      await OfflineAPI.deleteIncomeRecord(orderId)
+      const result = await OfflineAPI.voidIncomeRecord(orderId, reason)
 
-      const successMessage = isOnline ? "Order deleted successfully!" : "Order deleted offline - will sync when online"
+      const successMessage = !isOnline
+        ? "Order voided offline - will sync when online"
+        : result.voided === false
+        ? "Void requested - it needs to be approved"
+        : "Order voided"
       toast.success(successMessage)
 
       // Refresh the due accounts to reflect the changes
@@ -127,8 +138,8 @@ export default function DueAccountsPage() {
         await fetchDueAccounts()
       }, 100)
     } catch (error) {
-      console.error("Error deleting order:", error)
-      toast.error("Failed to delete order")
+      console.error("Error voiding order:", error)
+      toast.error("Failed to void order")
     }
   }
 
@@ -308,6 +319,11 @@ export default function DueAccountsPage() {
                                   ? `Last order: ${new Date(account.lastOrderDate).toLocaleDateString()}`
                                   : "No orders yet"}
                               </span>
+                              {account.lastPaymentDate && (
+                                <span className="text-sm text-muted-foreground">
+                                  Last payment: {new Date(account.lastPaymentDate).toLocaleDateString()}
+                                </span>
+                              )}
                               {(account.pendingOrdersCount || 0) > 0 ? (
                                 <Badge variant="outline" className="text-orange-600 border-orange-200">
                                   {account.pendingOrdersCount} pending orders
@@ -467,37 +483,40 @@ export default function DueAccountsPage() {
                                       }
                                     />
 
-                                    {/* Delete Order Button */}
-                                    <AlertDialog>
-                                      <AlertDialogTrigger asChild>
-                                        <Button variant="outline" size="sm">
-                                          <Trash2 className="h-3 w-3" />
-                                        </Button>
-                                      </AlertDialogTrigger>
-                                      <AlertDialogContent>
-                                        <AlertDialogHeader>
-                                          <AlertDialogTitle>Delete Order</AlertDialogTitle>
-                                          <AlertDialogDescription>
-                                            Are you sure you want to delete this order? This action cannot be undone.
-                                          </AlertDialogDescription>
-                                        </AlertDialogHeader>
-                                        <AlertDialogFooter>
-                                          <AlertDialogCancel>Cancel</AlertDialogCancel>
-                                          <AlertDialogAction
-                                            onClick={() => handleDeleteOrder(order._id)}
-                                            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                                          >
-                                            Delete Order
-                                          </AlertDialogAction>
-                                        </AlertDialogFooter>
-                                      </AlertDialogContent>
-                                    </AlertDialog>
+                                    {/* Void Order Button */}
+                                    {order.voidStatus === VOID_STATUS.REQUESTED ? (
+                                      <VoidRequestNotice
+                                        reason={order.voidReason}
+                                        onReview={(approve) => reviewIncomeVoid(order._id, approve)}
+                                        onReviewed={handleOrderSuccess}
+                                      />
+                                    ) : (
+                                      <VoidRecordDialog
+                                        label="order"
+                                        onConfirm={(reason) => handleVoidOrder(order._id, reason)}
+                                        trigger={
+                                          <Button variant="outline" size="sm">
+                                            <Ban className="h-3 w-3" />
+                                          </Button>
+                                        }
+                                      />
+                                    )}
                                   </div>
                                 </div>
                               </div>
                             ))}
                           </div>
                         )}
+
+                        <div className="flex items-center justify-between border-b pb-2 pt-4">
+                          <h4 className="font-medium">Payment History</h4>
+                          <span className="text-sm text-muted-foreground">
+                            {account.payments ? account.payments.length : 0} payments
+                          </span>
+                        </div>
+                        <div className="max-h-60 overflow-y-auto py-1">
+                          <DueStatementTimeline payments={account.payments || []} showReceivedBy />
+                        </div>
                       </div>
                     </CardContent>
                   </CollapsibleContent>
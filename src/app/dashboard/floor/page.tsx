@@ -0,0 +1,315 @@
+"use client"
+
+/**
+ * Floor Page - Table layout with occupancy, open tabs and running totals
+ */
+
+import type React from "react"
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog"
+import { toast } from "sonner"
+import { Plus, Edit, Trash2, RefreshCw, LayoutGrid, Users } from "lucide-react"
+import { TabDialog } from "@/components/tables/tab-dialog"
+import { createTable, updateTable, deleteTable } from "@/app/actions/tables"
+import { API_PATHS, TABLE_STATUS } from "@/lib/constants"
+import { formatCurrency } from "@/lib/utils"
+import type { Table } from "@/types"
+
+// Tabs opened on other devices show up without a manual refresh
+const REFRESH_INTERVAL = 30000
+
+const STATUS_STYLES: Record<Table["status"], string> = {
+  free: "border-green-300 bg-green-50 dark:bg-green-950/30",
+  occupied: "border-orange-300 bg-orange-50 dark:bg-orange-950/30",
+  reserved: "border-blue-300 bg-blue-50 dark:bg-blue-950/30",
+}
+
+const minutesSince = (date: Date | string) => Math.max(0, Math.floor((Date.now() - new Date(date).getTime()) / 60000))
+
+export default function FloorPage() {
+  const [tables, setTables] = useState<Table[]>([])
+  const [canManage, setCanManage] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [selectedTableId, setSelectedTableId] = useState<string | null>(null)
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingTable, setEditingTable] = useState<Table | null>(null)
+
+  // Form state
+  const [formData, setFormData] = useState({ name: "", area: "", seats: "4" })
+
+  const fetchTables = useCallback(async () => {
+    try {
+      const response = await fetch(API_PATHS.TABLES)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch tables")
+      }
+      setTables(data.tables || [])
+      setCanManage(data.canManage)
+    } catch (error) {
+      console.error("Error fetching tables:", error)
+      toast.error("Failed to fetch tables")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTables()
+    const interval = setInterval(fetchTables, REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [fetchTables])
+
+  const resetForm = () => {
+    setFormData({ name: "", area: "", seats: "4" })
+    setEditingTable(null)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const tableData = {
+      name: formData.name,
+      area: formData.area,
+      seats: Number.parseInt(formData.seats) || 1,
+    }
+
+    try {
+      if (editingTable) {
+        await updateTable(editingTable._id, tableData)
+        toast.success("Table updated")
+      } else {
+        await createTable(tableData)
+        toast.success("Table created")
+      }
+
+      setIsDialogOpen(false)
+      resetForm()
+      await fetchTables()
+    } catch (error) {
+      console.error("Error saving table:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save table")
+    }
+  }
+
+  const handleEdit = (table: Table) => {
+    setEditingTable(table)
+    setFormData({ name: table.name, area: table.area, seats: table.seats.toString() })
+    setIsDialogOpen(true)
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteTable(id)
+      toast.success("Table deleted")
+      await fetchTables()
+    } catch (error) {
+      console.error("Error deleting table:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to delete table")
+    }
+  }
+
+  // Group tables by area, keeping the API's area/name order
+  const areas = tables.reduce<Record<string, Table[]>>((groups, table) => {
+    const area = table.area || "Main"
+    groups[area] = [...(groups[area] || []), table]
+    return groups
+  }, {})
+
+  const openTabs = tables.filter((table) => table.currentOrder)
+  const openTabsTotal = openTabs.reduce((sum, table) => sum + (table.currentOrder?.totalAmount || 0), 0)
+  const selectedTable = tables.find((table) => table._id === selectedTableId) || null
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <LayoutGrid className="h-8 w-8 text-primary" />
+              <h1 className="text-3xl font-bold">Floor</h1>
+            </div>
+            <p className="text-muted-foreground">
+              {openTabs.length} of {tables.length} tables occupied • {formatCurrency(openTabsTotal)} on open tabs
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={fetchTables} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            {canManage && (
+              <Button
+                onClick={() => {
+                  resetForm()
+                  setIsDialogOpen(true)
+                }}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Table
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <RefreshCw className="h-8 w-8 animate-spin mr-3" />
+            <span className="text-lg">Loading...</span>
+          </div>
+        ) : tables.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">
+              {canManage ? "No tables yet. Add your first table to start taking tabs." : "No tables have been set up yet."}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {Object.entries(areas).map(([area, areaTables]) => (
+              <div key={area}>
+                <h2 className="text-lg font-semibold mb-3">{area}</h2>
+                <div className="grid gap-4 grid-cols-2 md:grid-cols-4 lg:grid-cols-6">
+                  {areaTables.map((table) => (
+                    <Card
+                      key={table._id}
+                      className={`cursor-pointer transition-shadow hover:shadow-md ${STATUS_STYLES[table.status]}`}
+                      onClick={() => setSelectedTableId(table._id)}
+                    >
+                      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                        <CardTitle className="text-base">{table.name}</CardTitle>
+                        <span className="flex items-center text-xs text-muted-foreground">
+                          <Users className="h-3 w-3 mr-1" />
+                          {table.seats}
+                        </span>
+                      </CardHeader>
+                      <CardContent className="space-y-2">
+                        {table.currentOrder ? (
+                          <>
+                            <div className="text-xl font-bold">{formatCurrency(table.currentOrder.totalAmount)}</div>
+                            <p className="text-xs text-muted-foreground">
+                              {table.currentOrder.items.reduce((sum, item) => sum + item.quantity, 0)} items •{" "}
+                              {minutesSince(table.currentOrder.date)} min
+                            </p>
+                          </>
+                        ) : (
+                          <Badge
+                            variant="outline"
+                            className={
+                              table.status === TABLE_STATUS.RESERVED
+                                ? "text-blue-600 border-blue-200"
+                                : "text-green-600 border-green-200"
+                            }
+                          >
+                            {table.status === TABLE_STATUS.RESERVED ? "Reserved" : "Free"}
+                          </Badge>
+                        )}
+
+                        {canManage && (
+                          <div className="flex space-x-2" onClick={(e) => e.stopPropagation()}>
+                            <Button variant="outline" size="sm" onClick={() => handleEdit(table)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="outline" size="sm" disabled={!!table.currentOrder}>
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete Table</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Are you sure you want to delete &quot;{table.name}&quot;? Past orders keep the table
+                                    name.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handleDelete(table._id)}
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <TabDialog
+          table={selectedTable}
+          onOpenChange={(open) => !open && setSelectedTableId(null)}
+          onChanged={fetchTables}
+        />
+
+        {/* Add/Edit Table Dialog */}
+        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>{editingTable ? "Edit Table" : "Add New Table"}</DialogTitle>
+            </DialogHeader>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <Label htmlFor="name">Name *</Label>
+                <Input
+                  id="name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  placeholder="T1"
+                  className="mt-2"
+                  required
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="area">Area</Label>
+                  <Input
+                    id="area"
+                    value={formData.area}
+                    onChange={(e) => setFormData({ ...formData, area: e.target.value })}
+                    placeholder="Patio"
+                    className="mt-2"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="seats">Seats</Label>
+                  <Input
+                    id="seats"
+                    type="number"
+                    min="1"
+                    value={formData.seats}
+                    onChange={(e) => setFormData({ ...formData, seats: e.target.value })}
+                    className="mt-2"
+                  />
+                </div>
+              </div>
+              <div className="flex gap-2 pt-4">
+                <Button type="submit" className="flex-1">
+                  {editingTable ? "Update" : "Create"}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </main>
+    </div>
+  )
+}
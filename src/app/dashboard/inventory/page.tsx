@@ -0,0 +1,425 @@
+"use client"
+
+/**
+ * Inventory Page - Ingredient stock levels with restock and adjustment controls
+ */
+
+import type React from "react"
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Badge } from "@/components/ui/badge"
+import { toast } from "sonner"
+import { Plus, Edit, Trash2, RefreshCw, Package, Search, ArrowUpDown } from "lucide-react"
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog"
+import { createIngredient, updateIngredient, deleteIngredient, adjustStock } from "@/app/actions/inventory"
+import { API_PATHS, INGREDIENT_UNITS, type IngredientUnit } from "@/lib/constants"
+import type { Ingredient } from "@/types"
+
+export default function InventoryPage() {
+  const [ingredients, setIngredients] = useState<Ingredient[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [searchTerm, setSearchTerm] = useState("")
+  const [isDialogOpen, setIsDialogOpen] = useState(false)
+  const [editingIngredient, setEditingIngredient] = useState<Ingredient | null>(null)
+  const [adjustingIngredient, setAdjustingIngredient] = useState<Ingredient | null>(null)
+  const [adjustment, setAdjustment] = useState("")
+
+  // Form state
+  const [formData, setFormData] = useState({
+    name: "",
+    unit: "g" as IngredientUnit,
+    currentQuantity: "",
+    lowStockThreshold: "",
+  })
+
+  const fetchIngredients = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const response = await fetch(API_PATHS.INGREDIENTS)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch ingredients")
+      }
+      setIngredients(data.ingredients || [])
+    } catch (error) {
+      console.error("Error fetching ingredients:", error)
+      toast.error("Failed to fetch ingredients")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchIngredients()
+  }, [fetchIngredients])
+
+  const resetForm = () => {
+    setFormData({ name: "", unit: "g", currentQuantity: "", lowStockThreshold: "" })
+    setEditingIngredient(null)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!formData.name) {
+      toast.error("Please fill in all required fields")
+      return
+    }
+
+    const ingredientData = {
+      name: formData.name,
+      unit: formData.unit,
+      currentQuantity: Number.parseFloat(formData.currentQuantity) || 0,
+      lowStockThreshold: Number.parseFloat(formData.lowStockThreshold) || 0,
+    }
+
+    try {
+      if (editingIngredient) {
+        await updateIngredient(editingIngredient._id, ingredientData)
+        toast.success("Ingredient updated")
+      } else {
+        await createIngredient(ingredientData)
+        toast.success("Ingredient created")
+      }
+
+      setIsDialogOpen(false)
+      resetForm()
+      await fetchIngredients()
+    } catch (error) {
+      console.error("Error saving ingredient:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save ingredient")
+    }
+  }
+
+  const handleEdit = (ingredient: Ingredient) => {
+    setEditingIngredient(ingredient)
+    setFormData({
+      name: ingredient.name,
+      unit: ingredient.unit,
+      currentQuantity: ingredient.currentQuantity.toString(),
+      lowStockThreshold: ingredient.lowStockThreshold.toString(),
+    })
+    setIsDialogOpen(true)
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteIngredient(id)
+      toast.success("Ingredient deleted")
+      await fetchIngredients()
+    } catch (error) {
+      console.error("Error deleting ingredient:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to delete ingredient")
+    }
+  }
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!adjustingIngredient) return
+
+    const quantity = Number.parseFloat(adjustment)
+    if (!quantity) {
+      toast.error("Enter a quantity to add (positive) or remove (negative)")
+      return
+    }
+
+    try {
+      await adjustStock(adjustingIngredient._id, quantity)
+      toast.success(`Stock for ${adjustingIngredient.name} adjusted`)
+      setAdjustingIngredient(null)
+      setAdjustment("")
+      await fetchIngredients()
+    } catch (error) {
+      console.error("Error adjusting stock:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to adjust stock")
+    }
+  }
+
+  const filteredIngredients = ingredients.filter((ingredient) =>
+    ingredient.name.toLowerCase().includes(searchTerm.toLowerCase()),
+  )
+  const lowStockCount = ingredients.filter((ingredient) => ingredient.currentQuantity <= ingredient.lowStockThreshold).length
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <Package className="h-8 w-8 text-primary" />
+              <h1 className="text-3xl font-bold">Inventory</h1>
+            </div>
+            <p className="text-muted-foreground">
+              Stock is used up by orders through menu item recipes and refilled by &quot;Food &amp; Ingredients&quot; expenses.
+            </p>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={resetForm}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Ingredient
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-md">
+              <DialogHeader>
+                <DialogTitle>{editingIngredient ? "Edit Ingredient" : "Add New Ingredient"}</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="name">Name *</Label>
+                  <Input
+                    id="name"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="Milk"
+                    className="mt-2"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="unit" className="mb-2">Unit *</Label>
+                  <Select
+                    value={formData.unit}
+                    onValueChange={(value) => setFormData({ ...formData, unit: value as IngredientUnit })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select unit" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INGREDIENT_UNITS.map((unit) => (
+                        <SelectItem key={unit} value={unit}>
+                          {unit}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="currentQuantity">Current Quantity</Label>
+                    <Input
+                      id="currentQuantity"
+                      type="number"
+                      step="0.01"
+                      value={formData.currentQuantity}
+                      onChange={(e) => setFormData({ ...formData, currentQuantity: e.target.value })}
+                      placeholder="0"
+                      className="mt-2"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="lowStockThreshold">Low Stock Alert</Label>
+                    <Input
+                      id="lowStockThreshold"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={formData.lowStockThreshold}
+                      onChange={(e) => setFormData({ ...formData, lowStockThreshold: e.target.value })}
+                      placeholder="0"
+                      className="mt-2"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex gap-2 pt-4">
+                  <Button type="submit" className="flex-1">
+                    {editingIngredient ? "Update" : "Create"}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
+
+        {/* Summary Cards */}
+        <div className="grid gap-4 md:grid-cols-2 mb-6">
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Ingredients</CardTitle>
+              <Package className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{ingredients.length}</div>
+              <p className="text-xs text-muted-foreground">Tracked in stock</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Low Stock</CardTitle>
+              <Package className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className={`text-2xl font-bold ${lowStockCount > 0 ? "text-red-600" : ""}`}>{lowStockCount}</div>
+              <p className="text-xs text-muted-foreground">At or below their alert level</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-4">
+              <div className="relative flex-1 max-w-sm">
+                <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search ingredients..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-8"
+                />
+              </div>
+              <Button variant="outline" onClick={fetchIngredients} disabled={isLoading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+                Refresh
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center items-center py-12">
+                <RefreshCw className="h-8 w-8 animate-spin mr-3" />
+                <span className="text-lg">Loading...</span>
+              </div>
+            ) : filteredIngredients.length === 0 ? (
+              <div className="text-center py-12">
+                <p className="text-muted-foreground">No ingredients found.</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead className="text-right">In Stock</TableHead>
+                    <TableHead className="text-right">Alert Level</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredIngredients.map((ingredient) => {
+                    const isOut = ingredient.currentQuantity <= 0
+                    const isLow = ingredient.currentQuantity <= ingredient.lowStockThreshold
+
+                    return (
+                      <TableRow key={ingredient._id}>
+                        <TableCell className="font-medium">{ingredient.name}</TableCell>
+                        <TableCell className="text-right">
+                          {ingredient.currentQuantity} {ingredient.unit}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {ingredient.lowStockThreshold} {ingredient.unit}
+                        </TableCell>
+                        <TableCell>
+                          {isOut ? (
+                            <Badge variant="destructive">Out of stock</Badge>
+                          ) : isLow ? (
+                            <Badge variant="outline" className="text-orange-600 border-orange-200">
+                              Low stock
+                            </Badge>
+                          ) : (
+                            <Badge variant="outline" className="text-green-600 border-green-200">
+                              In stock
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex space-x-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              title="Adjust stock"
+                              onClick={() => {
+                                setAdjustingIngredient(ingredient)
+                                setAdjustment("")
+                              }}
+                            >
+                              <ArrowUpDown className="h-4 w-4" />
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={() => handleEdit(ingredient)}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="outline" size="sm">
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Delete Ingredient</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Are you sure you want to delete &quot;{ingredient.name}&quot;? This action cannot be undone.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handleDelete(ingredient._id)}
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                  >
+                                    Delete
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Stock Adjustment Dialog */}
+        <Dialog open={adjustingIngredient !== null} onOpenChange={(open) => !open && setAdjustingIngredient(null)}>
+          <DialogContent className="max-w-sm">
+            <DialogHeader>
+              <DialogTitle>Adjust Stock</DialogTitle>
+              <DialogDescription>
+                {adjustingIngredient &&
+                  `${adjustingIngredient.name}: ${adjustingIngredient.currentQuantity} ${adjustingIngredient.unit} in stock. Use a negative number for wastage or count corrections.`}
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handleAdjust} className="space-y-4">
+              <div>
+                <Label htmlFor="adjustment">Quantity ({adjustingIngredient?.unit})</Label>
+                <Input
+                  id="adjustment"
+                  type="number"
+                  step="0.01"
+                  value={adjustment}
+                  onChange={(e) => setAdjustment(e.target.value)}
+                  placeholder="e.g. 500 or -200"
+                  className="mt-2"
+                  required
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button type="submit" className="flex-1">
+                  Apply
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setAdjustingIngredient(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          </DialogContent>
+        </Dialog>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+"use client"
+
+/**
+ * Kitchen Page - Live queue of order items to prepare, grouped by station
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { toast } from "sonner"
+import { ChefHat, RefreshCw, Check, HandPlatter } from "lucide-react"
+import { PrepStatusBadge } from "@/components/kitchen/prep-status-badge"
+import { setItemPrepStatus, setOrderPrepStatus } from "@/app/actions/kitchen"
+import { nextPrepStatus } from "@/lib/kitchen"
+import { describeOptions } from "@/lib/menu-options"
+import { API_PATHS, PREP_STATUS } from "@/lib/constants"
+import type { IncomeRecord } from "@/types"
+
+// Polled rather than streamed so it works the same behind any proxy
+const REFRESH_INTERVAL = 5000
+
+// Tickets waiting longer than this are highlighted
+const LATE_AFTER_MINUTES = 15
+
+const ALL_STATIONS = "all"
+const NO_STATION = "Unassigned"
+
+type KitchenOrder = Pick<IncomeRecord, "_id" | "items" | "date" | "tableNumber" | "customerName" | "notes" | "invoiceNumber">
+
+const stationOf = (item: KitchenOrder["items"][number]) => item.category || NO_STATION
+
+const minutesSince = (date: Date | string) => Math.max(0, Math.floor((Date.now() - new Date(date).getTime()) / 60000))
+
+export default function KitchenPage() {
+  const [orders, setOrders] = useState<KitchenOrder[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [station, setStation] = useState(ALL_STATIONS)
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const response = await fetch(API_PATHS.KITCHEN)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch orders")
+      }
+      setOrders(data.orders || [])
+    } catch (error) {
+      console.error("Error fetching kitchen orders:", error)
+      toast.error("Failed to fetch orders")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchOrders()
+    const interval = setInterval(fetchOrders, REFRESH_INTERVAL)
+    return () => clearInterval(interval)
+  }, [fetchOrders])
+
+  const update = async (action: () => Promise<unknown>) => {
+    try {
+      await action()
+      await fetchOrders()
+    } catch (error) {
+      console.error("Error updating preparation status:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to update status")
+    }
+  }
+
+  const isOpen = (item: KitchenOrder["items"][number]) => item.prepStatus !== PREP_STATUS.SERVED
+
+  const stations = Array.from(
+    new Set(orders.flatMap((order) => order.items.filter(isOpen).map(stationOf))),
+  ).sort()
+
+  const tickets = orders
+    .map((order) => ({
+      order,
+      items: order.items.filter((item) => isOpen(item) && (station === ALL_STATIONS || stationOf(item) === station)),
+    }))
+    .filter((ticket) => ticket.items.length > 0)
+
+  const stationFilter = station === ALL_STATIONS ? undefined : station === NO_STATION ? "" : station
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="max-w-7xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center mb-6">
+          <div>
+            <div className="flex items-center gap-2 mb-2">
+              <ChefHat className="h-8 w-8 text-primary" />
+              <h1 className="text-3xl font-bold">Kitchen</h1>
+            </div>
+            <p className="text-muted-foreground">Tap an item to move it to the next step. Served items leave the screen.</p>
+          </div>
+          <Button variant="outline" onClick={fetchOrders} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+
+        <Tabs value={station} onValueChange={setStation} className="mb-6">
+          <TabsList className="flex-wrap h-auto">
+            <TabsTrigger value={ALL_STATIONS}>All stations</TabsTrigger>
+            {stations.map((name) => (
+              <TabsTrigger key={name} value={name}>
+                {name}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <RefreshCw className="h-8 w-8 animate-spin mr-3" />
+            <span className="text-lg">Loading...</span>
+          </div>
+        ) : tickets.length === 0 ? (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground">Nothing to prepare right now.</p>
+          </div>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+            {tickets.map(({ order, items }) => {
+              const waiting = minutesSince(order.date)
+              const allReady = items.every((item) => item.prepStatus === PREP_STATUS.READY)
+
+              return (
+                <Card key={order._id} className={waiting >= LATE_AFTER_MINUTES ? "border-red-400" : ""}>
+                  <CardHeader className="pb-2">
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-lg">
+                        {order.tableNumber ? `Table ${order.tableNumber}` : order.customerName || "Takeaway"}
+                      </CardTitle>
+                      <span className={`text-sm ${waiting >= LATE_AFTER_MINUTES ? "text-red-600 font-medium" : "text-muted-foreground"}`}>
+                        {waiting} min
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground font-mono">
+                      {order.invoiceNumber || `#${order._id.slice(-6).toUpperCase()}`}
+                    </p>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {items.map((item) => (
+                      <button
+                        key={item._id}
+                        type="button"
+                        className="w-full flex items-center justify-between rounded-md border p-2 text-left hover:bg-muted"
+                        onClick={() =>
+                          item._id &&
+                          update(() => setItemPrepStatus(order._id, item._id!, nextPrepStatus(item.prepStatus)))
+                        }
+                      >
+                        <span>
+                          <span className="font-medium">
+                            {item.quantity} x {item.name}
+                          </span>
+                          {describeOptions(item) && (
+                            <span className="block text-sm text-muted-foreground">{describeOptions(item)}</span>
+                          )}
+                        </span>
+                        <PrepStatusBadge status={item.prepStatus} />
+                      </button>
+                    ))}
+
+                    {order.notes && <p className="text-sm font-medium text-orange-600">Note: {order.notes}</p>}
+
+                    <div className="flex gap-2 pt-2">
+                      {allReady ? (
+                        <Button
+                          className="flex-1"
+                          onClick={() => update(() => setOrderPrepStatus(order._id, PREP_STATUS.SERVED, stationFilter))}
+                        >
+                          <HandPlatter className="h-4 w-4 mr-2" />
+                          Served
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          className="flex-1"
+                          onClick={() => update(() => setOrderPrepStatus(order._id, PREP_STATUS.READY, stationFilter))}
+                        >
+                          <Check className="h-4 w-4 mr-2" />
+                          All Ready
+                        </Button>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              )
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  )
+}
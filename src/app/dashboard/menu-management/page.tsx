@@ -16,9 +16,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Badge } from "@/components/ui/badge"
 import { toast } from "sonner"
-import { Plus, Edit, Trash2, IndianRupee, RefreshCw } from "lucide-react"
+import { Plus, Edit, Trash2, IndianRupee, RefreshCw, ChefHat, SlidersHorizontal, Link2, History, Clock, FileUp } from "lucide-react"
 import { MenuItem } from "@/types"
 import { OfflineAPI } from "@/lib/offline/offline-api"
+import { hasOptions } from "@/lib/menu-options"
+import { RecipeEditorDialog } from "@/components/inventory/recipe-editor-dialog"
+import { MenuOptionsDialog } from "@/components/menu/menu-options-dialog"
+import { MenuLinkReviewDialog } from "@/components/menu/menu-link-review-dialog"
+import { MenuPriceHistoryDialog } from "@/components/menu/menu-price-history-dialog"
+import { MenuRulesDialog } from "@/components/menu/menu-rules-dialog"
+import { MenuImportDialog } from "@/components/menu/menu-import-dialog"
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog"
 
 const categories = ["Appetizers", "Beverages", "Main", "Snacks", "Others"]
@@ -28,6 +35,12 @@ export default function MenuManagement() {
   const [isLoading, setIsLoading] = useState(true)
   const [isDialogOpen, setIsDialogOpen] = useState(false)
   const [editingItem, setEditingItem] = useState<MenuItem | null>(null)
+  const [recipeItem, setRecipeItem] = useState<MenuItem | null>(null)
+  const [optionsItem, setOptionsItem] = useState<MenuItem | null>(null)
+  const [isLinkReviewOpen, setIsLinkReviewOpen] = useState(false)
+  const [priceHistoryItem, setPriceHistoryItem] = useState<MenuItem | null>(null)
+  const [isRulesOpen, setIsRulesOpen] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
   const [selectedCategory, setSelectedCategory] = useState<string>("all")
 
   // Form state
@@ -141,6 +154,9 @@ export default function MenuManagement() {
     setEditingItem(null)
   }
 
+  // Imported items may bring categories beyond the usual ones
+  const menuCategories = Array.from(new Set([...categories, ...menuItems.map((item) => item.category)]))
+
   const filteredItems =
     selectedCategory === "all" ? menuItems : menuItems.filter((item) => item.category === selectedCategory)
 
@@ -168,6 +184,19 @@ export default function MenuManagement() {
             Manage your restaurant menu items
           </p>
         </div>
+        <div className="flex gap-2">
+        <Button variant="outline" onClick={() => setIsImportOpen(true)}>
+          <FileUp className="h-4 w-4 mr-2" />
+          Import / Export
+        </Button>
+        <Button variant="outline" onClick={() => setIsRulesOpen(true)}>
+          <Clock className="h-4 w-4 mr-2" />
+          Schedules & Happy Hours
+        </Button>
+        <Button variant="outline" onClick={() => setIsLinkReviewOpen(true)}>
+          <Link2 className="h-4 w-4 mr-2" />
+          Link Past Sales
+        </Button>
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
           <DialogTrigger asChild>
             <Button onClick={resetForm}>
@@ -229,7 +258,7 @@ export default function MenuManagement() {
                     <SelectValue placeholder="Select category" />
                   </SelectTrigger>
                   <SelectContent>
-                    {categories.map((category) => (
+                    {menuCategories.map((category) => (
                       <SelectItem key={category} value={category}>
                         {category}
                       </SelectItem>
@@ -269,6 +298,7 @@ export default function MenuManagement() {
             </form>
           </DialogContent>
         </Dialog>
+        </div>
       </div>
 
       {/* Category Filter */}
@@ -279,7 +309,7 @@ export default function MenuManagement() {
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Categories</SelectItem>
-            {categories.map((category) => (
+            {menuCategories.map((category) => (
               <SelectItem key={category} value={category}>
                 {category}
               </SelectItem>
@@ -311,9 +341,33 @@ export default function MenuManagement() {
                     <Badge variant={item.isAvailable ? "default" : "secondary"} className="text-xs">
                       {item.isAvailable ? "Available" : "Unavailable"}
                     </Badge>
+                    {item.outOfStock && (
+                      <Badge variant="destructive" className="text-xs">
+                        Out of stock
+                      </Badge>
+                    )}
+                    {item.isAvailable && item.availableNow === false && (
+                      <Badge variant="outline" className="text-xs">
+                        Off schedule
+                      </Badge>
+                    )}
+                    {item.activePriceRule && (
+                      <Badge variant="outline" className="text-xs text-green-700">
+                        {item.activePriceRule.discountPercent}% off
+                      </Badge>
+                    )}
                   </div>
                 </div>
                 <div className="flex gap-1">
+                  <Button variant="outline" size="sm" title="Recipe" onClick={() => setRecipeItem(item)}>
+                    <ChefHat className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" title="Options" onClick={() => setOptionsItem(item)}>
+                    <SlidersHorizontal className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" title="Price history" onClick={() => setPriceHistoryItem(item)}>
+                    <History className="h-4 w-4" />
+                  </Button>
                   <Button variant="outline" size="sm" onClick={() => handleEdit(item)}>
                     <Edit className="h-4 w-4" />
                   </Button>
@@ -364,6 +418,26 @@ export default function MenuManagement() {
                   {item.price.toFixed(2)}
                 </div>
               </div>
+              {item.scheduledPrice && (
+                <p className="text-xs text-muted-foreground text-right mt-1">
+                  {item.scheduledPrice.price.toFixed(2)} from {new Date(item.scheduledPrice.effectiveAt).toLocaleDateString()}
+                </p>
+              )}
+              {item.rules && item.rules.length > 0 && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  {item.rules.map((rule) => `${rule.name} ${rule.startTime}-${rule.endTime}`).join(" · ")}
+                </p>
+              )}
+              {hasOptions(item) && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  {[
+                    item.variants?.length && item.variants.map((variant) => `${variant.name} ${variant.price.toFixed(2)}`).join(", "),
+                    item.modifierGroups?.length && item.modifierGroups.map((group) => group.name).join(", "),
+                  ]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              )}
             </CardContent>
           </Card>
         ))}
@@ -374,6 +448,47 @@ export default function MenuManagement() {
           <p className="text-muted-foreground">No menu items found.</p>
         </div>
       )}
+
+      <RecipeEditorDialog
+        menuItem={recipeItem}
+        onOpenChange={(open) => !open && setRecipeItem(null)}
+        onSaved={(record) =>
+          setMenuItems((items) => items.map((existing) => (existing._id === record._id ? { ...existing, ...record } : existing)))
+        }
+      />
+
+      <MenuRulesDialog
+        open={isRulesOpen}
+        onOpenChange={setIsRulesOpen}
+        menuItems={menuItems}
+        categories={menuCategories}
+        onSaved={() => OfflineAPI.refreshMenuItems().then(setMenuItems)}
+      />
+
+      <MenuImportDialog
+        open={isImportOpen}
+        onOpenChange={setIsImportOpen}
+        menuItems={menuItems}
+        onImported={() => OfflineAPI.refreshMenuItems().then(setMenuItems)}
+      />
+
+      <MenuLinkReviewDialog open={isLinkReviewOpen} onOpenChange={setIsLinkReviewOpen} menuItems={menuItems} />
+
+      <MenuPriceHistoryDialog
+        menuItem={priceHistoryItem}
+        onOpenChange={(open) => !open && setPriceHistoryItem(null)}
+        onScheduledPriceChange={(id, scheduledPrice) =>
+          setMenuItems((items) => items.map((existing) => (existing._id === id ? { ...existing, scheduledPrice } : existing)))
+        }
+      />
+
+      <MenuOptionsDialog
+        menuItem={optionsItem}
+        onOpenChange={(open) => !open && setOptionsItem(null)}
+        onSaved={(record) =>
+          setMenuItems((items) => items.map((existing) => (existing._id === record._id ? { ...existing, ...record } : existing)))
+        }
+      />
     </main>
     </div>
   )
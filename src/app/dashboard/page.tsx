@@ -1,23 +1,25 @@
 "use client"
 
 /**
- * Dashboard Page - Main dashboard with stats, charts, and recent activity
+ * Dashboard Page - Main dashboard with stats, charts, branch comparison and recent activity
  */
 
 import { useState, useEffect } from "react"
+import { useSession } from "next-auth/react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { DateRangeSelector, DateRangeFilter, getDateRangeLabel } from "@/components/date-range-selector"
 import { formatCurrency } from "@/lib/utils"
 import { TrendingUp, TrendingDown, DollarSign, Receipt, CreditCard, RefreshCw, WifiOff, Database } from "lucide-react"
-import type { ChartData, DashboardStats } from "@/types"
+import type { BranchSummary, ChartData, DashboardStats } from "@/types"
 import { toast } from "sonner"
 import { useOffline } from "@/hooks/use-offline"
 import { OfflineAPI } from "@/lib/offline/offline-api"
 import { Skeleton } from "@/components/ui/skeleton"
-import { getChartData } from "../actions/dashboard"
+import { getBranchComparison, getChartData } from "../actions/dashboard"
 import { FinancialChart } from "@/components/dashboard/financial-chart"
+import { BranchComparison } from "@/components/dashboard/branch-comparison"
 
 // Helper function to calculate orders per day based on date filter
 function getOrdersPerDay(filter: DateRangeFilter, totalOrders: number): number {
@@ -52,6 +54,9 @@ export default function DashboardPage() {
   const [isFromCache, setIsFromCache] = useState(false)
 
   const { isOnline, isSyncing, pendingOperations } = useOffline()
+  const { data: session } = useSession()
+  // Branches are compared in the consolidated view, not while working at one branch
+  const isConsolidated = session?.user?.branch === null
 
   useEffect(() => {
     fetchDashboardStats()
@@ -306,7 +311,8 @@ export default function DashboardPage() {
                 )}
               </CardContent>
             </Card>
-            
+
+            {isConsolidated && isOnline && <BranchComparisonWrapper filter={dateFilter} />}
 
             {/* Data Source Info */}
             <Card>
@@ -369,6 +375,23 @@ function ChartWrapper({ filter }: { filter: string }) {
   return <FinancialChart data={data} />
 }
 
+function BranchComparisonWrapper({ filter }: { filter: string }) {
+  const [branches, setBranches] = useState<BranchSummary[]>([])
+
+  useEffect(() => {
+    getBranchComparison(filter)
+      .then(setBranches)
+      .catch((error) => {
+        console.error("Error fetching branch comparison:", error)
+        toast.error("Failed to load branch comparison")
+      })
+  }, [filter])
+
+  // A single branch has nothing to compare against
+  if (branches.length < 2) return null
+  return <BranchComparison branches={branches} />
+}
+
 function ChartSkeleton() {
   return (
     <Card>
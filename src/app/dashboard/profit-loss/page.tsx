@@ -12,9 +12,13 @@ import { Badge } from "@/components/ui/badge"
 import { DateRangeSelector, DateRangeFilter, getDateRangeLabel as getDateRangeLabelText } from "@/components/date-range-selector"
 import { Download, TrendingUp, TrendingDown, DollarSign, Receipt, Clock } from "lucide-react"
 import { formatCurrency, getDateRange } from "@/lib/utils"
+import { summarizeTaxes } from "@/lib/tax"
+import { fetchAllRecords } from "@/lib/record-filters"
+import { API_PATHS } from "@/lib/constants"
 import { useOffline } from "@/hooks/use-offline"
 import { toast } from "sonner"
-import type { IncomeRecord, ExpenseRecord } from "@/types"
+import { BranchComparison } from "@/components/dashboard/branch-comparison"
+import type { IncomeRecord, ExpenseRecord, Branch, BranchSummary } from "@/types"
 
 interface ProfitLossData {
   revenue: {
@@ -27,6 +31,10 @@ interface ProfitLossData {
     total: number
     breakdown: Array<{ category: string; amount: number }>
   }
+  taxes: {
+    vatPayable: number
+    breakdown: Array<{ type: string; name: string; taxableAmount: number; amount: number; orders: number }>
+  }
   grossProfit: number
   netProfit: number
   profitMargin: number
@@ -35,6 +43,8 @@ interface ProfitLossData {
     recordCount: number
     breakdown: Array<{ category: string; amount: number; count: number }>
   }
+  // Profit after VAT of each branch, for comparing branches in the consolidated view
+  branches: BranchSummary[]
 }
 
 const EXPENSE_CATEGORIES = [
@@ -55,6 +65,7 @@ export default function ProfitLossPage() {
   const [profitLossData, setProfitLossData] = useState<ProfitLossData | null>(null)
   const [incomeRecords, setIncomeRecords] = useState<IncomeRecord[]>([])
   const [expenseRecords, setExpenseRecords] = useState<ExpenseRecord[]>([])
+  const [branches, setBranches] = useState<Branch[]>([])
 
   const { isOnline } = useOffline()
 
@@ -63,16 +74,15 @@ export default function ProfitLossPage() {
     const fetchData = async () => {
       setIsLoading(true)
       try {
-        const [incomeResponse, expenseResponse] = await Promise.all([
-          fetch("/api/income-records?limit=10000"),
-          fetch("/api/expense-records?limit=10000"),
+        const [incomeData, expenseData, branchData] = await Promise.all([
+          fetchAllRecords<IncomeRecord>(API_PATHS.INCOME_RECORDS, new URLSearchParams({ forReport: "true" })),
+          fetchAllRecords<ExpenseRecord>(API_PATHS.EXPENSE_RECORDS, new URLSearchParams({ forReport: "true" })),
+          fetch(API_PATHS.BRANCHES).then((response) => (response.ok ? response.json() : { branches: [] })),
         ])
 
-        const incomeData = await incomeResponse.json()
-        const expenseData = await expenseResponse.json()
-
-        setIncomeRecords(incomeData.records || [])
-        setExpenseRecords(expenseData.records || [])
+        setIncomeRecords(incomeData)
+        setExpenseRecords(expenseData)
+        setBranches(branchData.branches || [])
       } catch (error) {
         console.error("Failed to fetch P&L data:", error)
         toast.error("Failed to load data")
@@ -92,10 +102,12 @@ export default function ProfitLossPage() {
       return {
         revenue: { total: 0, cash: 0, digital: 0, breakdown: [] },
         expenses: { total: 0, breakdown: [] },
+        taxes: { vatPayable: 0, breakdown: [] },
         grossProfit: 0,
         netProfit: 0,
         profitMargin: 0,
         pendingCollections: { totalAmount: 0, recordCount: 0, breakdown: [] },
+        branches: [],
       }
     }else if(dateRange === "custom") {
       start = new Date(startDate)
@@ -190,6 +202,22 @@ export default function ProfitLossPage() {
       })
     }
 
+    // Exclusive taxes were added on top of the item prices, so list them to reconcile with the total
+    const exclusiveTaxes = summarizeTaxes(completedIncomeRecords.filter((record) => !record.taxInclusive))
+    exclusiveTaxes.forEach((tax) => {
+      revenueBreakdown.push({
+        category: tax.name,
+        amount: tax.amount,
+        quantity: tax.orders,
+        orders: tax.orders,
+        avgPrice: tax.orders > 0 ? tax.amount / tax.orders : 0,
+      })
+    })
+
+    // VAT is collected on behalf of the tax authority and isn't income
+    const taxBreakdown = summarizeTaxes(completedIncomeRecords)
+    const vatPayable = taxBreakdown.find((tax) => tax.type === "vat")?.amount || 0
+
     // Calculate expenses by category
     const expenseBreakdown = EXPENSE_CATEGORIES.map((category) => {
       const categoryExpenses = filteredExpenses.filter((expense) => expense.category === category)
@@ -200,11 +228,11 @@ export default function ProfitLossPage() {
     const totalExpenses = expenseBreakdown.reduce((sum, item) => sum + item.amount, 0)
 
     // Calculate profit metrics
-    const grossProfit = totalRevenue - expenseBreakdown
+    const grossProfit = totalRevenue - vatPayable - expenseBreakdown
       .filter((e) => e.category !== "Staff Salaries" && e.category !== "Rent & Utilities")
       .reduce((sum, e) => sum + e.amount, 0)
-    const netProfit = totalRevenue - totalExpenses
-    const profitMargin = totalRevenue > 0 ? (netProfit / totalRevenue) * 100 : 0
+    const netProfit = totalRevenue - vatPayable - totalExpenses
+    const profitMargin = totalRevenue - vatPayable > 0 ? (netProfit / (totalRevenue - vatPayable)) * 100 : 0
     
     // Calculate pending collections breakdown
     const pendingBreakdown = [
@@ -224,6 +252,21 @@ export default function ProfitLossPage() {
       },
     ].filter((item) => item.amount > 0)
 
+    // Records from before the organization had branches have no branch
+    const branchIds = Array.from(
+      new Set([...completedIncomeRecords, ...filteredExpenses].map((record) => record.branch || null)),
+    )
+    const branchSummaries = branchIds.map((branchId): BranchSummary => {
+      const branchIncome = completedIncomeRecords.filter((record) => (record.branch || null) === branchId)
+      const income = branchIncome.reduce((sum, record) => sum + (record.totalAmount || 0), 0)
+      const vat = summarizeTaxes(branchIncome).find((tax) => tax.type === "vat")?.amount || 0
+      const expenses = filteredExpenses
+        .filter((record) => (record.branch || null) === branchId)
+        .reduce((sum, record) => sum + record.amount, 0)
+      const name = branchId ? branches.find((branch) => branch._id === branchId)?.name || "Closed branch" : "Unassigned"
+      return { branchId, name, income, expenses, profit: income - vat - expenses, orders: branchIncome.length }
+    })
+
     return {
       revenue: {
         total: totalRevenue,
@@ -235,6 +278,10 @@ export default function ProfitLossPage() {
         total: totalExpenses,
         breakdown: expenseBreakdown,
       },
+      taxes: {
+        vatPayable,
+        breakdown: taxBreakdown,
+      },
       grossProfit,
       netProfit,
       profitMargin,
@@ -243,8 +290,9 @@ export default function ProfitLossPage() {
         recordCount: pendingRecords.length,
         breakdown: pendingBreakdown,
       },
+      branches: branchSummaries.sort((a, b) => b.income - a.income),
     }
-  }, [incomeRecords, expenseRecords, dateRange, startDate, endDate])
+  }, [incomeRecords, expenseRecords, branches, dateRange, startDate, endDate])
 
   useEffect(() => {
     setProfitLossData(calculatedData)
@@ -526,6 +574,35 @@ export default function ProfitLossPage() {
             </CardContent>
           </Card>
 
+          {/* Tax Summary */}
+          {profitLossData.taxes.breakdown.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Tax Summary</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2">
+                  {profitLossData.taxes.breakdown.map((tax) => (
+                    <div key={tax.type} className="flex items-center justify-between py-3 border-b last:border-b-0">
+                      <div>
+                        <div className="font-medium">{tax.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          Taxable amount {formatCurrency(tax.taxableAmount)} • {tax.orders} orders
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="font-medium">{formatCurrency(tax.amount)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {tax.type === "vat" ? "Payable to tax authority" : "Collected"}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Profit Summary */}
           <Card>
             <CardHeader>
@@ -538,6 +615,13 @@ export default function ProfitLossPage() {
                   <span className="font-medium text-green-600">{formatCurrency(profitLossData.revenue.total)}</span>
                 </div>
 
+                {profitLossData.taxes.vatPayable > 0 && (
+                  <div className="flex items-center justify-between py-2">
+                    <span className="font-medium">Less: VAT Payable</span>
+                    <span className="font-medium text-red-600">({formatCurrency(profitLossData.taxes.vatPayable)})</span>
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between py-2">
                   <span className="font-medium">Less: Total Expenses</span>
                   <span className="font-medium text-red-600">({formatCurrency(profitLossData.expenses.total)})</span>
@@ -584,6 +668,8 @@ export default function ProfitLossPage() {
             </CardContent>
           </Card>
 
+          {profitLossData.branches.length > 1 && <BranchComparison branches={profitLossData.branches} />}
+
           {/* Pending Collections Summary */}
           <Card>
             <CardHeader>
@@ -4,68 +4,30 @@
  * Records Page - Income and expense records management with tables
  */
 
-import { useState, useEffect, useCallback } from "react"
+import { useState, useEffect } from "react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Badge } from "@/components/ui/badge"
 import { OfflineAPI } from "@/lib/offline/offline-api"
 import { Receipt, CreditCard, WifiOff, RefreshCw } from "lucide-react"
 import { useOffline } from "@/hooks/use-offline"
-import { toast } from "sonner"
-import type { IncomeRecord, ExpenseRecord } from "@/types"
+import { useRecordPages } from "@/hooks/use-record-pages"
+import type { IncomeRecordFilters, ExpenseRecordFilters } from "@/lib/record-filters"
 import { IncomeRecordsTable } from "@/components/records/table/income-record-table"
 import { ExpenseRecordsTable } from "@/components/records/table/expense-record-table"
 import Loading from "./loading"
 
+const loadIncomePage = (filters: IncomeRecordFilters, cursor?: string | null) =>
+  OfflineAPI.getIncomeRecordsPage(filters, cursor)
+const loadExpensePage = (filters: ExpenseRecordFilters, cursor?: string | null) =>
+  OfflineAPI.getExpenseRecordsPage(filters, cursor)
+
 export default function RecordsPage() {
-  const [incomeRecords, setIncomeRecords] = useState<IncomeRecord[]>([])
-  const [expenseRecords, setExpenseRecords] = useState<ExpenseRecord[]>([])
-  const [isLoading, setIsLoading] = useState(false)
   const [activeTab, setActiveTab] = useState("income")
+  const income = useRecordPages(loadIncomePage, {})
+  const expenses = useRecordPages(loadExpensePage, {})
 
   const { isOnline, isSyncing, pendingOperations } = useOffline()
 
-  const fetchRecords = useCallback(async () => {
-    setIsLoading(true)
-    try {
-      const [incomeData, expenseData] = await Promise.all([
-        OfflineAPI.getIncomeRecords(),
-        OfflineAPI.getExpenseRecords(),
-      ])
-      setIncomeRecords(incomeData || [])
-      setExpenseRecords(expenseData || [])
-    } catch (error) {
-      toast.error("Failed to fetch records")
-      console.error("Error fetching records:", error)
-    } finally {
-      setIsLoading(false)
-    }
-  }, [])
-
-  useEffect(() => {
-    fetchRecords()
-  }, [fetchRecords])
-
-  const handleFormSuccess = useCallback(async () => {
-    await fetchRecords()
-  }, [fetchRecords])
-
-  const handleFetchAll = useCallback(async () => {
-    setIsLoading(true)
-    try {
-      const [incomeData, expenseData] = await Promise.all([
-        OfflineAPI.fetchAllIncomeRecords(),
-        OfflineAPI.fetchAllExpenseRecords(),
-      ])
-      setIncomeRecords(incomeData || [])
-      setExpenseRecords(expenseData || [])
-    } catch (error) {
-      toast.error("Failed to fetch all records")
-      console.error("Error fetching all records:", error)
-    } finally {
-      setIsLoading(false)
-    }
-  }, [])
-
   const [hydrated, setHydrated] = useState(false)
 useEffect(() => setHydrated(true), [])
 
@@ -116,23 +78,33 @@ if (!hydrated) {
 
           <TabsContent value="income" className="space-y-6">
             <IncomeRecordsTable
-              records={incomeRecords}
-              isLoading={isLoading}
-              onRefresh={fetchRecords}
-              onFetchAll={handleFetchAll}
-              onFormSuccess={handleFormSuccess}
+              records={income.records}
+              isLoading={income.isLoading}
+              onRefresh={income.refresh}
+              onFormSuccess={income.refresh}
               isOnline={isOnline}
+              filters={income.filters}
+              onFiltersChange={income.setFilters}
+              total={income.total}
+              hasMore={income.hasMore}
+              isLoadingMore={income.isLoadingMore}
+              onLoadMore={income.loadMore}
             />
           </TabsContent>
 
           <TabsContent value="expenses" className="space-y-6">
             <ExpenseRecordsTable
-              records={expenseRecords}
-              isLoading={isLoading}
-              onRefresh={fetchRecords}
-              onFetchAll={handleFetchAll}
-              onFormSuccess={handleFormSuccess}
+              records={expenses.records}
+              isLoading={expenses.isLoading}
+              onRefresh={expenses.refresh}
+              onFormSuccess={expenses.refresh}
               isOnline={isOnline}
+              filters={expenses.filters}
+              onFiltersChange={expenses.setFilters}
+              total={expenses.total}
+              hasMore={expenses.hasMore}
+              isLoadingMore={expenses.isLoadingMore}
+              onLoadMore={expenses.loadMore}
             />
           </TabsContent>
         </Tabs>
@@ -14,7 +14,10 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { DateRangeSelector, DateRangeFilter, getDateRangeLabel } from "@/components/date-range-selector"
 import { formatCurrency, exportToCSV, getDateRange } from "@/lib/utils"
-import { Download, Filter, Receipt, CreditCard, Banknote, Smartphone, Calendar, AlertTriangle } from "lucide-react"
+import { summarizeTaxes } from "@/lib/tax"
+import { fetchAllRecords } from "@/lib/record-filters"
+import { API_PATHS } from "@/lib/constants"
+import { Download, Filter, Receipt, CreditCard, Banknote, Smartphone, Calendar, AlertTriangle, Percent } from "lucide-react"
 import type { IncomeRecord, ExpenseRecord } from "@/types"
 import { toast } from "sonner"
 
@@ -40,16 +43,14 @@ export default function ReportsPage() {
 
   const fetchRecords = async () => {
     try {
-      const [incomeResponse, expenseResponse] = await Promise.all([
-        fetch("/api/income-records?limit=100000&forReport=true"),
-        fetch("/api/expense-records?limit=100000&forReport=true"),
+      const params = new URLSearchParams({ forReport: "true" })
+      const [incomeData, expenseData] = await Promise.all([
+        fetchAllRecords<IncomeRecord>(API_PATHS.INCOME_RECORDS, params),
+        fetchAllRecords<ExpenseRecord>(API_PATHS.EXPENSE_RECORDS, params),
       ])
 
-      const incomeData = await incomeResponse.json()
-      const expenseData = await expenseResponse.json()
-
-      setIncomeRecords(incomeData.records || [])
-      setExpenseRecords(expenseData.records || [])
+      setIncomeRecords(incomeData)
+      setExpenseRecords(expenseData)
     } catch (error) {
       toast.error("Failed to fetch records")
       console.error("Error fetching records:", error)
@@ -113,6 +114,7 @@ export default function ReportsPage() {
 
       return {
         Date: new Date(record.date).toLocaleDateString(),
+        "Invoice #": record.invoiceNumber || "",
         "Customer/Table": record.customerName || `Table ${record.tableNumber}` || "Walk-in",
         "Payment Status": record.paymentStatus,
         "Payment Method": record.paymentMethod,
@@ -131,6 +133,9 @@ export default function ReportsPage() {
         Subtotal: record.subtotal || 0,
         Discount: record.discount || 0,
         Tip: record.tip || 0,
+        "Service Charge": record.taxes?.find((tax) => tax.type === "service_charge")?.amount || 0,
+        VAT: record.taxes?.find((tax) => tax.type === "vat")?.amount || 0,
+        "Tax Inclusive": record.taxInclusive ? "Yes" : "No",
         "Total Amount": record.totalAmount,
         "Paid Amount": paidAmount,
         "Pending Amount": pendingAmount,
@@ -210,6 +215,9 @@ export default function ReportsPage() {
 
     const averageOrderValue = filteredIncomeRecords.length > 0 ? totalIncome / filteredIncomeRecords.length : 0
 
+    // Taxes on completed orders, for filing
+    const taxSummary = summarizeTaxes(filteredIncomeRecords.filter((record) => record.paymentStatus === "completed"))
+
     return {
       totalIncome,
       actualCashReceived,
@@ -226,6 +234,7 @@ export default function ReportsPage() {
       digitalOrders,
       splitOrders,
       averageOrderValue,
+      taxSummary,
     }
   }
 
@@ -331,6 +340,34 @@ export default function ReportsPage() {
             </CardContent>
           </Card>
 
+          {/* Tax Collected */}
+          {summary.taxSummary.length > 0 && (
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium flex items-center gap-2">
+                  <Percent className="h-4 w-4" />
+                  Tax Collected
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-1">
+                  {summary.taxSummary.map((tax) => (
+                    <div key={tax.type} className="flex justify-between text-sm">
+                      <span>{tax.name}:</span>
+                      <span className="font-medium">{formatCurrency(tax.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="text-xs text-muted-foreground mt-1">
+                  Taxable:{" "}
+                  {summary.taxSummary
+                    .map((tax) => `${formatCurrency(tax.taxableAmount)} (${tax.name})`)
+                    .join(" • ")}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Net Profit (Based on Actual Received) */}
           <Card>
             <CardHeader className="pb-2">
@@ -26,10 +26,11 @@ import {
   Download,
   RefreshCw,
   Trophy,
-  Target,
   Clock,
   ArrowUpRight,
   Minus,
+  Building2,
+  SlidersHorizontal,
 } from "lucide-react"
 import { getSalesAnalytics, getItemSalesHistory, getItemPriceHistory } from "@/app/actions/sales-analytics"
 import {
@@ -49,6 +50,7 @@ import { useTheme } from "next-themes"
 interface SalesData {
   bestSellingItems: Array<{
     _id: string
+    menuItemId: string | null
     itemName: string
     category: string
     totalQuantitySold: number
@@ -57,6 +59,11 @@ interface SalesData {
     orderCount: number
     lastSold: string
     allPrices: number[]
+    variants: Array<{
+      name: string
+      quantity: number
+      revenue: number
+    }>
   }>
   categorySales: Array<{
     category: string
@@ -71,6 +78,18 @@ interface SalesData {
     totalItems: number
     uniqueItemTypes: number
   }>
+  modifierSales: Array<{
+    group: string
+    name: string
+    quantity: number
+    revenue: number
+  }>
+  branchSales: Array<{
+    branchId: string | null
+    name: string
+    totalOrders: number
+    totalRevenue: number
+  }>
   overallStats: {
     totalOrders: number
     totalRevenue: number
@@ -83,19 +102,6 @@ interface SalesData {
     endDate: string
     filter: string
   }
-  debug?: {
-    totalRecordsInDB: number
-    filteredRecords: number
-    processedOrders: number
-    filteringDetails?: {
-      recordsInDateRange: number
-      recordsWithValidPayment: number
-      recordsWithItems: number
-      recordsWithItemsAndNames: number
-      paymentStatusBreakdown: { [key: string]: number }
-      dateRangeInDB: { oldest: string | null; newest: string | null }
-    }
-  }
 }
 
 const COLORS = ["#3b82f6", "#10b981", "#f59e0b", "#ef4444", "#8b5cf6", "#06b6d4"]
@@ -120,49 +126,7 @@ export default function SalesAnalytics() {
 
       if (result.success) {
         if (!result.data) return setSalesData(null)
-        const data = {
-          ...result.data,
-          dateRange: {
-            ...result.data.dateRange,
-            startDate:
-              typeof result.data.dateRange.startDate === "string"
-                ? result.data.dateRange.startDate
-                : result.data.dateRange.startDate.toISOString(),
-            endDate:
-              typeof result.data.dateRange.endDate === "string"
-                ? result.data.dateRange.endDate
-                : result.data.dateRange.endDate.toISOString(),
-          },
-          debug: result.data.debug
-            ? {
-                ...result.data.debug,
-                filteringDetails: result.data.debug.filteringDetails
-                  ? {
-                      ...result.data.debug.filteringDetails,
-                      recordsInDateRange:
-                        typeof result.data.debug.filteringDetails.recordsInDateRange === "number"
-                          ? result.data.debug.filteringDetails.recordsInDateRange
-                          : 0,
-                      recordsWithValidPayment:
-                        typeof result.data.debug.filteringDetails.recordsWithValidPayment === "number"
-                          ? result.data.debug.filteringDetails.recordsWithValidPayment
-                          : 0,
-                      recordsWithItems:
-                        typeof result.data.debug.filteringDetails.recordsWithItems === "number"
-                          ? result.data.debug.filteringDetails.recordsWithItems
-                          : 0,
-                      recordsWithItemsAndNames:
-                        typeof result.data.debug.filteringDetails.recordsWithItemsAndNames === "number"
-                          ? result.data.debug.filteringDetails.recordsWithItemsAndNames
-                          : 0,
-                      paymentStatusBreakdown: result.data.debug.filteringDetails.paymentStatusBreakdown || {},
-                      dateRangeInDB: result.data.debug.filteringDetails.dateRangeInDB || { oldest: null, newest: null },
-                    }
-                  : undefined,
-              }
-            : undefined,
-        }
-        setSalesData(data as SalesData)
+        setSalesData(result.data)
       } else {
         console.error("Failed to fetch sales data:", result.error)
         setSalesData(null)
@@ -175,12 +139,12 @@ export default function SalesAnalytics() {
     }
   }
 
-  const fetchItemHistory = async (itemName: string) => {
+  const fetchItemHistory = async (itemKey: { menuItemId: string | null; name: string }) => {
     setHistoryLoading(true)
     try {
       const [historyResult, priceResult] = await Promise.all([
-        getItemSalesHistory(itemName),
-        getItemPriceHistory(itemName),
+        getItemSalesHistory(itemKey),
+        getItemPriceHistory(itemKey),
       ])
 
 
@@ -222,10 +186,10 @@ export default function SalesAnalytics() {
     setDateFilter(value)
   }
 
-  const handleViewItemHistory = (itemName: string) => {
-    setSelectedItem(itemName)
+  const handleViewItemHistory = (item: SalesData["bestSellingItems"][number]) => {
+    setSelectedItem(item.itemName)
     setHistoryDialogOpen(true)
-    fetchItemHistory(itemName)
+    fetchItemHistory({ menuItemId: item.menuItemId, name: item.itemName })
   }
 
   const handleCloseHistory = () => {
@@ -367,22 +331,6 @@ export default function SalesAnalytics() {
             <div>
               <h1 className="text-4xl font-bold text-foreground mb-2">Sales Analytics</h1>
               <p className="text-lg text-muted-foreground">Comprehensive insights into your business performance</p>
-              {salesData.debug && (
-                <div className="flex items-center gap-4 mt-3 text-sm text-muted-foreground">
-                  <Badge variant="outline">
-                    <BarChart3 className="h-3 w-3 mr-1" />
-                    {salesData.debug.totalRecordsInDB} Total Records
-                  </Badge>
-                  <Badge variant="outline">
-                    <Filter className="h-3 w-3 mr-1" />
-                    {salesData.debug.filteredRecords} Filtered
-                  </Badge>
-                  <Badge variant="outline">
-                    <Target className="h-3 w-3 mr-1" />
-                    {salesData.debug.processedOrders} Processed
-                  </Badge>
-                </div>
-              )}
             </div>
             <div className="flex flex-col sm:flex-row gap-3 items-stretch">
               <DateRangeSelector
@@ -405,7 +353,7 @@ export default function SalesAnalytics() {
         </div>
 
         {/* Data Quality Warning */}
-        {salesData.debug && salesData.debug.filteredRecords === 0 && (
+        {salesData.overallStats.totalOrders === 0 && (
           <Card className="mb-8 border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950">
             <CardContent className="pt-6">
               <div className="flex items-start gap-3">
@@ -565,6 +513,39 @@ export default function SalesAnalytics() {
           </Card>
         </div>
 
+        {/* Branch Comparison - only in the consolidated view of several branches */}
+        {salesData.branchSales.length > 1 && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Building2 className="h-5 w-5" />
+                Revenue by Branch
+              </CardTitle>
+              <CardDescription>How each branch contributes to sales in this period</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {salesData.branchSales.map((branch) => {
+                const share = salesData.overallStats.totalRevenue > 0
+                  ? (branch.totalRevenue / salesData.overallStats.totalRevenue) * 100
+                  : 0
+                return (
+                  <div key={branch.branchId ?? "unassigned"} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium">{branch.name}</span>
+                      <span className="text-muted-foreground">
+                        {branch.totalOrders} orders · {formatCurrency(branch.totalRevenue)} ({share.toFixed(1)}%)
+                      </span>
+                    </div>
+                    <div className="h-2 rounded-full bg-muted">
+                      <div className="h-2 rounded-full bg-primary" style={{ width: `${share}%` }} />
+                    </div>
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Main Content Tabs */}
         <Tabs defaultValue="best-sellers" className="space-y-6">
           <TabsList>
@@ -661,6 +642,15 @@ export default function SalesAnalytics() {
                                   {formatCurrency(priceVariation.max)}
                                 </Badge>
                               )}
+                              {item.variants.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-2">
+                                  {item.variants.map((variant) => (
+                                    <Badge key={variant.name} variant="outline" className="text-xs">
+                                      {variant.name} × {variant.quantity}
+                                    </Badge>
+                                  ))}
+                                </div>
+                              )}
                             </div>
                           </div>
                           <div className="text-right">
@@ -678,7 +668,7 @@ export default function SalesAnalytics() {
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => handleViewItemHistory(item.itemName)}
+                            onClick={() => handleViewItemHistory(item)}
                             className="ml-4"
                           >
                             <Eye className="h-4 w-4 mr-2" />
@@ -753,6 +743,39 @@ export default function SalesAnalytics() {
                 </div>
               </CardContent>
             </Card>
+
+            {salesData.modifierSales.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <SlidersHorizontal className="h-5 w-5 mr-2 text-primary" />
+                    Modifiers & Add-ons
+                  </CardTitle>
+                  <CardDescription>How often each modifier was chosen and the revenue it added</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {salesData.modifierSales.map((modifier) => (
+                      <div
+                        key={`${modifier.group}:${modifier.name}`}
+                        className="flex items-center justify-between p-3 border rounded-lg"
+                      >
+                        <div>
+                          <div className="font-medium">{modifier.name}</div>
+                          <div className="text-sm text-muted-foreground">{modifier.group}</div>
+                        </div>
+                        <div className="text-right">
+                          <div className="font-semibold">{modifier.quantity} chosen</div>
+                          <div className="text-sm text-green-600 dark:text-green-400">
+                            {formatCurrency(modifier.revenue)}
+                          </div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           <TabsContent value="trends" className="space-y-6">
@@ -0,0 +1,418 @@
+"use client"
+
+/**
+ * Settings Page - Organization-wide settings such as tax rules, invoice numbering, time zone and branches (Admin only)
+ */
+
+import type React from "react"
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "sonner"
+import { Settings, Percent, RefreshCw, Hash, Clock } from "lucide-react"
+import { updateTaxSettings } from "@/app/actions/tax-settings"
+import { updateInvoiceSettings } from "@/app/actions/invoice-settings"
+import { updateTimeZone } from "@/app/actions/time-zone"
+import { OfflineAPI } from "@/lib/offline/offline-api"
+import { API_PATHS, DEFAULT_TIME_ZONE } from "@/lib/constants"
+import { calculateOrderTax, DEFAULT_TAX_SETTINGS } from "@/lib/tax"
+import {
+  DEFAULT_INVOICE_SETTINGS,
+  formatInvoiceNumber,
+  invoiceSeries,
+  type InvoiceResetPeriod,
+  type InvoiceSettings,
+} from "@/lib/invoice"
+import { formatCurrency } from "@/lib/utils"
+import { BranchSettings } from "@/components/settings/branch-settings"
+
+const MONTHS = Array.from({ length: 12 }, (_, index) =>
+  new Date(2000, index, 1).toLocaleString("en-US", { month: "long" }),
+)
+
+const TIME_ZONES = Intl.supportedValuesOf("timeZone")
+
+export default function SettingsPage() {
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [isSavingInvoice, setIsSavingInvoice] = useState(false)
+  const [invoiceSettings, setInvoiceSettings] = useState<InvoiceSettings>(DEFAULT_INVOICE_SETTINGS)
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE)
+  const [isSavingTimeZone, setIsSavingTimeZone] = useState(false)
+  const [taxId, setTaxId] = useState("")
+  const [categories, setCategories] = useState<string[]>([])
+
+  // Form state
+  const [formData, setFormData] = useState({
+    vatRate: "",
+    serviceChargeRate: "",
+    pricesIncludeTax: DEFAULT_TAX_SETTINGS.pricesIncludeTax,
+    exemptCategories: DEFAULT_TAX_SETTINGS.exemptCategories,
+  })
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const [response, invoiceResponse, organizationResponse, menuItems] = await Promise.all([
+          fetch(API_PATHS.TAX_SETTINGS),
+          fetch(API_PATHS.INVOICE_SETTINGS),
+          fetch(API_PATHS.CURRENT_ORGANIZATION),
+          OfflineAPI.getMenuItems(),
+        ])
+        const [data, invoiceData, organizationData] = await Promise.all([
+          response.json(),
+          invoiceResponse.json(),
+          organizationResponse.json(),
+        ])
+        if (!response.ok || !invoiceResponse.ok || !organizationResponse.ok) {
+          throw new Error(data.error || invoiceData.error || organizationData.error || "Failed to fetch settings")
+        }
+
+        setTaxId(data.taxId)
+        setFormData({
+          vatRate: data.taxSettings.vatRate.toString(),
+          serviceChargeRate: data.taxSettings.serviceChargeRate.toString(),
+          pricesIncludeTax: data.taxSettings.pricesIncludeTax,
+          exemptCategories: data.taxSettings.exemptCategories,
+        })
+        setInvoiceSettings(invoiceData.invoiceSettings)
+        setTimeZone(organizationData.organization.timeZone)
+        setCategories(
+          Array.from(new Set<string>(menuItems.map((item) => item.category).filter(Boolean))).sort(),
+        )
+      } catch (error) {
+        console.error("Error fetching settings:", error)
+        toast.error("Failed to fetch settings")
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    fetchSettings()
+  }, [])
+
+  const taxSettings = {
+    vatRate: Number.parseFloat(formData.vatRate) || 0,
+    serviceChargeRate: Number.parseFloat(formData.serviceChargeRate) || 0,
+    pricesIncludeTax: formData.pricesIncludeTax,
+    exemptCategories: formData.exemptCategories,
+  }
+
+  // Worked example so admins can check the rules before saving
+  const example = calculateOrderTax([{ quantity: 1, price: 1000 }], 0, 0, taxSettings)
+
+  const toggleCategory = (category: string, checked: boolean) => {
+    setFormData((current) => ({
+      ...current,
+      exemptCategories: checked
+        ? [...current.exemptCategories, category]
+        : current.exemptCategories.filter((existing) => existing !== category),
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setIsSaving(true)
+      await updateTaxSettings(taxSettings)
+      toast.success("Tax settings saved")
+    } catch (error) {
+      console.error("Error saving tax settings:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save tax settings")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleInvoiceSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setIsSavingInvoice(true)
+      const result = await updateInvoiceSettings(invoiceSettings)
+      setInvoiceSettings(result.invoiceSettings)
+      toast.success("Invoice settings saved")
+    } catch (error) {
+      console.error("Error saving invoice settings:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save invoice settings")
+    } finally {
+      setIsSavingInvoice(false)
+    }
+  }
+
+  const handleTimeZoneSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setIsSavingTimeZone(true)
+      const result = await updateTimeZone({ timeZone })
+      setTimeZone(result.timeZone)
+      toast.success("Time zone saved")
+    } catch (error) {
+      console.error("Error saving time zone:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save time zone")
+    } finally {
+      setIsSavingTimeZone(false)
+    }
+  }
+
+  const timeZones = TIME_ZONES.includes(timeZone) ? TIME_ZONES : [timeZone, ...TIME_ZONES]
+  const localTime = new Date().toLocaleString("en-US", { timeZone, weekday: "long", hour: "2-digit", minute: "2-digit" })
+
+  const previewSettings = { ...invoiceSettings, prefix: invoiceSettings.prefix.trim().toUpperCase() }
+  const invoicePreview = formatInvoiceNumber(previewSettings, invoiceSeries(new Date(), previewSettings, timeZone), 1)
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center py-12">
+        <RefreshCw className="h-8 w-8 animate-spin mr-3" />
+        <span className="text-lg">Loading...</span>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <main className="max-w-3xl mx-auto py-6 px-4 sm:px-6 lg:px-8">
+        <div className="mb-6">
+          <div className="flex items-center gap-2 mb-2">
+            <Settings className="h-8 w-8 text-primary" />
+            <h1 className="text-3xl font-bold">Settings</h1>
+          </div>
+          <p className="text-muted-foreground">Organization-wide rules applied to every order.</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Percent className="h-5 w-5" />
+              Tax
+            </CardTitle>
+            <CardDescription>
+              {taxId ? `Tax ID: ${taxId}. ` : ""}New orders are taxed with these rules; existing orders keep the rates
+              they were charged at.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="vatRate">VAT (%)</Label>
+                  <Input
+                    id="vatRate"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={formData.vatRate}
+                    onChange={(e) => setFormData({ ...formData, vatRate: e.target.value })}
+                    placeholder="0"
+                    className="mt-2"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="serviceChargeRate">Service Charge (%)</Label>
+                  <Input
+                    id="serviceChargeRate"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    max="100"
+                    value={formData.serviceChargeRate}
+                    onChange={(e) => setFormData({ ...formData, serviceChargeRate: e.target.value })}
+                    placeholder="0"
+                    className="mt-2"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <Label htmlFor="pricesIncludeTax">Menu prices include tax</Label>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    When on, taxes are taken out of the item prices instead of being added to the bill.
+                  </p>
+                </div>
+                <Switch
+                  id="pricesIncludeTax"
+                  checked={formData.pricesIncludeTax}
+                  onCheckedChange={(checked) => setFormData({ ...formData, pricesIncludeTax: checked })}
+                />
+              </div>
+
+              <div>
+                <Label>VAT-exempt categories</Label>
+                <p className="text-xs text-muted-foreground mt-1 mb-3">
+                  Items in these menu categories are charged service charge but no VAT.
+                </p>
+                {categories.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No menu categories yet.</p>
+                ) : (
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                    {categories.map((category) => (
+                      <label key={category} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={formData.exemptCategories.includes(category)}
+                          onCheckedChange={(checked) => toggleCategory(category, checked === true)}
+                        />
+                        {category}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-muted p-4 rounded-lg space-y-1 text-sm">
+                <p className="font-medium mb-2">Example: one taxable item priced {formatCurrency(1000)}</p>
+                {example.taxes.map((tax) => (
+                  <div key={tax.type} className="flex justify-between">
+                    <span>
+                      {tax.name} ({tax.rate}%) on {formatCurrency(tax.taxableAmount)}
+                    </span>
+                    <span>{formatCurrency(tax.amount)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between font-medium">
+                  <span>Customer pays</span>
+                  <span>{formatCurrency(example.totalAmount)}</span>
+                </div>
+              </div>
+
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? "Saving..." : "Save Tax Settings"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Hash className="h-5 w-5" />
+              Invoice Numbering
+            </CardTitle>
+            <CardDescription>
+              Orders get the next number in the series when they are completed. Offline orders are numbered when they
+              sync.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleInvoiceSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="invoicePrefix">Prefix</Label>
+                  <Input
+                    id="invoicePrefix"
+                    maxLength={10}
+                    value={invoiceSettings.prefix}
+                    onChange={(e) => setInvoiceSettings({ ...invoiceSettings, prefix: e.target.value })}
+                    placeholder="INV"
+                    className="mt-2"
+                  />
+                </div>
+                <div>
+                  <Label>Restart numbering</Label>
+                  <Select
+                    value={invoiceSettings.resetPeriod}
+                    onValueChange={(value) =>
+                      setInvoiceSettings({ ...invoiceSettings, resetPeriod: value as InvoiceResetPeriod })
+                    }
+                  >
+                    <SelectTrigger className="mt-2">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="never">Never</SelectItem>
+                      <SelectItem value="yearly">Every calendar year</SelectItem>
+                      <SelectItem value="fiscal">Every fiscal year</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {invoiceSettings.resetPeriod === "fiscal" && (
+                  <div>
+                    <Label>Fiscal year starts</Label>
+                    <Select
+                      value={String(invoiceSettings.fiscalYearStartMonth)}
+                      onValueChange={(value) =>
+                        setInvoiceSettings({ ...invoiceSettings, fiscalYearStartMonth: Number(value) })
+                      }
+                    >
+                      <SelectTrigger className="mt-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {MONTHS.map((month, index) => (
+                          <SelectItem key={month} value={String(index + 1)}>
+                            {month}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-muted p-4 rounded-lg text-sm flex justify-between">
+                <span>First invoice of the current series</span>
+                <span className="font-mono font-medium">{invoicePreview}</span>
+              </div>
+
+              <Button type="submit" disabled={isSavingInvoice}>
+                {isSavingInvoice ? "Saving..." : "Save Invoice Settings"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="mt-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Time Zone
+            </CardTitle>
+            <CardDescription>
+              Menu schedules and happy hours run on this clock, on the server and on every till, whatever time zone
+              the device is set to.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleTimeZoneSubmit} className="space-y-6">
+              <div>
+                <Label>Time zone</Label>
+                <Select value={timeZone} onValueChange={setTimeZone}>
+                  <SelectTrigger className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-72">
+                    {timeZones.map((zone) => (
+                      <SelectItem key={zone} value={zone}>
+                        {zone.replace(/_/g, " ")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="bg-muted p-4 rounded-lg text-sm flex justify-between">
+                <span>Time there now</span>
+                <span className="font-medium">{localTime}</span>
+              </div>
+
+              <Button type="submit" disabled={isSavingTimeZone}>
+                {isSavingTimeZone ? "Saving..." : "Save Time Zone"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <BranchSettings />
+      </main>
+    </div>
+  )
+}
@@ -1,10 +1,11 @@
 /**
- * Users Page - User management with role-based access control
+ * Users Page - User management and the organization's role permissions
  */
 "use client"
 
 import { useState, useEffect } from "react"
 import { UserForm } from "@/components/users/user-form"
+import { RolePermissionsEditor } from "@/components/users/role-permissions-editor"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
@@ -12,7 +13,9 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge"
 import { deleteUser } from "@/app/actions/users"
 import { Edit, Trash2, Plus, Search, Users } from "lucide-react"
-import type { User } from "@/types"
+import type { Branch, User } from "@/types"
+import type { RoleDefinition } from "@/lib/permissions"
+import { API_PATHS } from "@/lib/constants"
 import { toast } from "sonner"
 import { getSession } from "next-auth/react"
 
@@ -24,6 +27,8 @@ export default function UsersPage() {
   const [showForm, setShowForm] = useState(false)
   const [isLoading, setIsLoading] = useState(true)
   const [organizations, setOrganizations] = useState<{ _id: string; name: string }[]>([])
+  const [roles, setRoles] = useState<RoleDefinition[]>([])
+  const [branches, setBranches] = useState<Branch[]>([])
   const [session, setSession] = useState<any>(null)
   const superAdmin = session?.user?.superAdmin
 
@@ -49,6 +54,8 @@ export default function UsersPage() {
 
   useEffect(() => {
     fetchUsers()
+    fetchRoles()
+    fetchBranches()
   }, [])
 
   useEffect(() => {
@@ -73,6 +80,28 @@ export default function UsersPage() {
     }
   }
 
+  const fetchRoles = async () => {
+    try {
+      const response = await fetch(API_PATHS.ROLES)
+      const data = await response.json()
+      setRoles(data.roles || [])
+    } catch (error) {
+      console.error("Error fetching roles:", error)
+    }
+  }
+
+  const fetchBranches = async () => {
+    try {
+      const response = await fetch(`${API_PATHS.BRANCHES}?all=true`)
+      const data = await response.json()
+      setBranches(data.branches || [])
+    } catch (error) {
+      console.error("Error fetching branches:", error)
+    }
+  }
+
+  const roleName = (key: string) => roles.find((role) => role.key === key)?.name || key
+
   const handleDelete = async (id: string) => {
     if (!confirm("Are you sure you want to delete this user?")) return
 
@@ -141,7 +170,7 @@ export default function UsersPage() {
                           <TableCell className="font-medium">{user.name}</TableCell>
                           <TableCell>{user.email}</TableCell>
                           <TableCell>
-                            <Badge variant={user.role === "admin" ? "default" : "secondary"}>{user.role}</Badge>
+                            <Badge variant={user.role === "admin" ? "default" : "secondary"}>{roleName(user.role)}</Badge>
                           </TableCell>
                           <TableCell>{new Date(user.createdAt).toLocaleDateString()}</TableCell>
                           <TableCell>
@@ -171,9 +200,13 @@ export default function UsersPage() {
           </div>
 
           <div className="lg:col-span-1">
-            {showForm && <UserForm key={editingUser?._id || "new"} superAdmin={superAdmin} organizations={organizations} user={editingUser || undefined} onSuccess={handleFormSuccess} />}
+            {showForm && <UserForm key={editingUser?._id || "new"} superAdmin={superAdmin} organizations={organizations} roles={roles} branches={branches} user={editingUser || undefined} onSuccess={handleFormSuccess} />}
           </div>
         </div>
+
+        <div className="mt-6">
+          <RolePermissionsEditor roles={roles} onRolesChange={setRoles} />
+        </div>
       </main>
     </div>
   )
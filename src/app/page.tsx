@@ -1,15 +1,18 @@
 /**
- * Home Page - Root page that redirects authenticated users to dashboard or signin
+ * Home Page - Root page that redirects authenticated users to the first page they can use, or to signin
  */
 import { redirect } from "next/navigation"
 import { getServerSession } from "next-auth"
 import { authOptions } from "@/lib/auth"
+import { landingPage } from "@/lib/permissions"
 
 export default async function HomePage() {
   const session = await getServerSession(authOptions)
 
-  if (session) {
-    redirect("/dashboard/records")
+  const home = session ? landingPage(session.user.permissions) : null
+
+  if (home) {
+    redirect(home)
   } else {
     redirect("/auth/signin")
   }
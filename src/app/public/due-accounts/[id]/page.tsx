@@ -12,6 +12,7 @@ import { formatCurrency } from "@/lib/utils"
 import { Calendar, Receipt, RefreshCw, AlertCircle, Printer } from "lucide-react"
 import type { DueAccountSummary } from "@/types"
 import { Button } from "@/components/ui/button"
+import { DueStatementTimeline } from "@/components/due-accounts/due-statement-timeline"
 
 // Print styles - Professional Invoice Layout
 const printStyles = `
@@ -392,6 +393,31 @@ function PrintInvoice({ account }: { account: DueAccountSummary }) {
         </div>
       )}
 
+      {/* Payments Table */}
+      {account.payments && account.payments.length > 0 && (
+        <div className="invoice-section">
+          <div className="section-title">Payments Received ({account.payments.length})</div>
+          <table className="orders-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Method</th>
+                <th style={{ textAlign: 'right' }}>Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              {account.payments.map((payment) => (
+                <tr key={payment._id}>
+                  <td>{new Date(payment.date).toLocaleDateString()}</td>
+                  <td style={{ textTransform: 'capitalize' }}>{payment.paymentMethod}</td>
+                  <td style={{ textAlign: 'right', fontWeight: 'bold' }}>{formatCurrency(payment.amount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       {/* Total Summary */}
       <div className="total-summary">
         <div className="summary-row">
@@ -532,6 +558,11 @@ export default function PublicDueAccountPage({ params }: PublicDueAccountPagePro
           <h1 className="text-3xl font-bold mb-2">{account.organization}</h1>
           <h2 className="text-2xl font-bold mb-2">Due Account Statement</h2>
           <p className="text-muted-foreground">Customer: {account.customerName}</p>
+          {account.lastPaymentDate && (
+            <p className="text-sm text-muted-foreground">
+              Last payment received: {new Date(account.lastPaymentDate).toLocaleDateString()}
+            </p>
+          )}
           <p className="text-sm text-muted-foreground">Last updated: {new Date().toLocaleString()}</p>
         </div>
 
@@ -630,6 +661,16 @@ export default function PublicDueAccountPage({ params }: PublicDueAccountPagePro
           </CardContent>
         </Card>
 
+        {/* Payment History */}
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle>Payment History</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DueStatementTimeline payments={account.payments || []} />
+          </CardContent>
+        </Card>
+
         {/* Footer */}
         <div className="text-center mt-8 text-sm text-muted-foreground">
           <p>This is an automated statement. Please contact the restaurant for any queries.</p>
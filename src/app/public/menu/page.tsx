@@ -9,6 +9,7 @@ import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { Button } from "@/components/ui/button"
 import { Loader2, MapPin, Clock, Wifi, Coffee } from "lucide-react"
+import { rulePrice } from "@/lib/menu-rules"
 
 interface MenuItem {
   _id: string
@@ -18,6 +19,8 @@ interface MenuItem {
   category: string
   isAvailable: boolean
   image?: string
+  // Happy hour running when the menu was loaded
+  activePriceRule?: { name: string; discountPercent: number }
 }
 
 export default function Menu() {
@@ -140,6 +143,7 @@ export default function Menu() {
                 .map((item) => {
                   const shouldShowPlaceholder = imageErrors.has(item._id) || !item.image
                   const placeholderConfig = getPlaceholderConfig(item.category)
+                  const price = rulePrice(item.price, item.activePriceRule)
 
                   return (
                     <Card
@@ -166,7 +170,7 @@ export default function Menu() {
                           )}
                           <div className="absolute top-1 right-1 sm:top-2 sm:right-2 md:top-4 md:right-4">
                             <Badge className="bg-amber-600 text-white text-xs sm:text-sm">
-                              ₹{item.price.toFixed(2)}
+                              ₹{price.toFixed(2)}
                             </Badge>
                           </div>
                         </div>
@@ -180,9 +184,19 @@ export default function Menu() {
                             </p>
                           )}
                           <div className="text-center">
+                            {item.activePriceRule && (
+                              <span className="text-xs sm:text-sm text-amber-600 line-through mr-2">
+                                ₹{item.price.toFixed(2)}
+                              </span>
+                            )}
                             <span className="text-lg sm:text-xl md:text-2xl font-bold text-amber-800">
-                              ₹{item.price.toFixed(2)}
+                              ₹{price.toFixed(2)}
                             </span>
+                            {item.activePriceRule && (
+                              <p className="text-xs text-green-700">
+                                {item.activePriceRule.name} · {item.activePriceRule.discountPercent}% off
+                              </p>
+                            )}
                           </div>
                         </div>
                       </CardContent>
@@ -0,0 +1,129 @@
+"use client"
+
+// Z-Report Dialog - Preview, print and export the report for a cash session
+import type React from "react"
+import { useState, useEffect, useMemo } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Printer, Download, FileText } from "lucide-react"
+import { OfflineAPI } from "@/lib/offline/offline-api"
+import {
+  buildZReport,
+  downloadEscPos,
+  printReceipt,
+  renderReceiptHtml,
+  type ReceiptOrganization,
+  type ReceiptWidth,
+} from "@/lib/receipt"
+import { exportToCSV } from "@/lib/utils"
+import type { CashSession } from "@/types"
+
+interface ZReportDialogProps {
+  session: CashSession
+  trigger?: React.ReactNode
+}
+
+/** Flattens a session into one spreadsheet row */
+export function zReportRow(session: CashSession) {
+  const summary = session.summary
+  return {
+    Session: session._id,
+    Opened: new Date(session.openedAt).toLocaleString(),
+    "Opened By": session.openedBy?.name || "",
+    Closed: session.closedAt ? new Date(session.closedAt).toLocaleString() : "",
+    "Closed By": session.closedBy?.name || "",
+    "Opening Float": session.openingFloat,
+    Orders: summary?.ordersCount || 0,
+    "Cash Sales": summary?.cashSales || 0,
+    "Digital Sales": summary?.digitalSales || 0,
+    "Due Cash Collections": summary?.dueCashCollections || 0,
+    "Due Digital Collections": summary?.dueDigitalCollections || 0,
+    "Pay-ins": summary?.payIns || 0,
+    "Pay-outs": summary?.payOuts || 0,
+    "Cash Expenses": summary?.cashExpenses || 0,
+    "Expected Cash": summary?.expectedCash || 0,
+    "Counted Cash": session.countedCash ?? "",
+    Variance: session.variance ?? "",
+    Notes: session.notes || "",
+  }
+}
+
+export function ZReportDialog({ session, trigger }: ZReportDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [width, setWidth] = useState<ReceiptWidth>(80)
+  const [organization, setOrganization] = useState<ReceiptOrganization>({ name: "" })
+
+  useEffect(() => {
+    if (!open) return
+    OfflineAPI.getReceiptOrganization().then(setOrganization)
+    OfflineAPI.getReceiptPreferences().then((preferences) => setWidth(preferences.width))
+  }, [open])
+
+  const lines = useMemo(() => buildZReport(session, organization, width), [session, organization, width])
+  const filename = `z-report-${new Date(session.openedAt).toISOString().split("T")[0]}-${session._id.slice(-6)}`
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline" size="sm" title="Z-report">
+            <FileText className="h-4 w-4" />
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-md max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{session.status === "closed" ? "Z-Report" : "X-Report"}</DialogTitle>
+          <DialogDescription>
+            {session.status === "closed"
+              ? "End-of-session report with the counted cash and variance."
+              : "Takings so far; the session is still open."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="w-28">
+          <Label className="mb-2">Paper</Label>
+          <Select value={String(width)} onValueChange={(value) => setWidth(Number(value) as ReceiptWidth)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="58">58 mm</SelectItem>
+              <SelectItem value="80">80 mm</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex justify-center rounded-lg border bg-muted p-4">
+          <iframe
+            title="Z-report preview"
+            srcDoc={renderReceiptHtml(lines, width)}
+            className="bg-white shadow-sm"
+            style={{ width: `${width}mm`, height: "60vh" }}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button className="flex-1" onClick={() => printReceipt(lines, width)}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          <Button variant="outline" onClick={() => exportToCSV([zReportRow(session)], `${filename}.csv`)}>
+            <Download className="h-4 w-4 mr-2" />
+            CSV
+          </Button>
+          <Button
+            variant="outline"
+            title="Raw ESC/POS bytes for printers without a system driver"
+            onClick={() => downloadEscPos(lines, `${filename}.bin`)}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            ESC/POS
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
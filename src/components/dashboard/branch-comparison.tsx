@@ -0,0 +1,73 @@
+// Branch Comparison - Income, expenses and profit of each branch side by side in the consolidated view
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { formatCurrency } from "@/lib/utils"
+import { Building2 } from "lucide-react"
+import type { BranchSummary } from "@/types"
+
+interface BranchComparisonProps {
+  branches: BranchSummary[]
+}
+
+export function BranchComparison({ branches }: BranchComparisonProps) {
+  const totals = branches.reduce(
+    (sum, branch) => ({
+      income: sum.income + branch.income,
+      expenses: sum.expenses + branch.expenses,
+      profit: sum.profit + branch.profit,
+      orders: sum.orders + branch.orders,
+    }),
+    { income: 0, expenses: 0, profit: 0, orders: 0 },
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Branch Comparison
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Branch</TableHead>
+              <TableHead className="text-right">Orders</TableHead>
+              <TableHead className="text-right">Income</TableHead>
+              <TableHead className="text-right">Expenses</TableHead>
+              <TableHead className="text-right">Net Profit</TableHead>
+              <TableHead className="text-right">Share of Income</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {branches.map((branch) => (
+              <TableRow key={branch.branchId ?? "unassigned"}>
+                <TableCell className="font-medium">{branch.name}</TableCell>
+                <TableCell className="text-right">{branch.orders}</TableCell>
+                <TableCell className="text-right text-green-600">{formatCurrency(branch.income)}</TableCell>
+                <TableCell className="text-right text-red-600">{formatCurrency(branch.expenses)}</TableCell>
+                <TableCell className={`text-right font-medium ${branch.profit >= 0 ? "text-green-600" : "text-red-600"}`}>
+                  {formatCurrency(branch.profit)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {totals.income > 0 ? `${((branch.income / totals.income) * 100).toFixed(1)}%` : "0%"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell className="font-bold">All branches</TableCell>
+              <TableCell className="text-right font-bold">{totals.orders}</TableCell>
+              <TableCell className="text-right font-bold">{formatCurrency(totals.income)}</TableCell>
+              <TableCell className="text-right font-bold">{formatCurrency(totals.expenses)}</TableCell>
+              <TableCell className="text-right font-bold">{formatCurrency(totals.profit)}</TableCell>
+              <TableCell className="text-right font-bold">100%</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,7 +1,7 @@
 "use client"
 
 // Due Payment Form - Form for recording payments against due accounts
-import { useState } from "react"
+import { useRef, useState } from "react"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { Button } from "@/components/ui/button"
@@ -12,9 +12,10 @@ import { Label } from "@/components/ui/label"
 import { toast } from "sonner"
 import { duePaymentSchema, type DuePaymentInput } from "@/lib/validations"
 import { CreditCard, Banknote } from "lucide-react"
-import { duePaymentTransaction } from "@/app/actions/due-accounts"
+import { OfflineAPI } from "@/lib/offline/offline-api"
 import { PaymentResult } from "@/types"
 import { formatCurrency } from "@/lib/utils"
+import { generateIdempotencyKey } from "@/lib/constants"
 
 interface DuePaymentFormProps {
   accountId: string
@@ -25,6 +26,9 @@ interface DuePaymentFormProps {
 
 export function DuePaymentForm({ accountId, customerName, totalDue, onSuccess }: DuePaymentFormProps) {
   const [isLoading, setIsLoading] = useState(false)
+  // One key per payment attempt; retries of the same attempt reuse it so the server applies it once
+  const idempotencyKeyRef = useRef(generateIdempotencyKey())
+  const isSubmittingRef = useRef(false)
 
   const form = useForm<DuePaymentInput>({
     resolver: zodResolver(duePaymentSchema),
@@ -36,17 +40,30 @@ export function DuePaymentForm({ accountId, customerName, totalDue, onSuccess }:
   })
 
   const onSubmit = async (data: DuePaymentInput) => {
+    // Ignore double taps that arrive before the button is disabled
+    if (isSubmittingRef.current) return
+    isSubmittingRef.current = true
     setIsLoading(true)
 
     try {
-      const result = await duePaymentTransaction(accountId, data.paymentAmount, data.paymentMethod)
+      const result = await OfflineAPI.recordDuePayment(
+        { _id: accountId, customerName },
+        data.paymentAmount,
+        data.paymentMethod,
+        idempotencyKeyRef.current,
+      )
 
       if (result?.success) {
-        toast.success(
-          `Payment of $${result.paidAmount.toFixed(2)} processed successfully!${
-            result.remainingPayment > 0 ? ` Remaining credit: $${result.remainingPayment.toFixed(2)}` : ""
-          }`,
-        )
+        if (result.offline) {
+          toast.success(`Payment of ${formatCurrency(data.paymentAmount)} recorded offline - will sync when online`)
+        } else {
+          toast.success(
+            `Payment of $${result.paidAmount.toFixed(2)} processed successfully!${
+              result.remainingPayment > 0 ? ` Remaining credit: $${result.remainingPayment.toFixed(2)}` : ""
+            }`,
+          )
+        }
+        idempotencyKeyRef.current = generateIdempotencyKey()
         form.reset()
         onSuccess?.(result)
       }
@@ -54,6 +71,7 @@ export function DuePaymentForm({ accountId, customerName, totalDue, onSuccess }:
       console.error("Payment submission error:", error)
       toast.error(error instanceof Error ? error.message : "Payment failed. Please try again.")
     } finally {
+      isSubmittingRef.current = false
       setIsLoading(false)
     }
   }
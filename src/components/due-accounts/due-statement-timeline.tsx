@@ -0,0 +1,64 @@
+"use client"
+
+// Due Statement Timeline - Chronological list of payments received on a due account
+import { Badge } from "@/components/ui/badge"
+import { Banknote, CreditCard } from "lucide-react"
+import { formatCurrency } from "@/lib/utils"
+import type { DuePayment } from "@/types"
+
+interface DueStatementTimelineProps {
+  payments: DuePayment[]
+  showReceivedBy?: boolean
+}
+
+export function DueStatementTimeline({ payments, showReceivedBy = false }: DueStatementTimelineProps) {
+  if (payments.length === 0) {
+    return <p className="text-center text-muted-foreground py-4">No payments recorded yet</p>
+  }
+
+  return (
+    <ol className="relative border-l ml-2 space-y-4">
+      {payments.map((payment) => {
+        const receivedBy = typeof payment.receivedBy === "object" ? payment.receivedBy?.name : undefined
+        const settledInvoices = payment.allocations
+          .map((allocation) => allocation.invoiceNumber)
+          .filter((invoiceNumber): invoiceNumber is string => Boolean(invoiceNumber))
+
+        return (
+          <li key={payment._id} className="ml-4">
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{new Date(payment.date).toLocaleString()}</span>
+                  <Badge variant="secondary" className="text-xs capitalize">
+                    {payment.paymentMethod === "cash" ? (
+                      <Banknote className="h-3 w-3 mr-1" />
+                    ) : (
+                      <CreditCard className="h-3 w-3 mr-1" />
+                    )}
+                    {payment.paymentMethod}
+                  </Badge>
+                  {payment._offline && (
+                    <Badge variant="outline" className="text-xs">
+                      Pending sync
+                    </Badge>
+                  )}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  Applied to {payment.allocations.length} {payment.allocations.length === 1 ? "order" : "orders"}
+                  {payment.unallocatedAmount > 0 && ` • ${formatCurrency(payment.unallocatedAmount)} unallocated`}
+                  {showReceivedBy && receivedBy && ` • Received by ${receivedBy}`}
+                </div>
+                {settledInvoices.length > 0 && (
+                  <div className="text-xs text-muted-foreground font-mono">Settled {settledInvoices.join(", ")}</div>
+                )}
+              </div>
+              <div className="font-medium text-green-600">{formatCurrency(payment.amount)}</div>
+            </div>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
@@ -0,0 +1,159 @@
+"use client"
+
+// Component - Dialog for editing the ingredients a menu item consumes per portion
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { toast } from "sonner"
+import { Plus, Trash2 } from "lucide-react"
+import { updateMenuItemRecipe } from "@/app/actions/inventory"
+import { API_PATHS } from "@/lib/constants"
+import type { Ingredient, MenuItem } from "@/types"
+
+interface RecipeEditorDialogProps {
+  menuItem: MenuItem | null
+  onOpenChange: (open: boolean) => void
+  onSaved: (record: MenuItem) => void
+}
+
+interface RecipeRow {
+  ingredient: string
+  quantity: string
+}
+
+export function RecipeEditorDialog({ menuItem, onOpenChange, onSaved }: RecipeEditorDialogProps) {
+  const [ingredients, setIngredients] = useState<Ingredient[]>([])
+  const [rows, setRows] = useState<RecipeRow[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!menuItem) return
+
+    setRows(
+      (menuItem.recipe || []).map((line) => ({ ingredient: line.ingredient, quantity: line.quantity.toString() })),
+    )
+
+    fetch(API_PATHS.INGREDIENTS)
+      .then((response) => (response.ok ? response.json() : { ingredients: [] }))
+      .then((data) => setIngredients(data.ingredients || []))
+      .catch((error) => {
+        console.error("Error fetching ingredients:", error)
+        toast.error("Failed to fetch ingredients")
+      })
+  }, [menuItem])
+
+  const updateRow = (index: number, row: Partial<RecipeRow>) => {
+    setRows((current) => current.map((existing, i) => (i === index ? { ...existing, ...row } : existing)))
+  }
+
+  const handleSave = async () => {
+    if (!menuItem) return
+
+    const recipe = rows
+      .filter((row) => row.ingredient)
+      .map((row) => ({ ingredient: row.ingredient, quantity: Number.parseFloat(row.quantity) || 0 }))
+
+    if (recipe.some((line) => line.quantity <= 0)) {
+      toast.error("Each ingredient needs a quantity greater than 0")
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      const result = await updateMenuItemRecipe(menuItem._id, recipe)
+      toast.success("Recipe saved")
+      onSaved(result.record)
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error saving recipe:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save recipe")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const unitOf = (id: string) => ingredients.find((ingredient) => ingredient._id === id)?.unit
+
+  return (
+    <Dialog open={menuItem !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Recipe{menuItem ? ` - ${menuItem.name}` : ""}</DialogTitle>
+          <DialogDescription>
+            Ingredients used for one portion. Each sale deducts these from stock, and the item is switched off when
+            any of them runs out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {rows.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No recipe. This item doesn&apos;t affect stock.
+            </p>
+          )}
+
+          {rows.map((row, index) => (
+            <div key={index} className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label className="mb-2">Ingredient</Label>
+                <Select value={row.ingredient} onValueChange={(value) => updateRow(index, { ingredient: value })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select ingredient" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ingredients.map((ingredient) => (
+                      <SelectItem key={ingredient._id} value={ingredient._id}>
+                        {ingredient.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-32">
+                <Label className="mb-2">Quantity {unitOf(row.ingredient) && `(${unitOf(row.ingredient)})`}</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={row.quantity}
+                  onChange={(e) => updateRow(index, { quantity: e.target.value })}
+                  placeholder="0"
+                />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setRows((current) => current.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() => setRows((current) => [...current, { ingredient: "", quantity: "" }])}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Ingredient
+          </Button>
+        </div>
+
+        <div className="flex gap-2 pt-4">
+          <Button onClick={handleSave} className="flex-1" disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Recipe"}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,26 @@
+"use client"
+
+// Prep Status Badge - Kitchen progress of an order item
+import { Badge } from "@/components/ui/badge"
+import { PREP_STATUS, type PrepStatus } from "@/lib/constants"
+
+const PREP_STATUS_STYLES: Record<PrepStatus, { label: string; className: string }> = {
+  queued: { label: "Queued", className: "text-muted-foreground" },
+  preparing: { label: "Preparing", className: "text-orange-600 border-orange-200" },
+  ready: { label: "Ready", className: "text-green-600 border-green-200" },
+  served: { label: "Served", className: "text-blue-600 border-blue-200" },
+}
+
+interface PrepStatusBadgeProps {
+  status?: PrepStatus
+  className?: string
+}
+
+export function PrepStatusBadge({ status = PREP_STATUS.QUEUED, className = "" }: PrepStatusBadgeProps) {
+  const style = PREP_STATUS_STYLES[status]
+  return (
+    <Badge variant="outline" className={`text-xs ${style.className} ${className}`}>
+      {style.label}
+    </Badge>
+  )
+}
@@ -0,0 +1,58 @@
+"use client"
+
+// Branch Switcher - Picks the branch the user is working at, or the consolidated view of all of them
+import { useEffect, useState } from "react"
+import { useSession } from "next-auth/react"
+import { Building2 } from "lucide-react"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "sonner"
+import { API_PATHS } from "@/lib/constants"
+import type { Branch } from "@/types"
+
+const ALL_BRANCHES = "__all__"
+
+export function BranchSwitcher({ activeBranch }: { activeBranch: string | null | undefined }) {
+  const { update } = useSession()
+  const [branches, setBranches] = useState<Branch[]>([])
+  const [isSwitching, setIsSwitching] = useState(false)
+
+  useEffect(() => {
+    fetch(API_PATHS.BRANCHES)
+      .then((response) => (response.ok ? response.json() : { branches: [] }))
+      .then((data) => setBranches(data.branches || []))
+      .catch((error) => console.error("Error fetching branches:", error))
+  }, [])
+
+  // Organizations without branches work as a single outlet
+  if (branches.length === 0) return null
+
+  const handleChange = async (value: string) => {
+    try {
+      setIsSwitching(true)
+      await update({ branch: value === ALL_BRANCHES ? null : value })
+      // Pages load their data for the active branch, so start them over
+      window.location.reload()
+    } catch (error) {
+      console.error("Error switching branch:", error)
+      toast.error("Failed to switch branch")
+      setIsSwitching(false)
+    }
+  }
+
+  return (
+    <Select value={activeBranch || ALL_BRANCHES} onValueChange={handleChange} disabled={isSwitching}>
+      <SelectTrigger className="w-[160px] hidden sm:flex">
+        <Building2 className="h-4 w-4 mr-2 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_BRANCHES}>All branches</SelectItem>
+        {branches.map((branch) => (
+          <SelectItem key={branch._id} value={branch._id}>
+            {branch.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -6,44 +6,40 @@ import { signOut } from "next-auth/react"
 import Link from "next/link"
 import { usePathname } from "next/navigation"
 import { useState } from "react"
-import { Menu, X, BarChart3, FileText, DollarSign, LogOut, Users, RefreshCw } from "lucide-react"
+import { Menu, X, BarChart3, FileText, DollarSign, LogOut, Users, RefreshCw, Package, Settings, LayoutGrid, ChefHat, History, Wallet } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { ModeToggle } from "@/components/mode-toggle"
+import { BranchSwitcher } from "@/components/layout/branch-switcher"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { OfflineAPI } from "@/lib/offline/offline-api"
+import { PERMISSIONS, hasPermission } from "@/lib/permissions"
 
-const staffNavigation = [
-  { name: "Records", shortName: "Rec", href: "/dashboard/records", icon: DollarSign },
-  { name: "Due Accounts", shortName: "Due", href: "/dashboard/due-accounts", icon: DollarSign },
-]
-
-const baseNavigation = [
-  { name: "Dashboard", shortName: "Dash", href: "/dashboard", icon: BarChart3 },
-  { name: "Records", shortName: "Rec", href: "/dashboard/records", icon: DollarSign },
-  { name: "Reports", shortName: "Rpt", href: "/dashboard/reports", icon: FileText },
-  { name: "Menu", shortName: "Menu", href: "/dashboard/menu-management", icon: FileText },
-  { name: "Due Accounts", shortName: "Due", href: "/dashboard/due-accounts", icon: DollarSign },
-  { name: "Sales Analytics", shortName: "Sales", href: "/dashboard/sales-analytics", icon: BarChart3 },
-]
-
-const adminExtra = [
-  { name: "Users", shortName: "Users", href: "/dashboard/users", icon: Users }
+const navigationItems = [
+  { name: "Dashboard", shortName: "Dash", href: "/dashboard", icon: BarChart3, permission: PERMISSIONS.DASHBOARD_VIEW },
+  { name: "Records", shortName: "Rec", href: "/dashboard/records", icon: DollarSign, permission: PERMISSIONS.RECORDS_VIEW },
+  { name: "Floor", shortName: "Floor", href: "/dashboard/floor", icon: LayoutGrid, permission: PERMISSIONS.FLOOR_USE },
+  { name: "Kitchen", shortName: "Kit", href: "/dashboard/kitchen", icon: ChefHat, permission: PERMISSIONS.KITCHEN_USE },
+  { name: "Cash Drawer", shortName: "Till", href: "/dashboard/cash-drawer", icon: Wallet, permission: PERMISSIONS.CASH_DRAWER_USE },
+  { name: "Reports", shortName: "Rpt", href: "/dashboard/reports", icon: FileText, permission: PERMISSIONS.REPORTS_VIEW },
+  { name: "Profit & Loss", shortName: "P&L", href: "/dashboard/profit-loss", icon: FileText, permission: PERMISSIONS.PROFIT_LOSS_VIEW },
+  { name: "Menu", shortName: "Menu", href: "/dashboard/menu-management", icon: FileText, permission: PERMISSIONS.MENU_EDIT },
+  { name: "Inventory", shortName: "Stock", href: "/dashboard/inventory", icon: Package, permission: PERMISSIONS.INVENTORY_MANAGE },
+  { name: "Due Accounts", shortName: "Due", href: "/dashboard/due-accounts", icon: DollarSign, permission: PERMISSIONS.DUE_ACCOUNTS_USE },
+  { name: "Sales Analytics", shortName: "Sales", href: "/dashboard/sales-analytics", icon: BarChart3, permission: PERMISSIONS.ANALYTICS_VIEW },
+  { name: "Users", shortName: "Users", href: "/dashboard/users", icon: Users, permission: PERMISSIONS.USERS_MANAGE },
+  { name: "Settings", shortName: "Set", href: "/dashboard/settings", icon: Settings, permission: PERMISSIONS.SETTINGS_MANAGE },
+  { name: "Audit Log", shortName: "Audit", href: "/dashboard/audit-log", icon: History, permission: PERMISSIONS.AUDIT_VIEW },
 ]
 
 const superAdminExtra = [
   { name: "Organizations", shortName: "Orgs", href: "/dashboard/organization", icon: Users },
 ]
 
-const getNavigation = (role: string | undefined, superAdmin: boolean | undefined) => {
-  return role === "admin"
-    ? [...baseNavigation, ...adminExtra, ...(superAdmin ? superAdminExtra : [])]
-    : role === "manager"
-    ? baseNavigation.filter((item) => item.name !== "Menu") 
-    : role === "staff"
-    ? staffNavigation
-    : baseNavigation
-}
+const getNavigation = (permissions: readonly string[] | undefined, superAdmin: boolean | undefined) => [
+  ...navigationItems.filter((item) => hasPermission(permissions, item.permission)),
+  ...(superAdmin ? superAdminExtra : []),
+]
 
 export function Navbar({ serverSession }: { serverSession: Session | null }) {
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
@@ -52,7 +48,7 @@ export function Navbar({ serverSession }: { serverSession: Session | null }) {
   const userRole = session?.user?.role
   const organization = session?.user?.organizationName
   const superAdmin = session?.user.superAdmin
-  const navigation = getNavigation(userRole, superAdmin)
+  const navigation = getNavigation(session?.user?.permissions, superAdmin)
 
   const handleForceRefresh = async () => {
     await OfflineAPI.forceRefreshCache();
@@ -91,6 +87,7 @@ export function Navbar({ serverSession }: { serverSession: Session | null }) {
           </div>
 
           <div className="flex items-center space-x-4">
+            {session && <BranchSwitcher activeBranch={session.user.branch} />}
             <Button
               variant="outline"
               size="sm"
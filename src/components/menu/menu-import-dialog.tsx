@@ -0,0 +1,228 @@
+"use client"
+
+// Component - Dialog for exporting the menu and importing items in bulk from a CSV or JSON file, previewed first
+import { useState, useEffect, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Separator } from "@/components/ui/separator"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { toast } from "sonner"
+import { Download, Upload } from "lucide-react"
+import { importMenuItems, previewMenuImport } from "@/app/actions/menu-items"
+import { MENU_FILE_COLUMNS, parseMenuFile, toMenuFileRow, type MenuFileRow } from "@/lib/menu-import"
+import { exportToCSV, exportToJSON } from "@/lib/utils"
+import { MENU_IMPORT_ACTION, type MenuImportAction } from "@/lib/constants"
+import type { MenuImportResult, MenuItem } from "@/types"
+
+interface MenuImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  menuItems: MenuItem[]
+  onImported: () => void
+}
+
+const ACTION_LABELS: Record<MenuImportAction, { label: string; variant: "default" | "secondary" | "outline" | "destructive" }> = {
+  [MENU_IMPORT_ACTION.CREATE]: { label: "Create", variant: "default" },
+  [MENU_IMPORT_ACTION.UPDATE]: { label: "Update", variant: "secondary" },
+  [MENU_IMPORT_ACTION.UNCHANGED]: { label: "Unchanged", variant: "outline" },
+  [MENU_IMPORT_ACTION.CONFLICT]: { label: "Conflict", variant: "destructive" },
+  [MENU_IMPORT_ACTION.INVALID]: { label: "Invalid", variant: "destructive" },
+}
+
+// Rows that need attention lead the preview; unchanged ones trail it
+const ACTION_ORDER: MenuImportAction[] = [
+  MENU_IMPORT_ACTION.INVALID,
+  MENU_IMPORT_ACTION.CONFLICT,
+  MENU_IMPORT_ACTION.CREATE,
+  MENU_IMPORT_ACTION.UPDATE,
+  MENU_IMPORT_ACTION.UNCHANGED,
+]
+
+const formatValue = (value: unknown) => (value === undefined || value === "" ? "—" : String(value))
+
+export function MenuImportDialog({ open, onOpenChange, menuItems, onImported }: MenuImportDialogProps) {
+  const [rows, setRows] = useState<MenuFileRow[]>([])
+  const [fileName, setFileName] = useState("")
+  const [results, setResults] = useState<MenuImportResult[] | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setRows([])
+    setFileName("")
+    setResults(null)
+  }, [open])
+
+  const counts = useMemo(() => {
+    const byAction = new Map<MenuImportAction, number>()
+    for (const result of results || []) byAction.set(result.action, (byAction.get(result.action) || 0) + 1)
+    return byAction
+  }, [results])
+
+  const sortedResults = useMemo(
+    () => [...(results || [])].sort((a, b) => ACTION_ORDER.indexOf(a.action) - ACTION_ORDER.indexOf(b.action) || a.row - b.row),
+    [results],
+  )
+
+  const exportFileName = (extension: string) => `menu-${new Date().toISOString().split("T")[0]}.${extension}`
+
+  const handleExportCSV = () => {
+    if (menuItems.length === 0) {
+      // An empty export still gives a template with the columns to fill in
+      exportToCSV([Object.fromEntries(MENU_FILE_COLUMNS.map((column) => [column, ""]))], exportFileName("csv"))
+      return
+    }
+    exportToCSV(menuItems.map(toMenuFileRow), exportFileName("csv"))
+  }
+
+  const handleExportJSON = () => {
+    exportToJSON(menuItems.map(toMenuFileRow), exportFileName("json"))
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+
+    setFileName(file.name)
+    setResults(null)
+    try {
+      setIsWorking(true)
+      const parsedRows = parseMenuFile(file.name, await file.text())
+      const preview = await previewMenuImport(parsedRows)
+      setRows(parsedRows)
+      setResults(preview.results)
+    } catch (error) {
+      console.error("Error reading menu file:", error)
+      setRows([])
+      toast.error(error instanceof Error ? error.message : "Failed to read the file")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleImport = async () => {
+    try {
+      setIsWorking(true)
+      const result = await importMenuItems(rows)
+      toast.success(`Menu imported: ${result.created} created, ${result.updated} updated`)
+      onImported()
+
+      const skipped = result.results.some(
+        (row) => row.action === MENU_IMPORT_ACTION.CONFLICT || row.action === MENU_IMPORT_ACTION.INVALID,
+      )
+      if (!skipped) {
+        onOpenChange(false)
+        return
+      }
+      // Skipped rows stay listed to fix, against the menu as it is now
+      setResults((await previewMenuImport(rows)).results)
+    } catch (error) {
+      console.error("Error importing menu items:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to import menu items")
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const pendingChanges = (counts.get(MENU_IMPORT_ACTION.CREATE) || 0) + (counts.get(MENU_IMPORT_ACTION.UPDATE) || 0)
+  const skippedRows = (counts.get(MENU_IMPORT_ACTION.CONFLICT) || 0) + (counts.get(MENU_IMPORT_ACTION.INVALID) || 0)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import & Export Menu</DialogTitle>
+          <DialogDescription>
+            Files have the columns {MENU_FILE_COLUMNS.join(", ")}. Rows match existing items by name: matching items
+            are updated, the rest are created. Columns left out of the file keep their current values.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleExportCSV}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV
+          </Button>
+          <Button variant="outline" onClick={handleExportJSON} disabled={menuItems.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export JSON
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="menu-file" className="mb-2">
+              Import file (.csv or .json)
+            </Label>
+            <Input
+              id="menu-file"
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              disabled={isWorking}
+              onChange={(e) => {
+                handleFile(e.target.files?.[0])
+                e.target.value = ""
+              }}
+            />
+            {fileName && <p className="text-xs text-muted-foreground mt-1">{fileName}</p>}
+          </div>
+
+          {isWorking && !results && <p className="text-sm text-muted-foreground text-center py-4">Checking...</p>}
+
+          {results && (
+            <>
+              <div className="flex flex-wrap gap-2">
+                {ACTION_ORDER.filter((action) => counts.get(action)).map((action) => (
+                  <Badge key={action} variant={ACTION_LABELS[action].variant}>
+                    {counts.get(action)} {ACTION_LABELS[action].label.toLowerCase()}
+                  </Badge>
+                ))}
+              </div>
+
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {sortedResults.map((result) => (
+                  <div key={result.row} className="p-3 border rounded-lg text-sm">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium truncate">
+                        <span className="text-muted-foreground mr-2">#{result.row}</span>
+                        {result.name || "(no name)"}
+                      </span>
+                      <Badge variant={ACTION_LABELS[result.action].variant}>{ACTION_LABELS[result.action].label}</Badge>
+                    </div>
+                    {result.changes?.map((change) => (
+                      <div key={change.field} className="text-xs text-muted-foreground">
+                        {change.field}: {formatValue(change.from)} → {formatValue(change.to)}
+                      </div>
+                    ))}
+                    {result.errors?.map((error) => (
+                      <div key={error} className="text-xs text-destructive">
+                        {error}
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+
+              <Button onClick={handleImport} disabled={isWorking || pendingChanges === 0} className="w-full">
+                <Upload className="h-4 w-4 mr-2" />
+                {isWorking
+                  ? "Importing..."
+                  : pendingChanges === 0
+                    ? "Nothing to import"
+                    : `Import ${pendingChanges} item${pendingChanges === 1 ? "" : "s"}`}
+              </Button>
+              {skippedRows > 0 && (
+                <p className="text-xs text-muted-foreground text-center">
+                  Conflicting and invalid rows are skipped; fix them in the file and import it again.
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,171 @@
+"use client"
+
+// Component - Dialog for linking past order lines to menu items when their name doesn't match exactly one item
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { toast } from "sonner"
+import { Link2, RefreshCw } from "lucide-react"
+import { backfillMenuItemLinks, getUnlinkedOrderLines, linkOrderLines } from "@/app/actions/menu-links"
+import type { MenuItem, UnlinkedOrderLine } from "@/types"
+
+interface MenuLinkReviewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  menuItems: MenuItem[]
+}
+
+export function MenuLinkReviewDialog({ open, onOpenChange, menuItems }: MenuLinkReviewDialogProps) {
+  const [lines, setLines] = useState<UnlinkedOrderLine[]>([])
+  const [choices, setChoices] = useState<Record<string, string>>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [isLinking, setIsLinking] = useState(false)
+
+  const fetchLines = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const result = await getUnlinkedOrderLines()
+      setLines(result.lines)
+      // A single suggestion is picked already; the user still confirms it
+      setChoices(
+        Object.fromEntries(
+          result.lines.filter((line) => line.candidates.length === 1).map((line) => [line.key, line.candidates[0]._id]),
+        ),
+      )
+    } catch (error) {
+      console.error("Error fetching unlinked order lines:", error)
+      toast.error("Failed to fetch unlinked order lines")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (open) fetchLines()
+  }, [open, fetchLines])
+
+  // Orders edited while their lines were being linked are left out; saving the edit links them
+  const notifySkipped = (skipped: number) => {
+    if (skipped > 0) toast.info(`Skipped ${skipped} order${skipped === 1 ? "" : "s"} edited while linking`)
+  }
+
+  const handleBackfill = async () => {
+    try {
+      setIsLinking(true)
+      const result = await backfillMenuItemLinks()
+      toast.success(`Linked ${result.linked} order line${result.linked === 1 ? "" : "s"}`)
+      notifySkipped(result.skipped)
+      await fetchLines()
+    } catch (error) {
+      console.error("Error linking order lines:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to link order lines")
+    } finally {
+      setIsLinking(false)
+    }
+  }
+
+  const handleLink = async (line: UnlinkedOrderLine) => {
+    const menuItemId = choices[line.key]
+    if (!menuItemId) return
+
+    try {
+      setIsLinking(true)
+      const result = await linkOrderLines(line.name, menuItemId)
+      toast.success(`Linked ${result.linked} "${line.name}" line${result.linked === 1 ? "" : "s"}`)
+      notifySkipped(result.skipped)
+      setLines((current) => current.filter((existing) => existing.key !== line.key))
+    } catch (error) {
+      console.error("Error linking order lines:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to link order lines")
+    } finally {
+      setIsLinking(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Link Past Sales</DialogTitle>
+          <DialogDescription>
+            Sales are counted per menu item, so renaming a dish keeps its history. Orders from before that are linked
+            by name; pick the item for names that match none or more than one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Button variant="outline" onClick={handleBackfill} disabled={isLinking || isLoading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLinking ? "animate-spin" : ""}`} />
+          Link Exact Matches
+        </Button>
+
+        <div className="space-y-2">
+          {isLoading && <p className="text-sm text-muted-foreground text-center py-4">Loading...</p>}
+
+          {!isLoading && lines.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">Every past order line is linked.</p>
+          )}
+
+          {!isLoading &&
+            lines.map((line) => {
+              const suggestedIds = new Set(line.candidates.map((candidate) => candidate._id))
+              const others = menuItems.filter((menuItem) => !suggestedIds.has(menuItem._id))
+
+              return (
+                <div key={line.key} className="flex items-center gap-2 p-3 border rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{line.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {line.lineCount} line{line.lineCount === 1 ? "" : "s"} · {line.quantity} sold · last{" "}
+                      {new Date(line.lastSold).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <Select
+                    value={choices[line.key] || ""}
+                    onValueChange={(value) => setChoices((current) => ({ ...current, [line.key]: value }))}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue placeholder="Menu item" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {line.candidates.length > 0 && (
+                        <>
+                          <SelectGroup>
+                            <SelectLabel>Suggested</SelectLabel>
+                            {line.candidates.map((candidate) => (
+                              <SelectItem key={candidate._id} value={candidate._id}>
+                                {candidate.name}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                          <SelectSeparator />
+                        </>
+                      )}
+                      {others.map((menuItem) => (
+                        <SelectItem key={menuItem._id} value={menuItem._id}>
+                          {menuItem.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button size="sm" onClick={() => handleLink(line)} disabled={isLinking || !choices[line.key]}>
+                    <Link2 className="h-4 w-4 mr-1" />
+                    Link
+                  </Button>
+                </div>
+              )
+            })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
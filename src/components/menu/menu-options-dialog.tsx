@@ -0,0 +1,286 @@
+"use client"
+
+// Component - Dialog for editing the variants and modifier groups offered when a menu item is ordered
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { toast } from "sonner"
+import { Plus, Trash2 } from "lucide-react"
+import { updateMenuItemOptions } from "@/app/actions/menu-items"
+import { menuOptionsSchema } from "@/lib/validations"
+import type { MenuItem } from "@/types"
+
+interface MenuOptionsDialogProps {
+  menuItem: MenuItem | null
+  onOpenChange: (open: boolean) => void
+  onSaved: (record: MenuItem) => void
+}
+
+interface VariantRow {
+  name: string
+  price: string
+}
+
+interface OptionRow {
+  name: string
+  priceDelta: string
+}
+
+interface GroupRow {
+  name: string
+  minSelect: string
+  maxSelect: string
+  options: OptionRow[]
+}
+
+const emptyOption = (): OptionRow => ({ name: "", priceDelta: "0" })
+
+export function MenuOptionsDialog({ menuItem, onOpenChange, onSaved }: MenuOptionsDialogProps) {
+  const [variants, setVariants] = useState<VariantRow[]>([])
+  const [groups, setGroups] = useState<GroupRow[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!menuItem) return
+
+    setVariants((menuItem.variants || []).map((variant) => ({ name: variant.name, price: variant.price.toString() })))
+    setGroups(
+      (menuItem.modifierGroups || []).map((group) => ({
+        name: group.name,
+        minSelect: group.minSelect.toString(),
+        maxSelect: group.maxSelect.toString(),
+        options: group.options.map((option) => ({ name: option.name, priceDelta: option.priceDelta.toString() })),
+      })),
+    )
+  }, [menuItem])
+
+  const updateVariant = (index: number, row: Partial<VariantRow>) => {
+    setVariants((current) => current.map((existing, i) => (i === index ? { ...existing, ...row } : existing)))
+  }
+
+  const updateGroup = (index: number, row: Partial<GroupRow>) => {
+    setGroups((current) => current.map((existing, i) => (i === index ? { ...existing, ...row } : existing)))
+  }
+
+  const updateOption = (groupIndex: number, optionIndex: number, row: Partial<OptionRow>) => {
+    updateGroup(groupIndex, {
+      options: groups[groupIndex].options.map((existing, i) => (i === optionIndex ? { ...existing, ...row } : existing)),
+    })
+  }
+
+  const handleSave = async () => {
+    if (!menuItem) return
+
+    const parsed = menuOptionsSchema.safeParse({
+      variants: variants.map((row) => ({ name: row.name, price: Number.parseFloat(row.price) || 0 })),
+      modifierGroups: groups.map((group) => ({
+        name: group.name,
+        minSelect: Number.parseInt(group.minSelect) || 0,
+        maxSelect: Number.parseInt(group.maxSelect) || 0,
+        options: group.options.map((option) => ({
+          name: option.name,
+          priceDelta: Number.parseFloat(option.priceDelta) || 0,
+        })),
+      })),
+    })
+
+    if (!parsed.success) {
+      toast.error(parsed.error.errors[0]?.message || "Invalid options")
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      const result = await updateMenuItemOptions(menuItem._id, parsed.data)
+      toast.success("Options saved")
+      onSaved(result.record)
+      onOpenChange(false)
+    } catch (error) {
+      console.error("Error saving menu options:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save options")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={menuItem !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Options{menuItem ? ` - ${menuItem.name}` : ""}</DialogTitle>
+          <DialogDescription>
+            Variants replace the base price with their own. Modifiers add their price to the chosen variant; each
+            group sets how many of its options must be chosen.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <h3 className="font-semibold">Variants</h3>
+          {variants.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-2">
+              No variants. The item is sold at its base price.
+            </p>
+          )}
+
+          {variants.map((row, index) => (
+            <div key={index} className="flex items-end gap-2">
+              <div className="flex-1">
+                <Label className="mb-2">Name</Label>
+                <Input
+                  value={row.name}
+                  onChange={(e) => updateVariant(index, { name: e.target.value })}
+                  placeholder="e.g. Large"
+                />
+              </div>
+              <div className="w-32">
+                <Label className="mb-2">Price</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={row.price}
+                  onChange={(e) => updateVariant(index, { price: e.target.value })}
+                  placeholder="0"
+                />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setVariants((current) => current.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() =>
+              setVariants((current) => [...current, { name: "", price: menuItem?.price.toString() || "" }])
+            }
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Variant
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <h3 className="font-semibold">Modifier Groups</h3>
+          {groups.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-2">No modifiers.</p>
+          )}
+
+          {groups.map((group, groupIndex) => (
+            <div key={groupIndex} className="space-y-3 p-3 border rounded-lg">
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Label className="mb-2">Group</Label>
+                  <Input
+                    value={group.name}
+                    onChange={(e) => updateGroup(groupIndex, { name: e.target.value })}
+                    placeholder="e.g. Milk"
+                  />
+                </div>
+                <div className="w-20">
+                  <Label className="mb-2">Min</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={group.minSelect}
+                    onChange={(e) => updateGroup(groupIndex, { minSelect: e.target.value })}
+                  />
+                </div>
+                <div className="w-20">
+                  <Label className="mb-2">Max</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={group.maxSelect}
+                    onChange={(e) => updateGroup(groupIndex, { maxSelect: e.target.value })}
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setGroups((current) => current.filter((_, i) => i !== groupIndex))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              {group.options.map((option, optionIndex) => (
+                <div key={optionIndex} className="flex items-center gap-2 pl-4">
+                  <Input
+                    className="flex-1"
+                    value={option.name}
+                    onChange={(e) => updateOption(groupIndex, optionIndex, { name: e.target.value })}
+                    placeholder="Option name"
+                  />
+                  <Input
+                    className="w-32"
+                    type="number"
+                    step="0.01"
+                    value={option.priceDelta}
+                    onChange={(e) => updateOption(groupIndex, optionIndex, { priceDelta: e.target.value })}
+                    placeholder="+ price"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      updateGroup(groupIndex, { options: group.options.filter((_, i) => i !== optionIndex) })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="ml-4"
+                onClick={() => updateGroup(groupIndex, { options: [...group.options, emptyOption()] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Option
+              </Button>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={() =>
+              setGroups((current) => [...current, { name: "", minSelect: "0", maxSelect: "1", options: [emptyOption()] }])
+            }
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Modifier Group
+          </Button>
+        </div>
+
+        <div className="flex gap-2 pt-4">
+          <Button onClick={handleSave} className="flex-1" disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Options"}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,280 @@
+"use client"
+
+// Component - Dialog showing a menu item's price timeline against its sales, and scheduling price changes
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Separator } from "@/components/ui/separator"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { toast } from "sonner"
+import { CalendarClock, X } from "lucide-react"
+import { Bar, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { cancelMenuPriceChange, getMenuPriceTimeline, scheduleMenuPriceChange } from "@/app/actions/menu-items"
+import { formatCurrency } from "@/lib/utils"
+import { PRICE_CHANGE_STATUS, PRICE_TIMELINE_DAYS } from "@/lib/constants"
+import type { MenuItem, MenuPriceChange, MenuPriceTimeline } from "@/types"
+
+interface MenuPriceHistoryDialogProps {
+  menuItem: MenuItem | null
+  onOpenChange: (open: boolean) => void
+  onScheduledPriceChange: (menuItemId: string, scheduledPrice: MenuItem["scheduledPrice"]) => void
+}
+
+// Days either side of a price change that its demand comparison averages over
+const COMPARISON_DAYS = 14
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`
+
+const formatDay = (date: Date | string) =>
+  new Date(date).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric" })
+
+export function MenuPriceHistoryDialog({ menuItem, onOpenChange, onScheduledPriceChange }: MenuPriceHistoryDialogProps) {
+  const [timeline, setTimeline] = useState<MenuPriceTimeline | null>(null)
+  const [price, setPrice] = useState("")
+  const [effectiveDate, setEffectiveDate] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fetchTimeline = useCallback(async (id: string) => {
+    try {
+      const result = await getMenuPriceTimeline(id)
+      setTimeline(result.timeline)
+      return result.timeline
+    } catch (error) {
+      console.error("Error fetching price timeline:", error)
+      toast.error("Failed to fetch price history")
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!menuItem) return
+    setTimeline(null)
+    setPrice("")
+    setEffectiveDate("")
+    fetchTimeline(menuItem._id)
+  }, [menuItem, fetchTimeline])
+
+  const appliedChanges = useMemo(
+    () => (timeline?.changes || []).filter((change) => change.status === PRICE_CHANGE_STATUS.APPLIED),
+    [timeline],
+  )
+  const scheduledChanges = useMemo(
+    () => (timeline?.changes || []).filter((change) => change.status === PRICE_CHANGE_STATUS.SCHEDULED),
+    [timeline],
+  )
+
+  // One point per day: units sold and the price in effect at the end of that day
+  const chartData = useMemo(() => {
+    if (!timeline || !menuItem) return []
+
+    const quantities = new Map(timeline.dailySales.map((day) => [day.date, day.quantity]))
+    const firstSale = timeline.dailySales[0]?.date
+    const firstChange = appliedChanges[0]?.effectiveAt
+    const starts = [firstSale && new Date(`${firstSale}T00:00`), firstChange && new Date(firstChange)].filter(
+      (date): date is Date => Boolean(date),
+    )
+    if (starts.length === 0) return []
+
+    // Sales are only loaded for the timeline period, so older changes just set the opening price
+    const earliest = Date.now() - PRICE_TIMELINE_DAYS * DAY_MS
+    const start = new Date(Math.max(earliest, Math.min(...starts.map((date) => date.getTime()))))
+    start.setHours(0, 0, 0, 0)
+    let currentPrice = appliedChanges[0]?.previousPrice ?? appliedChanges[0]?.price ?? menuItem.price
+    let changeIndex = 0
+
+    const points = []
+    for (let day = start; day <= new Date(); day = new Date(day.getTime() + DAY_MS)) {
+      const endOfDay = day.getTime() + DAY_MS
+      while (changeIndex < appliedChanges.length && new Date(appliedChanges[changeIndex].effectiveAt).getTime() < endOfDay) {
+        currentPrice = appliedChanges[changeIndex].price
+        changeIndex++
+      }
+      const key = dayKey(day)
+      points.push({ date: key.slice(5), quantity: quantities.get(key) || 0, price: currentPrice })
+    }
+    return points
+  }, [timeline, appliedChanges, menuItem])
+
+  // Average units a day before and after a change, to see how demand answered it
+  const demandAround = (change: MenuPriceChange) => {
+    const sales = timeline?.dailySales || []
+    const effective = new Date(change.effectiveAt).getTime()
+    const averageBetween = (from: number, to: number) => {
+      const days = Math.max(1, Math.round((Math.min(to, Date.now()) - from) / DAY_MS))
+      const sold = sales
+        .filter((day) => {
+          const time = new Date(`${day.date}T00:00`).getTime()
+          return time >= from && time < to
+        })
+        .reduce((sum, day) => sum + day.quantity, 0)
+      return sold / days
+    }
+    return {
+      before: averageBetween(effective - COMPARISON_DAYS * DAY_MS, effective),
+      after: averageBetween(effective, effective + COMPARISON_DAYS * DAY_MS),
+    }
+  }
+
+  const reportScheduledPrice = (updated?: MenuPriceTimeline) => {
+    if (!menuItem || !updated) return
+    const next = updated.changes.find((change) => change.status === PRICE_CHANGE_STATUS.SCHEDULED)
+    onScheduledPriceChange(menuItem._id, next ? { price: next.price, effectiveAt: next.effectiveAt } : undefined)
+  }
+
+  const handleSchedule = async () => {
+    if (!menuItem) return
+
+    const newPrice = Number.parseFloat(price)
+    if (Number.isNaN(newPrice) || newPrice < 0 || !effectiveDate) {
+      toast.error("Enter the new price and the date it takes effect")
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      // Changes take effect from the start of the chosen day
+      await scheduleMenuPriceChange(menuItem._id, { price: newPrice, effectiveAt: new Date(`${effectiveDate}T00:00`) })
+      toast.success("Price change scheduled")
+      setPrice("")
+      setEffectiveDate("")
+      reportScheduledPrice(await fetchTimeline(menuItem._id))
+    } catch (error) {
+      console.error("Error scheduling price change:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to schedule price change")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCancel = async (changeId: string) => {
+    if (!menuItem) return
+
+    try {
+      await cancelMenuPriceChange(changeId)
+      toast.success("Scheduled price change cancelled")
+      reportScheduledPrice(await fetchTimeline(menuItem._id))
+    } catch (error) {
+      console.error("Error cancelling price change:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to cancel price change")
+    }
+  }
+
+  return (
+    <Dialog open={menuItem !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Price History{menuItem ? ` - ${menuItem.name}` : ""}</DialogTitle>
+          <DialogDescription>
+            The base price over time against units sold each day. Variant prices aren&apos;t tracked here.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!timeline ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading...</p>
+        ) : (
+          <div className="space-y-6">
+            {chartData.length > 0 ? (
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="date" fontSize={12} minTickGap={24} />
+                    <YAxis yAxisId="quantity" fontSize={12} allowDecimals={false} />
+                    <YAxis yAxisId="price" orientation="right" fontSize={12} />
+                    <Tooltip />
+                    <Bar yAxisId="quantity" dataKey="quantity" name="Units sold" fill="#3b82f6" />
+                    <Line
+                      yAxisId="price"
+                      dataKey="price"
+                      name="Price"
+                      type="stepAfter"
+                      stroke="#f59e0b"
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-4">No sales or price changes yet.</p>
+            )}
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Changes</h3>
+              {appliedChanges.length === 0 && (
+                <p className="text-sm text-muted-foreground">The price hasn&apos;t changed since it was recorded.</p>
+              )}
+              {[...appliedChanges].reverse().map((change) => {
+                const demand = demandAround(change)
+                return (
+                  <div key={change._id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                    <div>
+                      <div className="font-medium">
+                        {change.previousPrice !== undefined && `${formatCurrency(change.previousPrice)} → `}
+                        {formatCurrency(change.price)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {formatDay(change.effectiveAt)}
+                        {change.createdBy && ` · ${change.createdBy.name}`}
+                      </div>
+                    </div>
+                    {change.previousPrice !== undefined && (
+                      <div className="text-right text-xs text-muted-foreground">
+                        <div>
+                          {demand.before.toFixed(1)} → {demand.after.toFixed(1)} units/day
+                        </div>
+                        <div>{COMPARISON_DAYS} days before vs after</div>
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <h3 className="font-semibold">Scheduled</h3>
+              {scheduledChanges.map((change) => (
+                <div key={change._id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                  <div className="flex items-center gap-2">
+                    <CalendarClock className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{formatCurrency(change.price)}</span>
+                    <Badge variant="outline">from {formatDay(change.effectiveAt)}</Badge>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleCancel(change._id)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <Label className="mb-2">New price</Label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={price}
+                    onChange={(e) => setPrice(e.target.value)}
+                    placeholder={menuItem?.price.toFixed(2)}
+                  />
+                </div>
+                <div className="flex-1">
+                  <Label className="mb-2">Effective from</Label>
+                  <Input type="date" value={effectiveDate} onChange={(e) => setEffectiveDate(e.target.value)} />
+                </div>
+                <Button onClick={handleSchedule} disabled={isSaving}>
+                  {isSaving ? "Scheduling..." : "Schedule"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,324 @@
+"use client"
+
+// Component - Dialog for managing menu schedules (when items are sold) and happy hours (when they're discounted)
+import { useState, useEffect, useCallback } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Separator } from "@/components/ui/separator"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { toast } from "sonner"
+import { Edit, Plus, Trash2 } from "lucide-react"
+import { createMenuRule, deleteMenuRule, updateMenuRule } from "@/app/actions/menu-rules"
+import { menuRuleSchema } from "@/lib/validations"
+import { API_PATHS, MENU_RULE_TYPE, type MenuRuleType } from "@/lib/constants"
+import type { MenuItem, MenuRule } from "@/types"
+
+interface MenuRulesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  menuItems: MenuItem[]
+  categories: string[]
+  // Items carry the windows of their rules, so they're fetched again after a change
+  onSaved: () => void
+}
+
+interface RuleForm {
+  name: string
+  type: MenuRuleType
+  menuItems: string[]
+  categories: string[]
+  days: number[]
+  startTime: string
+  endTime: string
+  discountPercent: string
+  isActive: boolean
+}
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+const emptyForm = (): RuleForm => ({
+  name: "",
+  type: MENU_RULE_TYPE.AVAILABILITY,
+  menuItems: [],
+  categories: [],
+  days: [],
+  startTime: "",
+  endTime: "",
+  discountPercent: "",
+  isActive: true,
+})
+
+const toggle = <T,>(values: T[], value: T, checked: boolean) =>
+  checked ? [...values, value] : values.filter((existing) => existing !== value)
+
+/** "Mon, Tue · 16:00-18:00", or "Every day" when no days are picked */
+const describeWindow = (rule: Pick<MenuRule, "days" | "startTime" | "endTime">) =>
+  `${rule.days.length === 0 ? "Every day" : rule.days.map((day) => DAY_NAMES[day]).join(", ")} · ${rule.startTime}-${rule.endTime}`
+
+export function MenuRulesDialog({ open, onOpenChange, menuItems, categories, onSaved }: MenuRulesDialogProps) {
+  const [rules, setRules] = useState<MenuRule[]>([])
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<RuleForm>(emptyForm)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fetchRules = useCallback(() => {
+    fetch(API_PATHS.MENU_RULES)
+      .then((response) => (response.ok ? response.json() : { rules: [] }))
+      .then((data) => setRules(data.rules || []))
+      .catch((error) => {
+        console.error("Error fetching menu rules:", error)
+        toast.error("Failed to fetch menu rules")
+      })
+  }, [])
+
+  useEffect(() => {
+    if (!open) return
+    setEditingId(null)
+    setForm(emptyForm())
+    fetchRules()
+  }, [open, fetchRules])
+
+  const handleEdit = (rule: MenuRule) => {
+    setEditingId(rule._id)
+    setForm({
+      name: rule.name,
+      type: rule.type,
+      menuItems: rule.menuItems,
+      categories: rule.categories,
+      days: rule.days,
+      startTime: rule.startTime,
+      endTime: rule.endTime,
+      discountPercent: rule.discountPercent?.toString() || "",
+      isActive: rule.isActive,
+    })
+  }
+
+  const handleSave = async () => {
+    const parsed = menuRuleSchema.safeParse({
+      ...form,
+      discountPercent: form.type === MENU_RULE_TYPE.PRICE ? Number.parseFloat(form.discountPercent) || 0 : undefined,
+    })
+
+    if (!parsed.success) {
+      toast.error(parsed.error.errors[0]?.message || "Invalid rule")
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      if (editingId) {
+        await updateMenuRule(editingId, parsed.data)
+      } else {
+        await createMenuRule(parsed.data)
+      }
+      toast.success(editingId ? "Rule updated" : "Rule created")
+      setEditingId(null)
+      setForm(emptyForm())
+      fetchRules()
+      onSaved()
+    } catch (error) {
+      console.error("Error saving menu rule:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save rule")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteMenuRule(id)
+      toast.success("Rule deleted")
+      if (editingId === id) {
+        setEditingId(null)
+        setForm(emptyForm())
+      }
+      fetchRules()
+      onSaved()
+    } catch (error) {
+      console.error("Error deleting menu rule:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to delete rule")
+    }
+  }
+
+  const itemNames = new Map(menuItems.map((item) => [item._id, item.name]))
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Schedules & Happy Hours</DialogTitle>
+          <DialogDescription>
+            Schedules limit an item to the windows they cover, e.g. breakfast until 11:00. Happy hours take a
+            percentage off while they run; when several overlap the biggest discount applies. Times are in the
+            time zone set in Settings, and a window ending before it starts runs past midnight.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {rules.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No schedules or happy hours yet.</p>
+          )}
+          {rules.map((rule) => (
+            <div key={rule._id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">{rule.name}</span>
+                  <Badge variant="outline">
+                    {rule.type === MENU_RULE_TYPE.PRICE ? `${rule.discountPercent}% off` : "Schedule"}
+                  </Badge>
+                  {!rule.isActive && <Badge variant="secondary">Off</Badge>}
+                </div>
+                <div className="text-xs text-muted-foreground truncate">
+                  {describeWindow(rule)} ·{" "}
+                  {[...rule.categories, ...rule.menuItems.map((id) => itemNames.get(id)).filter(Boolean)].join(", ")}
+                </div>
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => handleEdit(rule)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => handleDelete(rule._id)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-4">
+          <h3 className="font-semibold">{editingId ? "Edit Rule" : "New Rule"}</h3>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <Label className="mb-2">Name</Label>
+              <Input
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="Breakfast, Happy hour..."
+              />
+            </div>
+            <div>
+              <Label className="mb-2">Type</Label>
+              <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value as MenuRuleType })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={MENU_RULE_TYPE.AVAILABILITY}>Schedule</SelectItem>
+                  <SelectItem value={MENU_RULE_TYPE.PRICE}>Happy hour</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <Label className="mb-2">From</Label>
+              <Input type="time" value={form.startTime} onChange={(e) => setForm({ ...form, startTime: e.target.value })} />
+            </div>
+            <div>
+              <Label className="mb-2">Until</Label>
+              <Input type="time" value={form.endTime} onChange={(e) => setForm({ ...form, endTime: e.target.value })} />
+            </div>
+            {form.type === MENU_RULE_TYPE.PRICE && (
+              <div>
+                <Label className="mb-2">Discount %</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.5"
+                  value={form.discountPercent}
+                  onChange={(e) => setForm({ ...form, discountPercent: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div>
+            <Label className="mb-2">Days (none means every day)</Label>
+            <div className="flex flex-wrap gap-3">
+              {DAY_NAMES.map((dayName, day) => (
+                <label key={dayName} className="flex items-center gap-1 text-sm">
+                  <Checkbox
+                    checked={form.days.includes(day)}
+                    onCheckedChange={(checked) => setForm({ ...form, days: toggle(form.days, day, checked === true) })}
+                  />
+                  {dayName}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label className="mb-2">Categories</Label>
+            <div className="flex flex-wrap gap-3">
+              {categories.map((category) => (
+                <label key={category} className="flex items-center gap-1 text-sm">
+                  <Checkbox
+                    checked={form.categories.includes(category)}
+                    onCheckedChange={(checked) =>
+                      setForm({ ...form, categories: toggle(form.categories, category, checked === true) })
+                    }
+                  />
+                  {category}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label className="mb-2">Items</Label>
+            <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto border rounded-lg p-2">
+              {menuItems.map((item) => (
+                <label key={item._id} className="flex items-center gap-1 text-sm truncate">
+                  <Checkbox
+                    checked={form.menuItems.includes(item._id)}
+                    onCheckedChange={(checked) =>
+                      setForm({ ...form, menuItems: toggle(form.menuItems, item._id, checked === true) })
+                    }
+                  />
+                  {item.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="rule-active"
+              checked={form.isActive}
+              onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+            />
+            <Label htmlFor="rule-active">Active</Label>
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={isSaving} className="flex-1">
+              <Plus className="h-4 w-4 mr-2" />
+              {isSaving ? "Saving..." : editingId ? "Update Rule" : "Add Rule"}
+            </Button>
+            {editingId && (
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setEditingId(null)
+                  setForm(emptyForm())
+                }}
+              >
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
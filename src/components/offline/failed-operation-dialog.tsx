@@ -0,0 +1,138 @@
+"use client"
+
+// Failed Operation Dialog - Shows why an offline change failed to sync and lets the user fix and retry or discard it
+import { useEffect, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "sonner"
+import type { FailedOperation } from "@/lib/offline/indexeddb"
+
+const RECORD_LABELS: Record<FailedOperation["operation"]["type"], string> = {
+  income: "order",
+  expense: "expense",
+  dueAccount: "customer account",
+  duePayment: "payment",
+  menuItem: "menu item",
+  user: "user",
+}
+
+const OPERATION_LABELS = { create: "New", update: "Edited", delete: "Voided" } as const
+
+/** Describes a failed operation, e.g. "Edited order INV-0042" */
+export function failedOperationTitle({ operation }: FailedOperation): string {
+  const name = operation.data?.invoiceNumber || operation.data?.description || operation.data?.customerName || operation.data?.name
+  const label = `${OPERATION_LABELS[operation.operation]} ${RECORD_LABELS[operation.type]}`
+  return name ? `${label} ${name}` : label
+}
+
+interface FailedOperationDialogProps {
+  failed: FailedOperation | null
+  onOpenChange: (open: boolean) => void
+  onRetry: (id: string, data?: any) => Promise<void>
+  onDiscard: (id: string) => Promise<void>
+}
+
+export function FailedOperationDialog({ failed, onOpenChange, onRetry, onDiscard }: FailedOperationDialogProps) {
+  const [payload, setPayload] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    setPayload(failed ? JSON.stringify(failed.operation.data, null, 2) : "")
+  }, [failed])
+
+  const handleRetry = async () => {
+    if (!failed) return
+
+    let data: any
+    try {
+      data = JSON.parse(payload)
+    } catch {
+      toast.error("The data isn't valid JSON")
+      return
+    }
+
+    try {
+      setIsSaving(true)
+      // Only send edited data, so an unchanged retry replays the operation exactly
+      const edited = payload !== JSON.stringify(failed.operation.data, null, 2)
+      await onRetry(failed.id, edited ? data : undefined)
+      onOpenChange(false)
+      toast.success("Change queued to sync again")
+    } catch (error) {
+      console.error("Error retrying failed operation:", error)
+      toast.error("Failed to retry")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDiscard = async () => {
+    if (!failed) return
+    if (!confirm("Discard this change? It will be lost and can't be synced later.")) return
+
+    try {
+      setIsSaving(true)
+      await onDiscard(failed.id)
+      onOpenChange(false)
+      toast.success("Change discarded")
+    } catch (error) {
+      console.error("Error discarding failed operation:", error)
+      toast.error("Failed to discard")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!failed} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="capitalize">{failed ? failedOperationTitle(failed) : "Failed change"}</DialogTitle>
+          <DialogDescription>
+            This change was made offline but the server didn&apos;t accept it. Fix the data and retry, or discard it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {failed && (
+          <div className="space-y-4">
+            <div>
+              <Label>Attempts</Label>
+              <ul className="mt-2 space-y-1 text-sm">
+                {(failed.operation.attempts?.length ? failed.operation.attempts : [{ at: failed.failedAt, error: failed.error }]).map(
+                  (attempt, index) => (
+                    <li key={`${attempt.at}-${index}`} className="flex gap-3">
+                      <span className="text-muted-foreground whitespace-nowrap">{new Date(attempt.at).toLocaleString()}</span>
+                      <span className="text-red-600 break-words">{attempt.error}</span>
+                    </li>
+                  ),
+                )}
+              </ul>
+            </div>
+
+            <div>
+              <Label htmlFor="failed-payload">Data</Label>
+              <Textarea
+                id="failed-payload"
+                value={payload}
+                onChange={(e) => setPayload(e.target.value)}
+                className="mt-2 font-mono text-xs min-h-[240px]"
+                spellCheck={false}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={handleDiscard} disabled={isSaving}>
+            Discard
+          </Button>
+          <Button onClick={handleRetry} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Retry"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
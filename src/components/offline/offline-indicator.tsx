@@ -1,30 +1,41 @@
 "use client"
 
-// Offline Indicator - Shows online/offline status, sync state, and pending operations
+// Offline Indicator - Shows online/offline status, sync state, pending operations, sync conflicts and failed operations
 import { useOffline } from "../../hooks/use-offline"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
-import { Wifi, WifiOff, RefreshCw, Clock, Database, Trash2, ChevronDown, ChevronUp, CheckCircle, Loader2 } from "lucide-react"
+import { Wifi, WifiOff, RefreshCw, Clock, Database, Trash2, ChevronDown, ChevronUp, CheckCircle, Loader2, GitMerge, AlertTriangle, Download } from "lucide-react"
 import { toast } from "sonner"
 import { useState, useEffect } from "react"
+import { SyncConflictDialog, conflictTitle } from "./sync-conflict-dialog"
+import { FailedOperationDialog, failedOperationTitle } from "./failed-operation-dialog"
+import { exportToJSON } from "@/lib/utils"
+import type { FailedOperation, SyncConflict } from "@/lib/offline/indexeddb"
 
 export function OfflineIndicator() {
   const {
     isOnline,
     isSyncing,
     pendingOperations,
+    conflicts,
+    failedOperations,
     lastSyncTime,
     isCheckingConnectivity,
     manualSync,
     clearLocalData,
+    resolveConflict,
+    retryFailedOperation,
+    discardFailedOperation,
     getStorageStats,
     syncManager,
   } = useOffline()
 
   const [isExpanded, setIsExpanded] = useState(false)
   const [storageStats, setStorageStats] = useState<{ [key: string]: number }>({})
+  const [resolving, setResolving] = useState<SyncConflict | null>(null)
+  const [reviewing, setReviewing] = useState<FailedOperation | null>(null)
 
   // Update sync manager when connectivity status changes
   useEffect(() => {
@@ -61,6 +72,10 @@ export function OfflineIndicator() {
     }
   }
 
+  const handleExportFailed = () => {
+    exportToJSON(failedOperations, `failed-sync-${new Date().toISOString().slice(0, 10)}.json`)
+  }
+
   const handleClearData = async () => {
     if (!confirm("Are you sure you want to clear all local data? This cannot be undone.")) {
       return
@@ -77,7 +92,7 @@ export function OfflineIndicator() {
   }
 
   // Show different states
-  const isAllGood = isOnline && !isSyncing && pendingOperations === 0 && !isCheckingConnectivity
+  const isAllGood = isOnline && !isSyncing && pendingOperations === 0 && conflicts.length === 0 && failedOperations.length === 0 && !isCheckingConnectivity
 
   // Don't show anything if everything is perfect and not expanded
   if (isAllGood && !isExpanded) {
@@ -159,6 +174,26 @@ export function OfflineIndicator() {
                         <span className="sm:hidden">{pendingOperations}</span>
                       </Badge>
                     )}
+                    {conflicts.length > 0 && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs bg-red-50 dark:bg-red-950/50 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 whitespace-nowrap"
+                      >
+                        <GitMerge className="h-3 w-3 mr-1" />
+                        <span className="hidden sm:inline">{conflicts.length} conflict{conflicts.length !== 1 ? "s" : ""}</span>
+                        <span className="sm:hidden">{conflicts.length}</span>
+                      </Badge>
+                    )}
+                    {failedOperations.length > 0 && (
+                      <Badge
+                        variant="outline"
+                        className="text-xs bg-red-50 dark:bg-red-950/50 border-red-200 dark:border-red-800 text-red-700 dark:text-red-300 whitespace-nowrap"
+                      >
+                        <AlertTriangle className="h-3 w-3 mr-1" />
+                        <span className="hidden sm:inline">{failedOperations.length} failed</span>
+                        <span className="sm:hidden">{failedOperations.length}</span>
+                      </Badge>
+                    )}
                   </div>
                 </div>
 
@@ -238,6 +273,67 @@ export function OfflineIndicator() {
                 </div>
               )}
 
+              {/* Sync Conflicts */}
+              {conflicts.length > 0 && (
+                <div className="p-3 sm:p-4 bg-red-50 dark:bg-red-950/50 border border-red-200 dark:border-red-800 rounded-lg">
+                  <div className="flex items-start gap-3">
+                    <GitMerge className="h-5 w-5 text-red-600 dark:text-red-400 mt-0.5 flex-shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-sm font-medium text-red-800 dark:text-red-200">
+                        {conflicts.length} Conflict{conflicts.length !== 1 ? "s" : ""} to Resolve
+                      </div>
+                      <div className="text-xs text-red-700 dark:text-red-300 mt-1 leading-relaxed">
+                        These offline changes were not applied because the records changed on the server first.
+                      </div>
+                      <div className="mt-2 space-y-1">
+                        {conflicts.map((conflict) => (
+                          <div key={conflict.id} className="flex items-center justify-between gap-2 text-xs">
+                            <span className="truncate text-red-800 dark:text-red-200">{conflictTitle(conflict)}</span>
+                            <Button size="sm" variant="outline" className="h-7 bg-transparent" onClick={() => setResolving(conflict)}>
+                              Resolve
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Failed Operations */}
+              {failedOperations.length > 0 && (
+                <div className="p-3 sm:p-4 bg-red-50 dark:bg-red-950/50 border border-red-200 dark:border-red-800 rounded-lg">
+                  <div className="flex items-start gap-3">
+                    <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400 mt-0.5 flex-shrink-0" />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="text-sm font-medium text-red-800 dark:text-red-200">
+                          {failedOperations.length} Change{failedOperations.length !== 1 ? "s" : ""} Failed to Sync
+                        </div>
+                        <Button size="sm" variant="ghost" className="h-7 px-2" onClick={handleExportFailed} title="Export as JSON">
+                          <Download className="h-3 w-3" />
+                        </Button>
+                      </div>
+                      <div className="text-xs text-red-700 dark:text-red-300 mt-1 leading-relaxed">
+                        These changes are kept on this device until you retry or discard them.
+                      </div>
+                      <div className="mt-2 space-y-1">
+                        {failedOperations.map((failed) => (
+                          <div key={failed.id} className="flex items-center justify-between gap-2 text-xs">
+                            <span className="truncate text-red-800 dark:text-red-200 capitalize" title={failed.error}>
+                              {failedOperationTitle(failed)}
+                            </span>
+                            <Button size="sm" variant="outline" className="h-7 bg-transparent" onClick={() => setReviewing(failed)}>
+                              Review
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              )}
+
               {/* All Good Status */}
               {isAllGood && (
                 <div className="p-3 sm:p-4 bg-green-50 dark:bg-green-950/50 border border-green-200 dark:border-green-800 rounded-lg">
@@ -306,6 +402,19 @@ export function OfflineIndicator() {
           </CollapsibleContent>
         </Card>
       </Collapsible>
+
+      <SyncConflictDialog
+        conflict={resolving}
+        onOpenChange={(open) => !open && setResolving(null)}
+        onResolve={resolveConflict}
+      />
+
+      <FailedOperationDialog
+        failed={reviewing}
+        onOpenChange={(open) => !open && setReviewing(null)}
+        onRetry={retryFailedOperation}
+        onDiscard={discardFailedOperation}
+      />
     </div>
   )
 }
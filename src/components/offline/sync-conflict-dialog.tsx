@@ -0,0 +1,138 @@
+"use client"
+
+// Sync Conflict Dialog - Resolves an offline edit that clashed with a newer server change, whole or field by field
+import { useEffect, useMemo, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { toast } from "sonner"
+import { conflictingFields } from "@/lib/conflicts"
+import type { SyncConflict } from "@/lib/offline/indexeddb"
+
+const RECORD_LABELS: Record<SyncConflict["type"], string> = {
+  income: "Order",
+  expense: "Expense",
+  dueAccount: "Customer account",
+}
+
+/** Names a record so the user can tell which one the conflict is about */
+export function conflictTitle(conflict: SyncConflict): string {
+  const { server } = conflict
+  const name = server.invoiceNumber || server.tableNumber || server.description || server.customerName
+  return name ? `${RECORD_LABELS[conflict.type]} ${name}` : RECORD_LABELS[conflict.type]
+}
+
+const fieldLabel = (field: string) =>
+  field.replace(/([A-Z])/g, " $1").replace(/^./, (first) => first.toUpperCase())
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "—"
+  if (Array.isArray(value)) {
+    return value
+      .map((entry) => (entry && typeof entry === "object" && "name" in entry ? `${entry.quantity ?? 1}× ${entry.name}` : formatValue(entry)))
+      .join(", ") || "—"
+  }
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+interface SyncConflictDialogProps {
+  conflict: SyncConflict | null
+  onOpenChange: (open: boolean) => void
+  onResolve: (conflictId: string, localFields: string[]) => Promise<void>
+}
+
+export function SyncConflictDialog({ conflict, onOpenChange, onResolve }: SyncConflictDialogProps) {
+  const fields = useMemo(
+    () => (conflict ? conflictingFields(conflict.local, conflict.server, conflict.base) : []),
+    [conflict],
+  )
+  // Fields to take from the offline edit; the rest keep the server value
+  const [localFields, setLocalFields] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Start from the fields the offline edit actually changed
+  useEffect(() => {
+    setLocalFields(fields.filter((field) => field.changedLocally).map((field) => field.field))
+  }, [fields])
+
+  const resolve = async (keep: string[]) => {
+    if (!conflict) return
+    try {
+      setIsSaving(true)
+      await onResolve(conflict.id, keep)
+      onOpenChange(false)
+      toast.success("Conflict resolved")
+    } catch (error) {
+      console.error("Error resolving sync conflict:", error)
+      toast.error("Failed to resolve conflict")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const chooseField = (field: string, source: string) => {
+    setLocalFields((current) =>
+      source === "local" ? [...current.filter((existing) => existing !== field), field] : current.filter((existing) => existing !== field),
+    )
+  }
+
+  return (
+    <Dialog open={!!conflict} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{conflict ? conflictTitle(conflict) : "Sync conflict"}</DialogTitle>
+          <DialogDescription>
+            This record was changed on the server after you edited it offline. Choose which version of each field to
+            keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        {fields.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Both versions now have the same values, so keeping the server version loses nothing.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <div className="grid grid-cols-[1fr_1fr_1fr] gap-3 text-xs font-medium text-muted-foreground">
+              <span>Field</span>
+              <span>Your offline change</span>
+              <span>On the server</span>
+            </div>
+            {fields.map(({ field, local, server }) => (
+              <RadioGroup
+                key={field}
+                value={localFields.includes(field) ? "local" : "server"}
+                onValueChange={(source) => chooseField(field, source)}
+                className="grid grid-cols-[1fr_1fr_1fr] gap-3 items-start border-t pt-3"
+              >
+                <span className="text-sm font-medium">{fieldLabel(field)}</span>
+                <Label className="flex items-start gap-2 font-normal text-sm break-words">
+                  <RadioGroupItem value="local" className="mt-0.5" />
+                  {formatValue(local)}
+                </Label>
+                <Label className="flex items-start gap-2 font-normal text-sm break-words">
+                  <RadioGroupItem value="server" className="mt-0.5" />
+                  {formatValue(server)}
+                </Label>
+              </RadioGroup>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Button variant="outline" onClick={() => resolve([])} disabled={isSaving}>
+            Keep Server
+          </Button>
+          <Button variant="outline" onClick={() => resolve(fields.map((field) => field.field))} disabled={isSaving || fields.length === 0}>
+            Keep Mine
+          </Button>
+          <Button onClick={() => resolve(localFields)} disabled={isSaving || fields.length === 0}>
+            {isSaving ? "Saving..." : "Merge Fields"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
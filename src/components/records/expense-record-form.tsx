@@ -1,8 +1,8 @@
 "use client"
 
 // Expense Record Form - Form for adding/editing expense records
-import { useState } from "react"
-import { useForm } from "react-hook-form"
+import { useState, useEffect } from "react"
+import { useForm, useFieldArray } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -10,9 +10,11 @@ import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { toast } from "sonner"
+import { Plus, Trash2 } from "lucide-react"
 import { expenseRecordSchema, type ExpenseRecordInput } from "@/lib/validations"
 import { OfflineAPI } from "@/lib/offline/offline-api"
-import type { ExpenseRecord } from "@/types"
+import { API_PATHS, PAYMENT_METHOD, RESTOCK_EXPENSE_CATEGORY } from "@/lib/constants"
+import type { ExpenseRecord, Ingredient } from "@/types"
 import { useOffline } from "../../hooks/use-offline"
 
 interface ExpenseRecordFormProps {
@@ -20,7 +22,7 @@ interface ExpenseRecordFormProps {
   onSuccess?: () => void
 }
 
-const EXPENSE_CATEGORIES = [
+export const EXPENSE_CATEGORIES = [
   "Food & Ingredients",
   "Staff Salaries",
   "Rent & Utilities",
@@ -32,6 +34,7 @@ const EXPENSE_CATEGORIES = [
 
 export function ExpenseRecordForm({ record, onSuccess }: ExpenseRecordFormProps) {
   const [isLoading, setIsLoading] = useState(false)
+  const [ingredients, setIngredients] = useState<Ingredient[]>([])
   const { isOnline } = useOffline()
 
   const form = useForm<ExpenseRecordInput>({
@@ -44,10 +47,29 @@ export function ExpenseRecordForm({ record, onSuccess }: ExpenseRecordFormProps)
       date: record?.date ? new Date(record.date) : new Date(),
       receiptNumber: record?.receiptNumber || "",
       notes: record?.notes || "",
+      paymentMethod: record?.paymentMethod || PAYMENT_METHOD.CASH,
+      restockItems: record?.restockItems || [],
     },
     mode: "onChange",
   })
 
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "restockItems",
+  })
+
+  const isRestock = form.watch("category") === RESTOCK_EXPENSE_CATEGORY
+
+  // Restock lines need the ingredient list; it's only available online
+  useEffect(() => {
+    if (!isRestock || !isOnline) return
+
+    fetch(API_PATHS.INGREDIENTS)
+      .then((response) => (response.ok ? response.json() : { ingredients: [] }))
+      .then((data) => setIngredients(data.ingredients || []))
+      .catch((error) => console.error("Error fetching ingredients:", error))
+  }, [isRestock, isOnline])
+
   const onSubmit = async (data: ExpenseRecordInput) => {
     setIsLoading(true)
     try {
@@ -68,6 +90,8 @@ export function ExpenseRecordForm({ record, onSuccess }: ExpenseRecordFormProps)
             date: new Date(),
             receiptNumber: "",
             notes: "",
+            paymentMethod: PAYMENT_METHOD.CASH,
+            restockItems: [],
           })
         }
         onSuccess?.()
@@ -141,6 +165,76 @@ export function ExpenseRecordForm({ record, onSuccess }: ExpenseRecordFormProps)
             />
           </div>
 
+          {isRestock && (
+            <div className="space-y-3 rounded-lg border p-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium">Restocked Ingredients</p>
+                  <p className="text-xs text-muted-foreground">These quantities are added to inventory.</p>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => append({ ingredient: "", quantity: 0 })}
+                  disabled={ingredients.length === 0}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+
+              {fields.map((item, index) => (
+                <div key={item.id} className="flex items-start gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`restockItems.${index}.ingredient`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select ingredient" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {ingredients.map((ingredient) => (
+                              <SelectItem key={ingredient._id} value={ingredient._id}>
+                                {ingredient.name} ({ingredient.unit})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`restockItems.${index}.quantity`}
+                    render={({ field }) => (
+                      <FormItem className="w-28">
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="0.01"
+                            placeholder="Qty"
+                            {...field}
+                            onChange={(e) => field.onChange(Number(e.target.value))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button type="button" variant="outline" size="sm" className="mt-1" onClick={() => remove(index)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
           <FormField
             control={form.control}
             name="description"
@@ -184,24 +278,47 @@ export function ExpenseRecordForm({ record, onSuccess }: ExpenseRecordFormProps)
             />
           </div>
 
-          <FormField
-            control={form.control}
-            name="date"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Date *</FormLabel>
-                <FormControl>
-                  <Input
-                    type="date"
-                    {...field}
-                    value={field.value instanceof Date ? field.value.toISOString().split("T")[0] : field.value}
-                    onChange={(e) => field.onChange(new Date(e.target.value))}
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="date"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Date *</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="date"
+                      {...field}
+                      value={field.value instanceof Date ? field.value.toISOString().split("T")[0] : field.value}
+                      onChange={(e) => field.onChange(new Date(e.target.value))}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="paymentMethod"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Paid With</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={PAYMENT_METHOD.CASH}>Cash from the till</SelectItem>
+                      <SelectItem value={PAYMENT_METHOD.DIGITAL}>Digital</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
 
           <FormField
             control={form.control}
@@ -4,19 +4,24 @@
 import { useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { AlertDialog, AlertDialogContent, AlertDialogTrigger, AlertDialogHeader, AlertDialogTitle, AlertDialogDescription, AlertDialogFooter, AlertDialogCancel, AlertDialogAction} from "@/components/ui/alert-dialog"
 import { ExpenseRecordDialog } from "@/components/records/expense-record-dialog"
+import { VoidRecordDialog } from "@/components/records/void-record-dialog"
+import { VoidRequestNotice } from "@/components/records/void-request-notice"
+import { reviewExpenseVoid } from "@/app/actions/expense-records"
+import { VOID_STATUS } from "@/lib/constants"
 import { formatCurrency } from "@/lib/utils"
-import { Trash2, ArrowUpDown, WifiOff } from "lucide-react"
+import { ArrowUpDown, WifiOff } from "lucide-react"
 import type { ColumnDef } from "@tanstack/react-table"
 import type { ExpenseRecord } from "@/types"
 
 interface UseExpenseColumnsProps {
   onFormSuccess: () => Promise<void>
-  onDelete: (id: string) => Promise<void>
+  onVoid: (id: string, reason: string) => Promise<void>
+  // Whether the user may edit expenses
+  canEdit: boolean
 }
 
-export function useExpenseColumns({ onFormSuccess, onDelete }: UseExpenseColumnsProps): ColumnDef<ExpenseRecord>[] {
+export function useExpenseColumns({ onFormSuccess, onVoid, canEdit }: UseExpenseColumnsProps): ColumnDef<ExpenseRecord>[] {
   return useMemo(
     () => [
       {
@@ -114,36 +119,21 @@ export function useExpenseColumns({ onFormSuccess, onDelete }: UseExpenseColumns
         header: "Actions",
         cell: ({ row }) => (
           <div className="flex space-x-2">
-            <ExpenseRecordDialog record={row.original} onSuccess={onFormSuccess} mode="edit" />
-            <AlertDialog>
-              <AlertDialogTrigger asChild>
-                <Button variant="outline" size="sm">
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              </AlertDialogTrigger>
-              <AlertDialogContent>
-                <AlertDialogHeader>
-                  <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                  <AlertDialogDescription>
-                    This action cannot be undone. Are you sure you want to delete this expense?
-                  </AlertDialogDescription>
-                </AlertDialogHeader>
-                <AlertDialogFooter>
-                  <AlertDialogCancel>Cancel</AlertDialogCancel>
-                  <AlertDialogAction
-                    onClick={() => onDelete(row.original._id)}
-                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                  >
-                    Continue
-                  </AlertDialogAction>
-                </AlertDialogFooter>
-              </AlertDialogContent>
-            </AlertDialog>
+            {canEdit && <ExpenseRecordDialog record={row.original} onSuccess={onFormSuccess} mode="edit" />}
+            {row.original.voidStatus === VOID_STATUS.REQUESTED ? (
+              <VoidRequestNotice
+                reason={row.original.voidReason}
+                onReview={(approve) => reviewExpenseVoid(row.original._id, approve)}
+                onReviewed={onFormSuccess}
+              />
+            ) : (
+              <VoidRecordDialog label="expense" onConfirm={(reason) => onVoid(row.original._id, reason)} />
+            )}
           </div>
         ),
         enableSorting: false,
       },
     ],
-    [onFormSuccess, onDelete],
+    [onFormSuccess, onVoid, canEdit],
   )
 }
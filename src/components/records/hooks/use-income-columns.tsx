@@ -4,10 +4,14 @@
 import { useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
-import { AlertDialog, AlertDialogContent, AlertDialogTrigger, AlertDialogHeader, AlertDialogTitle, AlertDialogDescription, AlertDialogFooter, AlertDialogCancel, AlertDialogAction } from "@/components/ui/alert-dialog"
 import { IncomeRecordDialog } from "@/components/records/income-record-dialog"
+import { ReceiptDialog } from "@/components/records/receipt-dialog"
+import { VoidRecordDialog } from "@/components/records/void-record-dialog"
+import { VoidRequestNotice } from "@/components/records/void-request-notice"
+import { reviewIncomeVoid } from "@/app/actions/income-records"
+import { VOID_STATUS } from "@/lib/constants"
 import { formatCurrency } from "@/lib/utils"
-import { Trash2, ArrowUpDown, ChevronDown, ChevronRightIcon, Users, Banknote, Smartphone, WifiOff } from "lucide-react"
+import { ArrowUpDown, ChevronDown, ChevronRightIcon, Users, Banknote, Smartphone, WifiOff } from "lucide-react"
 import type { ColumnDef } from "@tanstack/react-table"
 import { GroupedIncomeRecord } from "./use-grouped-income-records"
 
@@ -15,10 +19,12 @@ interface UseIncomeColumnsProps {
   expandedGroups: Set<string>
   toggleGroupExpansion: (dueAccountId: string) => void
   onFormSuccess: () => Promise<void>
-  onDelete: (id: string) => Promise<void>
+  onVoid: (id: string, reason: string) => Promise<void>
+  // Whether the user may edit orders
+  canEdit: boolean
 }
 
-export function useIncomeColumns({ expandedGroups, toggleGroupExpansion,  onFormSuccess, onDelete }: UseIncomeColumnsProps): ColumnDef<GroupedIncomeRecord>[] {
+export function useIncomeColumns({ expandedGroups, toggleGroupExpansion, onFormSuccess, onVoid, canEdit }: UseIncomeColumnsProps): ColumnDef<GroupedIncomeRecord>[] {
   return useMemo(
     () => [
       {
@@ -56,6 +62,9 @@ export function useIncomeColumns({ expandedGroups, toggleGroupExpansion,  onForm
                 {value}
                 {record.isGroup && ` (${record.orderCount} orders)`}
               </span>
+              {record.invoiceNumber && !record.isGroup && (
+                <span className="text-xs text-muted-foreground font-mono">{record.invoiceNumber}</span>
+              )}
               {record.isDueAccount && !record.isGroup && (
                 <Badge variant="outline" className="text-blue-600 border-blue-200">
                   Due Account
@@ -233,41 +242,28 @@ export function useIncomeColumns({ expandedGroups, toggleGroupExpansion,  onForm
         cell: ({ row }) => {
           const record = row.original
           const isChild = record._id.startsWith("child_")
+          const orderRecord = isChild ? { ...record, _id: record._id.replace("child_", "") } : record
           return (
             <>
               {!record.isGroup && (
                 <div className="flex space-x-2" onClick={(e) => e.stopPropagation()}>
-                  <IncomeRecordDialog
-                    record={isChild ? { ...record, _id: record._id.replace("child_", "") } : record}
-                    onSuccess={onFormSuccess}
-                    mode="edit"
-                  />
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button variant="outline" size="sm">
-                        <Trash2 className="h-4 w-4" />
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Are you sure?</AlertDialogTitle>
-                        <AlertDialogDescription>
-                          {record.isGroup
-                            ? `This will delete all ${record.orderCount} orders in this group. This action cannot be undone.`
-                            : "This action cannot be undone. Are you sure you want to delete this order?"}
-                        </AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction
-                          onClick={() => onDelete(row.original._id)}
-                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                        >
-                          Continue
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
+                  <ReceiptDialog record={orderRecord} />
+                  {canEdit && (
+                    <IncomeRecordDialog
+                      record={orderRecord}
+                      onSuccess={onFormSuccess}
+                      mode="edit"
+                    />
+                  )}
+                  {record.voidStatus === VOID_STATUS.REQUESTED ? (
+                    <VoidRequestNotice
+                      reason={record.voidReason}
+                      onReview={(approve) => reviewIncomeVoid(orderRecord._id, approve)}
+                      onReviewed={onFormSuccess}
+                    />
+                  ) : (
+                    <VoidRecordDialog label="order" onConfirm={(reason) => onVoid(row.original._id, reason)} />
+                  )}
                 </div>
               )}
             </>
@@ -276,6 +272,6 @@ export function useIncomeColumns({ expandedGroups, toggleGroupExpansion,  onForm
         enableSorting: false,
       },
     ],
-    [toggleGroupExpansion, expandedGroups, onFormSuccess, onDelete],
+    [toggleGroupExpansion, expandedGroups, onFormSuccess, onVoid, canEdit],
   )
 }
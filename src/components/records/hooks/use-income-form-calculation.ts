@@ -3,85 +3,85 @@
 import { useCallback, useEffect } from "react"
 import type { UseFormReturn } from "react-hook-form"
 import type { IncomeRecordInput } from "@/lib/validations"
+import { calculateOrderTax, type TaxSettings } from "@/lib/tax"
+import { PAYMENT_METHOD, PAYMENT_STATUS } from "@/lib/constants"
 
 // Income Form Calculations Hook
-// Handles subtotal, discount, tip, total, and split payment calculations
+// Handles subtotal, discount, tip, tax lines, total, and split payment calculations
 
 interface UseIncomeFormCalculationsProps {
   form: UseFormReturn<IncomeRecordInput>
-  showDiscount: boolean
-  showTip: boolean
   isSplitPayment: boolean
+  taxSettings: TaxSettings
 }
 
-export function useIncomeFormCalculations({ form, showDiscount, showTip, isSplitPayment }: UseIncomeFormCalculationsProps) {
+const silent = { shouldValidate: false, shouldDirty: false }
+
+export function useIncomeFormCalculations({ form, isSplitPayment, taxSettings }: UseIncomeFormCalculationsProps) {
   const calculateTotals = useCallback(() => {
-    const currentItems = form.getValues("items")
-    if (!currentItems || currentItems.length === 0) return
+    const items = form.getValues("items") || []
+    const subtotal = items.reduce((sum, item) => sum + (Number(item?.quantity) || 0) * (Number(item?.price) || 0), 0)
 
-    const subtotal = currentItems.reduce((sum, item) => {
-      const quantity = Number(item?.quantity) || 0
-      const price = Number(item?.price) || 0
-      return sum + quantity * price
-    }, 0)
+    const discount = Number(form.getValues("discount")) || 0
+    const tip = Number(form.getValues("tip")) || 0
+    const { taxes, taxTotal, taxInclusive, totalAmount } = calculateOrderTax(items, discount, tip, taxSettings)
 
-    form.setValue("subtotal", Number(subtotal.toFixed(2)))
+    // Use silent updates to prevent triggering watchers
+    if (Math.abs(form.getValues("subtotal") - subtotal) > 0.01) {
+      form.setValue("subtotal", Number(subtotal.toFixed(2)), silent)
+    }
 
-    const discountAmount = showDiscount ? Number(form.getValues("discount")) || 0 : 0
-    const tipAmount = showTip ? Number(form.getValues("tip")) || 0 : 0
-    const total = subtotal - discountAmount + tipAmount
+    if (Math.abs(form.getValues("totalAmount") - totalAmount) > 0.01) {
+      form.setValue("totalAmount", totalAmount, silent)
+    }
 
-    form.setValue("totalAmount", Number(total.toFixed(2)))
+    if (JSON.stringify(form.getValues("taxes") || []) !== JSON.stringify(taxes)) {
+      form.setValue("taxes", taxes, silent)
+      form.setValue("taxTotal", taxTotal, silent)
+      form.setValue("taxInclusive", taxInclusive, silent)
+    }
 
-    // Handle split payment logic
+    // Handle split payment
     if (isSplitPayment) {
-      form.setValue("paymentMethod", "split")
+      if (form.getValues("paymentMethod") !== PAYMENT_METHOD.SPLIT) {
+        form.setValue("paymentMethod", PAYMENT_METHOD.SPLIT, silent)
+      }
       const cashAmount = Number(form.getValues("cashAmount")) || 0
       const digitalAmount = Number(form.getValues("digitalAmount")) || 0
-      const totalPaid = cashAmount + digitalAmount
-
-      if (totalPaid >= total) {
-        form.setValue("paymentStatus", "completed")
-      } else if (totalPaid > 0) {
-        form.setValue("paymentStatus", "pending")
-      } else {
-        form.setValue("paymentStatus", "pending")
-      }
-    } else {
-      form.setValue("cashAmount", 0)
-      form.setValue("digitalAmount", 0)
-      const currentPaymentMethod = form.getValues("paymentMethod")
-      if (currentPaymentMethod === "split") {
-        form.setValue("paymentMethod", "cash")
+      const newStatus = cashAmount + digitalAmount >= totalAmount ? PAYMENT_STATUS.COMPLETED : PAYMENT_STATUS.PENDING
+      if (form.getValues("paymentStatus") !== newStatus) {
+        form.setValue("paymentStatus", newStatus, silent)
       }
     }
-  }, [form, showDiscount, showTip, isSplitPayment])
+  }, [form, isSplitPayment, taxSettings])
 
-  // Watch for changes and recalculate - fix the watch logic
+  // Recalculate when items or amounts change
   useEffect(() => {
-    const subscription = form.watch((value, { name, type }) => {
+    const subscription = form.watch((value, { name }) => {
       if (
-        (name?.startsWith("items.") &&
-          (name.includes(".quantity") || name.includes(".price") || name.includes(".name"))) ||
-        name === "discount" ||
-        name === "tip" ||
-        name === "cashAmount" ||
-        name === "digitalAmount" ||
-        type === "change"
+        name &&
+        !name.includes("subtotal") &&
+        !name.includes("totalAmount") &&
+        (name.startsWith("items") ||
+          name === "discount" ||
+          name === "tip" ||
+          name === "cashAmount" ||
+          name === "digitalAmount")
       ) {
-        // Use requestAnimationFrame for better performance
-        requestAnimationFrame(() => {
+        // Use setTimeout to prevent immediate recursion
+        setTimeout(() => {
           calculateTotals()
-        })
+        }, 10)
       }
     })
+
     return () => subscription.unsubscribe()
   }, [form, calculateTotals])
 
-  // Add immediate calculation trigger
+  // Tax settings load asynchronously and split payment changes the status rules
   useEffect(() => {
     calculateTotals()
-  }, [showDiscount, showTip, isSplitPayment, calculateTotals])
+  }, [calculateTotals])
 
   return { calculateTotals }
 }
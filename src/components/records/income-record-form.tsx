@@ -22,6 +22,14 @@ import { formatCurrency } from "@/lib/utils"
 import { useOffline } from "../../hooks/use-offline"
 import type { IncomeRecord } from "@/types"
 import { PAYMENT_METHOD, PAYMENT_STATUS } from "@/lib/constants"
+import { DEFAULT_TAX_SETTINGS, orderTaxSettings, type TaxSettings } from "@/lib/tax"
+import { buildReceipt, printReceipt, type ReceiptWidth } from "@/lib/receipt"
+import { useIncomeFormCalculations } from "./hooks/use-income-form-calculation"
+import { PrepStatusBadge } from "@/components/kitchen/prep-status-badge"
+import { MenuItemOptionsPicker, type OptionsSelection } from "./menu-item-options-picker"
+import { describeOptions, hasOptions, sameOptions } from "@/lib/menu-options"
+import { activePriceRule, isScheduledAvailable, rulePrice, type MenuRuleWindow } from "@/lib/menu-rules"
+import type { MenuVariant, ModifierGroup } from "@/types"
 
 interface IncomeRecordFormProps {
   record?: IncomeRecord
@@ -54,6 +62,9 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
     price: number
     category: string
     actualCategory: string
+    variants: MenuVariant[]
+    modifierGroups: ModifierGroup[]
+    rules: MenuRuleWindow[]
   }
 
   interface MenuItemsState {
@@ -62,7 +73,13 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
   }
 
   const [menuItems, setMenuItems] = useState<MenuItemsState>({ category: [], items: {} })
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(DEFAULT_TAX_SETTINGS)
+  const [receiptPreferences, setReceiptPreferences] = useState<{ width: ReceiptWidth; printAfterSave: boolean }>({
+    width: 80,
+    printAfterSave: false,
+  })
   const [searchQuery, setSearchQuery] = useState("")
+  const [optionsItem, setOptionsItem] = useState<MenuItemInfo | null>(null)
 
   const fetchMenuItems = async () => {
     try {
@@ -70,9 +87,15 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
 
       // EFFICIENCY FIX: Single-pass grouping O(n) instead of O(n²)
       const itemMap: Record<string, MenuItemInfo[]> = {}
+      const now = new Date()
 
       // Group items by category in a single pass
       for (const item of data as any[]) {
+        // Items switched off by hand or because an ingredient ran out can't be ordered
+        if (item.isAvailable === false) continue
+        // Schedules are checked on the device, so cached items drop off the grid offline too
+        if (!isScheduledAvailable(item.rules, now)) continue
+
         const category = item.incomeCategory || item.category
         if (!itemMap[category]) {
           itemMap[category] = []
@@ -83,6 +106,9 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
           price: Number(item.price) || 0,
           category: category,
           actualCategory: item.category,
+          variants: item.variants || [],
+          modifierGroups: item.modifierGroups || [],
+          rules: item.rules || [],
         })
       }
 
@@ -144,6 +170,9 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
       items: record?.items || [{ name: "", quantity: 1, price: 0, category: "", menuItemId: "" }],
       totalAmount: record?.totalAmount || 0,
       subtotal: record?.subtotal || 0,
+      taxes: record?.taxes || [],
+      taxTotal: record?.taxTotal || 0,
+      taxInclusive: record?.taxInclusive || false,
       discount: record?.discount || 0,
       tip: record?.tip || 0,
       paymentMethod: (record?.paymentMethod as any) || PAYMENT_METHOD.CASH,
@@ -198,65 +227,11 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
     setEditingItems(new Set())
   }, [])
 
-  // Replace the existing calculateTotals function with this one
-  const calculateTotals = useCallback(() => {
-    const items = form.getValues("items")
-    const subtotal = items.reduce((sum, item) => sum + (Number(item?.quantity) || 0) * (Number(item?.price) || 0), 0)
-
-    const discount = Number(form.getValues("discount")) || 0
-    const tip = Number(form.getValues("tip")) || 0
-    const total = subtotal - discount + tip
-
-    // Use silent updates to prevent triggering watchers
-    const currentSubtotal = form.getValues("subtotal")
-    const currentTotal = form.getValues("totalAmount")
-
-    if (Math.abs(currentSubtotal - subtotal) > 0.01) {
-      form.setValue("subtotal", Number(subtotal.toFixed(2)), { shouldValidate: false, shouldDirty: false })
-    }
-
-    if (Math.abs(currentTotal - total) > 0.01) {
-      form.setValue("totalAmount", Number(total.toFixed(2)), { shouldValidate: false, shouldDirty: false })
-    }
-
-    // Handle split payment
-    if (formState.isSplitPayment) {
-      if (form.getValues("paymentMethod") !== PAYMENT_METHOD.SPLIT) {
-        form.setValue("paymentMethod", PAYMENT_METHOD.SPLIT, { shouldValidate: false, shouldDirty: false })
-      }
-      const cashAmount = Number(form.getValues("cashAmount")) || 0
-      const digitalAmount = Number(form.getValues("digitalAmount")) || 0
-      const newStatus = cashAmount + digitalAmount >= total ? PAYMENT_STATUS.COMPLETED : PAYMENT_STATUS.PENDING
-      if (form.getValues("paymentStatus") !== newStatus) {
-        form.setValue("paymentStatus", newStatus, { shouldValidate: false, shouldDirty: false })
-      }
-    }
-  }, [form, formState.isSplitPayment])
-
-  // Replace the existing useEffect with this improved version
-  useEffect(() => {
-    const subscription = form.watch((value, { name }) => {
-      // Trigger on any items array changes or specific field changes
-      if (
-        name &&
-        !name.includes("subtotal") &&
-        !name.includes("totalAmount") &&
-        (name.startsWith("items") ||
-          name === "discount" ||
-          name === "tip" ||
-          name === "cashAmount" ||
-          name === "digitalAmount")
-      ) {
-        // Use setTimeout to prevent immediate recursion
-        const timeoutId = setTimeout(() => {
-          calculateTotals()
-        }, 10)
-        return () => clearTimeout(timeoutId)
-      }
-    })
-
-    return () => subscription.unsubscribe()
-  }, [form, calculateTotals])
+  const { calculateTotals } = useIncomeFormCalculations({
+    form,
+    isSplitPayment: formState.isSplitPayment,
+    taxSettings,
+  })
 
   // Add a separate effect to watch for items array changes
   useEffect(() => {
@@ -269,6 +244,9 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
     const fetchDueAccounts = async () => {
       try {
         fetchMenuItems()
+        OfflineAPI.getReceiptPreferences().then((preferences) => {
+          if (isMounted) setReceiptPreferences(preferences)
+        })
         const accounts = await OfflineAPI.getDueAccounts()
         if (isMounted) {
           setDueAccounts(accounts || [])
@@ -283,6 +261,17 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
     }
   }, [])
 
+  // Existing orders keep the tax rates they were charged at
+  useEffect(() => {
+    let isMounted = true
+    OfflineAPI.getTaxSettings().then((settings) => {
+      if (isMounted) setTaxSettings(record ? orderTaxSettings(record, settings) : settings)
+    })
+    return () => {
+      isMounted = false
+    }
+  }, [record])
+
   // Initialize form state from record
   useEffect(() => {
     if (record) {
@@ -303,7 +292,10 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
 
   // Quick add menu item with better keyboard control
   const addMenuItem = useCallback(
-    (menuItem: { name: string; price: number; actualCategory: string; _id: string }) => {
+    (
+      menuItem: { name: string; price: number; actualCategory: string; _id: string; rules: MenuRuleWindow[] },
+      options?: OptionsSelection,
+    ) => {
       // Prevent any input focus and keyboard popup
       const activeElement = document.activeElement as HTMLElement
       if (activeElement && (activeElement.tagName === "INPUT" || activeElement.tagName === "TEXTAREA")) {
@@ -311,7 +303,27 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
       }
 
       const currentItems = form.getValues("items")
-      const existingIndex = currentItems.findIndex((item) => item.name.toLowerCase() === menuItem.name.toLowerCase())
+      const selection = { variant: options?.variant, modifiers: options?.modifiers }
+      // A happy hour in effect now discounts the item, options included
+      const rule = activePriceRule(menuItem.rules, new Date())
+      const priceRule = rule && { name: rule.name, discountPercent: rule.discountPercent || 0 }
+      // The same item with other options, or at another rule's price, goes on its own line
+      const existingIndex = currentItems.findIndex(
+        (item) =>
+          item.name.toLowerCase() === menuItem.name.toLowerCase() &&
+          sameOptions(item, selection) &&
+          item.priceRule?.name === priceRule?.name,
+      )
+      const newItem = {
+        name: menuItem.name,
+        quantity: 1,
+        price: rulePrice(options?.price ?? menuItem.price, priceRule),
+        category: menuItem.actualCategory,
+        menuItemId: menuItem._id,
+        ...(options?.variant && { variant: options.variant }),
+        ...(options?.modifiers.length && { modifiers: options.modifiers }),
+        ...(priceRule && { priceRule }),
+      }
 
       if (existingIndex !== -1) {
         const existingItem = currentItems[existingIndex]
@@ -325,10 +337,10 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
 
         if (emptyIndex !== -1) {
           // Replace the first empty item
-          update(emptyIndex, { name: menuItem.name, quantity: 1, price: menuItem.price, category: menuItem.actualCategory, menuItemId: menuItem._id })
+          update(emptyIndex, newItem)
         } else {
           // No empty items, append new one
-          append({ name: menuItem.name, quantity: 1, price: menuItem.price, category: menuItem.actualCategory, menuItemId: menuItem._id })
+          append(newItem)
         }
       }
 
@@ -373,6 +385,10 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
       toast.success(`${message} ${isOnline ? "successfully!" : "offline - will sync when online"}`)
 
       if (result?.success) {
+        if (receiptPreferences.printAfterSave && result.record) {
+          const organization = await OfflineAPI.getReceiptOrganization()
+          printReceipt(buildReceipt(result.record, organization, receiptPreferences.width), receiptPreferences.width)
+        }
         if (!record) {
           form.reset({
             ...defaultValues,
@@ -396,6 +412,8 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
   const subtotal = form.watch("subtotal") || 0
   const discount = form.watch("discount") || 0
   const tip = form.watch("tip") || 0
+  const taxes = form.watch("taxes") || []
+  const taxInclusive = form.watch("taxInclusive") || false
 
   return (
     <div className="w-full space-y-6">
@@ -518,10 +536,11 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
 
                   <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2">
                   {items.map((item) => {
-                    const existingItem = watchedItems?.find(
-                      (watchedItem) => watchedItem.name.toLowerCase() === item.name.toLowerCase(),
-                    );
-                    const currentQuantity = existingItem?.quantity || 0;
+                    // Lines of the item in every variant count toward its badge
+                    const currentQuantity = (watchedItems || [])
+                      .filter((watchedItem) => watchedItem.name.toLowerCase() === item.name.toLowerCase())
+                      .reduce((sum, watchedItem) => sum + (watchedItem.quantity || 0), 0);
+                    const priceRule = activePriceRule(item.rules, new Date());
 
                     return (
                       <Button
@@ -532,7 +551,11 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
                         onClick={(e) => {
                           e.preventDefault();
                           e.stopPropagation();
-                          addMenuItem(item);
+                          if (hasOptions(item)) {
+                            setOptionsItem(item);
+                          } else {
+                            addMenuItem(item);
+                          }
                         }}
                         onTouchStart={(e) => e.preventDefault()}
                         className="justify-start text-left h-auto p-2 relative bg-white hover:bg-blue-50 border-gray-200 touch-manipulation"
@@ -540,7 +563,16 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
                       >
                         <div className="w-full pointer-events-none">
                           <div className="font-medium text-xs truncate">{item.name}</div>
-                          <div className="text-xs text-muted-foreground">{formatCurrency(item.price)}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {priceRule ? (
+                              <>
+                                <span className="line-through mr-1">{formatCurrency(item.price)}</span>
+                                <span className="text-green-600">{formatCurrency(rulePrice(item.price, priceRule))}</span>
+                              </>
+                            ) : (
+                              formatCurrency(item.price)
+                            )}
+                          </div>
                           {currentQuantity > 0 && (
                             <Badge
                               variant="default"
@@ -643,6 +675,16 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
                                   tabIndex={shouldShowReadonly ? -1 : 0}
                                 />
                               </FormControl>
+                              {describeOptions(watchedItems[index] || {}) && (
+                                <p className="text-xs text-muted-foreground truncate">
+                                  {describeOptions(watchedItems[index])}
+                                </p>
+                              )}
+                              {watchedItems[index]?.priceRule && (
+                                <p className="text-xs text-green-600 truncate">
+                                  {watchedItems[index].priceRule.name} -{watchedItems[index].priceRule.discountPercent}%
+                                </p>
+                              )}
                               <FormMessage />
                             </FormItem>
                           )}
@@ -714,6 +756,16 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
                         <div className="text-lg font-bold text-green-600">
                           {formatCurrency((watchedItems[index]?.quantity || 0) * (watchedItems[index]?.price || 0))}
                         </div>
+                        {/* Kitchen progress of items already on the saved order */}
+                        {record && !isEmptyItem && (
+                          <PrepStatusBadge
+                            status={
+                              record.items.find(
+                                (item) => item.name === watchedItems[index]?.name && sameOptions(item, watchedItems[index]),
+                              )?.prepStatus
+                            }
+                          />
+                        )}
                       </div>
 
                       {/* Action buttons */}
@@ -871,6 +923,17 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
                 <span>-{formatCurrency(discount)}</span>
               </div>
             )}
+            {taxes.map((tax) => (
+              <div key={tax.type} className="flex justify-between text-muted-foreground">
+                <span>
+                  {tax.name} ({tax.rate}%{taxInclusive ? ", included" : ""}):
+                </span>
+                <span>
+                  {taxInclusive ? "" : "+"}
+                  {formatCurrency(tax.amount)}
+                </span>
+              </div>
+            ))}
             {tip > 0 && (
               <div className="flex justify-between text-blue-600">
                 <span>Tip:</span>
@@ -1086,11 +1149,29 @@ export function IncomeRecordForm({ record, onSuccess }: IncomeRecordFormProps) {
             </CollapsibleContent>
           </Collapsible>
 
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={receiptPreferences.printAfterSave}
+              onCheckedChange={(checked) => {
+                const preferences = { ...receiptPreferences, printAfterSave: checked === true }
+                setReceiptPreferences(preferences)
+                OfflineAPI.setReceiptPreferences(preferences).catch(() => {})
+              }}
+            />
+            Print receipt after saving
+          </label>
+
           <Button type="submit" disabled={isLoading} className="w-full">
             {isLoading ? "Saving..." : record ? "Update Order" : "Create Order"}
           </Button>
         </form>
       </Form>
+
+      <MenuItemOptionsPicker
+        item={optionsItem}
+        onOpenChange={(open) => !open && setOptionsItem(null)}
+        onAdd={(selection) => optionsItem && addMenuItem(optionsItem, selection)}
+      />
     </div>
   )
 }
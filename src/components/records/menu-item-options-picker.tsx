@@ -0,0 +1,139 @@
+"use client"
+
+// Component - Dialog for choosing a menu item's variant and modifiers before it is added to an order
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { formatCurrency } from "@/lib/utils"
+import { modifierSelectionError, optionsPrice } from "@/lib/menu-options"
+import type { MenuVariant, ModifierGroup, ModifierOption, OrderItemModifier } from "@/types"
+
+export interface OptionsPickerItem {
+  name: string
+  price: number
+  variants?: MenuVariant[]
+  modifierGroups?: ModifierGroup[]
+}
+
+export interface OptionsSelection {
+  variant?: string
+  modifiers: OrderItemModifier[]
+  price: number
+}
+
+interface MenuItemOptionsPickerProps {
+  item: OptionsPickerItem | null
+  onOpenChange: (open: boolean) => void
+  onAdd: (selection: OptionsSelection) => void
+}
+
+export function MenuItemOptionsPicker({ item, onOpenChange, onAdd }: MenuItemOptionsPickerProps) {
+  const [variantName, setVariantName] = useState("")
+  const [modifiers, setModifiers] = useState<OrderItemModifier[]>([])
+
+  useEffect(() => {
+    if (!item) return
+    setVariantName(item.variants?.[0]?.name || "")
+    setModifiers([])
+  }, [item])
+
+  const variants = item?.variants || []
+  const groups = item?.modifierGroups || []
+  const variant = variants.find((candidate) => candidate.name === variantName)
+  const price = optionsPrice(item?.price || 0, variant, modifiers)
+  const selectionError = modifierSelectionError(groups, modifiers)
+
+  const isChosen = (group: ModifierGroup, option: ModifierOption) =>
+    modifiers.some((modifier) => modifier.group === group.name && modifier.name === option.name)
+
+  // Groups allowing one choice swap it; the rest toggle each option
+  const chooseOption = (group: ModifierGroup, option: ModifierOption, chosen: boolean) => {
+    const modifier = { group: group.name, name: option.name, priceDelta: option.priceDelta }
+    setModifiers((current) => {
+      if (group.maxSelect === 1) {
+        return [...current.filter((existing) => existing.group !== group.name), ...(chosen ? [modifier] : [])]
+      }
+      const others = current.filter((existing) => !(existing.group === group.name && existing.name === option.name))
+      return chosen ? [...others, modifier] : others
+    })
+  }
+
+  const handleAdd = () => {
+    if (selectionError) return
+    onAdd({ variant: variant?.name, modifiers, price })
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={item !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{item?.name}</DialogTitle>
+          <DialogDescription>Choose how this item is ordered</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {variants.length > 0 && (
+            <div className="space-y-2">
+              <Label className="font-semibold">Variant</Label>
+              <RadioGroup value={variantName} onValueChange={setVariantName}>
+                {variants.map((candidate) => (
+                  <Label key={candidate.name} className="flex items-center justify-between font-normal cursor-pointer">
+                    <span className="flex items-center gap-2">
+                      <RadioGroupItem value={candidate.name} />
+                      {candidate.name}
+                    </span>
+                    <span className="text-muted-foreground">{formatCurrency(candidate.price)}</span>
+                  </Label>
+                ))}
+              </RadioGroup>
+            </div>
+          )}
+
+          {groups.map((group) => (
+            <div key={group.name} className="space-y-2">
+              <Label className="font-semibold">
+                {group.name}
+                <span className="ml-2 text-xs font-normal text-muted-foreground">
+                  {group.minSelect > 0 ? "Required" : "Optional"}
+                  {group.maxSelect > 1 && ` · up to ${group.maxSelect}`}
+                </span>
+              </Label>
+              {group.options.map((option) => (
+                <Label key={option.name} className="flex items-center justify-between font-normal cursor-pointer">
+                  <span className="flex items-center gap-2">
+                    <Checkbox
+                      checked={isChosen(group, option)}
+                      onCheckedChange={(checked) => chooseOption(group, option, checked === true)}
+                    />
+                    {option.name}
+                  </span>
+                  {option.priceDelta !== 0 && (
+                    <span className="text-muted-foreground">
+                      {option.priceDelta > 0 ? "+" : "-"}
+                      {formatCurrency(Math.abs(option.priceDelta))}
+                    </span>
+                  )}
+                </Label>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        {selectionError && <p className="text-sm text-destructive">{selectionError}</p>}
+
+        <div className="flex gap-2 pt-4">
+          <Button type="button" onClick={handleAdd} className="flex-1" disabled={Boolean(selectionError)}>
+            Add · {formatCurrency(price)}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
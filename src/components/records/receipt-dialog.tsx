@@ -0,0 +1,115 @@
+"use client"
+
+// Receipt Dialog - Preview and print an order's receipt or kitchen ticket
+import type React from "react"
+import { useState, useEffect, useMemo } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Printer, Download } from "lucide-react"
+import { OfflineAPI } from "@/lib/offline/offline-api"
+import {
+  buildReceipt,
+  buildKitchenTicket,
+  downloadEscPos,
+  printReceipt,
+  renderReceiptHtml,
+  type ReceiptOrganization,
+  type ReceiptWidth,
+} from "@/lib/receipt"
+import type { IncomeRecord } from "@/types"
+
+interface ReceiptDialogProps {
+  record: IncomeRecord
+  trigger?: React.ReactNode
+}
+
+export function ReceiptDialog({ record, trigger }: ReceiptDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [kind, setKind] = useState<"receipt" | "kitchen">("receipt")
+  const [width, setWidth] = useState<ReceiptWidth>(80)
+  const [organization, setOrganization] = useState<ReceiptOrganization>({ name: "" })
+
+  useEffect(() => {
+    if (!open) return
+    OfflineAPI.getReceiptOrganization().then(setOrganization)
+    OfflineAPI.getReceiptPreferences().then((preferences) => setWidth(preferences.width))
+  }, [open])
+
+  const lines = useMemo(
+    () => (kind === "receipt" ? buildReceipt(record, organization, width) : buildKitchenTicket(record, width)),
+    [kind, record, organization, width],
+  )
+
+  const handleWidthChange = async (value: string) => {
+    const newWidth = Number(value) as ReceiptWidth
+    setWidth(newWidth)
+    const preferences = await OfflineAPI.getReceiptPreferences()
+    await OfflineAPI.setReceiptPreferences({ ...preferences, width: newWidth }).catch(() => {})
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline" size="sm" title="Print receipt">
+            <Printer className="h-4 w-4" />
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-md max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Print</DialogTitle>
+          <DialogDescription>Preview of the thermal printout for this order.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-4">
+          <Tabs value={kind} onValueChange={(value) => setKind(value as "receipt" | "kitchen")} className="flex-1">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="receipt">Receipt</TabsTrigger>
+              <TabsTrigger value="kitchen">Kitchen Ticket</TabsTrigger>
+            </TabsList>
+          </Tabs>
+          <div className="w-28">
+            <Label className="mb-2">Paper</Label>
+            <Select value={String(width)} onValueChange={handleWidthChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="58">58 mm</SelectItem>
+                <SelectItem value="80">80 mm</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex justify-center rounded-lg border bg-muted p-4">
+          <iframe
+            title="Receipt preview"
+            srcDoc={renderReceiptHtml(lines, width)}
+            className="bg-white shadow-sm"
+            style={{ width: `${width}mm`, height: "60vh" }}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button className="flex-1" onClick={() => printReceipt(lines, width)}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+          <Button
+            variant="outline"
+            title="Raw ESC/POS bytes for printers without a system driver"
+            onClick={() => downloadEscPos(lines, `${kind}-${record._id.slice(-6)}.bin`)}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            ESC/POS
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -2,55 +2,81 @@
 
 // Expense Record Table - Data table for expense records with sorting, filtering, and pagination
 import { useState } from "react"
+import { useSession } from "next-auth/react"
 import { useReactTable, getCoreRowModel, getFilteredRowModel, getSortedRowModel, getPaginationRowModel, flexRender, type SortingState, type ColumnFiltersState } from "@tanstack/react-table"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { ExpenseRecordDialog } from "@/components/records/expense-record-dialog"
+import { VoidRecordDialog } from "@/components/records/void-record-dialog"
+import { VoidRequestNotice } from "@/components/records/void-request-notice"
+import { reviewExpenseVoid } from "@/app/actions/expense-records"
 import { OfflineAPI } from "@/lib/offline/offline-api"
-import { Search, RefreshCw, WifiOff, Trash2, Edit, Tag } from "lucide-react"
+import { VOID_STATUS } from "@/lib/constants"
+import { PERMISSIONS, hasPermission } from "@/lib/permissions"
+import { Search, RefreshCw, WifiOff, Ban, Edit, Tag } from "lucide-react"
 import { toast } from "sonner"
 import type { ExpenseRecord } from "@/types"
+import type { ExpenseRecordFilters } from "@/lib/record-filters"
 import { useExpenseColumns } from "../hooks/use-expense-columns"
 import { TablePagination } from "./table-pagination"
+import { LoadMoreRecords } from "./load-more-records"
+import { RecordFiltersBar } from "./record-filters-bar"
+import { VoidedRecordsTable } from "./voided-records-table"
 import { formatCurrency } from "@/lib/utils"
-import { AlertDialog, AlertDialogContent, AlertDialogTrigger, AlertDialogHeader, AlertDialogTitle, AlertDialogDescription, AlertDialogFooter, AlertDialogCancel, AlertDialogAction } from "@/components/ui/alert-dialog"
 
 interface ExpenseRecordsTableProps {
   records: ExpenseRecord[]
   isLoading: boolean
   onRefresh: () => Promise<void>
-  onFetchAll: () => Promise<void>
+  // Server-side filters; changing them reloads the first page
+  filters: ExpenseRecordFilters
+  onFiltersChange: (filters: ExpenseRecordFilters) => void
+  total?: number
+  hasMore: boolean
+  isLoadingMore: boolean
+  onLoadMore: () => Promise<void>
   onFormSuccess: () => Promise<void>
   isOnline: boolean
 }
 
-export function ExpenseRecordsTable({ records, isLoading, onRefresh, onFetchAll, onFormSuccess, isOnline }: ExpenseRecordsTableProps) {
+export function ExpenseRecordsTable({ records, isLoading, onRefresh, onFormSuccess, isOnline, filters, onFiltersChange, total, hasMore, isLoadingMore, onLoadMore }: ExpenseRecordsTableProps) {
+  const { data: session } = useSession()
+  const canEdit = hasPermission(session?.user?.permissions, PERMISSIONS.EXPENSES_CREATE)
   const [sorting, setSorting] = useState<SortingState>([])
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
   const [globalFilter, setGlobalFilter] = useState("")
+  const [view, setView] = useState<"active" | "requests" | "voided">("active")
 
-  const handleDeleteExpense = async (id: string) => {
+  const handleVoidExpense = async (id: string, reason: string) => {
     try {
-      await OfflineAPI.deleteExpenseRecord(id)
-      const message = isOnline ? "Expense deleted successfully" : "Expense deleted offline - will sync when online"
+      const result = await OfflineAPI.voidExpenseRecord(id, reason)
+      const message = !isOnline
+        ? "Expense voided offline - will sync when online"
+        : result.voided === false
+        ? "Void requested - it needs to be approved"
+        : "Expense voided"
       toast.success(message)
       await onRefresh()
     } catch (error) {
-      toast.error("Failed to delete expense")
-      console.error("Error deleting expense:", error)
+      toast.error("Failed to void expense")
+      console.error("Error voiding expense:", error)
     }
   }
 
+  const voidRequests = records.filter((record) => record.voidStatus === VOID_STATUS.REQUESTED)
+
   const columns = useExpenseColumns({
     onFormSuccess,
-    onDelete: handleDeleteExpense,
+    onVoid: handleVoidExpense,
+    canEdit,
   })
 
   const table = useReactTable({
-    data: records,
+    data: view === "requests" ? voidRequests : records,
     columns,
     state: {
       sorting,
@@ -64,6 +90,8 @@ export function ExpenseRecordsTable({ records, isLoading, onRefresh, onFetchAll,
     getFilteredRowModel: getFilteredRowModel(),
     getSortedRowModel: getSortedRowModel(),
     getPaginationRowModel: getPaginationRowModel(),
+    // Loading an older page appends rows, which shouldn't send the user back to the first page
+    autoResetPageIndex: false,
     initialState: {
       pagination: {
         pageSize: 10,
@@ -71,6 +99,21 @@ export function ExpenseRecordsTable({ records, isLoading, onRefresh, onFetchAll,
     },
   })
 
+  const handleFiltersChange = (next: ExpenseRecordFilters) => {
+    table.setPageIndex(0)
+    onFiltersChange(next)
+  }
+
+  const loadMore = (
+    <LoadMoreRecords
+      loaded={records.length}
+      total={total}
+      hasMore={hasMore}
+      isLoading={isLoadingMore}
+      onLoadMore={onLoadMore}
+    />
+  )
+
   const renderMobileCard = (record: ExpenseRecord) => {
     return (
       <Card key={record._id} className="mb-2">
@@ -101,39 +144,36 @@ export function ExpenseRecordsTable({ records, isLoading, onRefresh, onFetchAll,
               <div className="font-bold text-sm text-red-600">-{formatCurrency(record.amount)}</div>
 
               <div className="flex gap-1">
-                <ExpenseRecordDialog
-                  record={record}
-                  onSuccess={onFormSuccess}
-                  mode="edit"
-                  trigger={
-                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
-                      <Edit className="h-3 w-3" />
-                    </Button>
-                  }
-                />
+                {canEdit && (
+                  <ExpenseRecordDialog
+                    record={record}
+                    onSuccess={onFormSuccess}
+                    mode="edit"
+                    trigger={
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+                        <Edit className="h-3 w-3" />
+                      </Button>
+                    }
+                  />
+                )}
 
-                <AlertDialog>
-                  <AlertDialogTrigger asChild>
-                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-red-600 hover:text-red-700">
-                      <Trash2 className="h-3 w-3" />
-                    </Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Delete Expense?</AlertDialogTitle>
-                      <AlertDialogDescription>This action cannot be undone.</AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel>Cancel</AlertDialogCancel>
-                      <AlertDialogAction
-                        onClick={() => handleDeleteExpense(record._id)}
-                        className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                      >
-                        Delete
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                {record.voidStatus === VOID_STATUS.REQUESTED ? (
+                  <VoidRequestNotice
+                    reason={record.voidReason}
+                    onReview={(approve) => reviewExpenseVoid(record._id, approve)}
+                    onReviewed={onFormSuccess}
+                  />
+                ) : (
+                  <VoidRecordDialog
+                    label="expense"
+                    onConfirm={(reason) => handleVoidExpense(record._id, reason)}
+                    trigger={
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-red-600 hover:text-red-700">
+                        <Ban className="h-3 w-3" />
+                      </Button>
+                    }
+                  />
+                )}
               </div>
             </div>
           </div>
@@ -165,111 +205,127 @@ export function ExpenseRecordsTable({ records, isLoading, onRefresh, onFetchAll,
             <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
             Refresh
           </Button>
+          <Select value={view} onValueChange={(value) => setView(value as typeof view)}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Active expenses</SelectItem>
+              <SelectItem value="requests">Void requests ({voidRequests.length})</SelectItem>
+              <SelectItem value="voided">Voided</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
-        <div className="w-full sm:w-auto">
-          <ExpenseRecordDialog onSuccess={onFormSuccess} mode="create" />
-        </div>
-      </div>
-
-      {/* Mobile View (hidden on md and up) */}
-      <div className="block md:hidden">
-        <div className="mb-3">
-          <h2 className="text-lg font-semibold">Expenses ({table.getFilteredRowModel().rows.length})</h2>
-        </div>
-
-        {isLoading ? (
-          <div className="flex justify-center items-center py-8">
-            <RefreshCw className="h-6 w-6 animate-spin mr-2" />
-            Loading...
+        {canEdit && (
+          <div className="w-full sm:w-auto">
+            <ExpenseRecordDialog onSuccess={onFormSuccess} mode="create" />
           </div>
-        ) : (
-          <>
-            <div className="space-y-2">
-              {table.getRowModel().rows?.length ? (
-                table.getRowModel().rows.map((row) => renderMobileCard(row.original))
-              ) : (
-                <Card>
-                  <CardContent className="p-6 text-center">
-                    <p className="text-gray-500 text-sm">No results found.</p>
-                  </CardContent>
-                </Card>
-              )}
-            </div>
-            <div className="mt-3">
-              <TablePagination table={table} />
-            </div>
-          </>
         )}
       </div>
 
-      {/* Desktop View (hidden on mobile) */}
-      <div className="hidden md:block">
-        <Card>
-          <CardHeader>
-            <div className="flex items-center justify-between">
-              <CardTitle>Expense Records</CardTitle>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={onFetchAll}
-                disabled={isLoading}
-                className="bg-transparent"
-              >
-                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
-                Fetch all
-              </Button>
+      {view !== "voided" && (
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <RecordFiltersBar type="expense" filters={filters} onChange={handleFiltersChange} />
+          </CardContent>
+        </Card>
+      )}
+
+      {view === "voided" ? (
+        <VoidedRecordsTable type="expense" onRestored={onRefresh} />
+      ) : (
+        <>
+          {/* Mobile View (hidden on md and up) */}
+          <div className="block md:hidden">
+            <div className="mb-3">
+              <h2 className="text-lg font-semibold">Expenses ({table.getFilteredRowModel().rows.length})</h2>
             </div>
-          </CardHeader>
-          <CardContent>
+
             {isLoading ? (
               <div className="flex justify-center items-center py-8">
                 <RefreshCw className="h-6 w-6 animate-spin mr-2" />
-                Loading records...
+                Loading...
               </div>
             ) : (
               <>
-                <div className="rounded-md border">
-                  <Table>
-                    <TableHeader>
-                      {table.getHeaderGroups().map((headerGroup) => (
-                        <TableRow key={headerGroup.id}>
-                          {headerGroup.headers.map((header) => (
-                            <TableHead key={header.id}>
-                              {header.isPlaceholder
-                                ? null
-                                : flexRender(header.column.columnDef.header, header.getContext())}
-                            </TableHead>
-                          ))}
-                        </TableRow>
-                      ))}
-                    </TableHeader>
-                    <TableBody>
-                      {table.getRowModel().rows?.length ? (
-                        table.getRowModel().rows.map((row) => (
-                          <TableRow key={row.id} data-state={row.getIsSelected() && "selected"}>
-                            {row.getVisibleCells().map((cell) => (
-                              <TableCell key={cell.id}>
-                                {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                              </TableCell>
-                            ))}
-                          </TableRow>
-                        ))
-                      ) : (
-                        <TableRow>
-                          <TableCell colSpan={columns.length} className="h-24 text-center">
-                            No results.
-                          </TableCell>
-                        </TableRow>
-                      )}
-                    </TableBody>
-                  </Table>
+                <div className="space-y-2">
+                  {table.getRowModel().rows?.length ? (
+                    table.getRowModel().rows.map((row) => renderMobileCard(row.original))
+                  ) : (
+                    <Card>
+                      <CardContent className="p-6 text-center">
+                        <p className="text-gray-500 text-sm">No results found.</p>
+                      </CardContent>
+                    </Card>
+                  )}
+                </div>
+                <div className="mt-3">
+                  <TablePagination table={table} />
+                  {loadMore}
                 </div>
-                <TablePagination table={table} />
               </>
             )}
-          </CardContent>
-        </Card>
-      </div>
+          </div>
+
+          {/* Desktop View (hidden on mobile) */}
+          <div className="hidden md:block">
+            <Card>
+              <CardHeader>
+                <CardTitle>Expense Records</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="flex justify-center items-center py-8">
+                    <RefreshCw className="h-6 w-6 animate-spin mr-2" />
+                    Loading records...
+                  </div>
+                ) : (
+                  <>
+                    <div className="rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          {table.getHeaderGroups().map((headerGroup) => (
+                            <TableRow key={headerGroup.id}>
+                              {headerGroup.headers.map((header) => (
+                                <TableHead key={header.id}>
+                                  {header.isPlaceholder
+                                    ? null
+                                    : flexRender(header.column.columnDef.header, header.getContext())}
+                                </TableHead>
+                              ))}
+                            </TableRow>
+                          ))}
+                        </TableHeader>
+                        <TableBody>
+                          {table.getRowModel().rows?.length ? (
+                            table.getRowModel().rows.map((row) => (
+                              <TableRow key={row.id} data-state={row.getIsSelected() && "selected"}>
+                                {row.getVisibleCells().map((cell) => (
+                                  <TableCell key={cell.id}>
+                                    {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                                  </TableCell>
+                                ))}
+                              </TableRow>
+                            ))
+                          ) : (
+                            <TableRow>
+                              <TableCell colSpan={columns.length} className="h-24 text-center">
+                                No results.
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </TableBody>
+                      </Table>
+                    </div>
+                    <TablePagination table={table} />
+                    {loadMore}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
     </>
   )
 }
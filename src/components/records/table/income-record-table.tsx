@@ -2,37 +2,56 @@
 
 // Income Record Table - Data table for income records with sorting, filtering, and pagination
 import { useState, useCallback } from "react"
+import { useSession } from "next-auth/react"
 import { useReactTable, getCoreRowModel, getFilteredRowModel, getSortedRowModel, getPaginationRowModel, flexRender, type SortingState, type ColumnFiltersState } from "@tanstack/react-table"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { IncomeRecordDialog } from "@/components/records/income-record-dialog"
+import { VoidRecordDialog } from "@/components/records/void-record-dialog"
+import { VoidRequestNotice } from "@/components/records/void-request-notice"
+import { reviewIncomeVoid } from "@/app/actions/income-records"
 import { OfflineAPI } from "@/lib/offline/offline-api"
-import { Search, RefreshCw, ChevronDown, ChevronRight, Users, Banknote, Smartphone, WifiOff, Trash2, Edit } from "lucide-react"
+import { VOID_STATUS } from "@/lib/constants"
+import { PERMISSIONS, hasPermission } from "@/lib/permissions"
+import { Search, RefreshCw, ChevronDown, ChevronRight, Users, Banknote, Smartphone, WifiOff, Ban, Edit } from "lucide-react"
 import { toast } from "sonner"
 import type { IncomeRecord } from "@/types"
+import type { IncomeRecordFilters } from "@/lib/record-filters"
 import { useGroupedIncomeRecords } from "../hooks/use-grouped-income-records"
 import { useIncomeColumns } from "../hooks/use-income-columns"
 import { TablePagination } from "./table-pagination"
+import { LoadMoreRecords } from "./load-more-records"
+import { RecordFiltersBar } from "./record-filters-bar"
+import { VoidedRecordsTable } from "./voided-records-table"
 import { formatCurrency } from "@/lib/utils"
-import { AlertDialog, AlertDialogContent, AlertDialogTrigger, AlertDialogHeader, AlertDialogTitle, AlertDialogDescription, AlertDialogFooter, AlertDialogCancel, AlertDialogAction } from "@/components/ui/alert-dialog"
 
 interface IncomeRecordsTableProps {
   records: IncomeRecord[]
   isLoading: boolean
   onRefresh: () => Promise<void>
-  onFetchAll: () => Promise<void>
+  // Server-side filters; changing them reloads the first page
+  filters: IncomeRecordFilters
+  onFiltersChange: (filters: IncomeRecordFilters) => void
+  total?: number
+  hasMore: boolean
+  isLoadingMore: boolean
+  onLoadMore: () => Promise<void>
   onFormSuccess: () => Promise<void>
   isOnline: boolean
 }
 
-export function IncomeRecordsTable({ records, isLoading, onRefresh, onFetchAll, onFormSuccess, isOnline }: IncomeRecordsTableProps) {
+export function IncomeRecordsTable({ records, isLoading, onRefresh, onFormSuccess, isOnline, filters, onFiltersChange, total, hasMore, isLoadingMore, onLoadMore }: IncomeRecordsTableProps) {
+  const { data: session } = useSession()
+  const canEdit = hasPermission(session?.user?.permissions, PERMISSIONS.ORDERS_CREATE)
   const [sorting, setSorting] = useState<SortingState>([])
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
   const [globalFilter, setGlobalFilter] = useState("")
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set())
+  const [view, setView] = useState<"active" | "requests" | "voided">("active")
 
   const toggleGroupExpansion = useCallback((dueAccountId: string) => {
     setExpandedGroups((prev) => {
@@ -46,43 +65,50 @@ export function IncomeRecordsTable({ records, isLoading, onRefresh, onFetchAll,
     })
   }, [])
 
-  const handleDeleteIncome = async (id: string) => {
+  const handleVoidIncome = async (id: string, reason: string) => {
     try {
-      // Handle group deletion
+      // Handle group voids
       if (id.startsWith("group_")) {
         const dueAccountId = id.replace("group_", "")
         const groupOrders = records.filter((record) => record.isDueAccount && record.dueAccountId === dueAccountId)
 
-        // Delete all orders in the group
-        await Promise.all(groupOrders.map((order) => OfflineAPI.deleteIncomeRecord(order._id)))
+        // Void all orders in the group
+        await Promise.all(groupOrders.map((order) => OfflineAPI.voidIncomeRecord(order._id, reason)))
 
         const message = isOnline
-          ? `${groupOrders.length} orders deleted successfully`
-          : `${groupOrders.length} orders deleted offline - will sync when online`
+          ? `${groupOrders.length} orders voided`
+          : `${groupOrders.length} orders voided offline - will sync when online`
         toast.success(message)
         await onRefresh()
         return
       }
 
-      // Handle individual order deletion
+      // Handle individual order voids
       const actualId = id.startsWith("child_") ? id.replace("child_", "") : id
-      await OfflineAPI.deleteIncomeRecord(actualId)
+      const result = await OfflineAPI.voidIncomeRecord(actualId, reason)
 
-      const message = isOnline ? "Order deleted successfully" : "Order deleted offline - will sync when online"
+      const message = !isOnline
+        ? "Order voided offline - will sync when online"
+        : result.voided === false
+        ? "Void requested - it needs to be approved"
+        : "Order voided"
       toast.success(message)
       await onRefresh()
     } catch (error) {
-      toast.error("Failed to delete order")
-      console.error("Error deleting order:", error)
+      toast.error("Failed to void order")
+      console.error("Error voiding order:", error)
     }
   }
 
-  const groupedRecords = useGroupedIncomeRecords(records, expandedGroups)
+  const voidRequests = records.filter((record) => record.voidStatus === VOID_STATUS.REQUESTED)
+
+  const groupedRecords = useGroupedIncomeRecords(view === "requests" ? voidRequests : records, expandedGroups)
   const columns = useIncomeColumns({
     expandedGroups,
     toggleGroupExpansion,
     onFormSuccess,
-    onDelete: handleDeleteIncome,
+    onVoid: handleVoidIncome,
+    canEdit,
   })
 
   const table = useReactTable({
@@ -100,6 +126,8 @@ export function IncomeRecordsTable({ records, isLoading, onRefresh, onFetchAll,
     getFilteredRowModel: getFilteredRowModel(),
     getSortedRowModel: getSortedRowModel(),
     getPaginationRowModel: getPaginationRowModel(),
+    // Loading an older page appends rows, which shouldn't send the user back to the first page
+    autoResetPageIndex: false,
     initialState: {
       pagination: {
         pageSize: 10,
@@ -107,6 +135,21 @@ export function IncomeRecordsTable({ records, isLoading, onRefresh, onFetchAll,
     },
   })
 
+  const handleFiltersChange = (next: IncomeRecordFilters) => {
+    table.setPageIndex(0)
+    onFiltersChange(next)
+  }
+
+  const loadMore = (
+    <LoadMoreRecords
+      loaded={records.length}
+      total={total}
+      hasMore={hasMore}
+      isLoading={isLoadingMore}
+      onLoadMore={onLoadMore}
+    />
+  )
+
   const renderMobileCard = (record: any) => {
     const isChild = record._id.startsWith("child_")
     const isGroup = record.isGroup
@@ -195,39 +238,36 @@ export function IncomeRecordsTable({ records, isLoading, onRefresh, onFetchAll,
 
               {!isGroup && (
                 <div className="flex gap-1">
-                  <IncomeRecordDialog
-                    record={isChild ? { ...record, _id: record._id.replace("child_", "") } : record}
-                    onSuccess={onFormSuccess}
-                    mode="edit"
-                    trigger={
-                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
-                        <Edit className="h-3 w-3" />
-                      </Button>
-                    }
-                  />
+                  {canEdit && (
+                    <IncomeRecordDialog
+                      record={isChild ? { ...record, _id: record._id.replace("child_", "") } : record}
+                      onSuccess={onFormSuccess}
+                      mode="edit"
+                      trigger={
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+                          <Edit className="h-3 w-3" />
+                        </Button>
+                      }
+                    />
+                  )}
 
-                  <AlertDialog>
-                    <AlertDialogTrigger asChild>
-                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-red-600 hover:text-red-700">
-                        <Trash2 className="h-3 w-3" />
-                      </Button>
-                    </AlertDialogTrigger>
-                    <AlertDialogContent>
-                      <AlertDialogHeader>
-                        <AlertDialogTitle>Delete Order?</AlertDialogTitle>
-                        <AlertDialogDescription>This action cannot be undone.</AlertDialogDescription>
-                      </AlertDialogHeader>
-                      <AlertDialogFooter>
-                        <AlertDialogCancel>Cancel</AlertDialogCancel>
-                        <AlertDialogAction
-                          onClick={() => handleDeleteIncome(record._id)}
-                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                        >
-                          Delete
-                        </AlertDialogAction>
-                      </AlertDialogFooter>
-                    </AlertDialogContent>
-                  </AlertDialog>
+                  {record.voidStatus === VOID_STATUS.REQUESTED ? (
+                    <VoidRequestNotice
+                      reason={record.voidReason}
+                      onReview={(approve) => reviewIncomeVoid(record._id.replace("child_", ""), approve)}
+                      onReviewed={onFormSuccess}
+                    />
+                  ) : (
+                    <VoidRecordDialog
+                      label="order"
+                      onConfirm={(reason) => handleVoidIncome(record._id, reason)}
+                      trigger={
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-red-600 hover:text-red-700">
+                          <Ban className="h-3 w-3" />
+                        </Button>
+                      }
+                    />
+                  )}
                 </div>
               )}
             </div>
@@ -260,122 +300,138 @@ export function IncomeRecordsTable({ records, isLoading, onRefresh, onFetchAll,
             <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
             Refresh
           </Button>
+          <Select value={view} onValueChange={(value) => setView(value as typeof view)}>
+            <SelectTrigger className="w-full sm:w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="active">Active orders</SelectItem>
+              <SelectItem value="requests">Void requests ({voidRequests.length})</SelectItem>
+              <SelectItem value="voided">Voided</SelectItem>
+            </SelectContent>
+          </Select>
         </div>
-        <div className="w-full sm:w-auto">
-          <IncomeRecordDialog onSuccess={onFormSuccess} mode="create" />
-        </div>
-      </div>
-
-      {/* Mobile View (hidden on md and up) */}
-      <div className="block md:hidden">
-        <div className="mb-3">
-          <h2 className="text-lg font-semibold">Orders ({table.getFilteredRowModel().rows.length})</h2>
-        </div>
-
-        {isLoading ? (
-          <div className="flex justify-center items-center py-8">
-            <RefreshCw className="h-6 w-6 animate-spin mr-2" />
-            Loading...
+        {canEdit && (
+          <div className="w-full sm:w-auto">
+            <IncomeRecordDialog onSuccess={onFormSuccess} mode="create" />
           </div>
-        ) : (
-          <>
-            <div className="space-y-2">
-              {table.getRowModel().rows?.length ? (
-                table.getRowModel().rows.map((row) => renderMobileCard(row.original))
-              ) : (
-                <Card>
-                  <CardContent className="p-6 text-center">
-                    <p className="text-gray-500 text-sm">No results found.</p>
-                  </CardContent>
-                </Card>
-              )}
-            </div>
-            <div className="mt-3">
-              <TablePagination table={table} />
-            </div>
-          </>
         )}
       </div>
 
-      {/* Desktop View (hidden on mobile) */}
-      <div className="hidden md:block">
-        <Card>
-          <CardHeader>
-            <div className="flex items-center justify-between">
-              <CardTitle>Orders & Income Records</CardTitle>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={onFetchAll}
-                disabled={isLoading}
-                className="bg-transparent"
-              >
-                <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
-                Fetch all
-              </Button>
+      {view !== "voided" && (
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <RecordFiltersBar type="income" filters={filters} onChange={handleFiltersChange} />
+          </CardContent>
+        </Card>
+      )}
+
+      {view === "voided" ? (
+        <VoidedRecordsTable type="income" onRestored={onRefresh} />
+      ) : (
+        <>
+          {/* Mobile View (hidden on md and up) */}
+          <div className="block md:hidden">
+            <div className="mb-3">
+              <h2 className="text-lg font-semibold">Orders ({table.getFilteredRowModel().rows.length})</h2>
             </div>
-          </CardHeader>
-          <CardContent>
+
             {isLoading ? (
               <div className="flex justify-center items-center py-8">
                 <RefreshCw className="h-6 w-6 animate-spin mr-2" />
-                Loading records...
+                Loading...
               </div>
             ) : (
               <>
-                <div className="rounded-md border">
-                  <Table>
-                    <TableHeader>
-                      {table.getHeaderGroups().map((headerGroup) => (
-                        <TableRow key={headerGroup.id}>
-                          {headerGroup.headers.map((header) => (
-                            <TableHead key={header.id}>
-                              {header.isPlaceholder
-                                ? null
-                                : flexRender(header.column.columnDef.header, header.getContext())}
-                            </TableHead>
-                          ))}
-                        </TableRow>
-                      ))}
-                    </TableHeader>
-                    <TableBody>
-                      {table.getRowModel().rows?.length ? (
-                        table.getRowModel().rows.map((row) => {
-                          const isChild = row.original._id.startsWith("child_")
-                          const isGroup = row.original.isGroup
-                          return (
-                            <TableRow
-                              key={row.id}
-                              data-state={row.getIsSelected() && "selected"}
-                              onClick={isGroup ? () => toggleGroupExpansion(row.original.dueAccountId!) : undefined}
-                              className={`${isChild ? "bg-gray-900/50 border-l-2 border-l-gray-300" : ""} ${
-                                isGroup ? "bg-gray-800/50 hover:bg-gray-600 border-l-2 border-l-gray-500" : ""
-                              }${!isChild && !isGroup ? "hover:bg-gray-800" : ""}`}
-                            >
-                              {row.getVisibleCells().map((cell) => (
-                                <TableCell key={cell.id}>
-                                  {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                                </TableCell>
-                              ))}
-                            </TableRow>
-                          )
-                        })
-                      ) : (
-                        <TableRow>
-                          <TableCell colSpan={columns.length} className="h-24 text-center">
-                            No results.
-                          </TableCell>
-                        </TableRow>
-                      )}
-                    </TableBody>
-                  </Table>
+                <div className="space-y-2">
+                  {table.getRowModel().rows?.length ? (
+                    table.getRowModel().rows.map((row) => renderMobileCard(row.original))
+                  ) : (
+                    <Card>
+                      <CardContent className="p-6 text-center">
+                        <p className="text-gray-500 text-sm">No results found.</p>
+                      </CardContent>
+                    </Card>
+                  )}
+                </div>
+                <div className="mt-3">
+                  <TablePagination table={table} />
+                  {loadMore}
                 </div>
-                <TablePagination table={table} />
               </>
             )}
-          </CardContent>
-        </Card>
-      </div>
+          </div>
+
+          {/* Desktop View (hidden on mobile) */}
+          <div className="hidden md:block">
+            <Card>
+              <CardHeader>
+                <CardTitle>Orders & Income Records</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <div className="flex justify-center items-center py-8">
+                    <RefreshCw className="h-6 w-6 animate-spin mr-2" />
+                    Loading records...
+                  </div>
+                ) : (
+                  <>
+                    <div className="rounded-md border">
+                      <Table>
+                        <TableHeader>
+                          {table.getHeaderGroups().map((headerGroup) => (
+                            <TableRow key={headerGroup.id}>
+                              {headerGroup.headers.map((header) => (
+                                <TableHead key={header.id}>
+                                  {header.isPlaceholder
+                                    ? null
+                                    : flexRender(header.column.columnDef.header, header.getContext())}
+                                </TableHead>
+                              ))}
+                            </TableRow>
+                          ))}
+                        </TableHeader>
+                        <TableBody>
+                          {table.getRowModel().rows?.length ? (
+                            table.getRowModel().rows.map((row) => {
+                              const isChild = row.original._id.startsWith("child_")
+                              const isGroup = row.original.isGroup
+                              return (
+                                <TableRow
+                                  key={row.id}
+                                  data-state={row.getIsSelected() && "selected"}
+                                  onClick={isGroup ? () => toggleGroupExpansion(row.original.dueAccountId!) : undefined}
+                                  className={`${isChild ? "bg-gray-900/50 border-l-2 border-l-gray-300" : ""} ${
+                                    isGroup ? "bg-gray-800/50 hover:bg-gray-600 border-l-2 border-l-gray-500" : ""
+                                  }${!isChild && !isGroup ? "hover:bg-gray-800" : ""}`}
+                                >
+                                  {row.getVisibleCells().map((cell) => (
+                                    <TableCell key={cell.id}>
+                                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                                    </TableCell>
+                                  ))}
+                                </TableRow>
+                              )
+                            })
+                          ) : (
+                            <TableRow>
+                              <TableCell colSpan={columns.length} className="h-24 text-center">
+                                No results.
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </TableBody>
+                      </Table>
+                    </div>
+                    <TablePagination table={table} />
+                    {loadMore}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
     </>
   )
 }
@@ -0,0 +1,30 @@
+"use client"
+
+// Load More Records - Shows how many records are loaded and fetches the next page from the server
+import { Button } from "@/components/ui/button"
+import { RefreshCw } from "lucide-react"
+
+interface LoadMoreRecordsProps {
+  loaded: number
+  // Matching records on the server; unknown when working from the offline copy
+  total?: number
+  hasMore: boolean
+  isLoading: boolean
+  onLoadMore: () => Promise<void>
+}
+
+export function LoadMoreRecords({ loaded, total, hasMore, isLoading, onLoadMore }: LoadMoreRecordsProps) {
+  return (
+    <div className="flex items-center justify-between gap-2 pt-2">
+      <p className="text-sm text-muted-foreground">
+        {total !== undefined && total > loaded ? `Loaded ${loaded} of ${total} records` : `${loaded} records`}
+      </p>
+      {hasMore && (
+        <Button variant="outline" size="sm" onClick={onLoadMore} disabled={isLoading} className="bg-transparent">
+          <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+          Load older records
+        </Button>
+      )}
+    </div>
+  )
+}
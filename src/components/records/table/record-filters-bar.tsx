@@ -0,0 +1,148 @@
+"use client"
+
+// Record Filters Bar - Server-side filters for the income and expense records tables
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { X } from "lucide-react"
+import { EXPENSE_CATEGORIES } from "@/components/records/expense-record-form"
+import { PAYMENT_METHOD, PAYMENT_STATUS } from "@/lib/constants"
+import type { IncomeRecordFilters, ExpenseRecordFilters } from "@/lib/record-filters"
+
+const ALL = "all"
+
+type RecordFiltersBarProps =
+  | { type: "income"; filters: IncomeRecordFilters; onChange: (filters: IncomeRecordFilters) => void }
+  | { type: "expense"; filters: ExpenseRecordFilters; onChange: (filters: ExpenseRecordFilters) => void }
+
+interface FilterSelectProps {
+  label: string
+  value?: string
+  options: { value: string; label: string }[]
+  onChange: (value: string | undefined) => void
+}
+
+function FilterSelect({ label, value, options, onChange }: FilterSelectProps) {
+  return (
+    <div>
+      <Label>{label}</Label>
+      <Select value={value || ALL} onValueChange={(selected) => onChange(selected === ALL ? undefined : selected)}>
+        <SelectTrigger className="mt-2">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL}>All</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+export function RecordFiltersBar(props: RecordFiltersBarProps) {
+  const { filters } = props
+  const isActive = Object.values(filters).some(Boolean)
+
+  const update = (key: string, value: string | undefined) => {
+    const next = { ...filters, [key]: value || undefined }
+    if (props.type === "income") props.onChange(next as IncomeRecordFilters)
+    else props.onChange(next as ExpenseRecordFilters)
+  }
+
+  const textFilter = (key: string, label: string, placeholder: string) => (
+    <div>
+      <Label htmlFor={`filter-${key}`}>{label}</Label>
+      <Input
+        id={`filter-${key}`}
+        value={(filters as Record<string, string | undefined>)[key] || ""}
+        onChange={(e) => update(key, e.target.value)}
+        placeholder={placeholder}
+        className="mt-2"
+      />
+    </div>
+  )
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3 items-end">
+      <div>
+        <Label htmlFor="filter-from">From</Label>
+        <Input
+          id="filter-from"
+          type="date"
+          value={filters.from || ""}
+          onChange={(e) => update("from", e.target.value)}
+          className="mt-2"
+        />
+      </div>
+      <div>
+        <Label htmlFor="filter-to">To</Label>
+        <Input
+          id="filter-to"
+          type="date"
+          value={filters.to || ""}
+          onChange={(e) => update("to", e.target.value)}
+          className="mt-2"
+        />
+      </div>
+
+      {props.type === "income" ? (
+        <>
+          <FilterSelect
+            label="Status"
+            value={props.filters.paymentStatus}
+            options={[
+              { value: PAYMENT_STATUS.COMPLETED, label: "Completed" },
+              { value: PAYMENT_STATUS.PENDING, label: "Pending" },
+            ]}
+            onChange={(value) => update("paymentStatus", value)}
+          />
+          <FilterSelect
+            label="Method"
+            value={props.filters.paymentMethod}
+            options={[
+              { value: PAYMENT_METHOD.CASH, label: "Cash" },
+              { value: PAYMENT_METHOD.DIGITAL, label: "Digital" },
+              { value: PAYMENT_METHOD.SPLIT, label: "Split" },
+            ]}
+            onChange={(value) => update("paymentMethod", value)}
+          />
+          {textFilter("table", "Table", "Any")}
+          {textFilter("customer", "Customer", "Any")}
+          {textFilter("search", "Item", "Item name")}
+        </>
+      ) : (
+        <>
+          <FilterSelect
+            label="Category"
+            value={props.filters.category}
+            options={EXPENSE_CATEGORIES.map((category) => ({ value: category, label: category }))}
+            onChange={(value) => update("category", value)}
+          />
+          <FilterSelect
+            label="Paid With"
+            value={props.filters.paymentMethod}
+            options={[
+              { value: PAYMENT_METHOD.CASH, label: "Cash" },
+              { value: PAYMENT_METHOD.DIGITAL, label: "Digital" },
+            ]}
+            onChange={(value) => update("paymentMethod", value)}
+          />
+          {textFilter("vendor", "Vendor", "Any")}
+          {textFilter("search", "Description", "Search")}
+        </>
+      )}
+
+      {isActive && (
+        <Button variant="ghost" size="sm" onClick={() => props.onChange({})} className="col-span-2 md:col-span-4 lg:col-span-7 justify-self-end">
+          <X className="h-4 w-4 mr-2" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+"use client"
+
+// Voided Records Table - Lists voided income or expense records, with restore for users allowed to restore them
+import { useState, useEffect, useCallback } from "react"
+import { useSession } from "next-auth/react"
+import { PERMISSIONS, hasPermission } from "@/lib/permissions"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { RefreshCw, RotateCcw } from "lucide-react"
+import { restoreIncomeRecord } from "@/app/actions/income-records"
+import { restoreExpenseRecord } from "@/app/actions/expense-records"
+import { API_PATHS } from "@/lib/constants"
+import { formatCurrency } from "@/lib/utils"
+import type { IncomeRecord, ExpenseRecord } from "@/types"
+
+interface VoidedRecordsTableProps {
+  type: "income" | "expense"
+  // Called after a restore so the active list picks the record up again
+  onRestored: () => Promise<void>
+}
+
+type VoidedRecord = IncomeRecord | ExpenseRecord
+
+const describe = (record: VoidedRecord) =>
+  "amount" in record
+    ? record.description
+    : record.invoiceNumber || record.customerName || (record.tableNumber ? `Table ${record.tableNumber}` : "Walk-in")
+
+const amountOf = (record: VoidedRecord) => ("amount" in record ? record.amount : record.totalAmount)
+
+export function VoidedRecordsTable({ type, onRestored }: VoidedRecordsTableProps) {
+  const { data: session } = useSession()
+  const [records, setRecords] = useState<VoidedRecord[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const canRestore = hasPermission(session?.user?.permissions, PERMISSIONS.RECORDS_RESTORE)
+
+  // Voided records aren't kept offline, so this list always comes from the server
+  const fetchRecords = useCallback(async () => {
+    try {
+      setIsLoading(true)
+      const path = type === "income" ? API_PATHS.INCOME_RECORDS : API_PATHS.EXPENSE_RECORDS
+      const response = await fetch(`${path}?voided=true&limit=500`)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to fetch voided records")
+      }
+      setRecords(data.records || [])
+    } catch (error) {
+      console.error("Error fetching voided records:", error)
+      toast.error("Failed to fetch voided records")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [type])
+
+  useEffect(() => {
+    fetchRecords()
+  }, [fetchRecords])
+
+  const handleRestore = async (id: string) => {
+    try {
+      if (type === "income") {
+        await restoreIncomeRecord(id)
+      } else {
+        await restoreExpenseRecord(id)
+      }
+      toast.success(type === "income" ? "Order restored" : "Expense restored")
+      await Promise.all([fetchRecords(), onRestored()])
+    } catch (error) {
+      console.error("Error restoring record:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to restore record")
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Voided {type === "income" ? "Orders" : "Expenses"}</CardTitle>
+          <Button variant="outline" size="sm" onClick={fetchRecords} disabled={isLoading} className="bg-transparent">
+            <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center items-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin mr-2" />
+            Loading records...
+          </div>
+        ) : records.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">Nothing has been voided.</p>
+        ) : (
+          <div className="rounded-md border overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{type === "income" ? "Order" : "Description"}</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>Voided</TableHead>
+                  {canRestore && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {records.map((record) => (
+                  <TableRow key={record._id}>
+                    <TableCell className="font-medium">{describe(record)}</TableCell>
+                    <TableCell className="text-muted-foreground line-through">{formatCurrency(amountOf(record))}</TableCell>
+                    <TableCell>{new Date(record.date).toLocaleDateString()}</TableCell>
+                    <TableCell className="max-w-xs whitespace-normal">{record.voidReason || "-"}</TableCell>
+                    <TableCell>{record.voidedAt ? new Date(record.voidedAt).toLocaleString() : "-"}</TableCell>
+                    {canRestore && (
+                      <TableCell>
+                        <Button variant="outline" size="sm" onClick={() => handleRestore(record._id)}>
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Restore
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
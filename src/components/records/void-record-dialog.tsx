@@ -0,0 +1,85 @@
+"use client"
+
+// Void Record Dialog - Asks for the reason before voiding a record, or before requesting one when the user can't void directly
+
+import type React from "react"
+import { useState } from "react"
+import { useSession } from "next-auth/react"
+import { PERMISSIONS, hasPermission } from "@/lib/permissions"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Ban } from "lucide-react"
+
+interface VoidRecordDialogProps {
+  // What is being voided, e.g. "order" or "expense"
+  label: string
+  // Extra context shown above the reason, e.g. how many orders a group void covers
+  description?: string
+  onConfirm: (reason: string) => Promise<void>
+  trigger?: React.ReactNode
+}
+
+export function VoidRecordDialog({ label, description, onConfirm, trigger }: VoidRecordDialogProps) {
+  const { data: session } = useSession()
+  const [open, setOpen] = useState(false)
+  const [reason, setReason] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Users who can't void records directly can only ask for a void, which someone who can approves
+  const isRequest = !hasPermission(session?.user?.permissions, PERMISSIONS.RECORDS_VOID)
+
+  const handleConfirm = async () => {
+    try {
+      setIsSaving(true)
+      await onConfirm(reason.trim())
+      setOpen(false)
+      setReason("")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline" size="sm" title={`Void ${label}`}>
+            <Ban className="h-4 w-4" />
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-md" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle className="capitalize">{isRequest ? `Request ${label} void` : `Void ${label}`}</DialogTitle>
+          <DialogDescription>
+            {description ? `${description} ` : ""}
+            {isRequest
+              ? "Someone allowed to void records has to approve it before it is removed from the totals."
+              : `The ${label} is kept for the records but left out of all totals. It can be restored later.`}
+          </DialogDescription>
+        </DialogHeader>
+        <div>
+          <Label htmlFor="voidReason">Reason *</Label>
+          <Textarea
+            id="voidReason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Entered twice, customer cancelled..."
+            className="mt-2"
+            maxLength={500}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleConfirm} disabled={isSaving || !reason.trim()}>
+            {isSaving ? "Saving..." : isRequest ? "Request Void" : "Void"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
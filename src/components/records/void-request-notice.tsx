@@ -0,0 +1,68 @@
+"use client"
+
+// Void Request Notice - Marks a record with a pending void request and lets users who can void approve or reject it
+import { useState } from "react"
+import { useSession } from "next-auth/react"
+import { PERMISSIONS, hasPermission } from "@/lib/permissions"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { toast } from "sonner"
+import { Check, X } from "lucide-react"
+
+interface VoidRequestNoticeProps {
+  reason?: string
+  onReview: (approve: boolean) => Promise<unknown>
+  onReviewed: () => Promise<void> | void
+}
+
+export function VoidRequestNotice({ reason, onReview, onReviewed }: VoidRequestNoticeProps) {
+  const { data: session } = useSession()
+  const [isSaving, setIsSaving] = useState(false)
+  const canReview = hasPermission(session?.user?.permissions, PERMISSIONS.RECORDS_VOID)
+
+  const review = async (approve: boolean) => {
+    try {
+      setIsSaving(true)
+      await onReview(approve)
+      toast.success(approve ? "Void approved" : "Void request rejected")
+      await onReviewed()
+    } catch (error) {
+      console.error("Error reviewing void request:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to review void request")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+      <Badge variant="outline" className="text-orange-600 border-orange-200" title={reason}>
+        Void requested
+      </Badge>
+      {canReview && (
+        <>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 text-green-600"
+            title="Approve void"
+            disabled={isSaving}
+            onClick={() => review(true)}
+          >
+            <Check className="h-3 w-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 text-red-600"
+            title="Reject void"
+            disabled={isSaving}
+            onClick={() => review(false)}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
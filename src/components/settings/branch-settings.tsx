@@ -0,0 +1,190 @@
+"use client"
+
+// Branch Settings - Lets admins add, rename and deactivate the organization's branches
+import type React from "react"
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { toast } from "sonner"
+import { Building2, Pencil } from "lucide-react"
+import { createBranch, updateBranch } from "@/app/actions/branches"
+import { API_PATHS } from "@/lib/constants"
+import type { Branch } from "@/types"
+
+const EMPTY_FORM = { name: "", code: "", address: "", phone: "" }
+
+export function BranchSettings() {
+  const [branches, setBranches] = useState<Branch[]>([])
+  const [editing, setEditing] = useState<Branch | null>(null)
+  const [formData, setFormData] = useState(EMPTY_FORM)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const fetchBranches = async () => {
+    try {
+      const response = await fetch(`${API_PATHS.BRANCHES}?all=true`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to fetch branches")
+      setBranches(data.branches)
+    } catch (error) {
+      console.error("Error fetching branches:", error)
+      toast.error("Failed to fetch branches")
+    }
+  }
+
+  useEffect(() => {
+    fetchBranches()
+  }, [])
+
+  const startEditing = (branch: Branch) => {
+    setEditing(branch)
+    setFormData({
+      name: branch.name,
+      code: branch.code || "",
+      address: branch.address || "",
+      phone: branch.phone || "",
+    })
+  }
+
+  const resetForm = () => {
+    setEditing(null)
+    setFormData(EMPTY_FORM)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setIsSaving(true)
+      if (editing) {
+        await updateBranch(editing._id, { ...formData, isActive: editing.isActive })
+        toast.success("Branch updated")
+      } else {
+        await createBranch(formData)
+        toast.success(branches.length === 0 ? "Branch added; existing records now belong to it" : "Branch added")
+      }
+      resetForm()
+      await fetchBranches()
+    } catch (error) {
+      console.error("Error saving branch:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save branch")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toggleActive = async (branch: Branch, isActive: boolean) => {
+    try {
+      await updateBranch(branch._id, {
+        name: branch.name,
+        code: branch.code,
+        address: branch.address,
+        phone: branch.phone,
+        isActive,
+      })
+      await fetchBranches()
+    } catch (error) {
+      console.error("Error updating branch:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to update branch")
+    }
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Branches
+        </CardTitle>
+        <CardDescription>
+          New orders and expenses are tagged with the branch they were recorded at. Deactivated branches keep their
+          records but can no longer be selected.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {branches.length > 0 && (
+          <div className="divide-y rounded-lg border">
+            {branches.map((branch) => (
+              <div key={branch._id} className="flex items-center justify-between gap-4 p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 font-medium">
+                    {branch.name}
+                    {branch.code && <Badge variant="outline">{branch.code}</Badge>}
+                  </div>
+                  {branch.address && <p className="text-sm text-muted-foreground truncate">{branch.address}</p>}
+                </div>
+                <div className="flex items-center gap-3">
+                  <Switch
+                    checked={branch.isActive}
+                    onCheckedChange={(checked) => toggleActive(branch, checked)}
+                    aria-label={`${branch.name} active`}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => startEditing(branch)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="branchName">Name</Label>
+              <Input
+                id="branchName"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Downtown"
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="branchCode">Code</Label>
+              <Input
+                id="branchCode"
+                maxLength={10}
+                value={formData.code}
+                onChange={(e) => setFormData({ ...formData, code: e.target.value })}
+                placeholder="e.g. DT"
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="branchAddress">Address</Label>
+              <Input
+                id="branchAddress"
+                value={formData.address}
+                onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                className="mt-2"
+              />
+            </div>
+            <div>
+              <Label htmlFor="branchPhone">Phone</Label>
+              <Input
+                id="branchPhone"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                className="mt-2"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Button type="submit" disabled={isSaving || !formData.name.trim()}>
+              {isSaving ? "Saving..." : editing ? "Save Branch" : "Add Branch"}
+            </Button>
+            {editing && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
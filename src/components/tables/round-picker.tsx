@@ -0,0 +1,180 @@
+"use client"
+
+// Round Picker - Builds a round of menu items to open or add to a table's tab
+import { useState, useEffect, useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { toast } from "sonner"
+import { Minus, Plus, Search } from "lucide-react"
+import { OfflineAPI } from "@/lib/offline/offline-api"
+import { formatCurrency } from "@/lib/utils"
+import { activePriceRule, isScheduledAvailable, rulePrice, type MenuRuleWindow } from "@/lib/menu-rules"
+import type { TabItemsInput } from "@/lib/validations"
+
+export type RoundItem = TabItemsInput[number]
+
+interface PickerMenuItem {
+  _id: string
+  name: string
+  price: number
+  category: string
+  rules: MenuRuleWindow[]
+}
+
+interface RoundPickerProps {
+  items: RoundItem[]
+  onChange: (items: RoundItem[]) => void
+}
+
+export function RoundPicker({ items, onChange }: RoundPickerProps) {
+  const [menuItems, setMenuItems] = useState<PickerMenuItem[]>([])
+  const [searchQuery, setSearchQuery] = useState("")
+
+  useEffect(() => {
+    OfflineAPI.getMenuItems()
+      .then((data) =>
+        setMenuItems(
+          data
+            // Items switched off by hand or because an ingredient ran out can't be ordered
+            .filter((item) => item.isAvailable !== false && isScheduledAvailable(item.rules, new Date()))
+            .map((item) => ({
+              _id: item._id,
+              name: item.name,
+              price: Number(item.price) || 0,
+              category: item.category,
+              rules: item.rules || [],
+            })),
+        ),
+      )
+      .catch((error) => {
+        console.error("Error fetching menu items:", error)
+        toast.error("Failed to fetch menu items")
+      })
+  }, [])
+
+  const filteredMenuItems = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase()
+    return query
+      ? menuItems.filter(
+          (item) => item.name.toLowerCase().includes(query) || item.category?.toLowerCase().includes(query),
+        )
+      : menuItems
+  }, [menuItems, searchQuery])
+
+  const setQuantity = (menuItem: PickerMenuItem, quantity: number) => {
+    const others = items.filter((item) => item.menuItemId !== menuItem._id)
+    if (quantity <= 0) {
+      onChange(others)
+      return
+    }
+
+    const existing = items.find((item) => item.menuItemId === menuItem._id)
+    // The round is priced by the happy hour in effect when the item is first picked
+    const rule = activePriceRule(menuItem.rules, new Date())
+    const priceRule = rule && { name: rule.name, discountPercent: rule.discountPercent || 0 }
+    onChange(
+      existing
+        ? items.map((item) => (item.menuItemId === menuItem._id ? { ...item, quantity } : item))
+        : [
+            ...items,
+            {
+              name: menuItem.name,
+              price: rulePrice(menuItem.price, priceRule),
+              category: menuItem.category,
+              menuItemId: menuItem._id,
+              quantity,
+              ...(priceRule && { priceRule }),
+            },
+          ],
+    )
+  }
+
+  const quantityOf = (menuItem: PickerMenuItem) => items.find((item) => item.menuItemId === menuItem._id)?.quantity || 0
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search menu items..."
+          value={searchQuery}
+          onChange={(e) => setSearchQuery(e.target.value)}
+          className="pl-8"
+        />
+      </div>
+
+      <div className="border rounded-lg p-2 max-h-56 overflow-y-auto grid grid-cols-2 md:grid-cols-3 gap-2">
+        {filteredMenuItems.length === 0 ? (
+          <p className="col-span-full text-center text-sm text-muted-foreground py-4">No menu items found</p>
+        ) : (
+          filteredMenuItems.map((menuItem) => {
+            const quantity = quantityOf(menuItem)
+            const priceRule = activePriceRule(menuItem.rules, new Date())
+            return (
+              <Button
+                key={menuItem._id}
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setQuantity(menuItem, quantity + 1)}
+                className="justify-start text-left h-auto p-2 relative"
+              >
+                <div className="w-full">
+                  <div className="font-medium text-xs truncate">{menuItem.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {priceRule ? (
+                      <>
+                        <span className="line-through mr-1">{formatCurrency(menuItem.price)}</span>
+                        <span className="text-green-600">{formatCurrency(rulePrice(menuItem.price, priceRule))}</span>
+                      </>
+                    ) : (
+                      formatCurrency(menuItem.price)
+                    )}
+                  </div>
+                  {quantity > 0 && (
+                    <Badge className="absolute -top-1 -right-1 h-5 w-5 p-0 text-xs flex items-center justify-center">
+                      {quantity}
+                    </Badge>
+                  )}
+                </div>
+              </Button>
+            )
+          })
+        )}
+      </div>
+
+      {items.length > 0 && (
+        <div className="space-y-1">
+          {items.map((item) => (
+            <div key={item.menuItemId || item.name} className="flex items-center justify-between text-sm">
+              <span className="truncate">{item.name}</span>
+              <div className="flex items-center gap-2">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => onChange(items.map((line) => (line === item ? { ...line, quantity: line.quantity - 1 } : line)).filter((line) => line.quantity > 0))}
+                >
+                  <Minus className="h-3 w-3" />
+                </Button>
+                <span className="w-6 text-center">{item.quantity}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => onChange(items.map((line) => (line === item ? { ...line, quantity: line.quantity + 1 } : line)))}
+                >
+                  <Plus className="h-3 w-3" />
+                </Button>
+                <span className="w-20 text-right">{formatCurrency(item.quantity * item.price)}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,314 @@
+"use client"
+
+// Tab Dialog - Open, add rounds to and settle the tab running on a dining table
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { toast } from "sonner"
+import { CalendarClock, Receipt } from "lucide-react"
+import { RoundPicker, type RoundItem } from "@/components/tables/round-picker"
+import { ReceiptDialog } from "@/components/records/receipt-dialog"
+import { PrepStatusBadge } from "@/components/kitchen/prep-status-badge"
+import { openTab, addToTab, settleTab, setTableReserved } from "@/app/actions/tables"
+import { OfflineAPI } from "@/lib/offline/offline-api"
+import { calculateOrderTax, orderTaxSettings, DEFAULT_TAX_SETTINGS, type TaxSettings } from "@/lib/tax"
+import { PAYMENT_METHOD, TABLE_STATUS, type PaymentMethod } from "@/lib/constants"
+import { formatCurrency } from "@/lib/utils"
+import type { Table } from "@/types"
+
+interface TabDialogProps {
+  table: Table | null
+  onOpenChange: (open: boolean) => void
+  onChanged: () => void
+}
+
+export function TabDialog({ table, onOpenChange, onChanged }: TabDialogProps) {
+  const [round, setRound] = useState<RoundItem[]>([])
+  const [customerName, setCustomerName] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>(DEFAULT_TAX_SETTINGS)
+  const [payment, setPayment] = useState({
+    paymentMethod: PAYMENT_METHOD.CASH as PaymentMethod,
+    discount: "",
+    tip: "",
+    cashAmount: "",
+    digitalAmount: "",
+  })
+
+  // Reset only when a different table is opened; the floor refreshes the same table in the background
+  const tableId = table?._id
+  useEffect(() => {
+    if (!tableId) return
+    setRound([])
+    setCustomerName("")
+    setPayment({ paymentMethod: PAYMENT_METHOD.CASH, discount: "", tip: "", cashAmount: "", digitalAmount: "" })
+    OfflineAPI.getTaxSettings().then(setTaxSettings)
+  }, [tableId])
+
+  if (!table) return null
+
+  const order = table.currentOrder
+  const discount = Number.parseFloat(payment.discount) || 0
+  const tip = Number.parseFloat(payment.tip) || 0
+  const bill = order
+    ? calculateOrderTax(order.items, discount, tip, orderTaxSettings(order, taxSettings))
+    : null
+  const splitPaid = (Number.parseFloat(payment.cashAmount) || 0) + (Number.parseFloat(payment.digitalAmount) || 0)
+  const roundTotal = round.reduce((sum, item) => sum + item.quantity * item.price, 0)
+
+  const run = async (action: () => Promise<unknown>, successMessage: string) => {
+    try {
+      setIsSaving(true)
+      await action()
+      toast.success(successMessage)
+      onChanged()
+      return true
+    } catch (error) {
+      console.error("Error updating tab:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to update tab")
+      return false
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSendRound = async () => {
+    if (round.length === 0) {
+      toast.error("Add at least one item")
+      return
+    }
+
+    const saved = order
+      ? await run(() => addToTab(table._id, round), "Round added")
+      : await run(() => openTab(table._id, round, customerName), `Tab opened on ${table.name}`)
+    if (saved) setRound([])
+  }
+
+  const handleSettle = async () => {
+    const isSplit = payment.paymentMethod === PAYMENT_METHOD.SPLIT
+    const saved = await run(
+      () =>
+        settleTab(table._id, {
+          paymentMethod: payment.paymentMethod,
+          discount,
+          tip,
+          cashAmount: isSplit ? Number.parseFloat(payment.cashAmount) || 0 : undefined,
+          digitalAmount: isSplit ? Number.parseFloat(payment.digitalAmount) || 0 : undefined,
+        }),
+      `${table.name} settled`,
+    )
+    if (saved) onOpenChange(false)
+  }
+
+  const roundPanel = (
+    <div className="space-y-4">
+      {!order && (
+        <div>
+          <Label htmlFor="tabCustomer">Customer (optional)</Label>
+          <Input
+            id="tabCustomer"
+            value={customerName}
+            onChange={(e) => setCustomerName(e.target.value)}
+            placeholder="Name on the tab"
+            className="mt-2"
+          />
+        </div>
+      )}
+      <RoundPicker items={round} onChange={setRound} />
+      <Button className="w-full" onClick={handleSendRound} disabled={isSaving || round.length === 0}>
+        {isSaving ? "Saving..." : `${order ? "Add Round" : "Open Tab"}${round.length ? ` • ${formatCurrency(roundTotal)}` : ""}`}
+      </Button>
+    </div>
+  )
+
+  return (
+    <Dialog open={!!table} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[95vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{table.name}</DialogTitle>
+          <DialogDescription>
+            {[table.area, `${table.seats} seats`].filter(Boolean).join(" • ")}
+            {order && ` • Open since ${new Date(order.date).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!order ? (
+          <>
+            {roundPanel}
+            <Separator />
+            <Button
+              variant="outline"
+              className="w-full"
+              disabled={isSaving}
+              onClick={() =>
+                run(
+                  () => setTableReserved(table._id, table.status !== TABLE_STATUS.RESERVED),
+                  table.status === TABLE_STATUS.RESERVED ? "Reservation cleared" : "Table reserved",
+                )
+              }
+            >
+              <CalendarClock className="h-4 w-4 mr-2" />
+              {table.status === TABLE_STATUS.RESERVED ? "Clear Reservation" : "Mark as Reserved"}
+            </Button>
+          </>
+        ) : (
+          <>
+            <div className="rounded-lg border p-3 space-y-1 text-sm">
+              {order.customerName && <p className="font-medium mb-1">{order.customerName}</p>}
+              {order.items.map((item, index) => (
+                <div key={item._id || index} className="flex items-center justify-between gap-2">
+                  <span className="flex-1">
+                    {item.quantity} x {item.name}
+                  </span>
+                  <PrepStatusBadge status={item.prepStatus} />
+                  <span className="w-24 text-right">{formatCurrency(item.quantity * item.price)}</span>
+                </div>
+              ))}
+              <Separator className="my-2" />
+              <div className="flex justify-between font-medium">
+                <span>Running total</span>
+                <span>{formatCurrency(order.totalAmount)}</span>
+              </div>
+            </div>
+
+            <Tabs defaultValue="round">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="round">Add Round</TabsTrigger>
+                <TabsTrigger value="settle">Settle</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="round" className="mt-4">
+                {roundPanel}
+              </TabsContent>
+
+              <TabsContent value="settle" className="mt-4 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <Label>Payment Method</Label>
+                    <Select
+                      value={payment.paymentMethod}
+                      onValueChange={(value) => setPayment({ ...payment, paymentMethod: value as PaymentMethod })}
+                    >
+                      <SelectTrigger className="mt-2">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={PAYMENT_METHOD.CASH}>Cash</SelectItem>
+                        <SelectItem value={PAYMENT_METHOD.DIGITAL}>Digital</SelectItem>
+                        <SelectItem value={PAYMENT_METHOD.SPLIT}>Split</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="tabDiscount">Discount</Label>
+                    <Input
+                      id="tabDiscount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={payment.discount}
+                      onChange={(e) => setPayment({ ...payment, discount: e.target.value })}
+                      placeholder="0"
+                      className="mt-2"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="tabTip">Tip</Label>
+                    <Input
+                      id="tabTip"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      value={payment.tip}
+                      onChange={(e) => setPayment({ ...payment, tip: e.target.value })}
+                      placeholder="0"
+                      className="mt-2"
+                    />
+                  </div>
+                </div>
+
+                {payment.paymentMethod === PAYMENT_METHOD.SPLIT && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label htmlFor="tabCash">Cash Amount</Label>
+                      <Input
+                        id="tabCash"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={payment.cashAmount}
+                        onChange={(e) => setPayment({ ...payment, cashAmount: e.target.value })}
+                        className="mt-2"
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="tabDigital">Digital Amount</Label>
+                      <Input
+                        id="tabDigital"
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={payment.digitalAmount}
+                        onChange={(e) => setPayment({ ...payment, digitalAmount: e.target.value })}
+                        className="mt-2"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {bill && (
+                  <div className="bg-muted p-4 rounded-lg space-y-1 text-sm">
+                    {bill.taxes.map((tax) => (
+                      <div key={tax.type} className="flex justify-between">
+                        <span>
+                          {tax.name} ({tax.rate}%{bill.taxInclusive ? " incl." : ""})
+                        </span>
+                        <span>{formatCurrency(tax.amount)}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between font-medium">
+                      <span>Amount to collect</span>
+                      <span>{formatCurrency(bill.totalAmount)}</span>
+                    </div>
+                    {payment.paymentMethod === PAYMENT_METHOD.SPLIT && splitPaid < bill.totalAmount && (
+                      <p className="text-xs text-destructive">
+                        {formatCurrency(bill.totalAmount - splitPaid)} still to be split
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <div className="flex gap-2">
+                  <Button
+                    className="flex-1"
+                    onClick={handleSettle}
+                    disabled={
+                      isSaving ||
+                      (payment.paymentMethod === PAYMENT_METHOD.SPLIT && !!bill && splitPaid < bill.totalAmount)
+                    }
+                  >
+                    {isSaving ? "Saving..." : "Settle & Free Table"}
+                  </Button>
+                  <ReceiptDialog
+                    record={order}
+                    trigger={
+                      <Button variant="outline" title="Print bill">
+                        <Receipt className="h-4 w-4 mr-2" />
+                        Bill
+                      </Button>
+                    }
+                  />
+                </div>
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
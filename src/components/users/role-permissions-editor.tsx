@@ -0,0 +1,170 @@
+"use client"
+
+// Role Permissions Editor - Lets admins adjust what each role may do and add custom roles
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "sonner"
+import { Plus, ShieldCheck, Trash2 } from "lucide-react"
+import { saveRole, deleteRole } from "@/app/actions/roles"
+import { ADMIN_ROLE, PERMISSION_GROUPS, isBuiltInRole, type Permission, type RoleDefinition } from "@/lib/permissions"
+
+const NEW_ROLE = "__new__"
+
+interface RolePermissionsEditorProps {
+  roles: RoleDefinition[]
+  onRolesChange: (roles: RoleDefinition[]) => void
+}
+
+export function RolePermissionsEditor({ roles, onRolesChange }: RolePermissionsEditorProps) {
+  const [selectedKey, setSelectedKey] = useState<string>(ADMIN_ROLE)
+  const [name, setName] = useState("")
+  const [permissions, setPermissions] = useState<string[]>([])
+  const [isSaving, setIsSaving] = useState(false)
+
+  const selectedRole = roles.find((role) => role.key === selectedKey)
+  const isAdmin = selectedKey === ADMIN_ROLE
+
+  // Load the selected role into the form
+  useEffect(() => {
+    setName(selectedRole?.name || "")
+    setPermissions(selectedRole?.permissions || [])
+  }, [selectedRole])
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setPermissions((current) =>
+      checked ? [...current, permission] : current.filter((existing) => existing !== permission),
+    )
+  }
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true)
+      const isNew = selectedKey === NEW_ROLE
+      const result = await saveRole({
+        key: isNew ? undefined : selectedKey,
+        name,
+        permissions: permissions as Permission[],
+      })
+      onRolesChange(result.roles)
+      if (isNew) {
+        const created = result.roles[result.roles.length - 1]
+        if (created) setSelectedKey(created.key)
+      }
+      toast.success("Role saved")
+    } catch (error) {
+      console.error("Error saving role:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to save role")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete the ${selectedRole?.name} role?`)) return
+
+    try {
+      setIsSaving(true)
+      const result = await deleteRole(selectedKey)
+      onRolesChange(result.roles)
+      setSelectedKey(ADMIN_ROLE)
+      toast.success("Role deleted")
+    } catch (error) {
+      console.error("Error deleting role:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to delete role")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Roles & Permissions
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label>Role</Label>
+            <Select value={selectedKey} onValueChange={setSelectedKey}>
+              <SelectTrigger className="mt-2">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.map((role) => (
+                  <SelectItem key={role.key} value={role.key}>
+                    {role.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={NEW_ROLE}>
+                  <span className="flex items-center">
+                    <Plus className="h-4 w-4 mr-2" />
+                    New role
+                  </span>
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="role-name">Name</Label>
+            <Input
+              id="role-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Head Waiter"
+              disabled={isAdmin}
+              className="mt-2"
+            />
+          </div>
+        </div>
+
+        {isAdmin && (
+          <p className="text-sm text-muted-foreground">
+            Admins always have every permission, so an organization can&apos;t lock itself out.
+          </p>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {PERMISSION_GROUPS.map((group) => (
+            <div key={group.label}>
+              <Label>{group.label}</Label>
+              <div className="space-y-2 mt-3">
+                {group.permissions.map((permission) => (
+                  <label key={permission.key} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={permissions.includes(permission.key)}
+                      onCheckedChange={(checked) => togglePermission(permission.key, checked === true)}
+                      disabled={isAdmin}
+                    />
+                    {permission.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {!isAdmin && (
+          <div className="flex justify-end gap-2">
+            {selectedRole && !isBuiltInRole(selectedRole.key) && (
+              <Button variant="outline" onClick={handleDelete} disabled={isSaving}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete Role
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Role"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
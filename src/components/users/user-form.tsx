@@ -1,27 +1,31 @@
 "use client"
 
-// User Form - Form for creating and editing users with role assignment
+// User Form - Form for creating and editing users with role and branch assignment
 import { useState } from "react"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { toast } from "sonner"
 import { userSchema, type UserInput } from "@/lib/validations"
 import { createUser, updateUser } from "@/app/actions/users"
-import type { User } from "@/types"
+import type { Branch, User } from "@/types"
+import type { RoleDefinition } from "@/lib/permissions"
 
 interface UserFormProps {
   user?: User
   superAdmin?: boolean
   organizations?: { _id: string; name: string }[]
+  roles: RoleDefinition[]
+  branches?: Branch[]
   onSuccess?: () => void
 }
 
-export function UserForm({ user, onSuccess, superAdmin, organizations }: UserFormProps) {
+export function UserForm({ user, onSuccess, superAdmin, organizations, roles, branches = [] }: UserFormProps) {
   const [isLoading, setIsLoading] = useState(false)
 
   const form = useForm<UserInput>({
@@ -31,6 +35,7 @@ export function UserForm({ user, onSuccess, superAdmin, organizations }: UserFor
           name: user.name,
           email: user.email,
           role: user.role,
+          branches: user.branches || [],
           organization: organizations && organizations[0]?._id ? organizations[0]._id : "",
           password: "",
         }
@@ -38,6 +43,7 @@ export function UserForm({ user, onSuccess, superAdmin, organizations }: UserFor
           name: "",
           email: "",
           role: "manager",
+          branches: [],
           organization: organizations && organizations[0]?._id ? organizations[0]._id : "",
           password: "",
         },
@@ -62,7 +68,7 @@ export function UserForm({ user, onSuccess, superAdmin, organizations }: UserFor
       onSuccess?.()
     } catch (error) {
       console.error("Error submitting user form:", error)
-      toast.error("Something went wrong. Please try again.")
+      toast.error(error instanceof Error ? error.message : "Something went wrong. Please try again.")
     } finally {
       setIsLoading(false)
     }
@@ -131,15 +137,48 @@ export function UserForm({ user, onSuccess, superAdmin, organizations }: UserFor
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      <SelectItem value="manager">Manager</SelectItem>
-                      <SelectItem value="admin">Admin</SelectItem>
-                      <SelectItem value="staff">Staff</SelectItem>
+                      {roles.map((role) => (
+                        <SelectItem key={role.key} value={role.key}>
+                          {role.name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <FormMessage />
                 </FormItem>
               )}
             />
+            {branches.length > 0 && (
+              <FormField
+                control={form.control}
+                name="branches"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Branches</FormLabel>
+                    <p className="text-sm text-muted-foreground">Leave all unchecked to give access to every branch.</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {branches.map((branch) => (
+                        <label key={branch._id} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={field.value?.includes(branch._id)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked === true
+                                  ? [...(field.value || []), branch._id]
+                                  : (field.value || []).filter((id) => id !== branch._id),
+                              )
+                            }
+                          />
+                          {branch.name}
+                          {!branch.isActive && <span className="text-muted-foreground">(inactive)</span>}
+                        </label>
+                      ))}
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
             { superAdmin && organizations && (
               <FormField
                 control={form.control}
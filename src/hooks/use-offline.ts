@@ -2,19 +2,23 @@
 
 import { useState, useEffect, useCallback, useRef } from "react"
 import { syncManager } from "@/lib/offline/sync-manager"
+import type { FailedOperation, SyncConflict } from "@/lib/offline/indexeddb"
 
 /**
  * useOffline - Hook for offline status and sync management
  *
  * Provides:
  * - Online/offline status with connectivity checking
- * - Sync status and pending operations count
+ * - Sync status, pending operations count and offline edits that conflict with the server
+ * - Operations that failed to sync, to retry or discard
  * - Manual sync trigger and local data clearing
  */
 export function useOffline() {
   const [isOnline, setIsOnline] = useState(true)
   const [isSyncing, setIsSyncing] = useState(false)
   const [pendingOperations, setPendingOperations] = useState(0)
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+  const [failedOperations, setFailedOperations] = useState<FailedOperation[]>([])
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null)
   const [isCheckingConnectivity, setIsCheckingConnectivity] = useState(false)
 
@@ -92,6 +96,8 @@ export function useOffline() {
     try {
       const count = await syncManager.getPendingOperationsCount()
       setPendingOperations(count)
+      setConflicts(await syncManager.getConflicts())
+      setFailedOperations(await syncManager.getFailedOperations())
     } catch (error) {
       console.error("Failed to get pending operations:", error)
     }
@@ -153,6 +159,23 @@ export function useOffline() {
   const clearLocalData = async () => {
     await syncManager.clearLocalData()
     setPendingOperations(0)
+    setConflicts([])
+    setFailedOperations([])
+  }
+
+  const resolveConflict = async (conflictId: string, localFields: string[]) => {
+    await syncManager.resolveConflict(conflictId, localFields)
+    await updatePendingOperations()
+  }
+
+  const retryFailedOperation = async (id: string, data?: any) => {
+    await syncManager.retryFailedOperation(id, data)
+    await updatePendingOperations()
+  }
+
+  const discardFailedOperation = async (id: string) => {
+    await syncManager.discardFailedOperation(id)
+    await updatePendingOperations()
   }
 
   const getStorageStats = async () => {
@@ -163,10 +186,15 @@ export function useOffline() {
     isOnline,
     isSyncing,
     pendingOperations,
+    conflicts,
+    failedOperations,
     lastSyncTime,
     isCheckingConnectivity,
     manualSync,
     clearLocalData,
+    resolveConflict,
+    retryFailedOperation,
+    discardFailedOperation,
     getStorageStats,
     syncManager,
     testConnectivity,
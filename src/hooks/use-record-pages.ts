@@ -0,0 +1,82 @@
+"use client"
+
+import { useState, useEffect, useCallback, useRef } from "react"
+import { toast } from "sonner"
+import type { RecordPage } from "@/lib/record-filters"
+
+// Typing in a text filter shouldn't send a request per keystroke
+const FILTER_DEBOUNCE_MS = 300
+
+/**
+ * useRecordPages - Hook for a cursor-paged, filtered records list
+ *
+ * Provides:
+ * - The loaded records, reloaded from the first page whenever the filters change
+ * - loadMore to append the next page, and the total the server reported
+ * - refresh to reload the first page after a record is changed
+ */
+export function useRecordPages<T, F>(
+  loadPage: (filters: F, cursor?: string | null) => Promise<RecordPage<T>>,
+  initialFilters: F,
+) {
+  const [filters, setFilters] = useState<F>(initialFilters)
+  const [records, setRecords] = useState<T[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [total, setTotal] = useState<number | undefined>()
+  const [isLoading, setIsLoading] = useState(true)
+  const [isLoadingMore, setIsLoadingMore] = useState(false)
+
+  // Ignores responses for filters that have since changed
+  const requestId = useRef(0)
+
+  const refresh = useCallback(async () => {
+    const id = ++requestId.current
+    setIsLoading(true)
+    try {
+      const page = await loadPage(filters)
+      if (id !== requestId.current) return
+      setRecords(page.records)
+      setNextCursor(page.nextCursor)
+      setTotal(page.total)
+    } catch (error) {
+      toast.error("Failed to fetch records")
+      console.error("Error fetching records:", error)
+    } finally {
+      if (id === requestId.current) setIsLoading(false)
+    }
+  }, [loadPage, filters])
+
+  useEffect(() => {
+    const timeout = setTimeout(refresh, FILTER_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [refresh])
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor) return
+    const id = requestId.current
+    setIsLoadingMore(true)
+    try {
+      const page = await loadPage(filters, nextCursor)
+      if (id !== requestId.current) return
+      setRecords((current) => [...current, ...page.records])
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      toast.error("Failed to load more records")
+      console.error("Error loading more records:", error)
+    } finally {
+      setIsLoadingMore(false)
+    }
+  }, [loadPage, filters, nextCursor])
+
+  return {
+    records,
+    filters,
+    setFilters,
+    total,
+    hasMore: nextCursor !== null,
+    isLoading,
+    isLoadingMore,
+    loadMore,
+    refresh,
+  }
+}
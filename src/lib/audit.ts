@@ -0,0 +1,70 @@
+// Audit - Records changes to financial records in the append-only audit log
+import type { ClientSession } from "mongoose"
+import type { IAuditChange } from "@/models/AuditEvent"
+import { tenantData } from "@/lib/tenant"
+import { AUDIT_SOURCE, type AuditAction, type AuditEntity, type AuditSource } from "@/lib/constants"
+
+// Bookkeeping fields that change on every write and say nothing about the record
+const IGNORED_FIELDS = new Set(["_id", "__v", "createdAt", "updatedAt", "organization", "createdBy"])
+
+type Snapshot = Record<string, unknown> | null | undefined
+
+interface AuditEventInput {
+  user: { id: string; name?: string | null; organization: string }
+  action: AuditAction
+  entityType: AuditEntity
+  entityId: string | { toString(): string }
+  // Documents or plain objects; left out for creates (before) and deletes (after)
+  before?: unknown
+  after?: unknown
+  source?: AuditSource
+}
+
+/** Plain JSON copy of a document or object, so ObjectIds and dates compare and store as strings */
+export function toSnapshot(value: unknown): Snapshot {
+  if (!value) return null
+  const plain = typeof (value as { toObject?: () => unknown }).toObject === "function"
+    ? (value as { toObject: () => unknown }).toObject()
+    : value
+  return JSON.parse(JSON.stringify(plain))
+}
+
+/** Top-level fields that differ between two snapshots; nested values are compared and stored whole */
+export function diffSnapshots(before: Snapshot, after: Snapshot): IAuditChange[] {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})])
+  const changes: IAuditChange[] = []
+
+  for (const path of keys) {
+    if (IGNORED_FIELDS.has(path)) continue
+    const previous = before?.[path]
+    const next = after?.[path]
+    if (JSON.stringify(previous) !== JSON.stringify(next)) {
+      changes.push({ path, before: previous, after: next })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Appends an event to the audit log.
+ * Pass the session when the change runs in a transaction so the event commits or aborts with it.
+ */
+export async function recordAuditEvent(event: AuditEventInput, session?: ClientSession) {
+  const changes = diffSnapshots(toSnapshot(event.before), toSnapshot(event.after))
+
+  await tenantData(event.user.organization).AuditEvent.create(
+    [
+      {
+        actor: event.user.id,
+        actorName: event.user.name || "",
+        action: event.action,
+        entityType: event.entityType,
+        entityId: event.entityId.toString(),
+        changes,
+        source: event.source || AUDIT_SOURCE.WEB,
+      },
+    ],
+    { session },
+  )
+}
@@ -5,15 +5,10 @@ import bcrypt from "bcryptjs"
 import dbConnect from "./db"
 import { DefaultSession, DefaultUser } from "next-auth"
 import { getServerSession } from "next-auth"
+import { hasPermission, rolePermissions, type Permission, type RoleDefinition } from "./permissions"
 
-// Role constants
-export const ALLOWED_ROLES = {
-  ADMIN: "admin",
-  MANAGER: "manager",
-  STAFF: "staff",
-} as const
-
-export const MANAGEMENT_ROLES = [ALLOWED_ROLES.ADMIN, ALLOWED_ROLES.MANAGER] as const
+// How long permissions in a session are trusted before they're reloaded from the organization's roles
+const PERMISSIONS_REFRESH_MS = 5 * 60 * 1000
 
 declare module "next-auth" {
   interface Session {
@@ -23,6 +18,10 @@ declare module "next-auth" {
       organization: string
       organizationName: string
       superAdmin: boolean
+      permissions: Permission[]
+      // Branches the user works at, empty for every branch, and the one they're viewing (null for all of them)
+      branches: string[]
+      branch: string | null
     } & DefaultSession["user"]
   }
   interface User extends DefaultUser {
@@ -31,6 +30,9 @@ declare module "next-auth" {
     organization: string
     organizationName: string
     superAdmin: boolean
+    permissions: Permission[]
+    branches: string[]
+    branch: string | null
   }
 }
 
@@ -71,6 +73,12 @@ export const authOptions: NextAuthOptions = {
               ? user.organization.name
               : "",
           superAdmin: user.superAdmin || false,
+          permissions: rolePermissions(
+            user.role,
+            typeof user.organization === "object" ? user.organization?.roles : undefined,
+          ),
+          branches: (user.branches || []).map(String),
+          branch: user.branches?.[0] ? String(user.branches[0]) : null,
         }
       },
     }),
@@ -79,13 +87,31 @@ export const authOptions: NextAuthOptions = {
     strategy: "jwt",
   },
   callbacks: {
-    async jwt({ token, user }) {
+    async jwt({ token, user, trigger, session }) {
       if (user) {
         token.id = user.id
         token.role = user.role
         token.organization = user.organization
         token.organizationName = user.organizationName
         token.superAdmin = user.superAdmin
+        token.permissions = user.permissions
+        token.branches = user.branches
+        token.branch = user.branch
+        token.permissionsLoadedAt = Date.now()
+      } else if (
+        token.id &&
+        (trigger === "update" || Date.now() - Number(token.permissionsLoadedAt || 0) > PERMISSIONS_REFRESH_MS)
+      ) {
+        // Picks up role and branch changes made by an admin since sign-in
+        const access = await loadAccess(token.id as string)
+        token.role = access.role
+        token.permissions = access.permissions
+        token.branches = access.branches
+
+        // The branch switcher calls update({ branch }) with a branch id, or null for all branches
+        const requested = trigger === "update" && session && "branch" in session ? session.branch : token.branch
+        token.branch = await allowedBranch(token.organization as string, requested, access.branches)
+        token.permissionsLoadedAt = Date.now()
       }
       return token
     },
@@ -96,6 +122,9 @@ export const authOptions: NextAuthOptions = {
         session.user.organization = token.organization as string
         session.user.organizationName = token.organizationName as string
         session.user.superAdmin = token.superAdmin as boolean
+        session.user.permissions = (token.permissions as Permission[]) || []
+        session.user.branches = (token.branches as string[]) || []
+        session.user.branch = (token.branch as string | null) ?? null
       }
       return session
     },
@@ -106,32 +135,81 @@ export const authOptions: NextAuthOptions = {
 }
 
 /**
- * Requires authentication and optionally validates role permissions
- * @param requiredRoles - Optional array of allowed roles
+ * Requires authentication and optionally a permission.
+ * The session's role and permissions are replaced with the current ones, since an admin
+ * may have changed them after the user signed in.
+ * @param permission - Optional permission the user must hold
  * @returns The session object
  * @throws Error if unauthorized or insufficient permissions
  */
-export async function requireAuth(requiredRoles?: readonly string[]) {
+export async function requireAuth(permission?: Permission) {
   const session = await getServerSession(authOptions)
 
   if (!session?.user?.id) {
     throw new Error("Unauthorized")
   }
 
-  if (requiredRoles && requiredRoles.length > 0) {
-    const userRole = session.user.role?.toLowerCase()
-    if (!userRole || !requiredRoles.includes(userRole)) {
-      throw new Error("Insufficient permissions")
-    }
+  const access = await loadAccess(session.user.id)
+  if (!access.role) {
+    throw new Error("Unauthorized")
+  }
+  session.user.role = access.role
+  session.user.permissions = access.permissions
+  session.user.branches = access.branches
+  if (session.user.branch && access.branches.length > 0 && !access.branches.includes(session.user.branch)) {
+    session.user.branch = null
+  }
+
+  if (permission && !hasPermission(access.permissions, permission)) {
+    throw new Error("Insufficient permissions")
   }
 
   return session
 }
 
-/** Checks if a role has management permissions (admin or manager) */
-export function hasManagementRole(role?: string): boolean {
-  if (!role) return false
-  return MANAGEMENT_ROLES.includes(role.toLowerCase() as typeof MANAGEMENT_ROLES[number])
+/** The current permissions of a signed-in user, for API routes that check more than signing in */
+export async function getUserPermissions(userId: string): Promise<Permission[]> {
+  return (await loadAccess(userId)).permissions
+}
+
+interface UserAccess {
+  role?: string
+  permissions: Permission[]
+  branches: string[]
+}
+
+/** Loads a user's current role, what it permits in their organization, and the branches they work at */
+async function loadAccess(userId: string): Promise<UserAccess> {
+  await dbConnect()
+
+  const [Organization, UserModel] = await Promise.all([
+    import("@/models/Organization").then(m => m.default),
+    import("@/models/User").then(m => m.default),
+  ])
+
+  const user = await UserModel.findById(userId)
+    .select("role organization branches")
+    .lean<{ role: string; organization: unknown; branches?: unknown[] }>()
+  if (!user) {
+    return { permissions: [], branches: [] }
+  }
+
+  const organization = await Organization.findById(user.organization).select("roles").lean<{ roles?: RoleDefinition[] }>()
+  return {
+    role: user.role,
+    permissions: rolePermissions(user.role, organization?.roles),
+    branches: (user.branches || []).map(String),
+  }
+}
+
+/** The requested branch if it's an active branch of the organization the user works at, otherwise all branches */
+async function allowedBranch(organization: string, requested: unknown, branches: string[]): Promise<string | null> {
+  if (typeof requested !== "string" || !requested) return null
+  if (branches.length > 0 && !branches.includes(requested)) return null
+
+  const Branch = (await import("@/models/Branch")).default
+  const exists = await Branch.exists({ _id: requested, organization, isActive: true }).catch(() => null)
+  return exists ? requested : null
 }
 
 /** Fetches user data with organization (parallel queries for ~100ms savings) */
@@ -0,0 +1,36 @@
+// Branches - Scopes records to the branch a user is viewing and tags new records with their branch
+import mongoose from "mongoose"
+import type { TenantData } from "@/lib/tenant"
+
+export interface BranchUser {
+  branch?: string | null
+  branches?: string[]
+}
+
+/**
+ * Query conditions for the records a user sees: the branch they're viewing, or in the
+ * consolidated view every branch they work at. Users who work at every branch also see
+ * records from before the organization had branches.
+ * Ids are ObjectIds so the conditions can be used in aggregations too.
+ */
+export function branchFilter(user: BranchUser): Record<string, unknown> {
+  if (user.branch) {
+    return { branch: new mongoose.Types.ObjectId(user.branch) }
+  }
+  if (user.branches && user.branches.length > 0) {
+    return { branch: { $in: user.branches.map((id) => new mongoose.Types.ObjectId(id)) } }
+  }
+  return {}
+}
+
+/**
+ * The branch a new record belongs to: the one the user is viewing, else the first they work at,
+ * else the organization's first branch. Undefined while the organization has no branches.
+ */
+export async function recordBranch(db: TenantData, user: BranchUser): Promise<string | undefined> {
+  if (user.branch) return user.branch
+  if (user.branches && user.branches.length > 0) return user.branches[0]
+
+  const first = await db.Branch.findOne({ isActive: true }).sort({ createdAt: 1 }).select("_id").lean<{ _id: unknown }>()
+  return first ? String(first._id) : undefined
+}
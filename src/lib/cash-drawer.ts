@@ -0,0 +1,89 @@
+// Cash Drawer - Works out what a till session took and how much cash should be in the drawer
+import { tenantData, type TenantData } from "@/lib/tenant"
+import { branchFilter, recordBranch, type BranchUser } from "@/lib/branches"
+import type { ICashMovement, ICashSummary } from "@/models/CashSession"
+import { NOT_VOIDED } from "@/lib/voids"
+import { CASH_MOVEMENT, CASH_SESSION_STATUS, PAYMENT_METHOD, PAYMENT_STATUS } from "@/lib/constants"
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+interface SessionWindow {
+  branch?: unknown
+  openingFloat: number
+  openedAt: Date
+  movements: ICashMovement[]
+}
+
+/**
+ * Conditions for the open session on the till of the branch the user takes cash at.
+ * Organizations without branches have a single till.
+ */
+export async function openSessionFilter(db: TenantData, user: BranchUser) {
+  const branch = await recordBranch(db, user)
+  return { status: CASH_SESSION_STATUS.OPEN, branch: branch ?? null }
+}
+
+/**
+ * Sums the takings between the session opening and `until`: orders settled at the till, due account
+ * collections, cash expenses and pay-ins/pay-outs. Expected cash is what should be left in the drawer.
+ * Only the session's branch counts; sessions from before the organization had branches count every record.
+ */
+export async function summarizeCashSession(
+  organization: string,
+  session: SessionWindow,
+  until: Date = new Date(),
+): Promise<ICashSummary> {
+  const db = tenantData(organization)
+  const window = { $gte: session.openedAt, $lt: until }
+  const inBranch = branchFilter({ branch: session.branch ? String(session.branch) : null })
+
+  const [orders, duePayments, expenses] = await Promise.all([
+    db.IncomeRecord.find({ paymentStatus: PAYMENT_STATUS.COMPLETED, paidAt: window, ...NOT_VOIDED, ...inBranch })
+      .select("paymentMethod totalAmount cashAmount digitalAmount")
+      .lean<{ paymentMethod: string; totalAmount: number; cashAmount?: number; digitalAmount?: number }[]>(),
+    db.DuePayment.find({ date: window, ...inBranch }).select("paymentMethod amount").lean<{ paymentMethod: string; amount: number }[]>(),
+    // Expenses recorded before paymentMethod existed were paid in cash
+    db.ExpenseRecord.find({ createdAt: window, paymentMethod: { $ne: PAYMENT_METHOD.DIGITAL }, ...NOT_VOIDED, ...inBranch })
+      .select("amount")
+      .lean<{ amount: number }[]>(),
+  ])
+
+  let cashSales = 0
+  let digitalSales = 0
+  for (const order of orders) {
+    if (order.paymentMethod === PAYMENT_METHOD.SPLIT) {
+      cashSales += order.cashAmount || 0
+      digitalSales += order.digitalAmount || 0
+    } else if (order.paymentMethod === PAYMENT_METHOD.CASH) {
+      cashSales += order.totalAmount
+    } else {
+      digitalSales += order.totalAmount
+    }
+  }
+
+  const dueCashCollections = duePayments
+    .filter((payment) => payment.paymentMethod === PAYMENT_METHOD.CASH)
+    .reduce((sum, payment) => sum + payment.amount, 0)
+  const dueDigitalCollections = duePayments
+    .filter((payment) => payment.paymentMethod === PAYMENT_METHOD.DIGITAL)
+    .reduce((sum, payment) => sum + payment.amount, 0)
+  const cashExpenses = expenses.reduce((sum, expense) => sum + expense.amount, 0)
+  const payIns = session.movements
+    .filter((movement) => movement.type === CASH_MOVEMENT.PAY_IN)
+    .reduce((sum, movement) => sum + movement.amount, 0)
+  const payOuts = session.movements
+    .filter((movement) => movement.type === CASH_MOVEMENT.PAY_OUT)
+    .reduce((sum, movement) => sum + movement.amount, 0)
+
+  return {
+    ordersCount: orders.length,
+    cashSales: round(cashSales),
+    digitalSales: round(digitalSales),
+    dueCashCollections: round(dueCashCollections),
+    dueDigitalCollections: round(dueDigitalCollections),
+    cashExpenses: round(cashExpenses),
+    payIns: round(payIns),
+    payOuts: round(payOuts),
+    expectedCash: round(session.openingFloat + cashSales + dueCashCollections + payIns - payOuts - cashExpenses),
+  }
+}
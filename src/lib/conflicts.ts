@@ -0,0 +1,71 @@
+// Conflicts - Detects offline edits made against an outdated copy of a record and merges them field by field
+
+/** A write rejected because the record changed on the server since the copy it was based on */
+export interface StaleWrite<T> {
+  success: false
+  conflict: true
+  record: T
+}
+
+/**
+ * Whether an edit based on the copy of a record last updated at expectedUpdatedAt would overwrite
+ * a newer change. Edits without an expected version (made online against fresh data) are never stale.
+ */
+export function isStaleWrite(current: { updatedAt?: Date | string }, expectedUpdatedAt?: Date | string | null): boolean {
+  if (!expectedUpdatedAt || !current.updatedAt) return false
+  return new Date(current.updatedAt).getTime() !== new Date(expectedUpdatedAt).getTime()
+}
+
+/** Result for a stale write, carrying the current server record so the user can resolve the conflict */
+export function staleWrite<T>(record: T): StaleWrite<T> {
+  return { success: false, conflict: true, record: JSON.parse(JSON.stringify(record)) }
+}
+
+// Bookkeeping kept by the server or the offline cache; never offered for merging
+const IGNORED_FIELDS = new Set([
+  "_id",
+  "__v",
+  "organization",
+  "branch",
+  "createdBy",
+  "createdAt",
+  "updatedAt",
+  "_offline",
+  "_localId",
+  "_timestamp",
+])
+
+export interface FieldConflict {
+  field: string
+  local: unknown
+  server: unknown
+  // Whether the offline edit changed this field; unchanged fields default to the server value
+  changedLocally: boolean
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+
+/** Fields where the offline edit and the server record disagree */
+export function conflictingFields(
+  local: Record<string, unknown>,
+  server: Record<string, unknown>,
+  base?: Record<string, unknown>,
+): FieldConflict[] {
+  return Object.keys(local)
+    .filter((field) => !IGNORED_FIELDS.has(field) && !sameValue(local[field], server[field]))
+    .map((field) => ({
+      field,
+      local: local[field],
+      server: server[field],
+      changedLocally: !base || !sameValue(local[field], base[field]),
+    }))
+}
+
+/** The server record with the offline edit's values for the chosen fields */
+export function mergeFields(
+  local: Record<string, unknown>,
+  server: Record<string, unknown>,
+  fields: string[],
+): Record<string, unknown> {
+  return fields.reduce((merged, field) => ({ ...merged, [field]: local[field] }), { ...server })
+}
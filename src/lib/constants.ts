@@ -26,7 +26,136 @@ export const PAYMENT_STATUS = {
 
 export type PaymentStatus = typeof PAYMENT_STATUS[keyof typeof PAYMENT_STATUS]
 
-// User roles
+// Dining table status
+export const TABLE_STATUS = {
+  FREE: "free",
+  OCCUPIED: "occupied",
+  RESERVED: "reserved",
+} as const
+
+export type TableStatus = typeof TABLE_STATUS[keyof typeof TABLE_STATUS]
+
+// Kitchen preparation status of an order item, in the order items move through it
+export const PREP_STATUS = {
+  QUEUED: "queued",
+  PREPARING: "preparing",
+  READY: "ready",
+  SERVED: "served",
+} as const
+
+export type PrepStatus = typeof PREP_STATUS[keyof typeof PREP_STATUS]
+
+export const PREP_STATUS_FLOW: PrepStatus[] = [
+  PREP_STATUS.QUEUED,
+  PREP_STATUS.PREPARING,
+  PREP_STATUS.READY,
+  PREP_STATUS.SERVED,
+]
+
+// Voids: staff request one, a manager approves it; voided records stay stored but drop out of totals
+export const VOID_STATUS = {
+  REQUESTED: "requested",
+  VOIDED: "voided",
+} as const
+
+export type VoidStatus = typeof VOID_STATUS[keyof typeof VOID_STATUS]
+
+// Menu price changes: scheduled ones apply once their effective date passes
+export const PRICE_CHANGE_STATUS = {
+  SCHEDULED: "scheduled",
+  APPLIED: "applied",
+  CANCELLED: "cancelled",
+} as const
+
+export type PriceChangeStatus = typeof PRICE_CHANGE_STATUS[keyof typeof PRICE_CHANGE_STATUS]
+
+// How far back a menu item's price timeline shows sales
+export const PRICE_TIMELINE_DAYS = 180
+
+// Menu rules: availability rules limit when items are sold, price rules discount them (happy hour)
+export const MENU_RULE_TYPE = {
+  AVAILABILITY: "availability",
+  PRICE: "price",
+} as const
+
+export type MenuRuleType = typeof MENU_RULE_TYPE[keyof typeof MENU_RULE_TYPE]
+
+// Time zone of organizations that haven't picked one; menu rules run on its clock
+export const DEFAULT_TIME_ZONE = "Asia/Kathmandu"
+
+// What a bulk menu import does with each row of the file
+export const MENU_IMPORT_ACTION = {
+  CREATE: "create",
+  UPDATE: "update",
+  UNCHANGED: "unchanged",
+  CONFLICT: "conflict",
+  INVALID: "invalid",
+} as const
+
+export type MenuImportAction = typeof MENU_IMPORT_ACTION[keyof typeof MENU_IMPORT_ACTION]
+
+// Rows a single menu import file may hold
+export const MENU_IMPORT_MAX_ROWS = 1000
+
+// Reason recorded for deletes queued offline before voids needed one
+export const OFFLINE_VOID_REASON = "Deleted while offline"
+
+// Background Sync tag the service worker replays the offline queue on
+export const BACKGROUND_SYNC_TAG = "background-sync"
+
+// Audit log
+export const AUDIT_ACTION = {
+  CREATE: "create",
+  UPDATE: "update",
+  DELETE: "delete",
+  PAYMENT: "payment",
+  VOID: "void",
+  RESTORE: "restore",
+} as const
+
+export type AuditAction = typeof AUDIT_ACTION[keyof typeof AUDIT_ACTION]
+
+export const AUDIT_ENTITY = {
+  INCOME_RECORD: "IncomeRecord",
+  EXPENSE_RECORD: "ExpenseRecord",
+  DUE_ACCOUNT: "DueAccount",
+  DUE_PAYMENT: "DuePayment",
+} as const
+
+export type AuditEntity = typeof AUDIT_ENTITY[keyof typeof AUDIT_ENTITY]
+
+// Where a mutation came from; offline changes are replayed by the sync manager
+export const AUDIT_SOURCE = {
+  WEB: "web",
+  OFFLINE_SYNC: "offline_sync",
+} as const
+
+export type AuditSource = typeof AUDIT_SOURCE[keyof typeof AUDIT_SOURCE]
+
+// Cash drawer
+export const CASH_SESSION_STATUS = {
+  OPEN: "open",
+  CLOSED: "closed",
+} as const
+
+export type CashSessionStatus = typeof CASH_SESSION_STATUS[keyof typeof CASH_SESSION_STATUS]
+
+export const CASH_MOVEMENT = {
+  PAY_IN: "pay_in",
+  PAY_OUT: "pay_out",
+} as const
+
+export type CashMovementType = typeof CASH_MOVEMENT[keyof typeof CASH_MOVEMENT]
+
+// Ingredient stock units
+export const INGREDIENT_UNITS = ["g", "kg", "ml", "l", "pcs"] as const
+
+export type IngredientUnit = typeof INGREDIENT_UNITS[number]
+
+// Expense category whose purchases can restock ingredients
+export const RESTOCK_EXPENSE_CATEGORY = "Food & Ingredients"
+
+// Built-in user roles; organizations can add their own
 export const USER_ROLE = {
   ADMIN: "admin",
   MANAGER: "manager",
@@ -41,6 +170,12 @@ export const REVALIDATE_PATHS = {
   DASHBOARD: ["/dashboard", "/dashboard/records"],
   DUE_ACCOUNTS: ["/due-accounts"],
   USERS: ["/users"],
+  INVENTORY: ["/dashboard/inventory", "/menu-management"],
+  SETTINGS: ["/dashboard/settings", "/dashboard/records"],
+  FLOOR: ["/dashboard/floor", "/dashboard/records"],
+  KITCHEN: ["/dashboard/kitchen", "/dashboard/floor"],
+  CASH_DRAWER: ["/dashboard/cash-drawer"],
+  BRANCHES: ["/dashboard/settings", "/users", "/dashboard"],
 } as const
 
 // API endpoint paths
@@ -49,8 +184,20 @@ export const API_PATHS = {
   EXPENSE_RECORDS: "/api/expense-records",
   DUE_ACCOUNTS: "/api/due-accounts",
   MENU_ITEMS: "/api/menu-items",
+  INGREDIENTS: "/api/ingredients",
+  TABLES: "/api/tables",
+  KITCHEN: "/api/kitchen",
+  AUDIT_EVENTS: "/api/audit-events",
+  CASH_SESSIONS: "/api/cash-sessions",
+  BRANCHES: "/api/branches",
+  MENU_RULES: "/api/menu-rules",
+  SYNC: "/api/sync",
+  TAX_SETTINGS: "/api/organization/tax-settings",
+  INVOICE_SETTINGS: "/api/organization/invoice-settings",
+  ROLES: "/api/organization/roles",
   USERS: "/api/users",
   ORGANIZATION: "/api/organization",
+  CURRENT_ORGANIZATION: "/api/organization/current",
   DASHBOARD: "/api/dashboard",
 } as const
 
@@ -90,3 +237,8 @@ export function generateTempId(): string {
 export function isTempId(id: string): boolean {
   return id.startsWith(TEMP_ID_PREFIX)
 }
+
+// Client-generated key so a resubmitted request is applied only once
+export function generateIdempotencyKey(): string {
+  return `${Date.now()}_${Math.random().toString(36).substring(2, 11)}${Math.random().toString(36).substring(2, 11)}`
+}
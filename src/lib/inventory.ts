@@ -0,0 +1,104 @@
+// Inventory - Stock movements for ingredients and automatic menu availability
+import type { IRecipeLine } from "@/models/MenuItem"
+import { tenantData } from "@/lib/tenant"
+
+interface StockLine {
+  ingredient: string
+  quantity: number
+}
+
+interface OrderLine {
+  menuItemId?: string | { toString(): string }
+  quantity: number
+}
+
+/**
+ * Applies ingredient quantity changes and re-evaluates availability of affected menu items
+ * @param organization - Organization that owns the ingredients
+ * @param lines - Positive quantities add stock, negative quantities consume it
+ */
+export async function adjustIngredientStock(organization: string, lines: StockLine[]) {
+  const deltas = new Map<string, number>()
+  for (const line of lines) {
+    if (!line.ingredient || !line.quantity) continue
+    deltas.set(line.ingredient, (deltas.get(line.ingredient) || 0) + line.quantity)
+  }
+
+  if (deltas.size === 0) return
+
+  await tenantData(organization).Ingredient.bulkWrite(
+    Array.from(deltas.entries()).map(([id, quantity]) => ({
+      updateOne: {
+        filter: { _id: id },
+        update: { $inc: { currentQuantity: quantity } },
+      },
+    })),
+  )
+
+  await syncMenuAvailability(organization, Array.from(deltas.keys()))
+}
+
+/**
+ * Consumes (direction -1) or returns (direction 1) the ingredients used by the order lines.
+ * Lines without a menuItemId or menu items without a recipe don't affect stock.
+ */
+export async function applyOrderStock(organization: string, items: OrderLine[], direction: 1 | -1) {
+  const quantities = new Map<string, number>()
+  for (const item of items) {
+    if (!item.menuItemId) continue
+    const id = item.menuItemId.toString()
+    quantities.set(id, (quantities.get(id) || 0) + (Number(item.quantity) || 0))
+  }
+
+  if (quantities.size === 0) return
+
+  const menuItems = await tenantData(organization).MenuItem.find({
+    _id: { $in: Array.from(quantities.keys()) },
+    "recipe.0": { $exists: true },
+  })
+    .select("recipe")
+    .lean()
+
+  const lines: StockLine[] = []
+  for (const menuItem of menuItems) {
+    const orderedQuantity = quantities.get(String(menuItem._id)) || 0
+    for (const line of menuItem.recipe as IRecipeLine[]) {
+      lines.push({ ingredient: line.ingredient.toString(), quantity: direction * line.quantity * orderedQuantity })
+    }
+  }
+
+  await adjustIngredientStock(organization, lines)
+}
+
+/**
+ * Switches menu items off when an ingredient can't cover one more portion,
+ * and back on once restocked if they were switched off automatically
+ */
+export async function syncMenuAvailability(organization: string, ingredientIds?: string[]) {
+  const db = tenantData(organization)
+  const menuQuery: Record<string, unknown> = { "recipe.0": { $exists: true } }
+  if (ingredientIds) menuQuery["recipe.ingredient"] = { $in: ingredientIds }
+
+  const menuItems = await db.MenuItem.find(menuQuery).select("recipe isAvailable outOfStock").lean()
+  if (menuItems.length === 0) return
+
+  const ingredients = await db.Ingredient.find().select("currentQuantity").lean()
+  const stock = new Map(ingredients.map((ingredient) => [String(ingredient._id), Number(ingredient.currentQuantity)]))
+
+  const updates = []
+  for (const menuItem of menuItems) {
+    const inStock = (menuItem.recipe as IRecipeLine[]).every(
+      (line) => (stock.get(line.ingredient.toString()) ?? 0) >= line.quantity,
+    )
+
+    if (!inStock && menuItem.isAvailable) {
+      updates.push({ updateOne: { filter: { _id: menuItem._id }, update: { isAvailable: false, outOfStock: true } } })
+    } else if (inStock && menuItem.outOfStock) {
+      updates.push({ updateOne: { filter: { _id: menuItem._id }, update: { isAvailable: true, outOfStock: false } } })
+    }
+  }
+
+  if (updates.length > 0) {
+    await db.MenuItem.bulkWrite(updates)
+  }
+}
@@ -0,0 +1,26 @@
+// Invoice Counter - Atomic allocation of the next invoice number for an organization
+import type { ClientSession } from "mongoose"
+import Organization from "@/models/Organization"
+import { tenantData } from "@/lib/tenant"
+import { getTimeZone } from "@/lib/time-zone"
+import { DEFAULT_INVOICE_SETTINGS, formatInvoiceNumber, invoiceSeries, type InvoiceSettings } from "@/lib/invoice"
+
+/**
+ * Takes the next number in the organization's current series.
+ * Must run in the same transaction that saves the order, so an aborted save
+ * also rolls back the counter and the series stays gap-free.
+ */
+export async function nextInvoiceNumber(organization: string, session: ClientSession): Promise<string> {
+  const org = await Organization.findById(organization).select("invoiceSettings").session(session)
+  const settings: InvoiceSettings = { ...DEFAULT_INVOICE_SETTINGS, ...org?.invoiceSettings?.toObject() }
+
+  // A new year starts on the organization's calendar, not the server's
+  const series = invoiceSeries(new Date(), settings, await getTimeZone(organization))
+  const counter = await tenantData(organization).InvoiceCounter.findOneAndUpdate(
+    { series },
+    { $inc: { seq: 1 } },
+    { upsert: true, new: true, session },
+  )
+
+  return formatInvoiceNumber(settings, series, counter.seq)
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_INVOICE_SETTINGS, invoiceSeries } from "@/lib/invoice"
+
+describe("invoiceSeries", () => {
+  // 01:45 on New Year's Day in Kathmandu, still the previous evening in UTC
+  const newYearInKathmandu = new Date("2026-12-31T20:00:00Z")
+
+  it("starts a calendar year on the organization's calendar", () => {
+    expect(invoiceSeries(newYearInKathmandu, DEFAULT_INVOICE_SETTINGS, "Asia/Kathmandu")).toBe("2027")
+    expect(invoiceSeries(newYearInKathmandu, DEFAULT_INVOICE_SETTINGS, "UTC")).toBe("2026")
+  })
+
+  it("starts a fiscal year on the organization's calendar", () => {
+    const settings = { ...DEFAULT_INVOICE_SETTINGS, resetPeriod: "fiscal" as const, fiscalYearStartMonth: 4 }
+    const aprilInKathmandu = new Date("2027-03-31T20:00:00Z")
+
+    expect(invoiceSeries(aprilInKathmandu, settings, "Asia/Kathmandu")).toBe("2027-28")
+    expect(invoiceSeries(aprilInKathmandu, settings, "UTC")).toBe("2026-27")
+    expect(invoiceSeries(newYearInKathmandu, { ...settings, fiscalYearStartMonth: 1 }, "Asia/Kathmandu")).toBe("2027")
+  })
+
+  it("keeps one series when numbering never resets", () => {
+    expect(invoiceSeries(newYearInKathmandu, { ...DEFAULT_INVOICE_SETTINGS, resetPeriod: "never" }, "UTC")).toBe("")
+  })
+})
@@ -0,0 +1,49 @@
+// Invoice - Invoice number series and formatting shared by the settings page and the server
+
+export type InvoiceResetPeriod = "never" | "yearly" | "fiscal"
+
+/** Organization-level invoice numbering rules */
+export interface InvoiceSettings {
+  prefix: string
+  resetPeriod: InvoiceResetPeriod
+  fiscalYearStartMonth: number
+}
+
+export const DEFAULT_INVOICE_SETTINGS: InvoiceSettings = {
+  prefix: "INV",
+  resetPeriod: "yearly",
+  fiscalYearStartMonth: 4,
+}
+
+/** Year and month (1-12) of a moment on a time zone's calendar */
+function calendarIn(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, year: "numeric", month: "numeric" }).formatToParts(date)
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value)
+  return { year: part("year"), month: part("month") }
+}
+
+/**
+ * Returns the numbering series a date falls in on the organization's calendar: "" when numbering
+ * never resets, "2026" for calendar years and "2026-27" for fiscal years
+ */
+export function invoiceSeries(date: Date, settings: InvoiceSettings, timeZone: string): string {
+  const { year, month } = calendarIn(date, timeZone)
+
+  switch (settings.resetPeriod) {
+    case "yearly":
+      return String(year)
+    case "fiscal": {
+      const startYear = month >= settings.fiscalYearStartMonth ? year : year - 1
+      return settings.fiscalYearStartMonth === 1
+        ? String(startYear)
+        : `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`
+    }
+    default:
+      return ""
+  }
+}
+
+/** Formats a sequence number within a series, e.g. INV-2026-00042 */
+export function formatInvoiceNumber(settings: InvoiceSettings, series: string, seq: number): string {
+  return [settings.prefix, series, String(seq).padStart(5, "0")].filter(Boolean).join("-")
+}
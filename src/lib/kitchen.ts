@@ -0,0 +1,44 @@
+// Kitchen - Preparation status rules shared by the kitchen screen and the order actions
+import { PREP_STATUS, PREP_STATUS_FLOW, type PrepStatus } from "@/lib/constants"
+import { sameOptions } from "@/lib/menu-options"
+import type { OrderItemModifier } from "@/types"
+
+interface PrepItem {
+  name: string
+  quantity: number
+  variant?: string
+  modifiers?: OrderItemModifier[]
+  menuItemId?: string | { toString(): string }
+  prepStatus?: PrepStatus
+}
+
+/** The status an item moves to next; served is final */
+export function nextPrepStatus(status: PrepStatus = PREP_STATUS.QUEUED): PrepStatus {
+  const index = PREP_STATUS_FLOW.indexOf(status)
+  return PREP_STATUS_FLOW[Math.min(index + 1, PREP_STATUS_FLOW.length - 1)]
+}
+
+/**
+ * Keeps the kitchen progress of items when an order is edited.
+ * Each new line takes the status of the first unused matching previous line, unless its
+ * quantity went up, in which case the kitchen has more to make and it is queued again.
+ */
+export function carryOverPrepStatus<T extends PrepItem>(previousItems: PrepItem[], items: T[]): T[] {
+  const used = new Set<number>()
+  const sameItem = (a: PrepItem, b: PrepItem) =>
+    (a.menuItemId || b.menuItemId
+      ? String(a.menuItemId) === String(b.menuItemId)
+      : a.name.toLowerCase() === b.name.toLowerCase()) && sameOptions(a, b)
+
+  return items.map((item) => {
+    const index = previousItems.findIndex((previous, i) => !used.has(i) && sameItem(previous, item))
+    if (index === -1) return { ...item, prepStatus: PREP_STATUS.QUEUED }
+
+    used.add(index)
+    const previous = previousItems[index]
+    return {
+      ...item,
+      prepStatus: item.quantity > previous.quantity ? PREP_STATUS.QUEUED : previous.prepStatus || PREP_STATUS.QUEUED,
+    }
+  })
+}
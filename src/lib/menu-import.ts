@@ -0,0 +1,126 @@
+// Menu Import - Reading menu files for bulk import, and the rows menu exports are written as
+import { MENU_IMPORT_MAX_ROWS } from "@/lib/constants"
+
+// Columns of menu import and export files, in the order exports write them
+export const MENU_FILE_COLUMNS = ["name", "category", "price", "description", "isAvailable", "image"] as const
+
+export type MenuFileRow = Partial<Record<(typeof MENU_FILE_COLUMNS)[number], unknown>>
+
+/** Splits CSV text into rows of cells; quoted cells may hold commas, line breaks and doubled quotes */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ""
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ",") {
+      row.push(cell)
+      cell = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  // Blank lines, such as a trailing newline, aren't rows
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""))
+}
+
+/**
+ * Reads the rows of a menu file: a JSON array of items (or `{ menuItems: [...] }`), or a CSV with a header row.
+ * Headers are matched to columns ignoring case and spaces, and unknown ones are ignored. Throws when the file
+ * can't be read as either, so the import can say why before anything is checked.
+ */
+export function parseMenuFile(fileName: string, text: string): MenuFileRow[] {
+  const content = text.replace(/^\uFEFF/, "")
+  const isJson = fileName.toLowerCase().endsWith(".json") || /^\s*[[{]/.test(content)
+
+  let rows: MenuFileRow[]
+  if (isJson) {
+    let data: unknown
+    try {
+      data = JSON.parse(content)
+    } catch {
+      throw new Error("The file isn't valid JSON")
+    }
+    const items = Array.isArray(data) ? data : (data as { menuItems?: unknown })?.menuItems
+    if (!Array.isArray(items) || items.some((item) => typeof item !== "object" || item === null)) {
+      throw new Error("The JSON file must be a list of menu items")
+    }
+    rows = items.map((item) => pickColumns(item as Record<string, unknown>))
+  } else {
+    const [header, ...lines] = parseCSV(content)
+    if (!header) throw new Error("The file is empty")
+
+    const columns = header.map((name) => MENU_FILE_COLUMNS.find((column) => sameColumn(column, name)))
+    if (!columns.includes("name") || !columns.includes("category") || !columns.includes("price")) {
+      throw new Error("The CSV header must have at least name, category and price columns")
+    }
+    rows = lines.map((cells) => {
+      const row: MenuFileRow = {}
+      columns.forEach((column, index) => {
+        if (column && cells[index] !== undefined) row[column] = cells[index]
+      })
+      return row
+    })
+  }
+
+  if (rows.length === 0) throw new Error("The file has no menu items")
+  if (rows.length > MENU_IMPORT_MAX_ROWS) {
+    throw new Error(`A file can hold at most ${MENU_IMPORT_MAX_ROWS} menu items`)
+  }
+  return rows
+}
+
+/** A menu item as a row of an export file, which imports back unchanged */
+export function toMenuFileRow(item: {
+  name: string
+  category: string
+  price: number
+  description?: string
+  isAvailable: boolean
+  image?: string
+}) {
+  return {
+    name: item.name,
+    category: item.category,
+    price: item.price,
+    description: item.description || "",
+    isAvailable: item.isAvailable,
+    image: item.image || "",
+  }
+}
+
+const sameColumn = (column: string, name: string) =>
+  column.toLowerCase() === name.trim().toLowerCase().replace(/[\s_-]/g, "")
+
+function pickColumns(item: Record<string, unknown>): MenuFileRow {
+  const row: MenuFileRow = {}
+  for (const [key, value] of Object.entries(item)) {
+    const column = MENU_FILE_COLUMNS.find((name) => sameColumn(name, key))
+    if (column) row[column] = value
+  }
+  return row
+}
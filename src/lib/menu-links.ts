@@ -0,0 +1,61 @@
+// Menu Links - Resolving order lines to the menu items they were sold as
+import type { TenantData } from "@/lib/tenant"
+
+interface NamedMenuItem {
+  _id: unknown
+  name?: unknown
+}
+
+interface OrderLine {
+  name: string
+  menuItemId?: unknown
+}
+
+/**
+ * Collapses case, spacing and punctuation so "Chicken  Momo!" and "chicken momo" compare equal, and
+ * "Café" matches "Cafe". Accents are dropped from Latin letters only: in scripts such as Devanagari
+ * the combining vowel signs are part of the word, so they're kept.
+ */
+export function normalizeItemName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/(\p{Script=Latin})\p{M}+/gu, "$1")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim()
+}
+
+/** Menu item ids by normalized name; more than one id means the name alone can't tell them apart */
+export function menuItemIdsByName(menuItems: NamedMenuItem[]): Map<string, string[]> {
+  const idsByName = new Map<string, string[]>()
+  for (const item of menuItems) {
+    const key = normalizeItemName(String(item.name || ""))
+    if (!key) continue
+    idsByName.set(key, [...(idsByName.get(key) || []), String(item._id)])
+  }
+  return idsByName
+}
+
+/** The menu item an unlinked line was sold as, when exactly one item has its name */
+export function resolveMenuItemId(idsByName: Map<string, string[]>, name: string): string | undefined {
+  const ids = idsByName.get(normalizeItemName(name))
+  return ids?.length === 1 ? ids[0] : undefined
+}
+
+/**
+ * Fills in the menuItemId of lines typed in by hand or queued offline, so every new order is linked.
+ * Lines whose name matches no menu item, or more than one, are left unlinked for the review screen.
+ */
+export async function linkOrderItems<T extends OrderLine>(db: TenantData, items: T[]): Promise<T[]> {
+  if (items.every((item) => item.menuItemId)) return items
+
+  const menuItems = await db.MenuItem.find().select("name").lean()
+  const idsByName = menuItemIdsByName(menuItems)
+
+  return items.map((item) => {
+    if (item.menuItemId) return item
+    const menuItemId = resolveMenuItemId(idsByName, item.name)
+    return menuItemId ? { ...item, menuItemId } : item
+  })
+}
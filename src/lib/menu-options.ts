@@ -0,0 +1,42 @@
+// Menu Options - Pricing, selection rules and labels for menu item variants and modifiers
+import type { MenuVariant, ModifierGroup, OrderItemModifier } from "@/types"
+
+interface OrderItemOptions {
+  variant?: string
+  modifiers?: OrderItemModifier[]
+}
+
+/** Unit price of an item in the chosen variant with the chosen modifiers */
+export function optionsPrice(basePrice: number, variant: MenuVariant | undefined, modifiers: OrderItemModifier[]): number {
+  return (variant ? variant.price : basePrice) + modifiers.reduce((sum, modifier) => sum + modifier.priceDelta, 0)
+}
+
+/** Why the chosen modifiers break a group's selection rules, or null when every group is satisfied */
+export function modifierSelectionError(groups: ModifierGroup[], modifiers: OrderItemModifier[]): string | null {
+  for (const group of groups) {
+    const count = modifiers.filter((modifier) => modifier.group === group.name).length
+    if (count < group.minSelect) {
+      return group.minSelect === 1 ? `Choose a ${group.name}` : `Choose at least ${group.minSelect} for ${group.name}`
+    }
+    if (count > group.maxSelect) {
+      return `Choose at most ${group.maxSelect} for ${group.name}`
+    }
+  }
+  return null
+}
+
+/** Whether an item has anything to choose before it can be added to an order */
+export function hasOptions(item: { variants?: MenuVariant[]; modifierGroups?: ModifierGroup[] }): boolean {
+  return Boolean(item.variants?.length || item.modifierGroups?.length)
+}
+
+/** The variant and modifiers of an order item, e.g. "Large · Oat milk, Extra shot" */
+export function describeOptions(item: OrderItemOptions): string {
+  const modifiers = (item.modifiers || []).map((modifier) => modifier.name).join(", ")
+  return [item.variant, modifiers].filter(Boolean).join(" · ")
+}
+
+/** Whether two order items were ordered with the same variant and modifiers, so they can share a line */
+export function sameOptions(a: OrderItemOptions, b: OrderItemOptions): boolean {
+  return describeOptions(a) === describeOptions(b)
+}
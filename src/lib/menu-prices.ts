@@ -0,0 +1,170 @@
+// Menu Prices - Price history of menu items, applying price changes scheduled for a later date, and checking
+// the happy-hour prices orders are charged
+import mongoose from "mongoose"
+import type { TenantData } from "@/lib/tenant"
+import { getTimeZone } from "@/lib/time-zone"
+import { activePriceRule, rulePrice, rulesForItem } from "@/lib/menu-rules"
+import { optionsPrice, sameOptions } from "@/lib/menu-options"
+import type { IMenuRule } from "@/models/MenuRule"
+import type { MenuVariant, ModifierGroup, OrderItemModifier } from "@/types"
+import { MENU_RULE_TYPE, PRICE_CHANGE_STATUS } from "@/lib/constants"
+
+export interface PriceChange {
+  menuItem: unknown
+  price: number
+  previousPrice?: number
+  createdBy: string
+}
+
+/** Records a price change made right away, so the item's price history stays complete, in the write's transaction if given */
+export async function recordPriceChange(db: TenantData, change: PriceChange, session?: mongoose.ClientSession) {
+  await recordPriceChanges(db, [change], session)
+}
+
+/** Records several price changes made right away at once, as a bulk import makes them, in its transaction if given */
+export async function recordPriceChanges(db: TenantData, changes: PriceChange[], session?: mongoose.ClientSession) {
+  if (changes.length === 0) return
+  const now = new Date()
+  // Mongoose only creates several documents in a session when they're saved in order
+  await db.MenuPriceChange.create(
+    changes.map((change) => ({ ...change, effectiveAt: now, appliedAt: now, status: PRICE_CHANGE_STATUS.APPLIED })),
+    { session, ordered: true },
+  )
+}
+
+/**
+ * Applies scheduled price changes whose effective date has passed, oldest first.
+ * There is no job runner, so this runs whenever prices are read and before orders are saved. Each change
+ * is claimed and applied in one transaction, and the price it replaces is read by the same write that
+ * replaces it, so two requests racing here apply it once and record the right previous price.
+ */
+export async function applyDuePriceChanges(db: TenantData) {
+  const dueChanges = await db.MenuPriceChange.find({
+    status: PRICE_CHANGE_STATUS.SCHEDULED,
+    effectiveAt: { $lte: new Date() },
+  })
+    .sort({ effectiveAt: 1 })
+    .lean()
+
+  for (const change of dueChanges) {
+    const session = await mongoose.startSession()
+    try {
+      await session.withTransaction(async () => {
+        const claimed = await db.MenuPriceChange.findOneAndUpdate(
+          { _id: change._id, status: PRICE_CHANGE_STATUS.SCHEDULED },
+          { status: PRICE_CHANGE_STATUS.APPLIED, appliedAt: new Date() },
+          { session },
+        )
+        if (!claimed) return
+
+        const menuItem = await db.MenuItem.findOneAndUpdate(
+          { _id: change.menuItem },
+          { price: change.price },
+          { session, projection: { price: 1 } },
+        )
+
+        // The item was deleted since; its change has nothing left to apply to
+        if (!menuItem) {
+          await db.MenuPriceChange.updateOne(
+            { _id: change._id },
+            { status: PRICE_CHANGE_STATUS.CANCELLED, $unset: { appliedAt: 1 } },
+            { session },
+          )
+          return
+        }
+
+        await db.MenuPriceChange.updateOne({ _id: change._id }, { previousPrice: menuItem.price }, { session })
+      })
+    } finally {
+      await session.endSession()
+    }
+  }
+
+  return dueChanges.length
+}
+
+interface ChargedLine {
+  name: string
+  price: number
+  menuItemId?: unknown
+  variant?: string
+  modifiers?: OrderItemModifier[]
+  priceRule?: { name: string; discountPercent: number }
+}
+
+interface PricedMenuItem {
+  _id: unknown
+  category: string
+  price: number
+  variants?: MenuVariant[]
+  modifierGroups?: ModifierGroup[]
+}
+
+const sameCharge = (a: ChargedLine, b: ChargedLine) =>
+  a.name === b.name &&
+  String(a.menuItemId || "") === String(b.menuItemId || "") &&
+  a.price === b.price &&
+  a.priceRule?.name === b.priceRule?.name &&
+  a.priceRule?.discountPercent === b.priceRule?.discountPercent &&
+  sameOptions(a, b)
+
+/** The unit price of a line at the menu's current prices, or undefined when it names options the item doesn't have */
+function menuPrice(menuItem: PricedMenuItem, line: ChargedLine): number | undefined {
+  const variant = line.variant ? menuItem.variants?.find((option) => option.name === line.variant) : undefined
+  if (line.variant && !variant) return undefined
+
+  const modifiers: OrderItemModifier[] = []
+  for (const modifier of line.modifiers || []) {
+    const option = menuItem.modifierGroups
+      ?.find((group) => group.name === modifier.group)
+      ?.options.find((choice) => choice.name === modifier.name)
+    if (!option) return undefined
+    modifiers.push({ ...modifier, priceDelta: option.priceDelta })
+  }
+
+  return optionsPrice(menuItem.price, variant, modifiers)
+}
+
+/**
+ * Checks the happy-hour lines of an order against the menu. The rule must be the one in effect for the item now,
+ * or when the order was taken since offline orders sync later, and the price must be the item's price with its
+ * options less that rule's discount. Lines the order already had keep the price they were charged at.
+ * Throws naming the first line that doesn't match.
+ */
+export async function checkRulePrices(
+  db: TenantData,
+  organization: string,
+  items: ChargedLine[],
+  takenAt: Date,
+  previousItems: ChargedLine[] = [],
+) {
+  const ruleLines = items.filter(
+    (item) => item.priceRule && !previousItems.some((previous) => sameCharge(previous, item)),
+  )
+  if (ruleLines.length === 0) return
+
+  const menuItemIds = ruleLines.map((line) => String(line.menuItemId || "")).filter(mongoose.isValidObjectId)
+  const [menuItems, rules, timeZone] = await Promise.all([
+    db.MenuItem.find({ _id: { $in: menuItemIds } })
+      .select("category price variants modifierGroups")
+      .lean<PricedMenuItem[]>(),
+    db.MenuRule.find({ isActive: true, type: MENU_RULE_TYPE.PRICE }).lean<IMenuRule[]>(),
+    getTimeZone(organization),
+  ])
+  const menuItemsById = new Map(menuItems.map((menuItem) => [String(menuItem._id), menuItem]))
+  const moments = [new Date(), takenAt]
+
+  for (const line of ruleLines) {
+    const menuItem = menuItemsById.get(String(line.menuItemId || ""))
+    const windows = menuItem ? rulesForItem(rules, { _id: menuItem._id, category: menuItem.category }, timeZone) : []
+    const ruleApplies = moments.some((moment) => {
+      const rule = activePriceRule(windows, moment)
+      return rule?.name === line.priceRule?.name && (rule?.discountPercent || 0) === line.priceRule?.discountPercent
+    })
+    const price = menuItem && menuPrice(menuItem, line)
+
+    if (!ruleApplies || price === undefined || rulePrice(price, line.priceRule) !== line.price) {
+      throw new Error(`The happy hour price of ${line.name} doesn't match the menu. Remove it and add it again.`)
+    }
+  }
+}
@@ -0,0 +1,118 @@
+// Menu Rules - When menu items can be sold and what happy-hour price they sell at, shared by the server and the till
+import { MENU_RULE_TYPE, type MenuRuleType } from "@/lib/constants"
+
+/**
+ * A rule's weekly window as it applies to one item. Items carry these so the till can evaluate them
+ * offline. Times are in the organization's time zone, which each window carries so the server and
+ * every till read them on the same clock wherever they run.
+ */
+export interface MenuRuleWindow {
+  name: string
+  type: MenuRuleType
+  days: number[]
+  startTime: string
+  endTime: string
+  discountPercent?: number
+  timeZone?: string
+}
+
+interface RuleTargets extends MenuRuleWindow {
+  menuItems: unknown[]
+  categories: string[]
+}
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number)
+  return hours * 60 + minutes
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+// Formatters are costly to build and items share a few zones, so one is kept per zone
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+/** Day of the week (0 is Sunday) and minutes past midnight of a moment on a time zone's clock */
+function clockIn(date: Date, timeZone?: string) {
+  const key = timeZone || ""
+  let formatter = formatters.get(key)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    })
+    formatters.set(key, formatter)
+  }
+
+  const parts = formatter.formatToParts(date)
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value || ""
+  return { day: WEEKDAYS.indexOf(part("weekday")), minutes: Number(part("hour")) * 60 + Number(part("minute")) }
+}
+
+/**
+ * Whether the window is open at the given moment, on its time zone's clock (the local one when it has none);
+ * a window ending before it starts runs past midnight
+ */
+export function isWindowOpen(window: MenuRuleWindow, date: Date): boolean {
+  const start = minutesOf(window.startTime)
+  const end = minutesOf(window.endTime)
+  const { day, minutes: now } = clockIn(date, window.timeZone)
+  const isOn = (weekday: number) => window.days.length === 0 || window.days.includes(weekday)
+
+  if (start <= end) {
+    return isOn(day) && now >= start && now < end
+  }
+  // Past midnight the window belongs to the day it started on
+  return (isOn(day) && now >= start) || (isOn((day + 6) % 7) && now < end)
+}
+
+/** The windows of the rules covering an item, by its id or its category, in the organization's time zone */
+export function rulesForItem(
+  rules: RuleTargets[],
+  item: { _id: unknown; category: string },
+  timeZone: string,
+): MenuRuleWindow[] {
+  const id = String(item._id)
+  return rules
+    .filter((rule) => rule.categories.includes(item.category) || rule.menuItems.some((menuItem) => String(menuItem) === id))
+    .map(({ name, type, days, startTime, endTime, discountPercent }) => ({
+      name,
+      type,
+      days,
+      startTime,
+      endTime,
+      ...(type === MENU_RULE_TYPE.PRICE && { discountPercent }),
+      timeZone,
+    }))
+}
+
+/** Whether a name is a time zone this runtime knows, e.g. "Asia/Kathmandu" */
+export function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Items with availability rules are sold only while one of them is open; items without are always sold */
+export function isScheduledAvailable(windows: MenuRuleWindow[] = [], date: Date): boolean {
+  const availability = windows.filter((window) => window.type === MENU_RULE_TYPE.AVAILABILITY)
+  return availability.length === 0 || availability.some((window) => isWindowOpen(window, date))
+}
+
+/** The price rule in effect; when several overlap the customer gets the biggest discount */
+export function activePriceRule(windows: MenuRuleWindow[] = [], date: Date): MenuRuleWindow | undefined {
+  return windows
+    .filter((window) => window.type === MENU_RULE_TYPE.PRICE && isWindowOpen(window, date))
+    .sort((a, b) => (b.discountPercent || 0) - (a.discountPercent || 0))[0]
+}
+
+/** A price with a price rule's discount taken off, to the paisa */
+export function rulePrice(price: number, rule?: Pick<MenuRuleWindow, "discountPercent">): number {
+  if (!rule?.discountPercent) return price
+  return Math.round(price * (100 - rule.discountPercent)) / 100
+}
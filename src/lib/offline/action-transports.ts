@@ -0,0 +1,104 @@
+import { AUDIT_SOURCE, OFFLINE_VOID_REASON } from "@/lib/constants"
+import type { SyncResult, SyncTransports } from "./sync-engine"
+
+/**
+ * Action Transports - Syncs queued operations by calling the server actions directly
+ * Used by the page and by the sync API route that background sync posts to
+ */
+
+async function paymentsAreFinal(): Promise<SyncResult> {
+  throw new Error("Recorded payments can't be changed")
+}
+
+// Server actions are imported on first use so loading the offline layer doesn't pull them in
+export const actionTransports: SyncTransports = {
+  income: {
+    async create(data) {
+      const { createIncomeRecord } = await import("@/app/actions/income-records")
+      return createIncomeRecord(data, AUDIT_SOURCE.OFFLINE_SYNC)
+    },
+    async update(id, data, expectedUpdatedAt) {
+      const { updateIncomeRecord } = await import("@/app/actions/income-records")
+      return updateIncomeRecord(id, data, AUDIT_SOURCE.OFFLINE_SYNC, expectedUpdatedAt)
+    },
+    async remove(id, data) {
+      const { voidIncomeRecord } = await import("@/app/actions/income-records")
+      return voidIncomeRecord(id, data.voidReason || OFFLINE_VOID_REASON, AUDIT_SOURCE.OFFLINE_SYNC)
+    },
+  },
+
+  expense: {
+    async create(data) {
+      const { createExpenseRecord } = await import("@/app/actions/expense-records")
+      return createExpenseRecord(data, AUDIT_SOURCE.OFFLINE_SYNC)
+    },
+    async update(id, data, expectedUpdatedAt) {
+      const { updateExpenseRecord } = await import("@/app/actions/expense-records")
+      return updateExpenseRecord(id, data, AUDIT_SOURCE.OFFLINE_SYNC, expectedUpdatedAt)
+    },
+    async remove(id, data) {
+      const { voidExpenseRecord } = await import("@/app/actions/expense-records")
+      return voidExpenseRecord(id, data.voidReason || OFFLINE_VOID_REASON, AUDIT_SOURCE.OFFLINE_SYNC)
+    },
+  },
+
+  dueAccount: {
+    async create(data) {
+      const { createDueAccount } = await import("@/app/actions/due-accounts")
+      return createDueAccount(data, AUDIT_SOURCE.OFFLINE_SYNC)
+    },
+    async update(id, data, expectedUpdatedAt) {
+      const { updateDueAccount } = await import("@/app/actions/due-accounts")
+      return updateDueAccount(id, data, AUDIT_SOURCE.OFFLINE_SYNC, expectedUpdatedAt)
+    },
+    async remove(id) {
+      const { deleteDueAccount } = await import("@/app/actions/due-accounts")
+      return deleteDueAccount(id, AUDIT_SOURCE.OFFLINE_SYNC)
+    },
+  },
+
+  duePayment: {
+    async create(data) {
+      const { duePaymentTransaction } = await import("@/app/actions/due-accounts")
+      return duePaymentTransaction(
+        data.dueAccountId,
+        data.paymentAmount,
+        data.paymentMethod,
+        data.idempotencyKey,
+        AUDIT_SOURCE.OFFLINE_SYNC,
+      )
+    },
+    update: paymentsAreFinal,
+    remove: paymentsAreFinal,
+  },
+
+  menuItem: {
+    async create(data) {
+      const { createMenuItem } = await import("@/app/actions/menu-items")
+      return createMenuItem(data)
+    },
+    async update(id, data) {
+      const { updateMenuItem } = await import("@/app/actions/menu-items")
+      return updateMenuItem(id, data)
+    },
+    async remove(id) {
+      const { deleteMenuItem } = await import("@/app/actions/menu-items")
+      return deleteMenuItem(id)
+    },
+  },
+
+  user: {
+    async create(data) {
+      const { createUser } = await import("@/app/actions/users")
+      return createUser(data)
+    },
+    async update(id, data) {
+      const { updateUser } = await import("@/app/actions/users")
+      return updateUser(id, data)
+    },
+    async remove(id) {
+      const { deleteUser } = await import("@/app/actions/users")
+      return deleteUser(id)
+    },
+  },
+}
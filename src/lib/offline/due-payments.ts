@@ -0,0 +1,124 @@
+import { offlineDB } from "./indexeddb"
+import { PAYMENT_METHOD, PAYMENT_STATUS } from "@/lib/constants"
+
+/**
+ * Due Payments - Due-account payments recorded offline
+ * Pending payments are applied to the cached accounts for display; once the server has allocated
+ * a payment, the cached account and the orders it paid are updated to match
+ */
+
+/** A payment waiting to sync; the idempotency key makes replaying it after a lost response safe */
+export interface PendingDuePayment {
+  _id: string
+  dueAccountId: string
+  customerName?: string
+  paymentAmount: number
+  paymentMethod: "cash" | "digital"
+  idempotencyKey: string
+  date: string
+}
+
+// Cached account orders carry what is still owed as their totalAmount, the way the due accounts API returns them
+const amountDue = (order: any) =>
+  order.paymentMethod === PAYMENT_METHOD.SPLIT
+    ? order.totalAmount - ((order.cashAmount || 0) + (order.digitalAmount || 0))
+    : order.totalAmount
+
+const byDate = (a: any, b: any) => new Date(a.date).getTime() - new Date(b.date).getTime()
+
+/** Spreads a payment over an account's pending orders oldest first, as the server does */
+export function allocatePayment(orders: any[], paymentAmount: number) {
+  let remaining = paymentAmount
+  const allocations: { order: string; amount: number }[] = []
+  const unpaidOrders: any[] = []
+
+  for (const order of [...orders].sort(byDate)) {
+    const amount = Math.min(order.totalAmount, Math.max(remaining, 0))
+    if (amount > 0) {
+      allocations.push({ order: order._id, amount })
+      remaining -= amount
+    }
+    if (order.totalAmount - amount > 0) {
+      unpaidOrders.push({ ...order, totalAmount: order.totalAmount - amount })
+    }
+  }
+
+  return { orders: unpaidOrders, allocations, unallocatedAmount: remaining }
+}
+
+/** The cached account with its payments still waiting to sync taken off its balance and listed in its statement */
+export function applyPendingPayments(account: any, payments: PendingDuePayment[]) {
+  const accountPayments = payments.filter((payment) => payment.dueAccountId === account._id)
+  if (accountPayments.length === 0) return account
+
+  let orders: any[] = account.orders || []
+  const ledger = accountPayments.map((payment) => {
+    const allocation = allocatePayment(orders, payment.paymentAmount)
+    orders = allocation.orders
+    return {
+      _id: payment._id,
+      dueAccount: payment.dueAccountId,
+      amount: payment.paymentAmount,
+      paymentMethod: payment.paymentMethod,
+      allocations: allocation.allocations,
+      unallocatedAmount: allocation.unallocatedAmount,
+      date: payment.date,
+      createdAt: payment.date,
+      _offline: true,
+    }
+  })
+
+  return {
+    ...account,
+    orders: orders.sort(byDate).reverse(),
+    totalDueAmount: orders.reduce((sum, order) => sum + order.totalAmount, 0),
+    pendingOrdersCount: orders.length,
+    payments: [...ledger.reverse(), ...(account.payments || [])],
+  }
+}
+
+/** Updates the cached account and orders with a payment result from the server */
+export async function reconcileDuePayment(result: { record?: any; orders?: any[] }) {
+  const payment = result.record
+  if (!payment) return
+  const paidOrders = result.orders || []
+
+  for (const order of paidOrders) {
+    // Orders with local edits still waiting to sync keep them; their own sync catches up with the server
+    const cachedOrder = await offlineDB.getRecord("incomeRecords", order._id)
+    if (cachedOrder && !cachedOrder.synced) continue
+
+    await offlineDB.addRecord("incomeRecords", {
+      id: order._id,
+      type: "income",
+      data: order,
+      timestamp: Date.now(),
+      synced: true,
+      operation: "update",
+    })
+  }
+
+  const cachedAccount = await offlineDB.getRecord("dueAccounts", String(payment.dueAccount))
+  if (!cachedAccount) return
+
+  const paidById = new Map(paidOrders.map((order) => [order._id, order]))
+  const orders = (cachedAccount.data.orders || []).flatMap((order: any) => {
+    const paidOrder = paidById.get(order._id)
+    if (!paidOrder) return [order]
+    return paidOrder.paymentStatus === PAYMENT_STATUS.PENDING ? [{ ...paidOrder, totalAmount: amountDue(paidOrder) }] : []
+  })
+
+  await offlineDB.addRecord("dueAccounts", {
+    ...cachedAccount,
+    timestamp: Date.now(),
+    data: {
+      ...cachedAccount.data,
+      orders,
+      totalDueAmount: orders.reduce((sum: number, order: any) => sum + order.totalAmount, 0),
+      pendingOrdersCount: orders.length,
+      // A replayed payment comes back with the same ledger entry
+      payments: [payment, ...(cachedAccount.data.payments || []).filter((entry: any) => entry._id !== payment._id)],
+      lastPaymentDate: payment.date,
+    },
+  })
+}
@@ -0,0 +1,40 @@
+import { API_PATHS } from "@/lib/constants"
+import type { SyncEntityType, SyncResult, SyncTransport, SyncTransports } from "./sync-engine"
+
+/**
+ * HTTP Transports - Syncs queued operations by posting them to the sync API route
+ * Used by the service worker, which can't call server actions
+ */
+
+async function postOperation(body: Record<string, unknown>): Promise<SyncResult> {
+  const response = await fetch(API_PATHS.SYNC, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "same-origin",
+    body: JSON.stringify(body),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`HTTP ${response.status}: ${errorText}`)
+  }
+
+  return await response.json()
+}
+
+function httpTransport(type: SyncEntityType): SyncTransport {
+  return {
+    create: (data) => postOperation({ type, operation: "create", data }),
+    update: (id, data, expectedUpdatedAt) => postOperation({ type, operation: "update", id, data, expectedUpdatedAt }),
+    remove: (id, data) => postOperation({ type, operation: "remove", id, data }),
+  }
+}
+
+export const httpTransports: SyncTransports = {
+  income: httpTransport("income"),
+  expense: httpTransport("expense"),
+  dueAccount: httpTransport("dueAccount"),
+  duePayment: httpTransport("duePayment"),
+  menuItem: httpTransport("menuItem"),
+  user: httpTransport("user"),
+}
@@ -1,6 +1,6 @@
 /**
  * IndexedDB wrapper for offline data storage
- * Handles local caching, queued operations, and API response caching
+ * Handles local caching, queued operations, sync conflicts, failed operations, and API response caching
  */
 
 // Enhanced IndexedDB wrapper for offline storage
@@ -16,12 +16,41 @@ export interface OfflineRecord {
 
 export interface QueuedOperation {
   id: string
-  type: "income" | "expense" | "user" | "dueAccount" | "menuItem"
+  // Due payments are only ever created and have no store of their own; pending ones are applied to the cached account
+  type: "income" | "expense" | "user" | "dueAccount" | "menuItem" | "duePayment"
   operation: "create" | "update" | "delete"
   data: any
   timestamp: number
   retryCount: number
   originalId?: string
+  // Server copy an update was made on; its updatedAt is the version the server must still have
+  baseData?: any
+  // Failed sync attempts so far
+  attempts?: SyncAttempt[]
+}
+
+export interface SyncAttempt {
+  at: number
+  error: string
+}
+
+// An operation that could not be synced, kept until the user retries or discards it
+export interface FailedOperation {
+  id: string
+  operation: QueuedOperation
+  error: string
+  failedAt: number
+}
+
+// An offline update the server rejected because the record changed there first
+export interface SyncConflict {
+  id: string
+  type: "income" | "expense" | "dueAccount"
+  recordId: string
+  local: any
+  server: any
+  base?: any
+  timestamp: number
 }
 
 export interface CachedApiResponse {
@@ -34,7 +63,7 @@ export interface CachedApiResponse {
 class OfflineDB {
   private db: IDBDatabase | null = null
   private readonly dbName = "RestaurantFinDB"
-  private readonly version = 4
+  private readonly version = 6
 
   async init(): Promise<void> {
     return new Promise((resolve, reject) => {
@@ -108,6 +137,18 @@ class OfflineDB {
           apiCacheStore.createIndex("expiry", "expiry", { unique: false })
         }
 
+        // Sync conflicts store, waiting for the user to resolve them
+        if (!db.objectStoreNames.contains("syncConflicts")) {
+          const conflictsStore = db.createObjectStore("syncConflicts", { keyPath: "id" })
+          conflictsStore.createIndex("timestamp", "timestamp", { unique: false })
+        }
+
+        // Dead-letter store for operations that failed to sync
+        if (!db.objectStoreNames.contains("failedOperations")) {
+          const failedStore = db.createObjectStore("failedOperations", { keyPath: "id" })
+          failedStore.createIndex("failedAt", "failedAt", { unique: false })
+        }
+
         // Settings store for sync metadata
         if (!db.objectStoreNames.contains("settings")) {
           db.createObjectStore("settings", { keyPath: "key" })
@@ -195,6 +236,32 @@ class OfflineDB {
     return this.deleteRecord("queuedOperations", id)
   }
 
+  async addConflict(conflict: SyncConflict): Promise<void> {
+    return this.addRecord("syncConflicts", conflict as any)
+  }
+
+  async getConflicts(): Promise<SyncConflict[]> {
+    const conflicts = (await this.getRecords("syncConflicts") as unknown) as SyncConflict[]
+    return conflicts.sort((a, b) => a.timestamp - b.timestamp)
+  }
+
+  async removeConflict(id: string): Promise<void> {
+    return this.deleteRecord("syncConflicts", id)
+  }
+
+  async addFailedOperation(failed: FailedOperation): Promise<void> {
+    return this.addRecord("failedOperations", failed as any)
+  }
+
+  async getFailedOperations(): Promise<FailedOperation[]> {
+    const failed = (await this.getRecords("failedOperations") as unknown) as FailedOperation[]
+    return failed.sort((a, b) => a.failedAt - b.failedAt)
+  }
+
+  async removeFailedOperation(id: string): Promise<void> {
+    return this.deleteRecord("failedOperations", id)
+  }
+
   async updateSyncStatus(storeName: string, id: string, synced: boolean): Promise<void> {
     if (!this.db) throw new Error("Database not initialized")
 
@@ -310,7 +377,7 @@ class OfflineDB {
   async getStorageStats(): Promise<{ [key: string]: number }> {
     const stats: { [key: string]: number } = {}
 
-    const stores = ["incomeRecords", "expenseRecords", "users", "queuedOperations", "apiCache", "dueAccounts", "menuItems"]
+    const stores = ["incomeRecords", "expenseRecords", "users", "queuedOperations", "syncConflicts", "failedOperations", "apiCache", "dueAccounts", "menuItems"]
 
     for (const store of stores) {
       try {
@@ -3,12 +3,26 @@
  */
 
 import { syncManager } from "./sync-manager"
-import type { IncomeRecord, ExpenseRecord } from "@/types"
+import type { IncomeRecord, ExpenseRecord, PaymentResult } from "@/types"
 import { offlineDB } from "./indexeddb"
+import { allocatePayment, applyPendingPayments, reconcileDuePayment } from "./due-payments"
 import { getDateRange } from "@/lib/utils"
+import { isScheduledAvailable } from "@/lib/menu-rules"
+import { DEFAULT_TAX_SETTINGS, type TaxSettings } from "@/lib/tax"
+import type { ReceiptOrganization, ReceiptWidth } from "@/lib/receipt"
+import { API_PATHS, isTempId } from "@/lib/constants"
+import {
+  RECORDS_PAGE_SIZE,
+  matchesExpenseFilters,
+  matchesIncomeFilters,
+  toSearchParams,
+  type ExpenseRecordFilters,
+  type IncomeRecordFilters,
+  type RecordPage,
+} from "@/lib/record-filters"
 
 // Import server actions
-import { createDueAccount, deleteDueAccount, updateDueAccount } from "@/app/actions/due-accounts"
+import { createDueAccount, deleteDueAccount, duePaymentTransaction, updateDueAccount } from "@/app/actions/due-accounts"
 import { createMenuItem, deleteMenuItem, updateMenuItem } from "@/app/actions/menu-items"
 
 /**
@@ -17,59 +31,47 @@ import { createMenuItem, deleteMenuItem, updateMenuItem } from "@/app/actions/me
  */
 
 export class OfflineAPI {
-  // Income Records
-  static async getIncomeRecords(): Promise<IncomeRecord[]> {
-    let localRecords: IncomeRecord[] = []
-    try {
-      // Always return local data first for immediate UI response
-      localRecords = await syncManager.getLocalRecords("income") as IncomeRecord[]
-
-      // If online, fetch from server in background
-      if (syncManager.getOnlineStatus() || localRecords.length === 0) {
-        this.backgroundFetchIncomeRecords()
-        localRecords = await syncManager.getLocalRecords("income") as IncomeRecord[]
+  /**
+   * Loads one page of records for the records tables. Online, pages come from the server and are merged into
+   * the local cache, with changes still waiting to sync leading the first page; offline, the cached records
+   * that match the filters come back as a single page.
+   */
+  private static async getRecordsPage<T extends { _id: string; _offline?: boolean }>(
+    type: "income" | "expense",
+    filters: IncomeRecordFilters | ExpenseRecordFilters,
+    matches: (record: T) => boolean,
+    cursor?: string | null,
+  ): Promise<RecordPage<T>> {
+    const localRecords = (await syncManager.getLocalRecords(type)) as T[]
+    const pendingRecords = cursor ? [] : localRecords.filter((record) => record._offline && matches(record))
+
+    if (syncManager.getOnlineStatus()) {
+      try {
+        const params = toSearchParams(filters)
+        params.set("limit", String(RECORDS_PAGE_SIZE))
+        if (cursor) params.set("cursor", cursor)
+
+        const response = await fetch(`${type === "income" ? API_PATHS.INCOME_RECORDS : API_PATHS.EXPENSE_RECORDS}?${params}`)
+        if (response.ok) {
+          const data = await response.json()
+          const serverRecords = (await syncManager.mergeServerData(type, data.records || [])) as T[]
+          return {
+            records: [...pendingRecords, ...serverRecords],
+            nextCursor: data.pagination?.nextCursor || null,
+            total: data.pagination?.total,
+          }
+        }
+      } catch (error) {
+        console.error(`Failed to fetch ${type} records, using the local copy:`, error)
       }
-
-      return localRecords
-    } catch (error) {
-      console.error("Failed to get income records:", error)
-      return []
     }
-  }
 
-  // Background fetch to update local cache without blocking UI
-  private static async backgroundFetchIncomeRecords() {
-    try {
-      const response = await fetch("/api/income-records")
-      if (response.ok) {
-        const data = await response.json()
-        await syncManager.cacheServerData("income", data.records || [])
-      }
-    } catch (error) {
-      // Silent fail for background fetch
-      console.error("Background fetch failed for income records:", error)
-    }
+    return { records: cursor ? [] : localRecords.filter(matches), nextCursor: null }
   }
 
-  // Fetch all records from server - waits for response and returns all records
-  static async fetchAllIncomeRecords(): Promise<IncomeRecord[]> {
-    try {
-      // Use a high limit to fetch all records at once
-      const response = await fetch("/api/income-records?limit=10000")
-      if (response.ok) {
-        const data = await response.json()
-        const records = data.records || []
-        // Update local cache
-        await syncManager.cacheServerData("income", records)
-        return records
-      }
-      // Fallback to local records if server fetch fails
-      return await syncManager.getLocalRecords("income") as IncomeRecord[]
-    } catch (error) {
-      console.error("Failed to fetch all income records from server:", error)
-      // Fallback to local records
-      return await syncManager.getLocalRecords("income") as IncomeRecord[]
-    }
+  // Income Records
+  static async getIncomeRecordsPage(filters: IncomeRecordFilters = {}, cursor?: string | null) {
+    return this.getRecordsPage<IncomeRecord>("income", filters, (record) => matchesIncomeFilters(record, filters), cursor)
   }
 
   static async createIncomeRecord(data: Partial<IncomeRecord>): Promise<{ success: boolean; record?: IncomeRecord }> {
@@ -82,7 +84,7 @@ export class OfflineAPI {
 
           if (result.success) {
             // Cache the server result locally
-            await syncManager.cacheServerData("income", [result.record])
+            await syncManager.mergeServerData("income", [result.record])
             return result
           }
         } catch (error) {
@@ -122,7 +124,7 @@ export class OfflineAPI {
           const result = await updateIncomeRecord(id, data as any)
 
           if (result.success) {
-            await syncManager.cacheServerData("income", [result.record])
+            await syncManager.mergeServerData("income", [result.record])
             return result
           }
         } catch (error) {
@@ -148,86 +150,42 @@ export class OfflineAPI {
     }
   }
 
-  static async deleteIncomeRecord(id: string): Promise<{ success: boolean }> {
+  /** Voids a record; staff voids become requests that stay in the list until a manager approves them */
+  static async voidIncomeRecord(id: string, reason: string): Promise<{ success: boolean; voided?: boolean }> {
     try {
-
       // If online and not a temporary ID, try server first
       if (navigator.onLine && !id.startsWith("temp_")) {
         try {
-          const { deleteIncomeRecord } = await import("@/app/actions/income-records")
-          const result = await deleteIncomeRecord(id)
+          const { voidIncomeRecord } = await import("@/app/actions/income-records")
+          const result = await voidIncomeRecord(id, reason)
 
           if (result.success) {
-            // Server delete succeeded - mark as deleted locally but don't queue for sync
-            await syncManager.markRecordAsDeleted("income", id)
-            return { success: true }
+            // Voided records leave the local list; requested voids are cached with their new status
+            if (result.voided) {
+              await syncManager.markRecordAsDeleted("income", id)
+            } else {
+              await syncManager.mergeServerData("income", [result.record])
+            }
+            return { success: true, voided: result.voided }
           }
         } catch (error) {
-          console.log("Server delete failed, falling back to offline mode:", error)
+          console.log("Server void failed, falling back to offline mode:", error)
         }
       }
 
-      // Queue for offline sync only if server delete failed or we're offline
-      await syncManager.queueOperation("income", "delete", { _id: id }, id)
+      // Queue for offline sync only if the server void failed or we're offline
+      await syncManager.queueOperation("income", "delete", { _id: id, voidReason: reason }, id)
       return { success: true }
     } catch (error) {
-      console.error("Failed to delete income record:", error)
+      console.error("Failed to void income record:", error)
       return { success: false }
     }
   }
 
-  // Expense Records - similar optimizations
-  static async getExpenseRecords(): Promise<ExpenseRecord[]> {
-    let localRecords: ExpenseRecord[] = []
-    try {
-      // Always return local data first
-      localRecords = await syncManager.getLocalRecords("expense") as ExpenseRecord[]
-
-      // If online, fetch from server in background
-      if (syncManager.getOnlineStatus() || localRecords.length === 0) {
-        this.backgroundFetchExpenseRecords()
-        localRecords = await syncManager.getLocalRecords("expense") as ExpenseRecord[]
-      }
-
-      return localRecords
-    } catch (error) {
-      console.error("Failed to get expense records:", error)
-      return []
-    }
-  }
-
-  private static async backgroundFetchExpenseRecords() {
-    try {
-      const response = await fetch("/api/expense-records")
-      if (response.ok) {
-        const data = await response.json()
-        await syncManager.cacheServerData("expense", data.records || [])
-      }
-    } catch (error) {
-      // Silent fail for background fetch
-      console.error("Background fetch failed for expense records:", error)
-    }
-  }
 
-  // Fetch all expense records from server - waits for response and returns all records
-  static async fetchAllExpenseRecords(): Promise<ExpenseRecord[]> {
-    try {
-      // Use a high limit to fetch all records at once
-      const response = await fetch("/api/expense-records?limit=10000")
-      if (response.ok) {
-        const data = await response.json()
-        const records = data.records || []
-        // Update local cache
-        await syncManager.cacheServerData("expense", records)
-        return records
-      }
-      // Fallback to local records if server fetch fails
-      return await syncManager.getLocalRecords("expense") as ExpenseRecord[]
-    } catch (error) {
-      console.error("Failed to fetch all expense records from server:", error)
-      // Fallback to local records
-      return await syncManager.getLocalRecords("expense") as ExpenseRecord[]
-    }
+  // Expense Records
+  static async getExpenseRecordsPage(filters: ExpenseRecordFilters = {}, cursor?: string | null) {
+    return this.getRecordsPage<ExpenseRecord>("expense", filters, (record) => matchesExpenseFilters(record, filters), cursor)
   }
 
   static async createExpenseRecord(
@@ -241,7 +199,7 @@ export class OfflineAPI {
           const result = await createExpenseRecord(data as any)
 
           if (result.success) {
-            await syncManager.cacheServerData("expense", [result.record])
+            await syncManager.mergeServerData("expense", [result.record])
             return result
           }
         } catch (error) {
@@ -281,7 +239,7 @@ export class OfflineAPI {
           const result = await updateExpenseRecord(id, data as any)
 
           if (result.success) {
-            await syncManager.cacheServerData("expense", [result.record])
+            await syncManager.mergeServerData("expense", [result.record])
             return result
           }
         } catch (error) {
@@ -307,50 +265,64 @@ export class OfflineAPI {
     }
   }
 
-  static async deleteExpenseRecord(id: string): Promise<{ success: boolean }> {
+  /** Voids a record; staff voids become requests that stay in the list until a manager approves them */
+  static async voidExpenseRecord(id: string, reason: string): Promise<{ success: boolean; voided?: boolean }> {
     try {
       // If online and not a temporary ID, try server first
       if (navigator.onLine && !id.startsWith("temp_")) {
         try {
-          const { deleteExpenseRecord } = await import("@/app/actions/expense-records")
-          const result = await deleteExpenseRecord(id)
+          const { voidExpenseRecord } = await import("@/app/actions/expense-records")
+          const result = await voidExpenseRecord(id, reason)
+
           if (result.success) {
-            // Server delete succeeded - mark as deleted locally but don't queue for sync
-            await syncManager.markRecordAsDeleted("expense", id)
-            return { success: true }
+            // Voided records leave the local list; requested voids are cached with their new status
+            if (result.voided) {
+              await syncManager.markRecordAsDeleted("expense", id)
+            } else {
+              await syncManager.mergeServerData("expense", [result.record])
+            }
+            return { success: true, voided: result.voided }
           }
         } catch (error) {
-          console.log("Server delete failed, falling back to offline mode:", error)
+          console.log("Server void failed, falling back to offline mode:", error)
         }
       }
 
-      // Queue for offline sync only if server delete failed or we're offline
-      await syncManager.queueOperation("expense", "delete", { _id: id }, id)
+      // Queue for offline sync only if the server void failed or we're offline
+      await syncManager.queueOperation("expense", "delete", { _id: id, voidReason: reason }, id)
       return { success: true }
     } catch (error) {
-      console.error("Failed to delete expense record:", error)
+      console.error("Failed to void expense record:", error)
       return { success: false }
     }
   }
 
+
   // Due Accounts
   static async getDueAccounts(): Promise<any[]> {
     try {
       // Always return local data first
-      const localRecords = await syncManager.getLocalRecords("dueAccount")
+      const localRecords = await this.getLocalDueAccounts()
 
       // If online, fetch from server in background
       if (navigator.onLine) {
         this.backgroundFetchDueAccounts()
       }
 
-      return localRecords as any[]
+      return localRecords
     } catch (error) {
       console.error("Failed to get due accounts:", error)
       return []
     }
   }
 
+  // Cached accounts with the payments still waiting to sync taken off their balance
+  private static async getLocalDueAccounts(): Promise<any[]> {
+    const localRecords = await syncManager.getLocalRecords("dueAccount")
+    const pendingPayments = await syncManager.getPendingDuePayments()
+    return localRecords.map((account) => applyPendingPayments(account, pendingPayments))
+  }
+
   private static async backgroundFetchDueAccounts() {
     try {
       const response = await fetch("/api/due-accounts")
@@ -448,6 +420,49 @@ export class OfflineAPI {
     }
   }
 
+  /**
+   * Records a payment on a due account. Offline, or when the server can't be reached, the payment is queued
+   * and allocated locally; the server allocates it for real when it syncs. Payments the server rejects
+   * while online are reported rather than queued.
+   */
+  static async recordDuePayment(
+    account: { _id: string; customerName?: string },
+    paymentAmount: number,
+    paymentMethod: "cash" | "digital",
+    idempotencyKey: string,
+  ): Promise<PaymentResult> {
+    if (isTempId(account._id)) {
+      throw new Error("This account hasn't synced yet - record payments once it has")
+    }
+
+    if (navigator.onLine) {
+      try {
+        const result = await duePaymentTransaction(account._id, paymentAmount, paymentMethod, idempotencyKey)
+        await reconcileDuePayment(result)
+        return result
+      } catch (error) {
+        // A failed fetch means the server wasn't reached; anything else is the server turning the payment down
+        if (!(error instanceof TypeError)) throw error
+        console.log("Server payment failed, falling back to offline mode:", error)
+      }
+    }
+
+    const localAccount = (await this.getLocalDueAccounts()).find((candidate) => candidate._id === account._id)
+    const { unallocatedAmount } = allocatePayment(localAccount?.orders || [], paymentAmount)
+
+    await syncManager.queueDuePayment({
+      _id: `temp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      dueAccountId: account._id,
+      customerName: account.customerName,
+      paymentAmount,
+      paymentMethod,
+      idempotencyKey,
+      date: new Date().toISOString(),
+    })
+
+    return { success: true, paidAmount: paymentAmount - unallocatedAmount, remainingPayment: unallocatedAmount, offline: true }
+  }
+
   // Menu Items - similar optimizations
   static async getMenuItems(category?: string, availableOnly?: boolean): Promise<any[]> {
     try {
@@ -460,7 +475,7 @@ export class OfflineAPI {
         filteredItems = filteredItems.filter((item) => item.category === category)
       }
       if (availableOnly) {
-        filteredItems = filteredItems.filter((item) => item.isAvailable)
+        filteredItems = filteredItems.filter((item) => item.isAvailable && isScheduledAvailable(item.rules, new Date()))
       }
 
       // If online, fetch from server in background
@@ -475,6 +490,12 @@ export class OfflineAPI {
     }
   }
 
+  /** Waits for the server's menu, for changes the cached items can't reflect yet such as new menu rules */
+  static async refreshMenuItems(): Promise<any[]> {
+    await this.backgroundFetchMenuItems()
+    return syncManager.getLocalRecords("menuItem")
+  }
+
   private static async backgroundFetchMenuItems(category?: string, availableOnly?: boolean) {
     try {
       const params = new URLSearchParams()
@@ -580,6 +601,63 @@ export class OfflineAPI {
     }
   }
 
+  // Tax settings - cached so orders taken offline are taxed the same way
+  static async getTaxSettings(): Promise<TaxSettings> {
+    if (navigator.onLine) {
+      try {
+        const response = await fetch(API_PATHS.TAX_SETTINGS)
+        if (response.ok) {
+          const data = await response.json()
+          await offlineDB.setSetting("taxSettings", data.taxSettings).catch(() => {})
+          return data.taxSettings
+        }
+      } catch (error) {
+        console.error("Failed to fetch tax settings:", error)
+      }
+    }
+
+    try {
+      return (await offlineDB.getSetting("taxSettings")) || DEFAULT_TAX_SETTINGS
+    } catch {
+      return DEFAULT_TAX_SETTINGS
+    }
+  }
+
+  // Organization details for receipt headers - cached so receipts can be printed offline
+  static async getReceiptOrganization(): Promise<ReceiptOrganization> {
+    if (navigator.onLine) {
+      try {
+        const response = await fetch(API_PATHS.CURRENT_ORGANIZATION)
+        if (response.ok) {
+          const data = await response.json()
+          await offlineDB.setSetting("receiptOrganization", data.organization).catch(() => {})
+          return data.organization
+        }
+      } catch (error) {
+        console.error("Failed to fetch organization:", error)
+      }
+    }
+
+    try {
+      return (await offlineDB.getSetting("receiptOrganization")) || { name: "Receipt" }
+    } catch {
+      return { name: "Receipt" }
+    }
+  }
+
+  // Receipt printer preferences are per device
+  static async getReceiptPreferences(): Promise<{ width: ReceiptWidth; printAfterSave: boolean }> {
+    try {
+      return (await offlineDB.getSetting("receiptPreferences")) || { width: 80, printAfterSave: false }
+    } catch {
+      return { width: 80, printAfterSave: false }
+    }
+  }
+
+  static async setReceiptPreferences(preferences: { width: ReceiptWidth; printAfterSave: boolean }) {
+    await offlineDB.setSetting("receiptPreferences", preferences)
+  }
+
   // Dashboard data using server action
   static async getDashboardStats(dateFilter = "month"): Promise<any> {
     try {
@@ -707,8 +785,8 @@ export class OfflineAPI {
   static async forceRefreshCache() {
     return Promise.all([
       this.clearLocalData(),
-      this.backgroundFetchIncomeRecords(),
-      this.backgroundFetchExpenseRecords(),
+      this.getIncomeRecordsPage(),
+      this.getExpenseRecordsPage(),
       this.backgroundFetchDueAccounts(),
       this.backgroundFetchMenuItems(),
       this.backgroundFetchDashboardStats("month"),
@@ -2,8 +2,14 @@
 
 /**
  * Service Worker - Offline caching and background sync for static assets and API responses
+ * Bundled into public/sw.js by `npm run build:sw`
  */
 
+import { BACKGROUND_SYNC_TAG } from "@/lib/constants"
+import { offlineDB } from "./indexeddb"
+import { SyncEngine } from "./sync-engine"
+import { httpTransports } from "./http-transports"
+
 // Minimal SyncEvent interface for TypeScript
 interface SyncEvent extends ExtendableEvent {
   readonly tag: string;
@@ -15,19 +21,7 @@ const STATIC_CACHE = "restaurant-fin-static-v1"
 const API_CACHE = "restaurant-fin-api-v1"
 
 // Assets to cache
-const STATIC_ASSETS = [
-  "/",
-  "/dashboard",
-  "/records",
-  "/reports",
-  "/users",
-  "/auth/signin",
-  "/manifest.json",
-  "/_next/static/css/app/layout.css",
-  "/_next/static/chunks/webpack.js",
-  "/_next/static/chunks/main.js",
-  "/_next/static/chunks/pages/_app.js",
-]
+const STATIC_ASSETS = ["/", "/dashboard", "/records", "/reports", "/users", "/auth/signin", "/manifest.json"]
 
 // API routes to cache
 const CACHEABLE_APIS = ["/api/income-records", "/api/expense-records", "/api/users", "/api/dashboard"]
@@ -174,16 +168,29 @@ async function handleStaticRequest(request: Request): Promise<Response> {
 // Background sync for queued operations
 sw.addEventListener("sync", (event) => {
   const syncEvent = event as SyncEvent;
-  if ((syncEvent as any).tag === "background-sync") {
+  if (syncEvent.tag === BACKGROUND_SYNC_TAG) {
     syncEvent.waitUntil(syncQueuedOperations())
   }
 })
 
 async function syncQueuedOperations() {
-  const clients = await sw.clients.matchAll()
-  clients.forEach((client) => {
-    client.postMessage({ type: "SYNC_QUEUED_OPERATIONS" })
-  })
+  // An open page syncs the queue itself and shows the outcome, so leave it to the page
+  const clients = await sw.clients.matchAll({ type: "window" })
+  if (clients.length > 0) {
+    clients.forEach((client) => {
+      client.postMessage({ type: "SYNC_QUEUED_OPERATIONS" })
+    })
+    return
+  }
+
+  await offlineDB.init()
+  await new SyncEngine(httpTransports).syncQueuedOperations()
+
+  // Failing the event makes the browser fire it again later for the operations left to retry
+  const remaining = await offlineDB.getQueuedOperations()
+  if (remaining.length > 0) {
+    throw new Error(`${remaining.length} operations still waiting to sync`)
+  }
 }
 
 // Handle messages from main thread
@@ -192,6 +199,3 @@ sw.addEventListener("message", (event) => {
     sw.skipWaiting()
   }
 })
-
-// Export empty object to make this a module
-export {}
@@ -0,0 +1,268 @@
+import { offlineDB, type QueuedOperation, type OfflineRecord } from "./indexeddb"
+import { isTempId } from "@/lib/constants"
+import { reconcileDuePayment } from "./due-payments"
+
+/**
+ * SyncEngine - Replays queued offline operations against the server
+ * Shared by the page and the service worker's background sync; each entity type syncs through its own transport
+ */
+
+export type SyncEntityType = QueuedOperation["type"]
+
+/** What a transport returns; a conflict carries the newer server record instead of applying the write */
+export interface SyncResult {
+  success: boolean
+  conflict?: boolean
+  record?: any
+  error?: string
+  [key: string]: any
+}
+
+/** Sends one entity type's operations to the server. Data never carries a temporary id. */
+export interface SyncTransport {
+  create(data: any): Promise<SyncResult>
+  update(id: string, data: any, expectedUpdatedAt?: string): Promise<SyncResult>
+  remove(id: string, data: any): Promise<SyncResult>
+}
+
+export type SyncTransports = Partial<Record<SyncEntityType, SyncTransport>>
+
+export interface SyncEngineCallbacks {
+  // A failed operation will be tried again; the page schedules the retry, background sync is retried by the browser
+  onRetry?: (operation: QueuedOperation, delay: number) => void
+  onFailed?: (operation: QueuedOperation, error: string) => void
+}
+
+const BATCH_SIZE = 5
+const MAX_RETRIES = 3
+// Applied against the record's state on the server, so they sync last, one at a time and oldest first
+const ORDERED_TYPES: SyncEntityType[] = ["duePayment"]
+
+export class SyncEngine {
+  constructor(
+    private transports: SyncTransports,
+    private callbacks: SyncEngineCallbacks = {},
+  ) {}
+
+  /** Syncs everything in the queue: deletes first, then each entity type in parallel, then the ordered types */
+  async syncQueuedOperations(): Promise<void> {
+    const operations = await offlineDB.getQueuedOperations()
+    if (operations.length === 0) return
+
+    const orderedOperations = operations
+      .filter((op) => ORDERED_TYPES.includes(op.type))
+      .sort((a, b) => a.timestamp - b.timestamp)
+    const deleteOperations = operations.filter((op) => op.operation === "delete" && !ORDERED_TYPES.includes(op.type))
+    const otherOperations = operations.filter((op) => op.operation !== "delete" && !ORDERED_TYPES.includes(op.type))
+
+    if (deleteOperations.length > 0) {
+      await this.processOperations(deleteOperations)
+    }
+
+    const operationsByType = new Map<SyncEntityType, QueuedOperation[]>()
+    otherOperations.forEach((op) => {
+      operationsByType.set(op.type, [...(operationsByType.get(op.type) || []), op])
+    })
+
+    await Promise.allSettled(Array.from(operationsByType.values()).map((typeOps) => this.processOperations(typeOps)))
+
+    await this.processInOrder(orderedOperations)
+  }
+
+  /** Syncs operations one by one; once one fails, later ones for the same record wait for the next sync */
+  private async processInOrder(operations: QueuedOperation[]) {
+    const blockedRecords = new Set<string>()
+
+    for (const operation of operations) {
+      const recordKey = `${operation.type}_${operation.originalId}`
+      if (blockedRecords.has(recordKey)) continue
+
+      try {
+        await this.syncSingleOperation(operation)
+        await offlineDB.removeQueuedOperation(operation.id)
+      } catch (error) {
+        console.error(`Failed to sync ${operation.type}:`, error)
+        blockedRecords.add(recordKey)
+        await this.handleSyncError(operation, error)
+      }
+    }
+  }
+
+  private async processOperations(operations: QueuedOperation[]) {
+    for (let i = 0; i < operations.length; i += BATCH_SIZE) {
+      const batch = operations.slice(i, i + BATCH_SIZE)
+
+      await Promise.allSettled(
+        batch.map(async (operation) => {
+          try {
+            await this.syncSingleOperation(operation)
+            await offlineDB.removeQueuedOperation(operation.id)
+          } catch (error) {
+            console.error(`Failed to sync ${operation.type}:`, error)
+            await this.handleSyncError(operation, error)
+          }
+        }),
+      )
+    }
+  }
+
+  private async syncSingleOperation(operation: QueuedOperation) {
+    const { type, operation: op, data } = operation
+    const transport = this.transports[type]
+    if (!transport) {
+      throw new Error(`No sync transport for ${type}`)
+    }
+
+    // Clean the data before sending (remove offline-specific fields)
+    const cleanData = { ...data }
+    delete cleanData._offline
+    delete cleanData._localId
+    delete cleanData._timestamp
+
+    const recordId: string | undefined = cleanData._id?.toString()
+    const isTemporaryId = !!recordId && isTempId(recordId)
+    // Records created offline get their real id from the server
+    if (isTemporaryId) {
+      delete cleanData._id
+    }
+
+    let result: SyncResult
+    switch (op) {
+      case "create":
+        result = await transport.create(cleanData)
+        break
+
+      case "update":
+        // An update to a record that never reached the server creates it
+        result =
+          isTemporaryId || !recordId
+            ? await transport.create(cleanData)
+            : await transport.update(recordId, cleanData, operation.baseData?.updatedAt)
+        break
+
+      case "delete":
+        // Temporary records never reached the server, so there is nothing to delete
+        result = isTemporaryId || !recordId ? { success: true } : await transport.remove(recordId, cleanData)
+        break
+
+      default:
+        throw new Error(`Unknown operation: ${op}`)
+    }
+
+    // The record changed on the server since the edit was made; keep both versions for the user to resolve
+    if (result?.conflict) {
+      await this.recordConflict(operation, { ...cleanData, _id: recordId }, result.record)
+      return
+    }
+
+    if (!result || !result.success) {
+      throw new Error(`Server action failed: ${result?.error || "Unknown error"}`)
+    }
+
+    await this.updateLocalRecordAfterSync(type, op, data, result)
+  }
+
+  private async handleSyncError(operation: QueuedOperation, error: unknown) {
+    const message = error instanceof Error ? error.message : String(error)
+    operation.attempts = [...(operation.attempts || []), { at: Date.now(), error: message }]
+    operation.retryCount++
+
+    if (!isPermanentError(message) && operation.retryCount < MAX_RETRIES) {
+      await offlineDB.addQueuedOperation(operation)
+      this.callbacks.onRetry?.(operation, Math.min(1000 * Math.pow(2, operation.retryCount), 10000))
+    } else {
+      console.error(`Operation ${operation.id} failed to sync, moving it to the failed operations`)
+      await this.moveToFailedOperations(operation, message)
+    }
+  }
+
+  /** Keeps an operation that can't be synced so nothing taken offline is lost; the user retries or discards it */
+  private async moveToFailedOperations(operation: QueuedOperation, error: string) {
+    await offlineDB.addFailedOperation({ id: operation.id, operation, error, failedAt: Date.now() })
+    await offlineDB.removeQueuedOperation(operation.id)
+    this.callbacks.onFailed?.(operation, error)
+  }
+
+  /** Parks a rejected update until the user resolves it; the local copy keeps the offline edit meanwhile */
+  private async recordConflict(operation: QueuedOperation, local: any, server: any) {
+    await offlineDB.addConflict({
+      id: operation.id,
+      type: operation.type as "income" | "expense" | "dueAccount",
+      recordId: local._id,
+      local,
+      server,
+      base: operation.baseData,
+      timestamp: Date.now(),
+    })
+  }
+
+  private async updateLocalRecordAfterSync(
+    type: SyncEntityType,
+    operation: "create" | "update" | "delete",
+    originalData: any,
+    result: SyncResult,
+  ) {
+    // Payments have no store; the server's allocation updates the cached account and orders instead
+    if (type === "duePayment") {
+      await reconcileDuePayment(result)
+      return
+    }
+
+    const storeName = getStoreName(type)
+
+    if (operation === "delete") {
+      // Remove the record from local storage completely after successful server sync
+      await offlineDB.deleteRecord(storeName, originalData._id)
+      return
+    }
+
+    const serverRecord = result.record || result.user || result.account || result
+
+    const record: OfflineRecord = {
+      id: serverRecord._id,
+      type,
+      data: serverRecord,
+      timestamp: Date.now(),
+      synced: true,
+      operation,
+    }
+
+    await offlineDB.addRecord(storeName, record)
+
+    // Remove the temporary local record now that the server one replaces it
+    const originalId = originalData._id?.toString()
+    if (originalId && isTempId(originalId) && originalId !== serverRecord._id) {
+      try {
+        await offlineDB.deleteRecord(storeName, originalId)
+      } catch (error) {
+        console.warn(`Failed to delete temporary ${type} record locally:`, error)
+      }
+    }
+  }
+}
+
+/**
+ * Client errors (4xx) fail the same way every time, so they aren't retried.
+ * A 401 is the exception: it only means the session expired, and signing in again lets it through.
+ */
+function isPermanentError(message: string): boolean {
+  return /HTTP 4\d\d/.test(message) && !message.includes("HTTP 401")
+}
+
+/** The IndexedDB store holding an entity type's records */
+export function getStoreName(type: SyncEntityType): string {
+  switch (type) {
+    case "income":
+      return "incomeRecords"
+    case "expense":
+      return "expenseRecords"
+    case "user":
+      return "users"
+    case "dueAccount":
+      return "dueAccounts"
+    case "menuItem":
+      return "menuItems"
+    default:
+      throw new Error(`Unknown type: ${type}`)
+  }
+}
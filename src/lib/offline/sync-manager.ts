@@ -1,9 +1,14 @@
-import { offlineDB, type QueuedOperation, type OfflineRecord } from "./indexeddb"
+import { offlineDB, type QueuedOperation, type OfflineRecord, type SyncConflict, type FailedOperation } from "./indexeddb"
 import { toast } from "sonner"
+import { BACKGROUND_SYNC_TAG, isTempId } from "@/lib/constants"
+import { mergeFields } from "@/lib/conflicts"
+import { SyncEngine, getStoreName } from "./sync-engine"
+import { actionTransports } from "./action-transports"
+import type { PendingDuePayment } from "./due-payments"
 
 /**
- * SyncManager - Offline/online data synchronization manager
- * Handles queuing, batching, and syncing operations between IndexedDB and server
+ * SyncManager - Offline/online data synchronization manager for the page
+ * Handles queuing, batching and local records; the SyncEngine replays the queue against the server
  */
 
 export class SyncManager {
@@ -14,6 +19,19 @@ export class SyncManager {
   private onlineStatusUpdateTimeout: NodeJS.Timeout | null = null
   private batchTimeout: NodeJS.Timeout | null = null
   private pendingBatch: Map<string, QueuedOperation> = new Map()
+  private engine = new SyncEngine(actionTransports, {
+    onRetry: (operation, delay) => {
+      // Schedule retry with exponential backoff
+      const timeoutId = setTimeout(() => {
+        this.triggerSync()
+        this.retryTimeouts.delete(operation.id)
+      }, delay)
+      this.retryTimeouts.set(operation.id, timeoutId)
+    },
+    onFailed: () => {
+      toast.error("A change couldn't be synced - review it in the sync panel")
+    },
+  })
 
   // Reduced polling intervals
   private readonly ONLINE_CHECK_INTERVAL = 120000 // 2 minutes when online
@@ -104,6 +122,10 @@ export class SyncManager {
   ): Promise<string> {
     const id = `${type}_${operation}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
     const recordKey = `${type}_${originalId || data._id}`
+    const recordId: string | undefined = originalId || data._id
+
+    // Remember the server copy an update was made on, so the sync can tell whether it changed there meanwhile
+    const baseData = operation === "update" && recordId && !isTempId(recordId) ? await this.getBaseData(type, recordId) : undefined
 
     // For updates, check if there's already a pending operation for this record
     if (operation === "update" && data._id) {
@@ -118,6 +140,7 @@ export class SyncManager {
       timestamp: Date.now(),
       retryCount: 0,
       originalId: originalId || data._id,
+      baseData,
     }
 
     // Handle delete operations immediately - don't batch them
@@ -131,6 +154,8 @@ export class SyncManager {
       // Trigger sync immediately if online
       if (this.isOnline) {
         setTimeout(() => this.triggerSync(), 500) // Shorter delay for deletes
+      } else {
+        this.requestBackgroundSync()
       }
 
       return id
@@ -148,12 +173,49 @@ export class SyncManager {
     return id
   }
 
+  /** Queues a due payment straight away; payments are never batched or merged, each one is applied on its own */
+  async queueDuePayment(payment: PendingDuePayment): Promise<string> {
+    const id = `duePayment_create_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+
+    await offlineDB.addQueuedOperation({
+      id,
+      type: "duePayment",
+      operation: "create",
+      data: payment,
+      timestamp: Date.now(),
+      retryCount: 0,
+      originalId: payment.dueAccountId,
+    })
+
+    if (this.isOnline) {
+      setTimeout(() => this.triggerSync(), 500)
+    } else {
+      this.requestBackgroundSync()
+    }
+
+    return id
+  }
+
+  /** Due payments waiting to sync, oldest first */
+  async getPendingDuePayments(): Promise<PendingDuePayment[]> {
+    try {
+      const operations = await offlineDB.getQueuedOperations()
+      return operations
+        .filter((op) => op.type === "duePayment")
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .map((op) => op.data)
+    } catch (error) {
+      console.error("Failed to get pending due payments:", error)
+      return []
+    }
+  }
+
   // Method to mark a record as deleted without queuing for sync (used when server delete already succeeded)
   async markRecordAsDeleted(
     type: "income" | "expense" | "user" | "dueAccount" | "menuItem",
     recordId: string,
   ): Promise<void> {
-    const storeName = this.getStoreName(type)
+    const storeName = getStoreName(type)
 
     try {
       // Create a deleted record marker
@@ -192,6 +254,25 @@ export class SyncManager {
     }
   }
 
+  /** The server copy a record's pending edits started from, or the cached copy if it has none */
+  private async getBaseData(type: QueuedOperation["type"], recordId: string): Promise<any> {
+    try {
+      const pendingOp = this.pendingBatch.get(`${type}_${recordId}`)
+      if (pendingOp?.baseData) return pendingOp.baseData
+
+      const queuedOp = (await offlineDB.getQueuedOperations()).find(
+        (op) => op.type === type && op.originalId === recordId && op.baseData,
+      )
+      if (queuedOp) return queuedOp.baseData
+
+      const cachedRecord = await offlineDB.getRecord(getStoreName(type), recordId)
+      return cachedRecord?.synced ? cachedRecord.data : undefined
+    } catch (error) {
+      console.warn(`Failed to read the server copy of ${type} ${recordId}:`, error)
+      return undefined
+    }
+  }
+
   private async consolidatePendingOperations(
     type: "income" | "expense" | "user" | "dueAccount" | "menuItem",
     recordId: string,
@@ -200,7 +281,7 @@ export class SyncManager {
   ) {
     try {
       // Check if record is already marked as server-deleted
-      const storeName = this.getStoreName(type)
+      const storeName = getStoreName(type)
       try {
         const existingRecord = await offlineDB.getRecord(storeName, recordId)
         if (existingRecord && existingRecord.data._serverDeleted) {
@@ -306,18 +387,31 @@ export class SyncManager {
         // Trigger sync if online
         if (this.isOnline) {
           this.triggerSync()
+        } else {
+          this.requestBackgroundSync()
         }
       }
     }, this.BATCH_DELAY)
   }
 
+  /** Asks the service worker to sync the queue once connectivity returns, even if this tab is closed by then */
+  private async requestBackgroundSync() {
+    try {
+      const registration = "serviceWorker" in navigator ? await navigator.serviceWorker.getRegistration() : undefined
+      // Background Sync isn't available in every browser; without it the queue syncs when the app is next open
+      await (registration as any)?.sync?.register(BACKGROUND_SYNC_TAG)
+    } catch (error) {
+      console.warn("Failed to register background sync:", error)
+    }
+  }
+
   private async updateLocalRecord(
     type: "income" | "expense" | "user" | "dueAccount" | "menuItem",
     operation: "create" | "update" | "delete",
     data: any,
     queueId: string,
   ) {
-    const storeName = this.getStoreName(type)
+    const storeName = getStoreName(type)
 
     if (operation === "delete") {
       // For delete operations, mark as deleted instead of removing immediately
@@ -384,7 +478,7 @@ export class SyncManager {
 
   async getLocalRecords(type: "income" | "expense" | "user" | "dueAccount" | "menuItem"): Promise<any[]> {
     try {
-      const storeName = this.getStoreName(type)
+      const storeName = getStoreName(type)
       const records = await offlineDB.getRecords(storeName)
 
       // Group records by ID and keep the latest version
@@ -427,7 +521,7 @@ export class SyncManager {
 
   async cacheServerData(type: "income" | "expense" | "user" | "dueAccount" | "menuItem", data: any[]): Promise<void> {
     try {
-      const storeName = this.getStoreName(type)
+      const storeName = getStoreName(type)
 
       // Get existing unsynced records to preserve them
       const existingRecords = await offlineDB.getRecords(storeName, false) // Get unsynced records
@@ -464,6 +558,34 @@ export class SyncManager {
     }
   }
 
+  /**
+   * Stores one page of server records without dropping the rest of the cache.
+   * Records with local changes still waiting to sync are left alone; returns the records that were stored.
+   */
+  async mergeServerData(type: "income" | "expense", data: any[]): Promise<any[]> {
+    try {
+      const storeName = getStoreName(type)
+      const unsyncedRecords = await offlineDB.getRecords(storeName, false)
+      const unsyncedIds = new Set(unsyncedRecords.filter((record) => !record.synced).map((record) => record.data._id))
+
+      const storedRecords = data.filter((item) => !unsyncedIds.has(item._id))
+      for (const item of storedRecords) {
+        await offlineDB.addRecord(storeName, {
+          id: item._id,
+          type,
+          data: item,
+          timestamp: Date.now(),
+          synced: true,
+          operation: "create",
+        })
+      }
+      return storedRecords
+    } catch (error) {
+      console.error(`Failed to merge ${type} data:`, error)
+      return data
+    }
+  }
+
   private async checkAndSync() {
     try {
       const operations = await offlineDB.getQueuedOperations()
@@ -483,12 +605,15 @@ export class SyncManager {
     this.syncInProgress = true
 
     try {
-      await this.syncQueuedOperations()
+      await this.engine.syncQueuedOperations()
       this.notifySyncComplete()
 
       // Only show success toast for manual syncs or if there were operations
       const pendingCount = await this.getPendingOperationsCount()
-      if (pendingCount === 0) {
+      const conflicts = await this.getConflicts()
+      if (conflicts.length > 0) {
+        toast.warning(`${conflicts.length} offline change${conflicts.length === 1 ? "" : "s"} conflict with newer server changes`)
+      } else if (pendingCount === 0) {
         toast.success("Data synced successfully")
       }
     } catch (error) {
@@ -499,420 +624,114 @@ export class SyncManager {
     }
   }
 
-  private async syncQueuedOperations() {
-    const operations = await offlineDB.getQueuedOperations()
-
-    if (operations.length === 0) return
-
-    // Prioritize delete operations - process them first
-    const deleteOperations = operations.filter((op) => op.operation === "delete")
-    const otherOperations = operations.filter((op) => op.operation !== "delete")
-
-    // Process deletes first
-    if (deleteOperations.length > 0) {
-      await this.processOperations(deleteOperations)
-    }
-
-    // Then process other operations
-    if (otherOperations.length > 0) {
-
-      // Group other operations by type for parallel processing
-      const operationsByType = new Map<string, QueuedOperation[]>()
-
-      otherOperations.forEach((op) => {
-        if (!operationsByType.has(op.type)) {
-          operationsByType.set(op.type, [])
-        }
-        operationsByType.get(op.type)!.push(op)
-      })
-
-      // Process each type in parallel
-      const syncPromises = Array.from(operationsByType.entries()).map(([type, typeOps]) =>
-        this.syncOperationsOfType(type, typeOps),
-      )
-
-      await Promise.allSettled(syncPromises)
-    }
-  }
-
-  private async processOperations(operations: QueuedOperation[]) {
-    // Process operations in smaller batches
-    const BATCH_SIZE = 5
-
-    for (let i = 0; i < operations.length; i += BATCH_SIZE) {
-      const batch = operations.slice(i, i + BATCH_SIZE)
-
-      const batchPromises = batch.map(async (operation) => {
-        try {
-          await this.syncSingleOperation(operation)
-          await offlineDB.removeQueuedOperation(operation.id)
-        } catch (error) {
-          console.error(`Failed to sync ${operation.type}:`, error)
-          await this.handleSyncError(operation, error)
-        }
-      })
-
-      await Promise.allSettled(batchPromises)
+  async getFailedOperations(): Promise<FailedOperation[]> {
+    try {
+      return await offlineDB.getFailedOperations()
+    } catch (error) {
+      console.error("Failed to get failed operations:", error)
+      return []
     }
   }
 
-  private async syncOperationsOfType(type: string, operations: QueuedOperation[]) {
-    // Process operations in smaller batches
-    const BATCH_SIZE = 5
-
-    for (let i = 0; i < operations.length; i += BATCH_SIZE) {
-      const batch = operations.slice(i, i + BATCH_SIZE)
-
-      const batchPromises = batch.map(async (operation) => {
-        try {
-          await this.syncSingleOperation(operation)
-          await offlineDB.removeQueuedOperation(operation.id)
-        } catch (error) {
-          console.error(`Failed to sync ${operation.type}:`, error)
-          await this.handleSyncError(operation, error)
-        }
-      })
+  /** Queues a failed operation again, with edited data if given; its attempt history is kept */
+  async retryFailedOperation(id: string, data?: any): Promise<void> {
+    const failed = (await offlineDB.getFailedOperations()).find((candidate) => candidate.id === id)
+    if (!failed) return
 
-      await Promise.allSettled(batchPromises)
+    const operation: QueuedOperation = {
+      ...failed.operation,
+      data: data ?? failed.operation.data,
+      retryCount: 0,
+      timestamp: Date.now(),
     }
-  }
-
-  private async handleSyncError(operation: QueuedOperation, error: any) {
-    // Check if it's a client error (4xx) that shouldn't be retried
-    const isClientError = error instanceof Error && error.message.includes("HTTP 4")
 
-    if (isClientError) {
-      await offlineDB.removeQueuedOperation(operation.id)
-      toast.error(`Sync failed: ${error.message}`)
-      return
+    // Payments have no local record; the edited data is applied to the account while it waits to sync
+    if (data && operation.operation !== "delete" && operation.type !== "duePayment") {
+      await this.updateLocalRecord(operation.type, operation.operation, data, operation.id)
     }
+    await offlineDB.addQueuedOperation(operation)
+    await offlineDB.removeFailedOperation(id)
 
-    // Increment retry count for server errors
-    operation.retryCount++
-    if (operation.retryCount < 3) {
-      // Reduced from 5 to 3
-      await offlineDB.addQueuedOperation(operation)
-
-      // Schedule retry with exponential backoff
-      const retryDelay = Math.min(1000 * Math.pow(2, operation.retryCount), 10000) // Reduced max delay
-      const timeoutId = setTimeout(() => {
-        this.triggerSync()
-        this.retryTimeouts.delete(operation.id)
-      }, retryDelay)
-
-      this.retryTimeouts.set(operation.id, timeoutId)
+    if (this.isOnline) {
+      await this.triggerSync()
     } else {
-      console.error(`Max retries reached for operation ${operation.id}, removing from queue`)
-      await offlineDB.removeQueuedOperation(operation.id)
-      toast.error(`Failed to sync operation after multiple attempts`)
+      this.notifySyncComplete()
     }
   }
 
-  private async syncSingleOperation(operation: QueuedOperation) {
-    const { type, operation: op, data } = operation
-    // Clean the data before sending (remove offline-specific fields)
-    const cleanData = { ...data }
-    delete cleanData._offline
-    delete cleanData._localId
-    delete cleanData._timestamp
-
-    // Check if this is a temporary ID (starts with temp_)
-    const isTemporaryId = cleanData._id && cleanData._id.toString().startsWith("temp_")
-
-    let result: any
-
-    try {
-      // Execute the appropriate server action based on type and operation
-      switch (type) {
-        case "income":
-          result = await this.syncIncomeOperation(op, cleanData, isTemporaryId)
-          break
-
-        case "expense":
-          result = await this.syncExpenseOperation(op, cleanData, isTemporaryId)
-          break
-
-        case "dueAccount":
-          result = await this.syncDueAccountOperation(op, cleanData, isTemporaryId)
-          break
-
-        case "menuItem":
-          result = await this.syncMenuItemOperation(op, cleanData, isTemporaryId)
-          break
-
-        case "user":
-          result = await this.syncUserOperation(op, cleanData, isTemporaryId)
-          break
-
-        default:
-          throw new Error(`Unknown type: ${type}`)
-      }
+  /** Drops a failed operation for good, along with the local change it carried */
+  async discardFailedOperation(id: string): Promise<void> {
+    const failed = (await offlineDB.getFailedOperations()).find((candidate) => candidate.id === id)
+    if (!failed) return
 
-      // Check if the operation was successful
-      if (!result || !result.success) {
-        throw new Error(`Server action failed: ${result?.error || "Unknown error"}`)
+    const { type, originalId, data } = failed.operation
+    const recordId = originalId || data?._id
+    // A payment's originalId is its account, which stays
+    if (recordId && type !== "duePayment") {
+      try {
+        // Server records are cached again on the next fetch; offline-only records are gone with the change
+        await offlineDB.deleteRecord(getStoreName(type), recordId)
+      } catch (error) {
+        console.warn(`Failed to remove local ${type} record ${recordId}:`, error)
       }
-      // Update local record sync status
-      await this.updateLocalRecordAfterSync(type, op, data, result)
-    } catch (error) {
-      console.error(`Failed to sync ${op} ${type}:`, error)
-      throw error
-    }
-  }
-
-  private async syncIncomeOperation(operation: "create" | "update" | "delete", cleanData: any, isTemporaryId: boolean) {
-    // Import server actions dynamically to avoid issues
-    const { createIncomeRecord, updateIncomeRecord, deleteIncomeRecord } = await import("@/app/actions/income-records")
-
-    switch (operation) {
-      case "create":
-        // For creates, don't send the temporary _id
-        if (isTemporaryId) {
-          delete cleanData._id
-        }
-        return await createIncomeRecord(cleanData)
-
-      case "update":
-        // For updates with temporary IDs, treat as create
-        if (isTemporaryId) {
-          delete cleanData._id
-          return await createIncomeRecord(cleanData)
-        } else {
-          return await updateIncomeRecord(cleanData._id, cleanData)
-        }
-
-      case "delete":
-        // Don't try to delete temporary records
-        if (isTemporaryId) {
-          return { success: true }
-        }
-        return await deleteIncomeRecord(cleanData._id)
-
-      default:
-        throw new Error(`Unknown operation: ${operation}`)
-    }
-  }
-
-  private async syncExpenseOperation(
-    operation: "create" | "update" | "delete",
-    cleanData: any,
-    isTemporaryId: boolean,
-  ) {
-    // Import server actions dynamically to avoid issues
-    const { createExpenseRecord, updateExpenseRecord, deleteExpenseRecord } = await import(
-      "@/app/actions/expense-records"
-    )
-
-    switch (operation) {
-      case "create":
-        if (isTemporaryId) {
-          delete cleanData._id
-        }
-        return await createExpenseRecord(cleanData)
-
-      case "update":
-        if (isTemporaryId) {
-          delete cleanData._id
-          return await createExpenseRecord(cleanData)
-        } else {
-          return await updateExpenseRecord(cleanData._id, cleanData)
-        }
-
-      case "delete":
-        if (isTemporaryId) {
-          return { success: true }
-        }
-        return await deleteExpenseRecord(cleanData._id)
-
-      default:
-        throw new Error(`Unknown operation: ${operation}`)
-    }
-  }
-
-  private async syncDueAccountOperation(
-    operation: "create" | "update" | "delete",
-    cleanData: any,
-    isTemporaryId: boolean,
-  ) {
-    // Import server actions dynamically to avoid issues
-    const { createDueAccount, updateDueAccount, deleteDueAccount } = await import("@/app/actions/due-accounts")
-
-    switch (operation) {
-      case "create":
-        // For creates, don't send the temporary _id
-        if (isTemporaryId) {
-          delete cleanData._id
-        }
-        return await createDueAccount(cleanData)
-
-      case "update":
-        // For updates with temporary IDs, treat as create
-        if (isTemporaryId) {
-          delete cleanData._id
-          return await createDueAccount(cleanData)
-        } else {
-          return await updateDueAccount(cleanData._id, cleanData)
-        }
-
-      case "delete":
-        // Don't try to delete temporary records
-        if (isTemporaryId) {
-          return { success: true }
-        }
-        return await deleteDueAccount(cleanData._id)
-
-      default:
-        throw new Error(`Unknown operation: ${operation}`)
     }
-  }
-
-  private async syncMenuItemOperation(
-    operation: "create" | "update" | "delete",
-    cleanData: any,
-    isTemporaryId: boolean,
-  ) {
-    // Import server actions dynamically to avoid issues
-    const { createMenuItem, updateMenuItem, deleteMenuItem } = await import("@/app/actions/menu-items")
-
-    switch (operation) {
-      case "create":
-        if (isTemporaryId) {
-          delete cleanData._id
-        }
-        return await createMenuItem(cleanData)
-
-      case "update":
-        if (isTemporaryId) {
-          delete cleanData._id
-          return await createMenuItem(cleanData)
-        } else {
-          return await updateMenuItem(cleanData._id, cleanData)
-        }
-
-      case "delete":
-        if (isTemporaryId) {
-          return { success: true }
-        }
-        return await deleteMenuItem(cleanData._id)
 
-      default:
-        throw new Error(`Unknown operation: ${operation}`)
-    }
+    await offlineDB.removeFailedOperation(id)
+    this.notifySyncComplete()
   }
 
-  private async syncUserOperation(operation: "create" | "update" | "delete", cleanData: any, isTemporaryId: boolean) {
-    // For users, we'll still use fetch since we don't have server actions for them yet
-    let endpoint = "/api/users"
-    let method = ""
-    let body = ""
-
-    switch (operation) {
-      case "create":
-        method = "POST"
-        if (isTemporaryId) {
-          delete cleanData._id
-        }
-        body = JSON.stringify(cleanData)
-        break
-
-      case "update":
-        if (isTemporaryId) {
-          method = "POST"
-          delete cleanData._id
-          body = JSON.stringify(cleanData)
-        } else {
-          method = "PUT"
-          endpoint = `${endpoint}/${cleanData._id}`
-          body = JSON.stringify(cleanData)
-        }
-        break
-
-      case "delete":
-        if (isTemporaryId) {
-          return { success: true }
-        }
-        method = "DELETE"
-        endpoint = `${endpoint}/${cleanData._id}`
-        break
-
-      default:
-        throw new Error(`Unknown operation: ${operation}`)
-    }
-
-    const requestOptions: RequestInit = {
-      method,
-      headers: { "Content-Type": "application/json" },
-    }
-
-    if (body) {
-      requestOptions.body = body
-    }
-
-    const response = await fetch(endpoint, requestOptions)
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      throw new Error(`HTTP ${response.status}: ${errorText}`)
+  async getConflicts(): Promise<SyncConflict[]> {
+    try {
+      return await offlineDB.getConflicts()
+    } catch (error) {
+      console.error("Failed to get sync conflicts:", error)
+      return []
     }
-
-    return await response.json()
   }
 
-  private async updateLocalRecordAfterSync(
-    type: "income" | "expense" | "user" | "dueAccount" | "menuItem",
-    operation: "create" | "update" | "delete",
-    originalData: any,
-    result: any,
-  ) {
-    const storeName = this.getStoreName(type)
-
-    if (operation === "delete") {
-      // Remove the record from local storage completely after successful server sync
-      await offlineDB.deleteRecord(storeName, originalData._id)
-      return
-    }
+  /**
+   * Resolves a conflict by taking the given fields from the offline edit and the rest from the server.
+   * With no fields the server version is kept; otherwise the merged record is synced against the
+   * server version, so it conflicts again if the record changes once more in the meantime.
+   */
+  async resolveConflict(conflictId: string, localFields: string[]): Promise<void> {
+    const conflict = (await offlineDB.getConflicts()).find((candidate) => candidate.id === conflictId)
+    if (!conflict) return
 
-    // Get the server record from the result
-    const serverRecord = result.record || result.user || result.account || result
+    const storeName = getStoreName(conflict.type)
 
-    // Update local record with server data and mark as synced
-    const record: OfflineRecord = {
-      id: serverRecord._id,
-      type,
-      data: serverRecord,
-      timestamp: Date.now(),
-      synced: true,
-      operation,
+    if (localFields.length === 0) {
+      await offlineDB.addRecord(storeName, {
+        id: conflict.recordId,
+        type: conflict.type,
+        data: conflict.server,
+        timestamp: Date.now(),
+        synced: true,
+        operation: "update",
+      })
+    } else {
+      const merged = { ...mergeFields(conflict.local, conflict.server, localFields), _id: conflict.recordId }
+      const id = `${conflict.type}_update_${Date.now()}_resolved`
+
+      await this.updateLocalRecord(conflict.type, "update", merged, id)
+      await offlineDB.addQueuedOperation({
+        id,
+        type: conflict.type,
+        operation: "update",
+        data: merged,
+        timestamp: Date.now(),
+        retryCount: 0,
+        originalId: conflict.recordId,
+        baseData: conflict.server,
+      })
     }
 
-    await offlineDB.addRecord(storeName, record)
-
-    // Remove the temporary local record if it exists and has a different ID
-    const isTemporaryId = originalData._id && originalData._id.toString().startsWith("temp_")
-    if (isTemporaryId && originalData._id !== serverRecord._id) {
-      try {
-        await offlineDB.deleteRecord(storeName, originalData._id)
-      } catch (error) {
-        console.warn(`Failed to delete temporary ${type} record locally:`, error)
-        // Ignore if record doesn't exist
-      }
-    }
-  }
+    await offlineDB.removeConflict(conflictId)
 
-  private getStoreName(type: "income" | "expense" | "user" | "dueAccount" | "menuItem"): string {
-    switch (type) {
-      case "income":
-        return "incomeRecords"
-      case "expense":
-        return "expenseRecords"
-      case "user":
-        return "users"
-      case "dueAccount":
-        return "dueAccounts"
-      case "menuItem":
-        return "menuItems"
-      default:
-        throw new Error(`Unknown type: ${type}`)
+    if (localFields.length > 0 && this.isOnline) {
+      await this.triggerSync()
+    } else {
+      this.notifySyncComplete()
     }
   }
 
@@ -938,6 +757,8 @@ export class SyncManager {
       await offlineDB.clearStore("dueAccounts")
       await offlineDB.clearStore("menuItems")
       await offlineDB.clearStore("queuedOperations")
+      await offlineDB.clearStore("syncConflicts")
+      await offlineDB.clearStore("failedOperations")
       await offlineDB.clearStore("apiCache")
       this.pendingBatch.clear()
       toast.success("Local data cleared")
@@ -0,0 +1,198 @@
+// Permissions - Role permissions shared by the middleware, server actions, API routes and navbar
+import { USER_ROLE } from "@/lib/constants"
+
+export const PERMISSIONS = {
+  DASHBOARD_VIEW: "dashboard.view",
+  RECORDS_VIEW: "records.view",
+  // Records from earlier days; without it only today's and pending records are listed
+  RECORDS_HISTORY: "records.history",
+  ORDERS_CREATE: "orders.create",
+  EXPENSES_CREATE: "expenses.create",
+  // Void without approval and review void requests
+  RECORDS_VOID: "records.void",
+  RECORDS_RESTORE: "records.restore",
+  FLOOR_USE: "floor.use",
+  TABLES_MANAGE: "tables.manage",
+  KITCHEN_USE: "kitchen.use",
+  CASH_DRAWER_USE: "cash_drawer.use",
+  DUE_ACCOUNTS_USE: "due_accounts.use",
+  REPORTS_VIEW: "reports.view",
+  PROFIT_LOSS_VIEW: "profit_loss.view",
+  ANALYTICS_VIEW: "analytics.view",
+  MENU_EDIT: "menu.edit",
+  INVENTORY_MANAGE: "inventory.manage",
+  USERS_MANAGE: "users.manage",
+  SETTINGS_MANAGE: "settings.manage",
+  AUDIT_VIEW: "audit.view",
+} as const
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS]
+
+export const ALL_PERMISSIONS = Object.values(PERMISSIONS) as Permission[]
+
+/** Grouped labels for the role editor */
+export const PERMISSION_GROUPS: { label: string; permissions: { key: Permission; label: string }[] }[] = [
+  {
+    label: "Records",
+    permissions: [
+      { key: PERMISSIONS.RECORDS_VIEW, label: "View records" },
+      { key: PERMISSIONS.RECORDS_HISTORY, label: "See records from earlier days" },
+      { key: PERMISSIONS.ORDERS_CREATE, label: "Create and edit orders" },
+      { key: PERMISSIONS.EXPENSES_CREATE, label: "Create and edit expenses" },
+      { key: PERMISSIONS.RECORDS_VOID, label: "Void records and review void requests" },
+      { key: PERMISSIONS.RECORDS_RESTORE, label: "Restore voided records" },
+    ],
+  },
+  {
+    label: "Service",
+    permissions: [
+      { key: PERMISSIONS.FLOOR_USE, label: "Use the floor plan and table tabs" },
+      { key: PERMISSIONS.TABLES_MANAGE, label: "Add and edit tables" },
+      { key: PERMISSIONS.KITCHEN_USE, label: "Use the kitchen display" },
+      { key: PERMISSIONS.CASH_DRAWER_USE, label: "Open, count and close the cash drawer" },
+      { key: PERMISSIONS.DUE_ACCOUNTS_USE, label: "Manage due accounts and payments" },
+    ],
+  },
+  {
+    label: "Reporting",
+    permissions: [
+      { key: PERMISSIONS.DASHBOARD_VIEW, label: "View the dashboard" },
+      { key: PERMISSIONS.REPORTS_VIEW, label: "View reports" },
+      { key: PERMISSIONS.PROFIT_LOSS_VIEW, label: "View profit & loss" },
+      { key: PERMISSIONS.ANALYTICS_VIEW, label: "View sales analytics" },
+    ],
+  },
+  {
+    label: "Administration",
+    permissions: [
+      { key: PERMISSIONS.MENU_EDIT, label: "Edit the menu" },
+      { key: PERMISSIONS.INVENTORY_MANAGE, label: "Manage inventory and recipes" },
+      { key: PERMISSIONS.USERS_MANAGE, label: "Manage users and roles" },
+      { key: PERMISSIONS.SETTINGS_MANAGE, label: "Change organization settings" },
+      { key: PERMISSIONS.AUDIT_VIEW, label: "View the audit log" },
+    ],
+  },
+]
+
+/** A role as stored on the organization */
+export interface RoleDefinition {
+  key: string
+  name: string
+  permissions: string[]
+}
+
+export const ADMIN_ROLE = USER_ROLE.ADMIN
+
+/**
+ * Roles every organization starts with. Admins always hold every permission so an
+ * organization can't lock itself out; the others can be edited per organization.
+ */
+export const DEFAULT_ROLES: RoleDefinition[] = [
+  { key: ADMIN_ROLE, name: "Admin", permissions: ALL_PERMISSIONS },
+  {
+    key: USER_ROLE.MANAGER,
+    name: "Manager",
+    permissions: [
+      PERMISSIONS.DASHBOARD_VIEW,
+      PERMISSIONS.RECORDS_VIEW,
+      PERMISSIONS.ORDERS_CREATE,
+      PERMISSIONS.EXPENSES_CREATE,
+      PERMISSIONS.RECORDS_VOID,
+      PERMISSIONS.FLOOR_USE,
+      PERMISSIONS.TABLES_MANAGE,
+      PERMISSIONS.KITCHEN_USE,
+      PERMISSIONS.CASH_DRAWER_USE,
+      PERMISSIONS.DUE_ACCOUNTS_USE,
+      PERMISSIONS.REPORTS_VIEW,
+      PERMISSIONS.INVENTORY_MANAGE,
+    ],
+  },
+  {
+    key: USER_ROLE.STAFF,
+    name: "Staff",
+    permissions: [
+      PERMISSIONS.RECORDS_VIEW,
+      PERMISSIONS.ORDERS_CREATE,
+      PERMISSIONS.EXPENSES_CREATE,
+      PERMISSIONS.FLOOR_USE,
+      PERMISSIONS.KITCHEN_USE,
+      PERMISSIONS.CASH_DRAWER_USE,
+      PERMISSIONS.DUE_ACCOUNTS_USE,
+    ],
+  },
+]
+
+export const isBuiltInRole = (key: string) => DEFAULT_ROLES.some((role) => role.key === key)
+
+/** The organization's roles: the built-in ones, with any saved changes, followed by its custom roles */
+export function resolveRoles(saved: RoleDefinition[] = []): RoleDefinition[] {
+  const builtIn = DEFAULT_ROLES.map((role) => {
+    if (role.key === ADMIN_ROLE) return role
+    const override = saved.find((candidate) => candidate.key === role.key)
+    return override ? { ...role, name: override.name, permissions: override.permissions } : role
+  })
+  const custom = saved.filter((role) => !isBuiltInRole(role.key))
+  return [...builtIn, ...custom]
+}
+
+/** Permissions a role holds in an organization; unknown roles hold none */
+export function rolePermissions(role: string | undefined, saved?: RoleDefinition[]): Permission[] {
+  if (!role) return []
+  if (role === ADMIN_ROLE) return ALL_PERMISSIONS
+
+  const definition = resolveRoles(saved).find((candidate) => candidate.key === role)
+  return (definition?.permissions || []).filter((permission): permission is Permission =>
+    ALL_PERMISSIONS.includes(permission as Permission),
+  )
+}
+
+export function hasPermission(permissions: readonly string[] | undefined, permission: Permission): boolean {
+  return !!permissions?.includes(permission)
+}
+
+/** Dashboard pages and the permission each one needs; the first the user holds is their landing page */
+export const PAGE_PERMISSIONS: { path: string; permission: Permission }[] = [
+  { path: "/dashboard", permission: PERMISSIONS.DASHBOARD_VIEW },
+  { path: "/dashboard/records", permission: PERMISSIONS.RECORDS_VIEW },
+  { path: "/dashboard/floor", permission: PERMISSIONS.FLOOR_USE },
+  { path: "/dashboard/kitchen", permission: PERMISSIONS.KITCHEN_USE },
+  { path: "/dashboard/cash-drawer", permission: PERMISSIONS.CASH_DRAWER_USE },
+  { path: "/dashboard/due-accounts", permission: PERMISSIONS.DUE_ACCOUNTS_USE },
+  { path: "/dashboard/reports", permission: PERMISSIONS.REPORTS_VIEW },
+  { path: "/dashboard/profit-loss", permission: PERMISSIONS.PROFIT_LOSS_VIEW },
+  { path: "/dashboard/sales-analytics", permission: PERMISSIONS.ANALYTICS_VIEW },
+  { path: "/dashboard/menu-management", permission: PERMISSIONS.MENU_EDIT },
+  { path: "/dashboard/inventory", permission: PERMISSIONS.INVENTORY_MANAGE },
+  { path: "/dashboard/users", permission: PERMISSIONS.USERS_MANAGE },
+  { path: "/dashboard/settings", permission: PERMISSIONS.SETTINGS_MANAGE },
+  { path: "/dashboard/audit-log", permission: PERMISSIONS.AUDIT_VIEW },
+]
+
+/** The permission a dashboard path needs, or undefined for paths that aren't listed */
+export function pagePermission(pathname: string): Permission | undefined {
+  // "/dashboard" itself only matches exactly, otherwise it would cover every page
+  const page = PAGE_PERMISSIONS.find(({ path }) =>
+    pathname === path || (path !== "/dashboard" && pathname.startsWith(`${path}/`)),
+  )
+  return page?.permission
+}
+
+/** The first page the permissions allow, or null when they allow none */
+export function landingPage(permissions: readonly string[]): string | null {
+  return PAGE_PERMISSIONS.find(({ permission }) => permissions.includes(permission))?.path ?? null
+}
+
+const REPORT_PERMISSIONS: Permission[] = [PERMISSIONS.REPORTS_VIEW, PERMISSIONS.PROFIT_LOSS_VIEW]
+
+/** Records are listed on the records page, in reports and in profit & loss */
+export function canListRecords(permissions: readonly string[]): boolean {
+  return [PERMISSIONS.RECORDS_VIEW, ...REPORT_PERMISSIONS].some((permission) => permissions.includes(permission))
+}
+
+/** Whether records from before today are listed; reports need every date */
+export function seesRecordHistory(permissions: readonly string[], forReport: boolean): boolean {
+  return (
+    permissions.includes(PERMISSIONS.RECORDS_HISTORY) ||
+    (forReport && REPORT_PERMISSIONS.some((permission) => permissions.includes(permission)))
+  )
+}
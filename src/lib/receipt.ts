@@ -0,0 +1,359 @@
+// Receipt - Thermal printer layouts for order receipts, kitchen tickets and Z-reports (HTML print and ESC/POS)
+import type { CashSession, IncomeRecord } from "@/types"
+import { describeOptions } from "@/lib/menu-options"
+
+export type ReceiptWidth = 58 | 80
+
+/** Characters per line in the printer's default font */
+export const RECEIPT_COLUMNS: Record<ReceiptWidth, number> = {
+  58: 32,
+  80: 48,
+}
+
+/** Organization details printed in the receipt header */
+export interface ReceiptOrganization {
+  name: string
+  address?: string
+  phone?: string
+  taxId?: string
+}
+
+/** A single printed line; text is already padded to the receipt width */
+export interface ReceiptLine {
+  text: string
+  align?: "left" | "center"
+  bold?: boolean
+  large?: boolean
+}
+
+type ReceiptOrder = Pick<
+  IncomeRecord,
+  | "_id"
+  | "invoiceNumber"
+  | "items"
+  | "subtotal"
+  | "discount"
+  | "tip"
+  | "taxes"
+  | "taxInclusive"
+  | "totalAmount"
+  | "paymentMethod"
+  | "paymentStatus"
+  | "cashAmount"
+  | "digitalAmount"
+  | "date"
+  | "tableNumber"
+  | "customerName"
+  | "notes"
+>
+
+const money = (amount: number) =>
+  (Number(amount) || 0).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+const divider = (columns: number, char = "-"): ReceiptLine => ({ text: char.repeat(columns) })
+
+/** Left and right text on one line, truncating the left side if they don't fit */
+function row(left: string, right: string, columns: number, options: Omit<ReceiptLine, "text"> = {}): ReceiptLine {
+  const space = columns - right.length - 1
+  const label = left.length > space ? left.slice(0, space) : left
+  return { ...options, text: label + " ".repeat(columns - label.length - right.length) + right }
+}
+
+/** Splits text into lines of at most `columns` characters, breaking on spaces where possible */
+function wrap(text: string, columns: number): string[] {
+  const lines: string[] = []
+  let current = ""
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!current) {
+      current = word
+    } else if (current.length + word.length + 1 <= columns) {
+      current += ` ${word}`
+    } else {
+      lines.push(current)
+      current = word
+    }
+    while (current.length > columns) {
+      lines.push(current.slice(0, columns))
+      current = current.slice(columns)
+    }
+  }
+
+  if (current) lines.push(current)
+  return lines
+}
+
+const formatDate = (date: Date | string) => {
+  const value = new Date(date)
+  return `${value.toLocaleDateString()} ${value.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`
+}
+
+/** Builds the customer receipt for an order */
+export function buildReceipt(order: ReceiptOrder, organization: ReceiptOrganization, width: ReceiptWidth): ReceiptLine[] {
+  const columns = RECEIPT_COLUMNS[width]
+  const amountColumn = 10
+  const quantityColumn = 4
+  const nameColumn = columns - amountColumn - quantityColumn
+
+  const lines: ReceiptLine[] = [{ text: organization.name, align: "center", bold: true, large: true }]
+  if (organization.address) {
+    wrap(organization.address, columns).forEach((text) => lines.push({ text, align: "center" }))
+  }
+  if (organization.phone) lines.push({ text: `Tel: ${organization.phone}`, align: "center" })
+  if (organization.taxId) lines.push({ text: `Tax ID: ${organization.taxId}`, align: "center" })
+
+  lines.push(divider(columns))
+  lines.push(row("Date:", formatDate(order.date), columns))
+  if (order.invoiceNumber) {
+    lines.push(row("Invoice:", order.invoiceNumber, columns))
+  } else {
+    lines.push(row("Order:", `#${order._id.slice(-6).toUpperCase()}`, columns))
+  }
+  if (order.tableNumber) lines.push(row("Table:", order.tableNumber, columns))
+  if (order.customerName) lines.push(row("Customer:", order.customerName, columns))
+
+  lines.push(divider(columns))
+  lines.push({
+    text: "Item".padEnd(nameColumn) + "Qty".padStart(quantityColumn) + "Amount".padStart(amountColumn),
+    bold: true,
+  })
+  for (const item of order.items) {
+    const [firstLine, ...rest] = wrap(item.name, nameColumn - 1)
+    lines.push({
+      text:
+        (firstLine || "").padEnd(nameColumn) +
+        String(item.quantity).padStart(quantityColumn) +
+        money(item.quantity * item.price).padStart(amountColumn),
+    })
+    rest.forEach((text) => lines.push({ text: `  ${text}` }))
+    const options = describeOptions(item)
+    if (options) wrap(options, nameColumn - 3).forEach((text) => lines.push({ text: `  ${text}` }))
+    if (item.priceRule) {
+      wrap(`${item.priceRule.name} -${item.priceRule.discountPercent}%`, nameColumn - 3).forEach((text) =>
+        lines.push({ text: `  ${text}` }),
+      )
+    }
+    if (item.quantity > 1) lines.push({ text: `  @ ${money(item.price)}` })
+  }
+
+  lines.push(divider(columns))
+  lines.push(row("Subtotal", money(order.subtotal), columns))
+  if (order.discount) lines.push(row("Discount", `-${money(order.discount)}`, columns))
+  for (const tax of order.taxes || []) {
+    const label = `${tax.name} (${tax.rate}%${order.taxInclusive ? " incl." : ""})`
+    lines.push(row(label, money(tax.amount), columns))
+  }
+  if (order.tip) lines.push(row("Tip", money(order.tip), columns))
+  lines.push(divider(columns, "="))
+  lines.push(row("TOTAL", `Rs. ${money(order.totalAmount)}`, columns, { bold: true }))
+  lines.push(divider(columns))
+
+  // Payment
+  const paidAmount =
+    order.paymentMethod === "split"
+      ? (order.cashAmount || 0) + (order.digitalAmount || 0)
+      : order.paymentStatus === "completed"
+        ? order.totalAmount
+        : 0
+
+  if (order.paymentMethod === "split") {
+    lines.push(row("Cash", money(order.cashAmount || 0), columns))
+    lines.push(row("Digital", money(order.digitalAmount || 0), columns))
+  } else if (paidAmount > 0) {
+    lines.push(row(order.paymentMethod === "cash" ? "Cash" : "Digital", money(paidAmount), columns))
+  }
+
+  if (paidAmount >= order.totalAmount) {
+    lines.push({ text: "PAID", align: "center", bold: true })
+  } else {
+    lines.push(row("Amount Due", money(order.totalAmount - paidAmount), columns, { bold: true }))
+  }
+
+  lines.push(divider(columns))
+  lines.push({ text: "Thank you! Please visit again.", align: "center" })
+
+  return lines
+}
+
+/** Builds the kitchen ticket for an order: items and quantities only, printed large */
+export function buildKitchenTicket(order: Pick<ReceiptOrder, "_id" | "items" | "date" | "tableNumber" | "customerName" | "notes">, width: ReceiptWidth): ReceiptLine[] {
+  const columns = RECEIPT_COLUMNS[width]
+  // Large text is printed at double width, so only half the columns fit
+  const largeColumns = Math.floor(columns / 2)
+
+  const lines: ReceiptLine[] = [
+    { text: "KITCHEN", align: "center", bold: true, large: true },
+    { text: order.tableNumber ? `Table ${order.tableNumber}` : order.customerName || "Takeaway", align: "center", bold: true, large: true },
+    row(`#${order._id.slice(-6).toUpperCase()}`, formatDate(order.date), columns),
+    divider(columns),
+  ]
+
+  for (const item of order.items) {
+    wrap(`${item.quantity} x ${item.name}`, largeColumns).forEach((text, index) =>
+      lines.push({ text: index === 0 ? text : `    ${text}`, bold: true, large: true }),
+    )
+    // Options print at normal size so long modifier lists stay readable
+    const options = describeOptions(item)
+    if (options) wrap(options, columns - 4).forEach((text) => lines.push({ text: `    ${text}`, bold: true }))
+  }
+
+  if (order.notes) {
+    lines.push(divider(columns))
+    wrap(`Note: ${order.notes}`, columns).forEach((text) => lines.push({ text, bold: true }))
+  }
+
+  return lines
+}
+
+/** Builds the end-of-day Z-report for a cash session; open sessions print as an X-report of the takings so far */
+export function buildZReport(session: CashSession, organization: ReceiptOrganization, width: ReceiptWidth): ReceiptLine[] {
+  const columns = RECEIPT_COLUMNS[width]
+  const summary = session.summary
+  const isClosed = session.status === "closed"
+
+  const lines: ReceiptLine[] = [
+    { text: organization.name, align: "center", bold: true, large: true },
+    { text: isClosed ? "Z-REPORT" : "X-REPORT (SESSION OPEN)", align: "center", bold: true },
+    { text: `Session #${session._id.slice(-6).toUpperCase()}`, align: "center" },
+    row("Opened", formatDate(session.openedAt), columns),
+    row("By", session.openedBy?.name || "", columns),
+  ]
+  if (session.closedAt) {
+    lines.push(row("Closed", formatDate(session.closedAt), columns), row("By", session.closedBy?.name || "", columns))
+  }
+  lines.push(divider(columns))
+
+  if (summary) {
+    lines.push(
+      row("Orders settled", String(summary.ordersCount), columns),
+      row("Cash sales", money(summary.cashSales), columns),
+      row("Digital sales", money(summary.digitalSales), columns),
+      row("Due collections (cash)", money(summary.dueCashCollections), columns),
+      row("Due collections (digital)", money(summary.dueDigitalCollections), columns),
+      row(
+        "Total taken",
+        money(summary.cashSales + summary.digitalSales + summary.dueCashCollections + summary.dueDigitalCollections),
+        columns,
+        { bold: true },
+      ),
+      divider(columns),
+      row("Opening float", money(session.openingFloat), columns),
+      row("+ Cash sales", money(summary.cashSales), columns),
+      row("+ Due cash", money(summary.dueCashCollections), columns),
+      row("+ Pay-ins", money(summary.payIns), columns),
+      row("- Pay-outs", money(summary.payOuts), columns),
+      row("- Cash expenses", money(summary.cashExpenses), columns),
+      row("Expected cash", money(summary.expectedCash), columns, { bold: true }),
+    )
+  }
+
+  if (isClosed) {
+    const variance = session.variance || 0
+    lines.push(
+      row("Counted cash", money(session.countedCash || 0), columns, { bold: true }),
+      row(variance > 0 ? "Over" : variance < 0 ? "Short" : "Variance", money(Math.abs(variance)), columns, { bold: true }),
+    )
+  }
+
+  if (session.movements.length > 0) {
+    lines.push(divider(columns), { text: "Pay-ins / pay-outs", bold: true })
+    for (const movement of session.movements) {
+      const sign = movement.type === "pay_in" ? "+" : "-"
+      lines.push(row(movement.reason, `${sign}${money(movement.amount)}`, columns))
+    }
+  }
+
+  if (session.notes) {
+    lines.push(divider(columns))
+    wrap(`Note: ${session.notes}`, columns).forEach((text) => lines.push({ text }))
+  }
+
+  lines.push(divider(columns), { text: `Printed ${formatDate(new Date())}`, align: "center" })
+
+  return lines
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+
+/** Renders receipt lines as a standalone HTML document sized for the paper width */
+export function renderReceiptHtml(lines: ReceiptLine[], width: ReceiptWidth): string {
+  const body = lines
+    .map((line) => {
+      const classes = [line.align === "center" ? "center" : "", line.bold ? "bold" : "", line.large ? "large" : ""]
+      return `<div class="${classes.filter(Boolean).join(" ")}">${escapeHtml(line.text) || "&nbsp;"}</div>`
+    })
+    .join("")
+
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Receipt</title><style>
+    @page { size: ${width}mm auto; margin: 0; }
+    body { margin: 0; padding: 2mm ${width === 58 ? 3 : 4}mm; width: ${width - (width === 58 ? 6 : 8)}mm; }
+    div { font-family: "Courier New", monospace; font-size: 2.5mm; line-height: 1.3; white-space: pre; overflow: hidden; }
+    .center { text-align: center; }
+    .bold { font-weight: bold; }
+    .large { font-size: 5mm; white-space: pre-wrap; }
+  </style></head><body>${body}</body></html>`
+}
+
+/** Prints receipt lines through the browser print dialog using a hidden frame */
+export function printReceipt(lines: ReceiptLine[], width: ReceiptWidth) {
+  const frame = document.createElement("iframe")
+  frame.style.position = "fixed"
+  frame.style.width = "0"
+  frame.style.height = "0"
+  frame.style.border = "0"
+  document.body.appendChild(frame)
+
+  const frameWindow = frame.contentWindow
+  if (!frameWindow) {
+    frame.remove()
+    return
+  }
+
+  frameWindow.document.open()
+  frameWindow.document.write(renderReceiptHtml(lines, width))
+  frameWindow.document.close()
+  frameWindow.focus()
+  frameWindow.print()
+
+  // Browsers block until the dialog closes, except some mobile ones; give those time to spool
+  setTimeout(() => frame.remove(), 1000)
+}
+
+// ESC/POS commands
+const ESC = 0x1b
+const GS = 0x1d
+
+/** Encodes receipt lines as ESC/POS bytes for raw thermal printers, ending with a paper cut */
+export function encodeEscPos(lines: ReceiptLine[]): Uint8Array<ArrayBuffer> {
+  const bytes: number[] = [ESC, 0x40] // Initialize
+
+  for (const line of lines) {
+    bytes.push(ESC, 0x61, line.align === "center" ? 1 : 0) // Justification
+    bytes.push(ESC, 0x45, line.bold ? 1 : 0) // Emphasis
+    bytes.push(GS, 0x21, line.large ? 0x11 : 0x00) // Double width and height
+
+    // Printers use a single-byte code page; replace anything outside ASCII
+    for (const char of line.text) {
+      const code = char.charCodeAt(0)
+      bytes.push(code >= 0x20 && code < 0x7f ? code : 0x3f)
+    }
+    bytes.push(0x0a)
+  }
+
+  bytes.push(ESC, 0x64, 4) // Feed 4 lines
+  bytes.push(GS, 0x56, 0x42, 0) // Partial cut
+
+  return new Uint8Array(bytes)
+}
+
+/** Saves ESC/POS bytes as a file that can be sent to the printer (e.g. `cat receipt.bin > /dev/usb/lp0`) */
+export function downloadEscPos(lines: ReceiptLine[], filename: string) {
+  const blob = new Blob([encodeEscPos(lines)], { type: "application/octet-stream" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
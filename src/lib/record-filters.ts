@@ -0,0 +1,188 @@
+// Record Filters - Filters and cursor paging shared by the income/expense APIs and the records tables
+import { escapeRegex } from "@/lib/utils"
+import type { IncomeRecord, ExpenseRecord } from "@/types"
+
+export const RECORDS_PAGE_SIZE = 50
+export const MAX_RECORDS_PAGE_SIZE = 1000
+
+export interface IncomeRecordFilters {
+  from?: string
+  to?: string
+  paymentStatus?: string
+  paymentMethod?: string
+  table?: string
+  customer?: string
+  dueAccount?: string
+  createdBy?: string
+  search?: string
+}
+
+export interface ExpenseRecordFilters {
+  from?: string
+  to?: string
+  category?: string
+  paymentMethod?: string
+  vendor?: string
+  createdBy?: string
+  search?: string
+}
+
+/** One page of records; nextCursor is null on the last page and total is only counted for the first */
+export interface RecordPage<T> {
+  records: T[]
+  nextCursor: string | null
+  total?: number
+}
+
+const INCOME_FILTER_KEYS = ["from", "to", "paymentStatus", "paymentMethod", "table", "customer", "dueAccount", "createdBy", "search"] as const
+const EXPENSE_FILTER_KEYS = ["from", "to", "category", "paymentMethod", "vendor", "createdBy", "search"] as const
+
+const OBJECT_ID = /^[0-9a-f]{24}$/i
+const DAY = 24 * 60 * 60 * 1000
+
+const contains = (value: string) => ({ $regex: escapeRegex(value), $options: "i" })
+const includesText = (value: string | undefined, search: string) => !!value && value.toLowerCase().includes(search.toLowerCase())
+
+// Dates without a time include the whole "to" day
+const rangeEnd = (to: string) => new Date(new Date(to).getTime() + (to.length <= 10 ? DAY : 0))
+
+function pickFilters<K extends string>(searchParams: URLSearchParams, keys: readonly K[]) {
+  const filters: Partial<Record<K, string>> = {}
+  for (const key of keys) {
+    const value = searchParams.get(key)?.trim()
+    if (value) filters[key] = value
+  }
+  return filters
+}
+
+export const parseIncomeFilters = (searchParams: URLSearchParams): IncomeRecordFilters =>
+  pickFilters(searchParams, INCOME_FILTER_KEYS)
+
+export const parseExpenseFilters = (searchParams: URLSearchParams): ExpenseRecordFilters =>
+  pickFilters(searchParams, EXPENSE_FILTER_KEYS)
+
+/** Returns an error message when an id filter isn't a valid ObjectId */
+export function invalidFilter(filters: { dueAccount?: string; createdBy?: string }): string | null {
+  if (filters.dueAccount && !OBJECT_ID.test(filters.dueAccount)) return "Invalid due account id"
+  if (filters.createdBy && !OBJECT_ID.test(filters.createdBy)) return "Invalid user id"
+  return null
+}
+
+function dateRangeQuery(from?: string, to?: string) {
+  if (!from && !to) return {}
+  const date: Record<string, Date> = {}
+  if (from) date.$gte = new Date(from)
+  if (to) date.$lt = rangeEnd(to)
+  return { date }
+}
+
+/** MongoDB conditions for the income filters */
+export function incomeFilterQuery(filters: IncomeRecordFilters): Record<string, unknown> {
+  return {
+    ...dateRangeQuery(filters.from, filters.to),
+    ...(filters.paymentStatus && { paymentStatus: filters.paymentStatus }),
+    ...(filters.paymentMethod && { paymentMethod: filters.paymentMethod }),
+    ...(filters.table && { tableNumber: filters.table }),
+    ...(filters.customer && { customerName: contains(filters.customer) }),
+    ...(filters.dueAccount && { dueAccountId: filters.dueAccount }),
+    ...(filters.createdBy && { createdBy: filters.createdBy }),
+    ...(filters.search && { "items.name": contains(filters.search) }),
+  }
+}
+
+/** MongoDB conditions for the expense filters; expenses without a payment method were paid in cash */
+export function expenseFilterQuery(filters: ExpenseRecordFilters): Record<string, unknown> {
+  return {
+    ...dateRangeQuery(filters.from, filters.to),
+    ...(filters.category && { category: filters.category }),
+    ...(filters.paymentMethod && {
+      paymentMethod: filters.paymentMethod === "cash" ? { $ne: "digital" } : filters.paymentMethod,
+    }),
+    ...(filters.vendor && { vendor: contains(filters.vendor) }),
+    ...(filters.createdBy && { createdBy: filters.createdBy }),
+    ...(filters.search && { $or: [{ description: contains(filters.search) }, { notes: contains(filters.search) }] }),
+  }
+}
+
+/** Records are listed newest first; the cursor is the date and id of the last record on the page */
+export const RECORD_SORT = { date: -1, _id: -1 } as const
+
+export function encodeCursor(record: { date: Date | string; _id: unknown }): string {
+  return `${new Date(record.date).toISOString()}_${String(record._id)}`
+}
+
+/** MongoDB conditions for the records after the cursor, or null if the cursor is malformed */
+export function cursorQuery(cursor: string): Record<string, unknown> | null {
+  const [isoDate, id] = cursor.split("_")
+  const date = new Date(isoDate)
+  if (Number.isNaN(date.getTime()) || !OBJECT_ID.test(id || "")) return null
+
+  return { $or: [{ date: { $lt: date } }, { date, _id: { $lt: id } }] }
+}
+
+/** Reads the page size, capped so a single request can't pull a whole collection */
+export function pageSize(searchParams: URLSearchParams): number {
+  const limit = Number.parseInt(searchParams.get("limit") || "") || RECORDS_PAGE_SIZE
+  return Math.min(MAX_RECORDS_PAGE_SIZE, Math.max(1, limit))
+}
+
+export function toSearchParams(filters: IncomeRecordFilters | ExpenseRecordFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value)
+  }
+  return params
+}
+
+/** Applies the income filters to locally cached records, for when the server can't be reached */
+export function matchesIncomeFilters(record: IncomeRecord, filters: IncomeRecordFilters): boolean {
+  const date = new Date(record.date)
+  if (filters.from && date < new Date(filters.from)) return false
+  if (filters.to && date >= rangeEnd(filters.to)) return false
+  if (filters.paymentStatus && record.paymentStatus !== filters.paymentStatus) return false
+  if (filters.paymentMethod && record.paymentMethod !== filters.paymentMethod) return false
+  if (filters.table && record.tableNumber !== filters.table) return false
+  if (filters.customer && !includesText(record.customerName, filters.customer)) return false
+  if (filters.dueAccount && record.dueAccountId !== filters.dueAccount) return false
+  if (filters.createdBy && record.createdBy !== filters.createdBy) return false
+  if (filters.search && !record.items.some((item) => includesText(item.name, filters.search!))) return false
+  return true
+}
+
+/** Applies the expense filters to locally cached records, for when the server can't be reached */
+export function matchesExpenseFilters(record: ExpenseRecord, filters: ExpenseRecordFilters): boolean {
+  const date = new Date(record.date)
+  if (filters.from && date < new Date(filters.from)) return false
+  if (filters.to && date >= rangeEnd(filters.to)) return false
+  if (filters.category && record.category !== filters.category) return false
+  if (filters.paymentMethod && (record.paymentMethod || "cash") !== filters.paymentMethod) return false
+  if (filters.vendor && !includesText(record.vendor, filters.vendor)) return false
+  if (filters.createdBy && record.createdBy !== filters.createdBy) return false
+  if (filters.search && !includesText(record.description, filters.search) && !includesText(record.notes, filters.search)) {
+    return false
+  }
+  return true
+}
+
+/** Follows the cursor through every page of a records endpoint, for reports that need the full set */
+export async function fetchAllRecords<T>(path: string, params: URLSearchParams = new URLSearchParams()): Promise<T[]> {
+  const records: T[] = []
+  let cursor: string | null = null
+
+  do {
+    const query = new URLSearchParams(params)
+    query.set("limit", String(MAX_RECORDS_PAGE_SIZE))
+    if (cursor) query.set("cursor", cursor)
+
+    const response = await fetch(`${path}?${query}`)
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to fetch records")
+    }
+
+    records.push(...(data.records || []))
+    cursor = data.pagination?.nextCursor || null
+  } while (cursor)
+
+  return records
+}
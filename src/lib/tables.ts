@@ -0,0 +1,13 @@
+// Tables - Keeps dining tables in step with the orders running on them
+import { tenantData } from "@/lib/tenant"
+import { TABLE_STATUS } from "@/lib/constants"
+
+/** Frees the tables these orders were running on, once the orders are settled or removed */
+export async function releaseTables(organization: string, orderIds: string[]) {
+  if (orderIds.length === 0) return
+
+  await tenantData(organization).Table.updateMany(
+    { currentOrder: { $in: orderIds } },
+    { status: TABLE_STATUS.FREE, currentOrder: null },
+  )
+}
@@ -0,0 +1,8 @@
+// Tax Settings - Loads an organization's tax rules on the server
+import Organization from "@/models/Organization"
+import { DEFAULT_TAX_SETTINGS, type TaxSettings } from "@/lib/tax"
+
+export async function getTaxSettings(organization: string): Promise<TaxSettings> {
+  const org = await Organization.findById(organization).select("taxSettings")
+  return { ...DEFAULT_TAX_SETTINGS, ...org?.taxSettings?.toObject() }
+}
@@ -0,0 +1,135 @@
+// Tax - Order tax calculation shared by the order form and the server actions
+
+export type TaxLineType = "service_charge" | "vat"
+
+/** Organization-level tax rules; rates are percentages */
+export interface TaxSettings {
+  vatRate: number
+  serviceChargeRate: number
+  pricesIncludeTax: boolean
+  exemptCategories: string[]
+}
+
+/** Tax amount stored on an order for a single tax type */
+export interface TaxLine {
+  type: TaxLineType
+  name: string
+  rate: number
+  taxableAmount: number
+  amount: number
+}
+
+export interface OrderTaxResult {
+  taxes: TaxLine[]
+  taxTotal: number
+  taxInclusive: boolean
+  totalAmount: number
+}
+
+interface TaxableItem {
+  quantity: number
+  price: number
+  category?: string
+}
+
+export const DEFAULT_TAX_SETTINGS: TaxSettings = {
+  vatRate: 0,
+  serviceChargeRate: 0,
+  pricesIncludeTax: false,
+  exemptCategories: [],
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+/**
+ * Calculates service charge and VAT for an order.
+ * Service charge applies to every item; VAT applies to non-exempt items and their service charge.
+ * The discount is spread across items in proportion to their value. With inclusive pricing the
+ * taxes are extracted from the item prices and the total doesn't change.
+ */
+export function calculateOrderTax(
+  items: TaxableItem[],
+  discount: number,
+  tip: number,
+  settings: TaxSettings = DEFAULT_TAX_SETTINGS,
+): OrderTaxResult {
+  const serviceRate = (Number(settings.serviceChargeRate) || 0) / 100
+  const vatRate = (Number(settings.vatRate) || 0) / 100
+  const exempt = new Set((settings.exemptCategories || []).map((category) => category.toLowerCase()))
+
+  let subtotal = 0
+  let exemptSubtotal = 0
+  for (const item of items) {
+    const lineTotal = (Number(item.quantity) || 0) * (Number(item.price) || 0)
+    subtotal += lineTotal
+    if (item.category && exempt.has(item.category.toLowerCase())) exemptSubtotal += lineTotal
+  }
+
+  const netAmount = Math.max(0, subtotal - (Number(discount) || 0))
+  const discountFactor = subtotal > 0 ? netAmount / subtotal : 0
+  const taxable = (subtotal - exemptSubtotal) * discountFactor
+  const exemptAmount = exemptSubtotal * discountFactor
+
+  // Net-of-tax base for each portion
+  const taxableBase = settings.pricesIncludeTax ? taxable / ((1 + serviceRate) * (1 + vatRate)) : taxable
+  const exemptBase = settings.pricesIncludeTax ? exemptAmount / (1 + serviceRate) : exemptAmount
+
+  const taxableServiceCharge = taxableBase * serviceRate
+  const serviceCharge = taxableServiceCharge + exemptBase * serviceRate
+  const vat = (taxableBase + taxableServiceCharge) * vatRate
+
+  const taxes: TaxLine[] = []
+  if (serviceRate > 0) {
+    taxes.push({
+      type: "service_charge",
+      name: "Service Charge",
+      rate: settings.serviceChargeRate,
+      taxableAmount: round(taxableBase + exemptBase),
+      amount: round(serviceCharge),
+    })
+  }
+  if (vatRate > 0) {
+    taxes.push({
+      type: "vat",
+      name: "VAT",
+      rate: settings.vatRate,
+      taxableAmount: round(taxableBase + taxableServiceCharge),
+      amount: round(vat),
+    })
+  }
+
+  const taxTotal = round(taxes.reduce((sum, tax) => sum + tax.amount, 0))
+  const totalAmount = round(netAmount + (settings.pricesIncludeTax ? 0 : taxTotal) + (Number(tip) || 0))
+
+  return { taxes, taxTotal, taxInclusive: settings.pricesIncludeTax, totalAmount }
+}
+
+/** Keeps the rates an existing order was charged at, so editing it doesn't apply later rate changes */
+export function orderTaxSettings(order: { taxes?: TaxLine[]; taxInclusive?: boolean }, current: TaxSettings): TaxSettings {
+  const rateOf = (type: TaxLineType) => order.taxes?.find((tax) => tax.type === type)?.rate || 0
+  return {
+    vatRate: rateOf("vat"),
+    serviceChargeRate: rateOf("service_charge"),
+    pricesIncludeTax: order.taxInclusive ?? false,
+    exemptCategories: current.exemptCategories,
+  }
+}
+
+/** Sums tax lines across orders by type, e.g. for a filing period */
+export function summarizeTaxes(orders: Array<{ taxes?: TaxLine[] }>) {
+  const summary = new Map<TaxLineType, { name: string; taxableAmount: number; amount: number; orders: number }>()
+
+  for (const order of orders) {
+    for (const tax of order.taxes || []) {
+      const existing = summary.get(tax.type) || { name: tax.name, taxableAmount: 0, amount: 0, orders: 0 }
+      summary.set(tax.type, {
+        name: existing.name,
+        taxableAmount: existing.taxableAmount + tax.taxableAmount,
+        amount: existing.amount + tax.amount,
+        orders: existing.orders + 1,
+      })
+    }
+  }
+
+  return Array.from(summary.entries()).map(([type, totals]) => ({ type, ...totals }))
+}
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { tenantData } from "@/lib/tenant"
+import { seedOrganizations, type Tenant } from "@/test/fixtures"
+import MenuItem from "@/models/MenuItem"
+
+describe("tenantData", () => {
+  let orgA: Tenant
+  let orgB: Tenant
+
+  beforeEach(async () => {
+    ;({ orgA, orgB } = await seedOrganizations())
+  })
+
+  const expectOrgBUnchanged = async () => {
+    const menuItem = await MenuItem.findById(orgB.menuItem._id).lean<{ name: string; price: number }>()
+    expect(menuItem).toMatchObject({ name: orgB.menuItem.name, price: 200 })
+  }
+
+  it("rejects a missing or malformed organization", () => {
+    expect(() => tenantData("")).toThrow("Unauthorized")
+    expect(() => tenantData("not-an-id")).toThrow("Unauthorized")
+  })
+
+  it("reads only the organization's own documents", async () => {
+    const db = tenantData(orgA.organization)
+    const foreignId = orgB.menuItem._id
+
+    const found = await db.MenuItem.find()
+    expect(found.map((item) => String(item._id))).toEqual([String(orgA.menuItem._id)])
+    // An organization in the filter is replaced, not combined
+    expect(await db.MenuItem.find({ organization: orgB.organization })).toHaveLength(1)
+    expect(String((await db.MenuItem.findOne({ organization: orgB.organization }))?._id)).toBe(String(orgA.menuItem._id))
+
+    expect(await db.MenuItem.findOne({ _id: foreignId })).toBeNull()
+    expect(await db.MenuItem.findById(foreignId)).toBeNull()
+    expect(await db.MenuItem.exists({ _id: foreignId })).toBeNull()
+    expect(await db.MenuItem.countDocuments()).toBe(1)
+    expect(await db.MenuItem.countDocuments({ _id: foreignId })).toBe(0)
+  })
+
+  it("aggregates over the organization's own documents", async () => {
+    const db = tenantData(orgA.organization)
+
+    const totals = await db.IncomeRecord.aggregate<{ orders: number; revenue: number }>([
+      { $group: { _id: null, orders: { $sum: 1 }, revenue: { $sum: "$totalAmount" } } },
+    ])
+    expect(totals).toEqual([{ _id: null, orders: 1, revenue: 200 }])
+
+    const foreign = await db.IncomeRecord.aggregate([{ $match: { _id: orgB.incomeRecord._id } }])
+    expect(foreign).toEqual([])
+  })
+
+  it("doesn't update other organizations' documents", async () => {
+    const db = tenantData(orgA.organization)
+    const foreignId = orgB.menuItem._id
+
+    expect(await db.MenuItem.findOneAndUpdate({ _id: foreignId }, { price: 1 }, { new: true })).toBeNull()
+    expect(await db.MenuItem.findByIdAndUpdate(foreignId, { price: 1 }, { new: true })).toBeNull()
+    expect((await db.MenuItem.updateOne({ _id: foreignId }, { price: 1 })).matchedCount).toBe(0)
+    expect((await db.MenuItem.updateMany({ _id: foreignId }, { price: 1 })).matchedCount).toBe(0)
+
+    // An unfiltered update only reaches the organization's own documents
+    expect((await db.MenuItem.updateMany({}, { price: 1 })).matchedCount).toBe(1)
+    await expectOrgBUnchanged()
+  })
+
+  it("doesn't delete other organizations' documents", async () => {
+    const db = tenantData(orgA.organization)
+    const foreignId = orgB.menuItem._id
+
+    expect(await db.MenuItem.findOneAndDelete({ _id: foreignId })).toBeNull()
+    expect(await db.MenuItem.findByIdAndDelete(foreignId)).toBeNull()
+    await expectOrgBUnchanged()
+  })
+
+  it("scopes every operation of a bulk write", async () => {
+    const db = tenantData(orgA.organization)
+    const foreignId = orgB.menuItem._id
+
+    const result = await db.MenuItem.bulkWrite([
+      { updateOne: { filter: { _id: foreignId }, update: { $set: { price: 1 } } } },
+      { updateMany: { filter: {}, update: { $set: { description: "Steamed" } } } },
+      { replaceOne: { filter: { _id: foreignId }, replacement: { name: "Replaced", category: "Food", price: 1 } } },
+      { deleteOne: { filter: { _id: foreignId } } },
+      { deleteMany: { filter: { _id: foreignId } } },
+      {
+        insertOne: {
+          document: { name: "Chowmein", category: "Food", price: 150, organization: orgB.organization, createdBy: orgA.user.id },
+        },
+      },
+    ])
+
+    expect(result.matchedCount).toBe(1)
+    expect(result.deletedCount).toBe(0)
+    await expectOrgBUnchanged()
+    expect(await MenuItem.findOne({ _id: foreignId, description: "Steamed" })).toBeNull()
+
+    const inserted = await MenuItem.findOne({ name: "Chowmein" }).lean<{ organization: unknown }>()
+    expect(String(inserted?.organization)).toBe(orgA.organization)
+  })
+
+  it("stamps created documents with the organization", async () => {
+    const db = tenantData(orgA.organization)
+
+    const [created] = await db.MenuItem.create([
+      { name: "Thukpa", category: "Food", price: 250, organization: orgB.organization, createdBy: orgA.user.id },
+    ])
+
+    expect(String(created.organization)).toBe(orgA.organization)
+    expect(await tenantData(orgB.organization).MenuItem.countDocuments()).toBe(1)
+  })
+})
@@ -0,0 +1,115 @@
+// Tenant - Organization-scoped data access for server actions and API routes
+import mongoose, {
+  type AnyBulkWriteOperation,
+  type CreateOptions,
+  type FilterQuery,
+  type Model,
+  type MongooseBulkWriteOptions,
+  type PipelineStage,
+  type ProjectionType,
+  type QueryOptions,
+  type UpdateQuery,
+} from "mongoose"
+import { requireAuth } from "@/lib/auth"
+import type { Permission } from "@/lib/permissions"
+import AuditEvent from "@/models/AuditEvent"
+import Branch from "@/models/Branch"
+import CashSession from "@/models/CashSession"
+import DueAccount from "@/models/DueAccount"
+import DuePayment from "@/models/DuePayment"
+import ExpenseRecord from "@/models/ExpenseRecord"
+import IncomeRecord from "@/models/IncomeRecord"
+import Ingredient from "@/models/Ingredient"
+import InvoiceCounter from "@/models/InvoiceCounter"
+import MenuItem from "@/models/MenuItem"
+import MenuPriceChange from "@/models/MenuPriceChange"
+import MenuRule from "@/models/MenuRule"
+import Table from "@/models/Table"
+import User from "@/models/User"
+
+/**
+ * Wraps a model so every query only sees one organization's documents.
+ * The organization is written over any the caller passes, lookups by id miss other
+ * organizations' documents instead of returning them, and created documents are stamped with it.
+ */
+function scopedModel<T>(model: Model<T>, organization: string) {
+  const organizationId = new mongoose.Types.ObjectId(organization)
+  const scope = (filter: FilterQuery<T> = {}) => ({ ...filter, organization: organizationId }) as FilterQuery<T>
+  const byId = (id: unknown) => scope({ _id: id } as FilterQuery<T>)
+
+  const scopeOperation = (operation: AnyBulkWriteOperation<T>) => {
+    const [[type, spec]] = Object.entries(operation) as [string, Record<string, any>][]
+    return {
+      [type]: type === "insertOne"
+        ? { ...spec, document: { ...spec.document, organization: organizationId } }
+        : { ...spec, filter: scope(spec.filter) },
+    } as AnyBulkWriteOperation<T>
+  }
+
+  return {
+    find: (filter?: FilterQuery<T>, projection?: ProjectionType<T> | null) => model.find(scope(filter), projection),
+    findOne: (filter?: FilterQuery<T>, projection?: ProjectionType<T> | null) => model.findOne(scope(filter), projection),
+    findById: (id: unknown, projection?: ProjectionType<T> | null) => model.findOne(byId(id), projection),
+    exists: (filter: FilterQuery<T>) => model.exists(scope(filter)),
+    countDocuments: (filter?: FilterQuery<T>) => model.countDocuments(scope(filter)),
+    findOneAndUpdate: (filter: FilterQuery<T>, update: UpdateQuery<T>, options: QueryOptions<T> = {}) =>
+      model.findOneAndUpdate(scope(filter), update, options),
+    findByIdAndUpdate: (id: unknown, update: UpdateQuery<T>, options: QueryOptions<T> = {}) =>
+      model.findOneAndUpdate(byId(id), update, options),
+    findOneAndDelete: (filter: FilterQuery<T>) => model.findOneAndDelete(scope(filter)),
+    findByIdAndDelete: (id: unknown) => model.findOneAndDelete(byId(id)),
+    updateOne: (filter: FilterQuery<T>, update: UpdateQuery<T>, options?: QueryOptions<T>) =>
+      model.updateOne(scope(filter), update, options as any),
+    updateMany: (filter: FilterQuery<T>, update: UpdateQuery<T>, options?: QueryOptions<T>) =>
+      model.updateMany(scope(filter), update, options as any),
+    bulkWrite: (operations: AnyBulkWriteOperation<T>[], options?: MongooseBulkWriteOptions) =>
+      model.bulkWrite(operations.map(scopeOperation), options),
+    create: (docs: Record<string, unknown>[], options?: CreateOptions) =>
+      model.create(docs.map((doc) => ({ ...doc, organization: organizationId })), options),
+    // Aggregations don't cast, so the organization is matched as an ObjectId
+    aggregate: <R>(pipeline: PipelineStage[]) =>
+      model.aggregate<R>([{ $match: { organization: organizationId } }, ...pipeline]),
+  }
+}
+
+export type ScopedModel = ReturnType<typeof scopedModel>
+
+/**
+ * The collections that belong to an organization, scoped to it.
+ * Organizations themselves are not tenant data and are read through their model.
+ */
+export function tenantData(organization: string) {
+  // Without an organization every scoped query would be built on an invalid id
+  if (!organization || !mongoose.isValidObjectId(organization)) {
+    throw new Error("Unauthorized")
+  }
+
+  return {
+    organization,
+    AuditEvent: scopedModel(AuditEvent, organization),
+    Branch: scopedModel(Branch, organization),
+    CashSession: scopedModel(CashSession, organization),
+    DueAccount: scopedModel(DueAccount, organization),
+    DuePayment: scopedModel(DuePayment, organization),
+    ExpenseRecord: scopedModel(ExpenseRecord, organization),
+    IncomeRecord: scopedModel(IncomeRecord, organization),
+    Ingredient: scopedModel(Ingredient, organization),
+    InvoiceCounter: scopedModel(InvoiceCounter, organization),
+    MenuItem: scopedModel(MenuItem, organization),
+    MenuPriceChange: scopedModel(MenuPriceChange, organization),
+    MenuRule: scopedModel(MenuRule, organization),
+    Table: scopedModel(Table, organization),
+    User: scopedModel(User, organization),
+  }
+}
+
+export type TenantData = ReturnType<typeof tenantData>
+
+/**
+ * Requires authentication like requireAuth and returns the user's tenant data alongside the user
+ * @param permission - Optional permission the user must hold
+ */
+export async function requireTenant(permission?: Permission) {
+  const session = await requireAuth(permission)
+  return { session, user: session.user, db: tenantData(session.user.organization) }
+}
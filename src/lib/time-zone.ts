@@ -0,0 +1,8 @@
+// Time Zone - Loads the time zone an organization's menu rules run in, on the server
+import Organization from "@/models/Organization"
+import { DEFAULT_TIME_ZONE } from "@/lib/constants"
+
+export async function getTimeZone(organization: string): Promise<string> {
+  const org = await Organization.findById(organization).select("timeZone")
+  return org?.timeZone || DEFAULT_TIME_ZONE
+}
@@ -15,6 +15,11 @@ export function formatCurrency(amount: number): string {
   }).format(amount)
 }
 
+// Escape user input for use inside a regular expression
+export function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
 // Get date range for a given filter (today, week, month, etc.)
 export function getDateRange(filter: string) {
   const now = new Date()
@@ -65,6 +70,20 @@ export function exportToCSV(data: any[], filename: string) {
   }
 }
 
+// Export data to a pretty-printed JSON file with given filename
+export function exportToJSON(data: unknown, filename: string) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json;charset=utf-8;" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.setAttribute("href", url)
+  link.setAttribute("download", filename)
+  link.style.visibility = "hidden"
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
 function convertToCSV(data: any[]): string {
   if (data.length === 0) return ""
 
@@ -75,7 +94,8 @@ function convertToCSV(data: any[]): string {
       headers
         .map((header) => {
           const value = row[header]
-          return typeof value === "string" ? `"${value}"` : value
+          // Quotes inside a value are doubled so it reads back as one cell
+          return typeof value === "string" ? `"${value.replace(/"/g, '""')}"` : value
         })
         .join(","),
     ),
@@ -1,5 +1,7 @@
 // Zod validation schemas for form inputs and API validation
 import { z } from "zod"
+import { ALL_PERMISSIONS, type Permission } from "@/lib/permissions"
+import { isTimeZone } from "@/lib/menu-rules"
 
 export const orderItemSchema = z.object({
   name: z.string().min(1, "Item name is required"),
@@ -15,9 +17,32 @@ export const incomeRecordSchema = z.object({
       price: z.number().min(0, "Price must be positive"),
       category: z.string().optional(),
       menuItemId: z.string().optional(),
+      variant: z.string().optional(),
+      priceRule: z.object({
+        name: z.string(),
+        discountPercent: z.number().min(0).max(100),
+      }).optional(),
+      modifiers: z.array(
+        z.object({
+          group: z.string(),
+          name: z.string(),
+          priceDelta: z.number(),
+        })
+      ).optional(),
     })
   ).min(1, "At least one item is required"),
   subtotal: z.number().min(0, "Subtotal must be at least 0"),
+  taxes: z.array(
+    z.object({
+      type: z.enum(["service_charge", "vat"]),
+      name: z.string(),
+      rate: z.number().min(0),
+      taxableAmount: z.number().min(0),
+      amount: z.number().min(0),
+    })
+  ).optional(),
+  taxTotal: z.number().min(0).optional(),
+  taxInclusive: z.boolean().optional(),
   discount: z.number().min(0, "Discount must be at least 0"),
   tip: z.number().min(0, "Tip must be at least 0"),
   totalAmount: z.number(),
@@ -27,6 +52,7 @@ export const incomeRecordSchema = z.object({
   paymentStatus: z.enum(["pending", "completed"]),
   date: z.date(),
   tableNumber: z.string().optional(),
+  table: z.string().optional(),
   customerName: z.string().optional(),
   notes: z.string().optional(),
   isDueAccount: z.boolean().optional(),
@@ -35,6 +61,34 @@ export const incomeRecordSchema = z.object({
   }),
 })
 
+export const tableSchema = z.object({
+  name: z.string().trim().min(1, "Table name is required"),
+  area: z.string().trim(),
+  seats: z.number().int().min(1, "A table needs at least 1 seat"),
+})
+
+export const branchSchema = z.object({
+  name: z.string().trim().min(1, "Branch name is required"),
+  code: z.string().trim().max(10, "Branch code can't exceed 10 characters").optional(),
+  address: z.string().trim().optional(),
+  phone: z.string().trim().optional(),
+  isActive: z.boolean().optional(),
+})
+
+export const tabItemsSchema = incomeRecordSchema.shape.items
+
+export const settleTabSchema = z.object({
+  paymentMethod: z.enum(["cash", "digital", "split"]),
+  cashAmount: z.number().min(0, "Cash amount must be at least 0").optional(),
+  digitalAmount: z.number().min(0, "Digital amount must be at least 0").optional(),
+  discount: z.number().min(0, "Discount must be at least 0"),
+  tip: z.number().min(0, "Tip must be at least 0"),
+})
+
+export const prepStatusSchema = z.enum(["queued", "preparing", "ready", "served"])
+
+export const voidReasonSchema = z.string().trim().min(1, "A reason is required").max(500, "Reason is too long")
+
 export const expenseRecordSchema = z.object({
   amount: z.number().min(0.01, "Amount must be greater than 0"),
   category: z.string().min(1, "Category is required"),
@@ -43,6 +97,104 @@ export const expenseRecordSchema = z.object({
   date: z.date(),
   receiptNumber: z.string().optional(),
   notes: z.string().optional(),
+  paymentMethod: z.enum(["cash", "digital"]).optional(),
+  restockItems: z.array(
+    z.object({
+      ingredient: z.string().min(1, "Ingredient is required"),
+      quantity: z.number().positive("Quantity must be greater than 0"),
+    })
+  ).optional(),
+})
+
+export const ingredientSchema = z.object({
+  name: z.string().min(1, "Ingredient name is required"),
+  unit: z.enum(["g", "kg", "ml", "l", "pcs"]),
+  currentQuantity: z.number(),
+  lowStockThreshold: z.number().min(0, "Threshold must be at least 0"),
+})
+
+export const recipeSchema = z.array(
+  z.object({
+    ingredient: z.string().min(1, "Ingredient is required"),
+    quantity: z.number().positive("Quantity must be greater than 0"),
+  })
+)
+
+export const menuOptionsSchema = z.object({
+  variants: z.array(
+    z.object({
+      name: z.string().trim().min(1, "Variant name is required"),
+      price: z.number().min(0, "Price must be non-negative"),
+    })
+  ),
+  modifierGroups: z.array(
+    z.object({
+      name: z.string().trim().min(1, "Group name is required"),
+      minSelect: z.number().int().min(0, "Minimum can't be negative"),
+      maxSelect: z.number().int().min(1, "Maximum must be at least 1"),
+      options: z.array(
+        z.object({
+          name: z.string().trim().min(1, "Option name is required"),
+          priceDelta: z.number(),
+        })
+      ).min(1, "Each group needs at least one option"),
+    })
+      .refine((group) => group.minSelect <= group.maxSelect, "Minimum can't exceed the maximum")
+      .refine((group) => group.minSelect <= group.options.length, "Minimum can't exceed the number of options")
+  ),
+})
+
+export const scheduledPriceSchema = z.object({
+  price: z.number().min(0, "Price must be non-negative"),
+  effectiveAt: z.date().refine((date) => date > new Date(), "The effective date must be in the future"),
+})
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/
+
+export const menuRuleSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  type: z.enum(["availability", "price"]),
+  menuItems: z.array(z.string()).default([]),
+  categories: z.array(z.string().trim().min(1)).default([]),
+  days: z.array(z.number().int().min(0).max(6)).default([]),
+  startTime: z.string().regex(TIME_OF_DAY, "Start time must be HH:mm"),
+  endTime: z.string().regex(TIME_OF_DAY, "End time must be HH:mm"),
+  discountPercent: z.number().min(0).max(100, "Discount can't exceed 100%").optional(),
+  isActive: z.boolean().default(true),
+})
+  .refine((rule) => rule.menuItems.length + rule.categories.length > 0, "Choose at least one item or category")
+  .refine((rule) => rule.startTime !== rule.endTime, "The window can't start and end at the same time")
+  .refine(
+    (rule) => rule.type !== "price" || (rule.discountPercent ?? 0) > 0,
+    { message: "A price rule needs a discount", path: ["discountPercent"] },
+  )
+
+// Spreadsheet cells arrive as text, so numbers and yes/no answers are read from it
+const CELL_BOOLEANS: Record<string, boolean> = { true: true, yes: true, y: true, "1": true, false: false, no: false, n: false, "0": false }
+
+const numberCell = (value: unknown) => {
+  if (typeof value !== "string") return value
+  return value.trim() === "" ? undefined : Number(value)
+}
+
+const booleanCell = (value: unknown) => {
+  if (typeof value !== "string") return value
+  if (value.trim() === "") return undefined
+  return CELL_BOOLEANS[value.trim().toLowerCase()] ?? value
+}
+
+// One row of a menu import file; optional columns left out of the file leave the item's value as it is
+export const menuImportRowSchema = z.object({
+  name: z.string({ required_error: "Name is required" }).trim().min(1, "Name is required"),
+  category: z.string({ required_error: "Category is required" }).trim().min(1, "Category is required"),
+  price: z.preprocess(
+    numberCell,
+    z.number({ required_error: "Price is required", invalid_type_error: "Price must be a number" })
+      .min(0, "Price must be non-negative"),
+  ),
+  description: z.string().trim().optional(),
+  isAvailable: z.preprocess(booleanCell, z.boolean({ invalid_type_error: "Availability must be true or false" }).optional()),
+  image: z.union([z.literal(""), z.string().trim().url("Image must be a URL")]).optional(),
 })
 
 export const loginSchema = z.object({
@@ -60,12 +212,42 @@ export const organizationSchema = z.object({
   isActive: z.boolean(),
 })
 
+export const taxSettingsSchema = z.object({
+  vatRate: z.number().min(0, "VAT rate must be at least 0").max(100, "VAT rate can't exceed 100%"),
+  serviceChargeRate: z.number().min(0, "Service charge must be at least 0").max(100, "Service charge can't exceed 100%"),
+  pricesIncludeTax: z.boolean(),
+  exemptCategories: z.array(z.string().min(1)),
+})
+
+export const invoiceSettingsSchema = z.object({
+  prefix: z
+    .string()
+    .trim()
+    .max(10, "Prefix can't exceed 10 characters")
+    .regex(/^[A-Za-z0-9/]*$/, "Prefix can only contain letters, numbers and /"),
+  resetPeriod: z.enum(["never", "yearly", "fiscal"]),
+  fiscalYearStartMonth: z.number().int().min(1).max(12),
+})
+
+export const timeZoneSchema = z.object({
+  timeZone: z.string().trim().refine(isTimeZone, "Unknown time zone"),
+})
+
 export const userSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
   email: z.string().email("Invalid email address"),
   password: z.union([z.string().min(6, "Password must be at least 6 characters"), z.literal("")]).optional(),
   organization: z.string().optional(),
-  role: z.enum(["admin", "manager", "staff"]),
+  role: z.string().trim().min(1, "Role is required"),
+  // Branches the user works at; empty means every branch
+  branches: z.array(z.string()).optional(),
+})
+
+export const roleSchema = z.object({
+  // Empty for a new role; the key is derived from the name
+  key: z.string().trim().optional(),
+  name: z.string().trim().min(2, "Role name must be at least 2 characters").max(40, "Role name can't exceed 40 characters"),
+  permissions: z.array(z.enum(ALL_PERMISSIONS as [Permission, ...Permission[]])),
 })
 
 export const filterSchema = z.object({
@@ -88,6 +270,21 @@ export const duePaymentSchema = z.object({
   }),
 })
 
+export const openCashSessionSchema = z.object({
+  openingFloat: z.number().min(0, "Opening float must be at least 0"),
+})
+
+export const cashMovementSchema = z.object({
+  type: z.enum(["pay_in", "pay_out"]),
+  amount: z.number().min(0.01, "Amount must be greater than 0"),
+  reason: z.string().trim().min(1, "A reason is required").max(200, "Reason is too long"),
+})
+
+export const closeCashSessionSchema = z.object({
+  countedCash: z.number().min(0, "Counted cash must be at least 0"),
+  notes: z.string().trim().max(500, "Notes are too long").optional(),
+})
+
 // TypeScript types inferred from schemas
 export type DueAccountInput = z.infer<typeof dueAccountSchema>
 export type OrderItemInput = z.infer<typeof orderItemSchema>
@@ -95,6 +292,23 @@ export type IncomeRecordInput = z.infer<typeof incomeRecordSchema>
 export type ExpenseRecordInput = z.infer<typeof expenseRecordSchema>
 export type LoginInput = z.infer<typeof loginSchema>
 export type UserInput = z.infer<typeof userSchema>
+export type RoleInput = z.infer<typeof roleSchema>
 export type FilterInput = z.infer<typeof filterSchema>
 export type DuePaymentInput = z.infer<typeof duePaymentSchema>
 export type OrganizationInput = z.infer<typeof organizationSchema>
+export type TaxSettingsInput = z.infer<typeof taxSettingsSchema>
+export type InvoiceSettingsInput = z.infer<typeof invoiceSettingsSchema>
+export type TimeZoneInput = z.infer<typeof timeZoneSchema>
+export type TableInput = z.infer<typeof tableSchema>
+export type BranchInput = z.infer<typeof branchSchema>
+export type TabItemsInput = z.infer<typeof tabItemsSchema>
+export type SettleTabInput = z.infer<typeof settleTabSchema>
+export type IngredientInput = z.infer<typeof ingredientSchema>
+export type RecipeInput = z.infer<typeof recipeSchema>
+export type MenuOptionsInput = z.infer<typeof menuOptionsSchema>
+export type ScheduledPriceInput = z.infer<typeof scheduledPriceSchema>
+export type MenuRuleInput = z.input<typeof menuRuleSchema>
+export type MenuImportRow = z.infer<typeof menuImportRowSchema>
+export type OpenCashSessionInput = z.infer<typeof openCashSessionSchema>
+export type CashMovementInput = z.infer<typeof cashMovementSchema>
+export type CloseCashSessionInput = z.infer<typeof closeCashSessionSchema>
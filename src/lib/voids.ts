@@ -0,0 +1,25 @@
+// Voids - Query filters and updates shared by voidable income and expense records
+import { VOID_STATUS } from "@/lib/constants"
+
+/** Matches records that still count towards totals; pending void requests count until approved */
+export const NOT_VOIDED = { voidStatus: { $ne: VOID_STATUS.VOIDED } }
+
+/** Update that returns a record to the active state */
+export const CLEAR_VOID = {
+  $unset: { voidStatus: 1, voidReason: 1, voidRequestedBy: 1, voidRequestedAt: 1, voidedBy: 1, voidedAt: 1 },
+}
+
+/** Update that files a void request for a manager to approve */
+export function voidRequestUpdate(userId: string, reason: string) {
+  return { voidStatus: VOID_STATUS.REQUESTED, voidReason: reason, voidRequestedBy: userId, voidRequestedAt: new Date() }
+}
+
+/** Update that voids a record; a reason is only passed when voiding without a prior request */
+export function voidUpdate(userId: string, reason?: string) {
+  return {
+    voidStatus: VOID_STATUS.VOIDED,
+    voidedBy: userId,
+    voidedAt: new Date(),
+    ...(reason ? { voidReason: reason } : {}),
+  }
+}
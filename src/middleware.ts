@@ -1,33 +1,8 @@
-// Middleware - Role-based access control and route protection
+// Middleware - Permission-based access control and route protection
 import { getToken } from "next-auth/jwt"
 import { NextResponse } from "next/server"
 import type { NextRequest } from "next/server"
-
-/**
- * Role-based access control mapping
- * Defines which paths each role can access
- */
-const accessMap: Record<string, string[]> = {
-  admin: [
-    "/dashboard",
-    "/dashboard/records",
-    "/dashboard/reports",
-    "/dashboard/menu-management",
-    "/dashboard/due-accounts",
-    "/dashboard/users",
-    "/dashboard/sales-analytics",
-  ],
-  manager: [
-    "/dashboard",
-    "/dashboard/records",
-    "/dashboard/reports",
-    "/dashboard/due-accounts",
-  ],
-  staff: [
-    "/dashboard/records",
-    "/dashboard/due-accounts",
-  ],
-}
+import { landingPage, pagePermission, rolePermissions } from "@/lib/permissions"
 
 export async function middleware(req: NextRequest) {
   const { pathname } = req.nextUrl
@@ -39,16 +14,18 @@ export async function middleware(req: NextRequest) {
     return NextResponse.redirect(new URL("/", req.url))
   }
 
-  const role = token.role as "admin" | "manager" | "staff"
-  const allowedPaths = accessMap[role] || []
+  // Sessions from before permissions were added only carry the role
+  const permissions = (token.permissions as string[] | undefined) ?? rolePermissions(token.role as string | undefined)
 
-  // Check if current path is allowed for this role
-  const isAllowed = allowedPaths.some((path) =>
-    pathname === path || pathname.startsWith(`${path}/`)
-  )
+  // Organizations are managed by super admins; every other page needs its permission
+  const permission = pagePermission(pathname)
+  const isAllowed = pathname.startsWith("/dashboard/organization")
+    ? token.superAdmin === true
+    : !permission || permissions.includes(permission)
 
   if (!isAllowed) {
-    return NextResponse.redirect(new URL("/dashboard/records", req.url))
+    const fallback = landingPage(permissions)
+    return NextResponse.redirect(new URL(fallback && fallback !== pathname ? fallback : "/", req.url))
   }
 
   return NextResponse.next()
@@ -0,0 +1,65 @@
+// Audit Event Model - Append-only history of changes to financial records
+import mongoose, { Schema, Document, models } from "mongoose";
+import type { AuditAction, AuditEntity, AuditSource } from "@/lib/constants";
+
+// Audit change - One top-level field that changed
+export interface IAuditChange {
+  path: string
+  before?: unknown
+  after?: unknown
+}
+
+// AuditEvent - Who changed which record, how, and when
+export interface IAuditEvent extends Document {
+  organization: mongoose.Types.ObjectId
+  actor: mongoose.Types.ObjectId
+  // Snapshot of the actor's name, so the log still reads correctly after users are renamed or removed
+  actorName: string
+  action: AuditAction
+  entityType: AuditEntity
+  entityId: mongoose.Types.ObjectId
+  changes: IAuditChange[]
+  source: AuditSource
+  createdAt: Date
+}
+
+const AuditChangeSchema = new Schema<IAuditChange>(
+  {
+    path: { type: String, required: true },
+    before: { type: Schema.Types.Mixed },
+    after: { type: Schema.Types.Mixed },
+  },
+  { _id: false },
+)
+
+const AuditEventSchema = new Schema<IAuditEvent>(
+  {
+    organization: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    actor: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    actorName: { type: String, default: "" },
+    action: { type: String, enum: ["create", "update", "delete", "payment", "void", "restore"], required: true },
+    entityType: { type: String, enum: ["IncomeRecord", "ExpenseRecord", "DueAccount", "DuePayment"], required: true },
+    entityId: { type: Schema.Types.ObjectId, required: true },
+    changes: { type: [AuditChangeSchema], default: [] },
+    source: { type: String, enum: ["web", "offline_sync"], default: "web" },
+  },
+  { timestamps: { createdAt: true, updatedAt: false } },
+)
+
+AuditEventSchema.index({ organization: 1, createdAt: -1 })
+AuditEventSchema.index({ organization: 1, entityType: 1, entityId: 1, createdAt: -1 })
+
+// Events are append-only: reject every update and delete issued through the model
+const IMMUTABLE_ERROR = "Audit events cannot be changed or deleted"
+
+AuditEventSchema.pre(
+  ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne", "findOneAndReplace", "deleteOne", "deleteMany", "findOneAndDelete"],
+  function () {
+    throw new Error(IMMUTABLE_ERROR)
+  },
+)
+AuditEventSchema.pre("save", function (next) {
+  next(this.isNew ? undefined : new Error(IMMUTABLE_ERROR))
+})
+
+export default models.AuditEvent || mongoose.model<IAuditEvent>("AuditEvent", AuditEventSchema)
@@ -0,0 +1,33 @@
+// Branch Model - Outlets of an organization that records are tagged with
+import mongoose, { Schema, Document, models } from "mongoose";
+
+// Branch - A single outlet; deactivated rather than deleted so its records keep their branch
+export interface IBranch extends Document {
+  name: string
+  code?: string
+  address?: string
+  phone?: string
+  isActive: boolean
+  organization: mongoose.Types.ObjectId
+  createdBy: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const BranchSchema = new Schema<IBranch>(
+  {
+    name: { type: String, required: true, trim: true },
+    // Short label for reports and receipts, e.g. "DT" for Downtown
+    code: { type: String, trim: true, uppercase: true, maxlength: 10 },
+    address: { type: String, trim: true },
+    phone: { type: String, trim: true },
+    isActive: { type: Boolean, default: true },
+    organization: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  },
+  { timestamps: true },
+)
+
+BranchSchema.index({ organization: 1, name: 1 }, { unique: true })
+
+export default models.Branch || mongoose.model<IBranch>("Branch", BranchSchema)
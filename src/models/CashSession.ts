@@ -0,0 +1,93 @@
+// Cash Session Model - Till sessions from opening float to counted close, with pay-ins and pay-outs
+import mongoose, { Schema, Document, models } from "mongoose";
+
+// Cash movement - Cash put into or taken out of the drawer that isn't a sale or an expense
+export interface ICashMovement {
+  type: "pay_in" | "pay_out"
+  amount: number
+  reason: string
+  createdBy: mongoose.Types.ObjectId
+  createdAt: Date
+}
+
+// Cash summary - Takings for the session; worked out live while open and stored when it closes
+export interface ICashSummary {
+  ordersCount: number
+  cashSales: number
+  digitalSales: number
+  dueCashCollections: number
+  dueDigitalCollections: number
+  cashExpenses: number
+  payIns: number
+  payOuts: number
+  expectedCash: number
+}
+
+// CashSession - One shift on a branch's till
+export interface ICashSession extends Document {
+  status: "open" | "closed"
+  openingFloat: number
+  openedBy: mongoose.Types.ObjectId
+  openedAt: Date
+  movements: ICashMovement[]
+  closedBy?: mongoose.Types.ObjectId
+  closedAt?: Date
+  countedCash?: number
+  // Counted minus expected: positive when the drawer is over, negative when short
+  variance?: number
+  summary?: ICashSummary
+  notes?: string
+  branch?: mongoose.Types.ObjectId
+  organization: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const CashMovementSchema = new Schema<ICashMovement>({
+  type: { type: String, enum: ["pay_in", "pay_out"], required: true },
+  amount: { type: Number, required: true, min: 0 },
+  reason: { type: String, required: true, trim: true, maxlength: 200 },
+  createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  createdAt: { type: Date, required: true, default: Date.now },
+})
+
+const CashSummarySchema = new Schema<ICashSummary>(
+  {
+    ordersCount: { type: Number, default: 0 },
+    cashSales: { type: Number, default: 0 },
+    digitalSales: { type: Number, default: 0 },
+    dueCashCollections: { type: Number, default: 0 },
+    dueDigitalCollections: { type: Number, default: 0 },
+    cashExpenses: { type: Number, default: 0 },
+    payIns: { type: Number, default: 0 },
+    payOuts: { type: Number, default: 0 },
+    expectedCash: { type: Number, default: 0 },
+  },
+  { _id: false },
+)
+
+const CashSessionSchema = new Schema<ICashSession>(
+  {
+    status: { type: String, enum: ["open", "closed"], default: "open" },
+    openingFloat: { type: Number, required: true, min: 0 },
+    openedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    openedAt: { type: Date, required: true, default: Date.now },
+    movements: { type: [CashMovementSchema], default: [] },
+    closedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    closedAt: { type: Date },
+    countedCash: { type: Number, min: 0 },
+    variance: { type: Number },
+    summary: { type: CashSummarySchema },
+    notes: { type: String, maxlength: 500 },
+    // Unset for sessions from before the organization had branches
+    branch: { type: Schema.Types.ObjectId, ref: "Branch" },
+    organization: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+  },
+  { timestamps: true },
+)
+
+CashSessionSchema.index({ organization: 1, branch: 1, openedAt: -1 })
+// Only one session can be open on each branch's till at a time
+CashSessionSchema.index({ organization: 1, branch: 1 }, { unique: true, partialFilterExpression: { status: "open" } })
+
+export default models.CashSession || mongoose.model<ICashSession>("CashSession", CashSessionSchema)
@@ -0,0 +1,64 @@
+// Due Payment Model - Ledger of individual payments received against due accounts
+import mongoose, { Schema, Document, models } from "mongoose";
+
+// Allocation - Portion of a payment applied to a single pending order
+export interface IDuePaymentAllocation {
+  order: mongoose.Types.ObjectId
+  amount: number
+  // Set when this payment completed the order
+  invoiceNumber?: string
+}
+
+// DuePayment - A single payment received from a due account customer
+export interface IDuePayment extends Document {
+  dueAccount: mongoose.Types.ObjectId
+  amount: number
+  paymentMethod: "cash" | "digital"
+  allocations: IDuePaymentAllocation[]
+  unallocatedAmount: number
+  date: Date
+  notes?: string
+  idempotencyKey?: string
+  receivedBy: mongoose.Types.ObjectId
+  branch?: mongoose.Types.ObjectId
+  organization: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const DuePaymentAllocationSchema = new Schema<IDuePaymentAllocation>(
+  {
+    order: { type: Schema.Types.ObjectId, ref: "IncomeRecord", required: true },
+    amount: { type: Number, required: true, min: 0 },
+    invoiceNumber: { type: String },
+  },
+  { _id: false },
+)
+
+const DuePaymentSchema = new Schema<IDuePayment>(
+  {
+    dueAccount: { type: Schema.Types.ObjectId, ref: "DueAccount", required: true },
+    amount: { type: Number, required: true, min: 0 },
+    paymentMethod: { type: String, enum: ["cash", "digital"], required: true },
+    allocations: { type: [DuePaymentAllocationSchema], default: [] },
+    unallocatedAmount: { type: Number, min: 0, default: 0 },
+    date: { type: Date, required: true, default: Date.now },
+    notes: { type: String, maxlength: 500 },
+    idempotencyKey: { type: String },
+    receivedBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    // Branch whose till took the payment; unset for payments from before the organization had branches
+    branch: { type: Schema.Types.ObjectId, ref: "Branch" },
+    organization: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+  },
+  { timestamps: true },
+)
+
+DuePaymentSchema.index({ organization: 1, dueAccount: 1, date: -1 })
+DuePaymentSchema.index({ organization: 1, date: -1 })
+// Rejects a second payment submitted with the same client-generated key
+DuePaymentSchema.index(
+  { organization: 1, idempotencyKey: 1 },
+  { unique: true, partialFilterExpression: { idempotencyKey: { $type: "string" } } },
+)
+
+export default models.DuePayment || mongoose.model<IDuePayment>("DuePayment", DuePaymentSchema)
@@ -1,5 +1,12 @@
 // Expense Record Model - Business expenses with categories and vendors
 import mongoose, { Schema, Document, models } from "mongoose";
+import type { VoidStatus } from "@/lib/constants";
+
+// Restock line - Ingredient quantity received with a food & ingredients purchase
+export interface IRestockItem {
+  ingredient: mongoose.Types.ObjectId
+  quantity: number
+}
 
 // ExpenseRecord - Business expenses
 export interface IExpenseRecord extends Document {
@@ -10,12 +17,29 @@ export interface IExpenseRecord extends Document {
   date: Date
   receiptNumber?: string
   notes?: string
+  paymentMethod: "cash" | "digital"
+  restockItems: IRestockItem[]
+  voidStatus?: VoidStatus
+  voidReason?: string
+  voidRequestedBy?: mongoose.Types.ObjectId
+  voidRequestedAt?: Date
+  voidedBy?: mongoose.Types.ObjectId
+  voidedAt?: Date
   organization: mongoose.Types.ObjectId
+  branch?: mongoose.Types.ObjectId
   createdBy: mongoose.Types.ObjectId
   createdAt: Date
   updatedAt: Date
 }
 
+const RestockItemSchema = new Schema<IRestockItem>(
+  {
+    ingredient: { type: Schema.Types.ObjectId, ref: "Ingredient", required: true },
+    quantity: { type: Number, required: true, min: 0 },
+  },
+  { _id: false },
+)
+
 const ExpenseRecordSchema = new Schema<IExpenseRecord>(
   {
     amount: { type: Number, required: true, min: 0 },
@@ -25,10 +49,32 @@ const ExpenseRecordSchema = new Schema<IExpenseRecord>(
     date: { type: Date, required: true },
     receiptNumber: { type: String },
     notes: { type: String, maxlength: 500 },
+    // Cash expenses are paid out of the till and counted by the cash drawer
+    paymentMethod: { type: String, enum: ["cash", "digital"], default: "cash" },
+    restockItems: { type: [RestockItemSchema], default: [] },
+    // Unset while the record is active; see VOID_STATUS
+    voidStatus: { type: String, enum: ["requested", "voided"] },
+    voidReason: { type: String, maxlength: 500 },
+    voidRequestedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    voidRequestedAt: { type: Date },
+    voidedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    voidedAt: { type: Date },
     organization: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    // Unset for records from before the organization had branches
+    branch: { type: Schema.Types.ObjectId, ref: "Branch" },
     createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
   },
   { timestamps: true },
 )
 
+// Records list (newest first, paged on date and id) and its category filter
+ExpenseRecordSchema.index({ organization: 1, date: -1, _id: -1 })
+ExpenseRecordSchema.index({ organization: 1, category: 1, date: -1 })
+
+// Branch views and per-branch comparison
+ExpenseRecordSchema.index({ organization: 1, branch: 1, date: -1 })
+
+// Cash drawer: cash expenses recorded during a session
+ExpenseRecordSchema.index({ organization: 1, createdAt: 1 })
+
 export default models.ExpenseRecord || mongoose.model<IExpenseRecord>("ExpenseRecord", ExpenseRecordSchema)
@@ -1,5 +1,20 @@
 // Income Record Model - Sales/orders with items, payments, and due account integration
 import mongoose, { Schema, Document, models } from "mongoose";
+import type { TaxLine } from "@/lib/tax";
+import type { PrepStatus, VoidStatus } from "@/lib/constants";
+
+// Order item modifier - Modifier chosen for an order item, with the price delta it added
+export interface IOrderItemModifier {
+  group: string
+  name: string
+  priceDelta: number
+}
+
+// Order item price rule - Happy-hour style discount the item was sold under
+export interface IOrderItemPriceRule {
+  name: string
+  discountPercent: number
+}
 
 // Order item - Single item within an order
 export interface IOrderItem {
@@ -8,42 +23,101 @@ export interface IOrderItem {
   category?: string
   price: number
   menuItemId?: mongoose.Types.ObjectId
+  variant?: string
+  modifiers?: IOrderItemModifier[]
+  priceRule?: IOrderItemPriceRule
+  prepStatus: PrepStatus
+  prepUpdatedAt?: Date
 }
 
 // IncomeRecord - Sales/orders
 export interface IIncomeRecord extends Document {
+  invoiceNumber?: string
   tableNumber?: string
+  table?: mongoose.Types.ObjectId
   customerName?: string
   items: IOrderItem[]
   discount: number
   tip: number
   subtotal: number
+  taxes: TaxLine[]
+  taxTotal: number
+  taxInclusive: boolean
   totalAmount: number
   paymentMethod: "cash" | "digital" | "split"
   paymentStatus: "pending" | "completed"
   cashAmount?: number
   digitalAmount?: number
   date: Date
+  paidAt?: Date
   notes?: string
   organization: mongoose.Types.ObjectId
+  branch?: mongoose.Types.ObjectId
   createdBy: mongoose.Types.ObjectId
   isDueAccount?: boolean
   dueAccountId?: string
+  voidStatus?: VoidStatus
+  voidReason?: string
+  voidRequestedBy?: mongoose.Types.ObjectId
+  voidRequestedAt?: Date
+  voidedBy?: mongoose.Types.ObjectId
+  voidedAt?: Date
   createdAt: Date
   updatedAt: Date
 }
 
+const OrderItemModifierSchema = new Schema<IOrderItemModifier>(
+  {
+    group: { type: String, required: true },
+    name: { type: String, required: true },
+    priceDelta: { type: Number, default: 0 },
+  },
+  { _id: false },
+)
+
+const OrderItemPriceRuleSchema = new Schema<IOrderItemPriceRule>(
+  {
+    name: { type: String, required: true },
+    discountPercent: { type: Number, required: true, min: 0, max: 100 },
+  },
+  { _id: false },
+)
+
 const OrderItemSchema = new Schema<IOrderItem>({
+  // The menu item's own name; the variant and modifiers are kept apart so sales roll up per item
   name: { type: String, required: true },
   quantity: { type: Number, required: true, min: 1 },
+  // Unit price including the variant and modifiers, after any price rule's discount
   price: { type: Number, required: true, min: 0 },
   category: { type: String },
   menuItemId: { type: mongoose.Schema.Types.ObjectId, ref: "MenuItem" },
+  variant: { type: String },
+  modifiers: { type: [OrderItemModifierSchema], default: undefined },
+  priceRule: { type: OrderItemPriceRuleSchema },
+  // Kitchen progress; served items drop off the kitchen screen
+  prepStatus: { type: String, enum: ["queued", "preparing", "ready", "served"], default: "queued" },
+  prepUpdatedAt: { type: Date },
 })
 
+// Tax line - Service charge or VAT calculated for the order
+const TaxLineSchema = new Schema<TaxLine>(
+  {
+    type: { type: String, enum: ["service_charge", "vat"], required: true },
+    name: { type: String, required: true },
+    rate: { type: Number, required: true, min: 0 },
+    taxableAmount: { type: Number, required: true, min: 0 },
+    amount: { type: Number, required: true, min: 0 },
+  },
+  { _id: false },
+)
+
 const IncomeRecordSchema = new Schema<IIncomeRecord>(
   {
+    // Assigned from the organization's invoice series when the order is completed
+    invoiceNumber: { type: String },
     tableNumber: { type: String },
+    // Set for orders opened as a tab on a floor table; tableNumber holds the table's name
+    table: { type: Schema.Types.ObjectId, ref: "Table" },
     customerName: { type: String },
     items: {
       type: [OrderItemSchema],
@@ -57,18 +131,54 @@ const IncomeRecordSchema = new Schema<IIncomeRecord>(
     discount: { type: Number, required: true, min: 0, default: 0 },
     tip: { type: Number, required: true, min: 0, default: 0 },
     subtotal: { type: Number, required: true, min: 0 },
+    taxes: { type: [TaxLineSchema], default: [] },
+    taxTotal: { type: Number, min: 0, default: 0 },
+    // Whether the item prices already included the taxes (they weren't added to the total)
+    taxInclusive: { type: Boolean, default: false },
     paymentMethod: { type: String, enum: ["cash", "digital", "split"], required: true },
     paymentStatus: { type: String, enum: ["pending", "completed"], default: "pending" },
     cashAmount: { type: Number, min: 0, default: 0 },
     digitalAmount: { type: Number, min: 0, default: 0 },
     date: { type: Date, required: true, default: Date.now },
+    // When the order was settled at the till; due account collections are counted from the DuePayment ledger instead
+    paidAt: { type: Date },
     notes: { type: String, maxlength: 500 },
     organization: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    // Unset for records from before the organization had branches
+    branch: { type: Schema.Types.ObjectId, ref: "Branch" },
     createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
     isDueAccount: { type: Boolean, default: false },
     dueAccountId: { type: mongoose.Schema.Types.ObjectId, ref: "DueAccount" },
+    // Unset while the record is active; see VOID_STATUS
+    voidStatus: { type: String, enum: ["requested", "voided"] },
+    voidReason: { type: String, maxlength: 500 },
+    voidRequestedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    voidRequestedAt: { type: Date },
+    voidedBy: { type: Schema.Types.ObjectId, ref: "User" },
+    voidedAt: { type: Date },
   },
   { timestamps: true },
 )
 
+IncomeRecordSchema.index(
+  { organization: 1, invoiceNumber: 1 },
+  { unique: true, partialFilterExpression: { invoiceNumber: { $type: "string" } } },
+)
+
+// Records list (newest first, paged on date and id) and sales analytics date ranges
+IncomeRecordSchema.index({ organization: 1, date: -1, _id: -1 })
+// Records list filters
+IncomeRecordSchema.index({ organization: 1, paymentStatus: 1, date: -1 })
+IncomeRecordSchema.index({ organization: 1, dueAccountId: 1, date: -1 })
+IncomeRecordSchema.index({ organization: 1, createdBy: 1, date: -1 })
+
+// Branch views and per-branch comparison
+IncomeRecordSchema.index({ organization: 1, branch: 1, date: -1 })
+
+// Kitchen screen: recent orders with items still to prepare or serve
+IncomeRecordSchema.index({ organization: 1, "items.prepStatus": 1, date: -1 })
+
+// Cash drawer: orders settled during a session
+IncomeRecordSchema.index({ organization: 1, paidAt: 1 })
+
 export default models.IncomeRecord || mongoose.model<IIncomeRecord>("IncomeRecord", IncomeRecordSchema)
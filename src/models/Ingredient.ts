@@ -0,0 +1,31 @@
+// Ingredient Model - Stock-tracked ingredients consumed by menu item recipes
+import mongoose, { Schema, Document, models } from "mongoose";
+
+// Ingredient - A stock item measured in a single unit
+export interface IIngredient extends Document {
+  name: string
+  unit: "g" | "kg" | "ml" | "l" | "pcs"
+  currentQuantity: number
+  lowStockThreshold: number
+  organization: mongoose.Types.ObjectId
+  createdBy: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const IngredientSchema = new Schema<IIngredient>(
+  {
+    name: { type: String, required: true, trim: true },
+    unit: { type: String, enum: ["g", "kg", "ml", "l", "pcs"], required: true },
+    // Can go negative when sales are recorded before a restock is entered
+    currentQuantity: { type: Number, required: true, default: 0 },
+    lowStockThreshold: { type: Number, min: 0, default: 0 },
+    organization: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  },
+  { timestamps: true },
+)
+
+IngredientSchema.index({ organization: 1, name: 1 }, { unique: true })
+
+export default models.Ingredient || mongoose.model<IIngredient>("Ingredient", IngredientSchema)
@@ -0,0 +1,20 @@
+// Invoice Counter Model - Last issued invoice number per organization and numbering series
+import mongoose, { Schema, Document, models } from "mongoose";
+
+// InvoiceCounter - One document per series (e.g. a year), incremented atomically
+export interface IInvoiceCounter extends Document {
+  organization: mongoose.Types.ObjectId
+  series: string
+  seq: number
+}
+
+const InvoiceCounterSchema = new Schema<IInvoiceCounter>({
+  organization: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+  // Empty when numbering never resets
+  series: { type: String, default: "" },
+  seq: { type: Number, required: true, default: 0 },
+})
+
+InvoiceCounterSchema.index({ organization: 1, series: 1 }, { unique: true })
+
+export default models.InvoiceCounter || mongoose.model<IInvoiceCounter>("InvoiceCounter", InvoiceCounterSchema)
@@ -1,6 +1,32 @@
 // Menu Item Model - Menu items with categories, prices, and availability
 import mongoose, { Schema, Document, models } from "mongoose";
 
+// Recipe line - Quantity of an ingredient used to prepare one unit of a menu item
+export interface IRecipeLine {
+  ingredient: mongoose.Types.ObjectId
+  quantity: number
+}
+
+// Variant - Size or other version of a menu item with its own price
+export interface IMenuVariant {
+  name: string
+  price: number
+}
+
+// Modifier option - Choice within a modifier group, adding its price delta to the item
+export interface IModifierOption {
+  name: string
+  priceDelta: number
+}
+
+// Modifier group - Choices such as milk type or extras, with how many must and may be picked
+export interface IModifierGroup {
+  name: string
+  minSelect: number
+  maxSelect: number
+  options: IModifierOption[]
+}
+
 // MenuItem - Menu items that can be ordered
 export interface IMenuItem extends Document {
   name: string
@@ -9,12 +35,50 @@ export interface IMenuItem extends Document {
   category: string
   isAvailable: boolean
   image?: string
+  recipe: IRecipeLine[]
+  variants: IMenuVariant[]
+  modifierGroups: IModifierGroup[]
+  outOfStock: boolean
   createdBy: object
   organization: mongoose.Types.ObjectId
   createdAt: Date
   updatedAt: Date
 }
 
+const RecipeLineSchema = new Schema<IRecipeLine>(
+  {
+    ingredient: { type: Schema.Types.ObjectId, ref: "Ingredient", required: true },
+    quantity: { type: Number, required: true, min: 0 },
+  },
+  { _id: false },
+)
+
+const MenuVariantSchema = new Schema<IMenuVariant>(
+  {
+    name: { type: String, required: true, trim: true },
+    price: { type: Number, required: true, min: 0 },
+  },
+  { _id: false },
+)
+
+const ModifierOptionSchema = new Schema<IModifierOption>(
+  {
+    name: { type: String, required: true, trim: true },
+    priceDelta: { type: Number, default: 0 },
+  },
+  { _id: false },
+)
+
+const ModifierGroupSchema = new Schema<IModifierGroup>(
+  {
+    name: { type: String, required: true, trim: true },
+    minSelect: { type: Number, default: 0, min: 0 },
+    maxSelect: { type: Number, default: 1, min: 1 },
+    options: { type: [ModifierOptionSchema], default: [] },
+  },
+  { _id: false },
+)
+
 const MenuItemSchema = new Schema<IMenuItem>(
   {
     name: { type: String, required: true, trim: true },
@@ -23,6 +87,12 @@ const MenuItemSchema = new Schema<IMenuItem>(
     category: { type: String, required: true, trim: true },
     isAvailable: { type: Boolean, default: true },
     image: { type: String },
+    recipe: { type: [RecipeLineSchema], default: [] },
+    // When set, the item is ordered as one of these and the base price is not used
+    variants: { type: [MenuVariantSchema], default: [] },
+    modifierGroups: { type: [ModifierGroupSchema], default: [] },
+    // Set when availability was switched off automatically because an ingredient ran out
+    outOfStock: { type: Boolean, default: false },
     createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
     organization: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
   },
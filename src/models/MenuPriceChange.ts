@@ -0,0 +1,36 @@
+// MenuPriceChange Model - Price history of menu items, including changes scheduled for a later date
+import mongoose, { Schema, Document, models } from "mongoose";
+
+// MenuPriceChange - One change to a menu item's base price; applied ones form its price history
+export interface IMenuPriceChange extends Document {
+  menuItem: mongoose.Types.ObjectId
+  price: number
+  // The price it replaced, set when the change is applied
+  previousPrice?: number
+  effectiveAt: Date
+  status: "scheduled" | "applied" | "cancelled"
+  appliedAt?: Date
+  organization: mongoose.Types.ObjectId
+  createdBy: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const MenuPriceChangeSchema = new Schema<IMenuPriceChange>(
+  {
+    menuItem: { type: Schema.Types.ObjectId, ref: "MenuItem", required: true },
+    price: { type: Number, required: true, min: 0 },
+    previousPrice: { type: Number, min: 0 },
+    effectiveAt: { type: Date, required: true },
+    status: { type: String, enum: ["scheduled", "applied", "cancelled"], default: "scheduled" },
+    appliedAt: { type: Date },
+    organization: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  },
+  { timestamps: true },
+)
+
+MenuPriceChangeSchema.index({ organization: 1, menuItem: 1, effectiveAt: 1 })
+MenuPriceChangeSchema.index({ organization: 1, status: 1, effectiveAt: 1 })
+
+export default models.MenuPriceChange || mongoose.model<IMenuPriceChange>("MenuPriceChange", MenuPriceChangeSchema)
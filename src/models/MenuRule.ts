@@ -0,0 +1,44 @@
+// MenuRule Model - Time windows that limit when menu items are sold or discount their price
+import mongoose, { Schema, Document, models } from "mongoose";
+
+// MenuRule - A weekly time window over some items and categories, e.g. breakfast 07:00-11:00 or happy hour
+export interface IMenuRule extends Document {
+  name: string
+  type: "availability" | "price"
+  // The rule covers these items plus every item in these categories
+  menuItems: mongoose.Types.ObjectId[]
+  categories: string[]
+  // Days of the week (0 = Sunday); empty means every day
+  days: number[]
+  startTime: string
+  endTime: string
+  discountPercent?: number
+  isActive: boolean
+  organization: mongoose.Types.ObjectId
+  createdBy: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const MenuRuleSchema = new Schema<IMenuRule>(
+  {
+    name: { type: String, required: true, trim: true },
+    type: { type: String, enum: ["availability", "price"], required: true },
+    menuItems: [{ type: Schema.Types.ObjectId, ref: "MenuItem" }],
+    categories: { type: [String], default: [] },
+    days: { type: [Number], default: [] },
+    // "HH:mm"; an end before the start runs past midnight
+    startTime: { type: String, required: true },
+    endTime: { type: String, required: true },
+    // Price rules only: percentage taken off the price while the window is open
+    discountPercent: { type: Number, min: 0, max: 100 },
+    isActive: { type: Boolean, default: true },
+    organization: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  },
+  { timestamps: true },
+)
+
+MenuRuleSchema.index({ organization: 1, type: 1 })
+
+export default models.MenuRule || mongoose.model<IMenuRule>("MenuRule", MenuRuleSchema)
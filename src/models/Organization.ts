@@ -1,5 +1,8 @@
 // Organization Model - Multi-tenant organizations with user associations
 import mongoose, { Schema, Document, models } from "mongoose";
+import type { TaxSettings } from "@/lib/tax";
+import type { InvoiceSettings } from "@/lib/invoice";
+import type { RoleDefinition } from "@/lib/permissions";
 
 // Organization - Multi-tenant organizations
 export interface IOrg extends Document {
@@ -10,11 +13,46 @@ export interface IOrg extends Document {
   phone?: string
   email?: string
   taxId?: string
+  taxSettings: TaxSettings
+  invoiceSettings: InvoiceSettings
+  // IANA time zone menu schedules and happy hours run in, e.g. "Asia/Kathmandu"
+  timeZone?: string
+  // Changes to the built-in roles and any custom roles; admins always hold every permission
+  roles: RoleDefinition[]
   isActive: boolean
   createdAt: Date
   updatedAt: Date
 }
 
+const TaxSettingsSchema = new Schema<TaxSettings>(
+  {
+    vatRate: { type: Number, min: 0, max: 100, default: 0 },
+    serviceChargeRate: { type: Number, min: 0, max: 100, default: 0 },
+    pricesIncludeTax: { type: Boolean, default: false },
+    exemptCategories: { type: [String], default: [] },
+  },
+  { _id: false },
+)
+
+const InvoiceSettingsSchema = new Schema<InvoiceSettings>(
+  {
+    prefix: { type: String, trim: true, maxlength: 10, default: "INV" },
+    resetPeriod: { type: String, enum: ["never", "yearly", "fiscal"], default: "yearly" },
+    // Month (1-12) the fiscal year starts in
+    fiscalYearStartMonth: { type: Number, min: 1, max: 12, default: 4 },
+  },
+  { _id: false },
+)
+
+const RoleSchema = new Schema<RoleDefinition>(
+  {
+    key: { type: String, required: true, trim: true },
+    name: { type: String, required: true, trim: true },
+    permissions: { type: [String], default: [] },
+  },
+  { _id: false },
+)
+
 const OrganizationSchema = new Schema<IOrg>({
   name: { type: String, required: true },
   shortName: String,
@@ -23,6 +61,10 @@ const OrganizationSchema = new Schema<IOrg>({
   phone: String,
   email: String,
   taxId: String,
+  taxSettings: { type: TaxSettingsSchema, default: () => ({}) },
+  invoiceSettings: { type: InvoiceSettingsSchema, default: () => ({}) },
+  timeZone: { type: String, trim: true },
+  roles: { type: [RoleSchema], default: [] },
   isActive: { type: Boolean, default: true },
 }, { timestamps: true })
 
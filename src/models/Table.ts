@@ -0,0 +1,37 @@
+// Table Model - Dining tables on the restaurant floor and their open tabs
+import mongoose, { Schema, Document, models } from "mongoose";
+
+// Table - A dining table; occupied while it has an open (pending) order
+export interface ITable extends Document {
+  name: string
+  area: string
+  seats: number
+  status: "free" | "occupied" | "reserved"
+  currentOrder?: mongoose.Types.ObjectId | null
+  branch?: mongoose.Types.ObjectId
+  organization: mongoose.Types.ObjectId
+  createdBy: mongoose.Types.ObjectId
+  createdAt: Date
+  updatedAt: Date
+}
+
+const TableSchema = new Schema<ITable>(
+  {
+    name: { type: String, required: true, trim: true },
+    area: { type: String, trim: true, default: "" },
+    seats: { type: Number, required: true, min: 1, default: 4 },
+    status: { type: String, enum: ["free", "occupied", "reserved"], default: "free" },
+    // The pending order running on this table
+    currentOrder: { type: Schema.Types.ObjectId, ref: "IncomeRecord", default: null },
+    // Unset for tables from before the organization had branches
+    branch: { type: Schema.Types.ObjectId, ref: "Branch" },
+    organization: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
+    createdBy: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  },
+  { timestamps: true },
+)
+
+// Names are unique within a branch's floor
+TableSchema.index({ organization: 1, branch: 1, name: 1 }, { unique: true })
+
+export default models.Table || mongoose.model<ITable>("Table", TableSchema)
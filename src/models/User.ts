@@ -7,7 +7,10 @@ export interface IUser extends Document {
   password: string
   name: string
   organization: mongoose.Types.ObjectId
-  role: "admin" | "manager" | "staff"
+  // Key of a built-in or organization-defined role
+  role: string
+  // Branches the user works at; empty means every branch
+  branches: mongoose.Types.ObjectId[]
   superAdmin?: boolean
   createdAt: Date
   updatedAt: Date
@@ -18,7 +21,8 @@ const UserSchema = new Schema<IUser>({
   password: { type: String, required: true },
   name: { type: String, required: true },
   organization: { type: Schema.Types.ObjectId, ref: "Organization", required: true },
-  role: { type: String, enum: ["admin", "manager", "staff"], default: "staff" },
+  role: { type: String, required: true, trim: true, default: "staff" },
+  branches: [{ type: Schema.Types.ObjectId, ref: "Branch" }],
   superAdmin: { type: Boolean, default: false },
 }, { timestamps: true })
 
@@ -0,0 +1,22 @@
+// Test Auth - Stands in for @/lib/auth so server actions run as a chosen user:
+// vi.mock("@/lib/auth", () => import("@/test/auth"))
+import type { Session } from "next-auth"
+import { hasPermission, type Permission } from "@/lib/permissions"
+
+let signedIn: Session["user"] | null = null
+
+export const authOptions = {}
+
+export function signInAs(user: Session["user"] | null) {
+  signedIn = user
+}
+
+export async function requireAuth(permission?: Permission) {
+  if (!signedIn) {
+    throw new Error("Unauthorized")
+  }
+  if (permission && !hasPermission(signedIn.permissions, permission)) {
+    throw new Error("Insufficient permissions")
+  }
+  return { user: signedIn, expires: "" } as Session
+}
@@ -0,0 +1,63 @@
+// Test Fixtures - Two organizations, each with an admin and one document per resource, to check tenants stay apart
+import mongoose from "mongoose"
+import type { Session } from "next-auth"
+import dbConnect from "@/lib/db"
+import { ALL_PERMISSIONS } from "@/lib/permissions"
+import { USER_ROLE } from "@/lib/constants"
+import Organization, { type IOrg } from "@/models/Organization"
+import DueAccount from "@/models/DueAccount"
+import IncomeRecord from "@/models/IncomeRecord"
+import MenuItem from "@/models/MenuItem"
+
+export type Tenant = Awaited<ReturnType<typeof seedTenant>>
+
+/** Empties the test database and seeds it with two organizations */
+export async function seedOrganizations() {
+  await dbConnect()
+  await mongoose.connection.dropDatabase()
+  // Transactions can't create collections on older servers, so every model's collection exists up front
+  await Promise.all(mongoose.modelNames().map((name) => mongoose.model(name).createCollection()))
+
+  const [orgA, orgB] = await Organization.create([{ name: "Organization A" }, { name: "Organization B" }])
+  return { orgA: await seedTenant(orgA), orgB: await seedTenant(orgB) }
+}
+
+async function seedTenant(org: IOrg) {
+  const organization = org._id as mongoose.Types.ObjectId
+  const userId = new mongoose.Types.ObjectId()
+
+  const menuItem = await MenuItem.create({
+    name: `${org.name} Momo`,
+    category: "Food",
+    price: 200,
+    organization,
+    createdBy: userId,
+  })
+  const dueAccount = await DueAccount.create({ customerName: `${org.name} Customer`, organization, createdBy: userId })
+  const incomeRecord = await IncomeRecord.create({
+    items: [{ name: menuItem.name, quantity: 1, price: 200, menuItemId: menuItem._id }],
+    subtotal: 200,
+    discount: 0,
+    tip: 0,
+    totalAmount: 200,
+    paymentMethod: "cash",
+    paymentStatus: "completed",
+    date: new Date(),
+    organization,
+    createdBy: userId,
+  })
+
+  const user: Session["user"] = {
+    id: String(userId),
+    name: `${org.name} Admin`,
+    role: USER_ROLE.ADMIN,
+    organization: String(organization),
+    organizationName: org.name,
+    superAdmin: false,
+    permissions: ALL_PERMISSIONS,
+    branches: [],
+    branch: null,
+  }
+
+  return { organization: String(organization), user, menuItem, dueAccount, incomeRecord }
+}
@@ -0,0 +1,22 @@
+// Test Setup - Starts an in-memory MongoDB for the test run, as a replica set since server actions write in transactions
+import { MongoMemoryReplSet } from "mongodb-memory-server-core"
+import type { TestProject } from "vitest/node"
+
+declare module "vitest" {
+  export interface ProvidedContext {
+    mongoUri: string
+  }
+}
+
+/**
+ * The MongoDB binary is downloaded on first use; where that isn't possible, MONGOMS_SYSTEM_BINARY
+ * can point at a local mongod instead.
+ */
+export default async function setup(project: TestProject) {
+  const replSet = await MongoMemoryReplSet.create({ replSet: { count: 1, storageEngine: "wiredTiger" } })
+  project.provide("mongoUri", replSet.getUri("resturantfin-test"))
+
+  return async () => {
+    await replSet.stop()
+  }
+}
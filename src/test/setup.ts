@@ -0,0 +1,14 @@
+// Test Setup - Runs before each test file: points the app at the test database and stubs Next.js request APIs
+import { afterAll, inject, vi } from "vitest"
+import mongoose from "mongoose"
+
+// Read by the db module when it's first imported, which is after this runs
+process.env.MONGODB_URI = inject("mongoUri")
+
+// Server actions revalidate pages, which needs a Next.js request
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }))
+
+afterAll(async () => {
+  await mongoose.disconnect()
+  global.mongooseCache = { conn: null, promise: null }
+})
@@ -1,14 +1,32 @@
 // Application type definitions
+import type { TaxLine, TaxSettings } from "@/lib/tax"
+import type { InvoiceSettings } from "@/lib/invoice"
+import type { RoleDefinition } from "@/lib/permissions"
+import type { MenuImportAction, MenuRuleType, PrepStatus, VoidStatus } from "@/lib/constants"
+import type { MenuRuleWindow } from "@/lib/menu-rules"
+
 // Income/sales record
 export interface IncomeRecord {
   _id: string
+  invoiceNumber?: string
   items: Array<{
+    _id?: string
     name: string
     quantity: number
     price: number
+    category?: string
+    menuItemId?: string
+    variant?: string
+    modifiers?: OrderItemModifier[]
+    priceRule?: { name: string; discountPercent: number }
+    prepStatus?: PrepStatus
+    prepUpdatedAt?: Date | string
   }>
   totalAmount: number
   subtotal: number
+  taxes?: TaxLine[]
+  taxTotal?: number
+  taxInclusive?: boolean
   discount?: number
   tip?: number
   paymentMethod: "cash" | "digital" | "split"
@@ -16,12 +34,21 @@ export interface IncomeRecord {
   cashAmount?: number
   digitalAmount?: number
   date: Date | string
+  paidAt?: Date | string
   tableNumber?: string
+  table?: string
   customerName?: string
   notes?: string
+  branch?: string
   createdBy: string
   isDueAccount?: boolean
   dueAccountId?: string
+  voidStatus?: VoidStatus
+  voidReason?: string
+  voidRequestedBy?: string
+  voidRequestedAt?: Date | string
+  voidedBy?: string
+  voidedAt?: Date | string
   createdAt: Date | string
   updatedAt: Date | string
   _offline?: boolean
@@ -39,6 +66,18 @@ export interface ExpenseRecord {
   date: Date | string
   receiptNumber?: string
   notes?: string
+  paymentMethod?: "cash" | "digital"
+  restockItems?: Array<{
+    ingredient: string
+    quantity: number
+  }>
+  voidStatus?: VoidStatus
+  voidReason?: string
+  voidRequestedBy?: string
+  voidRequestedAt?: Date | string
+  voidedBy?: string
+  voidedAt?: Date | string
+  branch?: string
   createdBy: string
   createdAt: Date | string
   updatedAt: Date | string
@@ -52,7 +91,8 @@ export interface User {
   _id: string
   name: string
   email: string
-  role: "admin" | "manager" | "staff"
+  role: string
+  branches?: string[]
   isActive: boolean
   createdAt: Date | string
   updatedAt: Date | string
@@ -104,8 +144,31 @@ export interface DueAccount {
 // Payment operation result
 export interface PaymentResult {
   success: boolean
+  paymentId?: string
   paidAmount: number
   remainingPayment: number
+  // Queued while offline; the server allocates it when it syncs
+  offline?: boolean
+}
+
+// Due account payment ledger entry
+export interface DuePayment {
+  _id: string
+  dueAccount: string
+  amount: number
+  paymentMethod: "cash" | "digital"
+  allocations: Array<{
+    order: string
+    amount: number
+    invoiceNumber?: string
+  }>
+  unallocatedAmount: number
+  date: Date | string
+  notes?: string
+  branch?: string
+  receivedBy?: { _id: string; name: string } | string
+  createdAt: Date | string
+  _offline?: boolean
 }
 
 // Due account with orders
@@ -117,10 +180,39 @@ export interface DueAccountSummary {
   totalDueAmount: number
   pendingOrdersCount: number
   lastOrderDate: Date | string
+  lastPaymentDate?: Date | string
   orders: IncomeRecord[]
+  payments?: DuePayment[]
 }
 
 // Menu item
+// Size or other variant of a menu item, priced on its own
+export interface MenuVariant {
+  name: string
+  price: number
+}
+
+// Choice within a modifier group, adding its price delta to the item
+export interface ModifierOption {
+  name: string
+  priceDelta: number
+}
+
+// Set of choices for a menu item (milk type, sugar level, extras) and how many may be picked
+export interface ModifierGroup {
+  name: string
+  minSelect: number
+  maxSelect: number
+  options: ModifierOption[]
+}
+
+// Modifier chosen for an order item
+export interface OrderItemModifier {
+  group: string
+  name: string
+  priceDelta: number
+}
+
 export interface MenuItem {
   _id: string
   name: string
@@ -129,6 +221,18 @@ export interface MenuItem {
   category: string
   isAvailable: boolean
   image?: string
+  variants?: MenuVariant[]
+  modifierGroups?: ModifierGroup[]
+  recipe?: Array<{
+    ingredient: string
+    quantity: number
+  }>
+  outOfStock?: boolean
+  scheduledPrice?: { price: number; effectiveAt: Date | string }
+  // Windows of the menu rules covering the item, and the result of applying them when it was fetched
+  rules?: MenuRuleWindow[]
+  availableNow?: boolean
+  activePriceRule?: { name: string; discountPercent: number }
   createdBy: string
   createdAt: Date | string
   updatedAt: Date | string
@@ -137,6 +241,82 @@ export interface MenuItem {
   _timestamp?: number
 }
 
+// Stock-tracked ingredient
+export interface Ingredient {
+  _id: string
+  name: string
+  unit: "g" | "kg" | "ml" | "l" | "pcs"
+  currentQuantity: number
+  lowStockThreshold: number
+  createdAt: Date | string
+  updatedAt: Date | string
+}
+
+// Dining table; currentOrder is the open tab while the table is occupied
+export interface Table {
+  _id: string
+  name: string
+  area: string
+  seats: number
+  status: "free" | "occupied" | "reserved"
+  currentOrder?: IncomeRecord | null
+  branch?: string
+  createdAt: Date | string
+  updatedAt: Date | string
+}
+
+// Entry in the append-only audit log; changes hold the top-level fields that differ
+export interface AuditEvent {
+  _id: string
+  actor: string
+  actorName: string
+  action: "create" | "update" | "delete" | "payment" | "void" | "restore"
+  entityType: "IncomeRecord" | "ExpenseRecord" | "DueAccount" | "DuePayment"
+  entityId: string
+  changes: { path: string; before?: unknown; after?: unknown }[]
+  source: "web" | "offline_sync"
+  createdAt: Date | string
+}
+
+// Cash drawer takings for a session; live while open, stored when it closes
+export interface CashSummary {
+  ordersCount: number
+  cashSales: number
+  digitalSales: number
+  dueCashCollections: number
+  dueDigitalCollections: number
+  cashExpenses: number
+  payIns: number
+  payOuts: number
+  expectedCash: number
+}
+
+// Till session from opening float to counted close; variance is counted minus expected
+export interface CashSession {
+  _id: string
+  status: "open" | "closed"
+  openingFloat: number
+  openedBy: { _id: string; name: string }
+  openedAt: Date | string
+  movements: Array<{
+    _id: string
+    type: "pay_in" | "pay_out"
+    amount: number
+    reason: string
+    createdBy: { _id: string; name: string }
+    createdAt: Date | string
+  }>
+  closedBy?: { _id: string; name: string }
+  closedAt?: Date | string
+  countedCash?: number
+  variance?: number
+  summary?: CashSummary
+  notes?: string
+  branch?: string
+  createdAt: Date | string
+  updatedAt: Date | string
+}
+
 // Menu item with sales data (incomeCategory is "Popular" for top items)
 export interface MenuItemWithSales {
   _id: string
@@ -146,9 +326,106 @@ export interface MenuItemWithSales {
   price: number
   image: string
   isAvailable: boolean
+  outOfStock?: boolean
+  recipe?: Array<{
+    ingredient: string
+    quantity: number
+  }>
+  variants: MenuVariant[]
+  modifierGroups: ModifierGroup[]
+  // The next price change scheduled for the item
+  scheduledPrice?: { price: number; effectiveAt: Date | string }
+  rules: MenuRuleWindow[]
+  // Whether it's switched on and inside its availability windows right now
+  availableNow: boolean
+  activePriceRule?: { name: string; discountPercent: number }
   totalSold: number
 }
 
+// A change to a menu item's base price; scheduled ones take effect on their effective date
+export interface MenuPriceChange {
+  _id: string
+  menuItem: string
+  price: number
+  previousPrice?: number
+  effectiveAt: Date | string
+  status: "scheduled" | "applied" | "cancelled"
+  appliedAt?: Date | string
+  createdBy?: { _id: string; name: string }
+  createdAt: Date | string
+}
+
+// A menu item's price changes alongside how much of it sold each day
+export interface MenuPriceTimeline {
+  changes: MenuPriceChange[]
+  dailySales: Array<{
+    date: string
+    quantity: number
+    revenue: number
+  }>
+}
+
+// Weekly window limiting when items are sold (availability) or discounting them (price)
+export interface MenuRule {
+  _id: string
+  name: string
+  type: MenuRuleType
+  menuItems: string[]
+  categories: string[]
+  days: number[]
+  startTime: string
+  endTime: string
+  discountPercent?: number
+  isActive: boolean
+  createdAt: Date | string
+  updatedAt: Date | string
+}
+
+// What a menu import does, or would do, with one row of the file
+export interface MenuImportResult {
+  // Position of the item in the file, counting from 1
+  row: number
+  name: string
+  action: MenuImportAction
+  menuItemId?: string
+  changes?: Array<{ field: string; from: unknown; to: unknown }>
+  errors?: string[]
+}
+
+// Past order lines sharing a name that couldn't be linked to a menu item automatically
+export interface UnlinkedOrderLine {
+  key: string
+  name: string
+  lineCount: number
+  quantity: number
+  lastSold: Date | string
+  // Menu items the lines might be: every item with the same name, or items with a similar one
+  candidates: Array<{ _id: string; name: string }>
+}
+
+// Outlet of an organization
+export interface Branch {
+  _id: string
+  name: string
+  code?: string
+  address?: string
+  phone?: string
+  isActive: boolean
+  createdAt: Date | string
+  updatedAt: Date | string
+}
+
+// Income, expenses and profit of one branch, for comparing branches
+export interface BranchSummary {
+  // Null for records from before the organization had branches
+  branchId: string | null
+  name: string
+  income: number
+  expenses: number
+  profit: number
+  orders: number
+}
+
 // Organization (tenant)
 export interface Organization {
   _id: string
@@ -159,6 +436,10 @@ export interface Organization {
   phone?: string
   email?: string
   taxId?: string
+  taxSettings?: TaxSettings
+  invoiceSettings?: InvoiceSettings
+  timeZone?: string
+  roles?: RoleDefinition[]
   isActive: boolean
   createdAt: Date
   updatedAt: Date